@@ -1,18 +1,31 @@
 "use server";
 
-import { redirect } from "next/navigation";
-import { getOrCreateAnonymousCart } from "@/lib/anonymous-cart";
+import { redirect, unstable_rethrow } from "next/navigation";
+import { getCartOwner, getInventoryHolder } from "@/lib/cart-session";
 import type { Address } from "@/lib/types";
-import { createClient } from "@/utils/supabase/client";
-import { env } from "@/lib/env-validation";
+import { ERROR_MESSAGES } from "@/lib/constants";
+import {
+  InventoryError,
+  OrderPlacementError,
+  PricingError,
+} from "@/lib/errors";
+import {
+  orderFromPricing,
+  placeOrder,
+  type PlacedOrder,
+} from "@/lib/order-placement";
+import { recordOrderPlaced } from "@/lib/journeys";
+import { createTrackingUrl } from "@/lib/order-tracking";
+import { confirmPriceQuote, type ConfirmedPricing } from "@/lib/pricing";
+import {
+  createDraftOrder,
+  quotedDraftOrderFields,
+} from "@/lib/shopify-draft-orders";
 import { logger } from "@/lib/utils/logger";
+import type { PricingItem } from "@/lib/utils/pricing-utils";
+import { emailAddressSchema, idempotencyKeySchema } from "@/lib/validations";
 
-export interface CheckoutItem {
-  productId: string;
-  variantId: string;
-  quantity: number;
-  price: number;
-}
+export type CheckoutItem = PricingItem;
 
 export interface CheckoutCustomer {
   email: string;
@@ -22,222 +35,150 @@ export interface CheckoutCustomer {
   phone?: string;
 }
 
-export interface CheckoutTotals {
-  subtotal: number;
-  shipping: number;
-  tax: number;
-  total: number;
-}
-
 export interface CheckoutData {
   items: CheckoutItem[];
   customer: CheckoutCustomer;
-  totals: CheckoutTotals;
+  /** Token of the price quote shown to the customer */
+  quoteToken: string;
+  /** One per checkout attempt, so a resubmit can't place a second order */
+  idempotencyKey: string;
 }
 
-export async function handleCheckout(data: CheckoutData, sessionId: string) {
-  try {
-    const supabase = await createClient();
-
-    const { id: anonymousCartId } = await getOrCreateAnonymousCart(sessionId);
+export async function handleCheckout(data: CheckoutData) {
+  if (!idempotencyKeySchema.safeParse(data.idempotencyKey).success) {
+    return { success: false, error: "Invalid checkout request. Please reload the page" };
+  }
+  // The email goes on the order and into the headers of its emails
+  if (!emailAddressSchema.safeParse(data.customer.email).success) {
+    return { success: false, error: ERROR_MESSAGES.INVALID_EMAIL };
+  }
 
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+  try {
+    // Resolving the owner also merges a guest cart left from before sign-in
+    const owner = await getCartOwner();
 
-    if (!user) {
+    if (owner?.type !== "customer") {
       return { success: false, error: "User is not authenticated" };
     }
 
-    const userId = user.id;
+    const userId = owner.userId;
 
-    // Create order in database
-    const { data: order, error: orderError } = await supabase
-      .from("orders")
-      .insert({
-        user_id: userId,
-        anonymous_cart_id: anonymousCartId,
-        status: "Pending",
-        total: data.totals.total,
-        shipping_address: {
-          name: `${data.customer.firstName} ${data.customer.lastName}`,
-          address: data.customer.address.address1,
-          city: data.customer.address.city,
-          state: data.customer.address.province || "",
-          postal_code: data.customer.address.zip || "",
+    // Totals are never taken from the browser: re-price and hold the
+    // customer to the quote they saw
+    let pricing: ConfirmedPricing;
+    try {
+      pricing = await confirmPriceQuote(data.items, data.quoteToken, {
+        destination: {
           country: data.customer.address.country,
-          phone: data.customer.phone || "",
+          province: data.customer.address.province,
         },
-        billing_address: {
-          name: `${data.customer.firstName} ${data.customer.lastName}`,
-          address: data.customer.address.address1,
-          city: data.customer.address.city,
-          state: data.customer.address.province || "",
-          postal_code: data.customer.address.zip || "",
-          country: data.customer.address.country,
-          phone: data.customer.phone || "",
-        },
-      })
-      .select()
-      .single();
-
-    if (orderError) {
-      console.error("Order creation error:", orderError);
-      return { success: false, error: "Failed to create order" };
-    }
-
-    // Create order items
-    const orderItems = data.items.map((item) => ({
-      order_id: order.id,
-      product_id: item.productId,
-      variant_id: item.variantId,
-      quantity: item.quantity,
-      price: item.price,
-    }));
-
-    const { error: itemsError } = await supabase
-      .from("order_items")
-      .insert(orderItems);
-
-    if (itemsError) {
-      console.error("Order items creation error:", itemsError);
-      return { success: false, error: "Failed to create order items" };
+        email: data.customer.email,
+      });
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return { success: false, error: error.message, code: error.code };
+      }
+      throw error;
     }
 
-    // Clear user's cart
-    if (userId) {
-      const { data: cartData } = await supabase
-        .from("carts")
-        .select("id")
-        .eq("user_id", userId)
-        .single();
-
-      if (cartData) {
-        const { error: cartError } = await supabase
-          .from("cart_items")
-          .delete()
-          .eq("cart_id", cartData.id);
+    // The order, its items, promotions and the emptied cart are written
+    // together; a retry of this attempt gets the order it already placed
+    const address = {
+      name: `${data.customer.firstName} ${data.customer.lastName}`,
+      address: data.customer.address.address1,
+      city: data.customer.address.city,
+      state: data.customer.address.province || "",
+      postal_code: data.customer.address.zip || "",
+      country: data.customer.address.country,
+      phone: data.customer.phone || "",
+    };
 
-        if (cartError) {
-          console.error("Cart clearing error:", cartError);
+    let order: PlacedOrder;
+    try {
+      order = await placeOrder(
+        data.idempotencyKey,
+        { userId, inventoryHolder: getInventoryHolder(owner) },
+        {
+          ...orderFromPricing(pricing),
+          email: data.customer.email,
+          shippingAddress: address,
+          billingAddress: address,
         }
+      );
+    } catch (error) {
+      if (error instanceof InventoryError) {
+        return {
+          success: false,
+          error: error.message,
+          code: error.code,
+          issues: error.issues,
+        };
       }
-    } else if (anonymousCartId) {
-      const { error: cartError } = await supabase
-        .from("anonymous_cart_items")
-        .delete()
-        .eq("cart_id", anonymousCartId);
-
-      if (cartError) {
-        console.error("Anonymous cart clearing error:", cartError);
+      if (error instanceof PricingError || error instanceof OrderPlacementError) {
+        return { success: false, error: error.message, code: error.code };
       }
+      throw error;
+    }
+
+    if (order.created) {
+      // Logged by recordJourneyStep; tracking never fails the checkout
+      await recordOrderPlaced(order.id, pricing.totals.total, userId).catch(
+        () => undefined
+      );
     }
 
-    // If Shopify integration is enabled, create draft order
-    if (process.env.SHOPIFY_SHOP && process.env.SHOPIFY_ACCESS_TOKEN) {
+    // If Shopify integration is enabled, create draft order (once: a replayed
+    // attempt already created it). Its money fields come from the quote this
+    // order was placed at, not a second pricing run: the order has already
+    // used up its once-per-customer promotions.
+    let invoiceUrl: string | undefined;
+    if (order.created && process.env.SHOPIFY_SHOP && process.env.SHOPIFY_ACCESS_TOKEN) {
+      const shopifyAddress = {
+        first_name: data.customer.firstName,
+        last_name: data.customer.lastName,
+        address1: data.customer.address.address1,
+        city: data.customer.address.city,
+        zip: data.customer.address.zip || "",
+        province: data.customer.address.province || "",
+        country: data.customer.address.country,
+        phone: data.customer.phone || "",
+      };
       try {
-        const shopifyData = {
-          draft_order: {
-            line_items: data.items.map((item) => ({
-              title: `Product ${item.productId}`,
-              price: item.price.toFixed(2),
-              quantity: item.quantity,
-              variant_id: item.variantId,
-            })),
-            customer: {
-              email: data.customer.email,
-              first_name: data.customer.firstName,
-              last_name: data.customer.lastName,
-              phone: data.customer.phone || "",
-              addresses: [
-                {
-                  first_name: data.customer.firstName,
-                  last_name: data.customer.lastName,
-                  address1: data.customer.address.address1,
-                  city: data.customer.address.city,
-                  zip: data.customer.address.zip || "",
-                  province: data.customer.address.province || "",
-                  country: data.customer.address.country,
-                  phone: data.customer.phone || "",
-                },
-              ],
-            },
-            shipping_address: {
-              first_name: data.customer.firstName,
-              last_name: data.customer.lastName,
-              address1: data.customer.address.address1,
-              city: data.customer.address.city,
-              zip: data.customer.address.zip || "",
-              province: data.customer.address.province || "",
-              country: data.customer.address.country,
-              phone: data.customer.phone || "",
-            },
-            billing_address: {
-              first_name: data.customer.firstName,
-              last_name: data.customer.lastName,
-              address1: data.customer.address.address1,
-              city: data.customer.address.city,
-              zip: data.customer.address.zip || "",
-              province: data.customer.address.province || "",
-              country: data.customer.address.country,
-              phone: data.customer.phone || "",
-            },
-            use_customer_default_address: false,
-            note: `Order #${order.id}`,
-            tags: "online-store",
+        const draftOrder = await createDraftOrder({
+          ...quotedDraftOrderFields(pricing),
+          customer: {
+            email: data.customer.email,
+            first_name: data.customer.firstName,
+            last_name: data.customer.lastName,
+            phone: data.customer.phone || "",
           },
-        };
-
-        // Call the draft order API endpoint
-        const response = await fetch(
-          `${env.NEXT_PUBLIC_SITE_URL}/api/draft-orders`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              lineItems: shopifyData.draft_order.line_items.map(
-                (item, index) => ({
-                  title: item.title,
-                  variantId: item.variant_id,
-                  productId: data.items[index]?.productId || "",
-                  quantity: item.quantity,
-                  price: item.price?.toString(),
-                })
-              ),
-              customerEmail: shopifyData.draft_order.customer?.email,
-              customerFirstName: shopifyData.draft_order.customer?.first_name,
-              customerLastName: shopifyData.draft_order.customer?.last_name,
-              customerPhone: shopifyData.draft_order.customer?.phone,
-              shippingAddress: shopifyData.draft_order.shipping_address,
-              billingAddress: shopifyData.draft_order.billing_address,
-              note: shopifyData.draft_order.note,
-              tags: shopifyData.draft_order.tags,
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error(`Draft order API returned ${response.status}`);
-        }
-
-        const result = await response.json();
-
-        if (result.success && result.draftOrder?.invoiceUrl) {
-          redirect(result.draftOrder.invoiceUrl);
-        }
+          email: data.customer.email,
+          shipping_address: shopifyAddress,
+          billing_address: shopifyAddress,
+          use_customer_default_address: false,
+          note: `Order #${order.id}`,
+          tags: "online-store",
+        });
+        invoiceUrl = draftOrder?.invoiceUrl;
       } catch (shopifyError) {
-        logger.error("Shopify integration error", shopifyError);
+        logger.error("Shopify integration error", shopifyError, { orderId: order.id });
       }
     }
+    if (invoiceUrl) {
+      redirect(invoiceUrl);
+    }
 
     return {
       success: true,
       orderId: order.id,
+      orderNumber: order.orderNumber,
+      // Included in the confirmation email so guests can track without signing in
+      trackingUrl: createTrackingUrl(order.id),
       message: "Order created successfully",
     };
   } catch (error) {
+    // Let the redirect to the Shopify invoice through
+    unstable_rethrow(error);
     logger.error("Checkout error", error);
     return {
       success: false,
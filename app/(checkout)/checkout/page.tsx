@@ -20,28 +20,40 @@ import { useEffect, useState } from "react";
 import { AddressInput } from "@blocks/checkout/address-input";
 import { CountrySelector } from "@blocks/checkout/country-selector";
 import { PhoneInput } from "@blocks/checkout/phone-input";
+import { DiscountCodeForm } from "@blocks/cart/discount-code-form";
+import { QuoteSummary } from "@blocks/cart/quote-summary";
+import { StockNotice } from "@blocks/cart/stock-notice";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { useAnonymousCart } from "@/hooks/useAnonymousCart";
 import { useAuth } from "@/contexts/auth-context";
 import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
 import { useFormValidation } from "@/hooks/use-form-validation";
+import { useInventoryHold } from "@/hooks/use-inventory";
+import { usePriceQuote } from "@/hooks/use-price-quote";
+import { track } from "@/lib/analytics";
 import { getProductPlaceholder } from "@/lib/placeholder";
 import { cn, formatPrice } from "@/lib/utils";
+import { displayLineTotal } from "@/lib/utils/pricing-utils";
+import { formatDeliveryEstimate } from "@/lib/utils/shipping-utils";
 import { checkoutSchema } from "@/lib/validations";
 import { handleCheckout } from "./actions";
 
 export default function CheckoutPage() {
 	const router = useRouter();
-	const { items, getTotalPrice, clearCart } = useCart();
+	const { items, clearCart, discountCode, setDiscountCode } = useCart();
 	const { user } = useAuth();
-	const { sessionId } = useAnonymousCart();
+	const { currency, convertCatalogPrice } = useCurrency();
 	const [isProcessing, setIsProcessing] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [phoneValid, setPhoneValid] = useState(false);
+	const [shippingMethod, setShippingMethod] = useState<string>();
+	// Resubmitting this checkout (double click, retry after a network error)
+	// returns the order it already placed
+	const [idempotencyKey] = useState(() => crypto.randomUUID());
 	const { formData, setFieldValue, validationState } = useFormValidation({
 		initialData: {
 			email: user?.email || "",
@@ -58,10 +70,26 @@ export default function CheckoutPage() {
 		},
 	});
 
-	const totalPrice = getTotalPrice();
-	const shipping = totalPrice > 50 ? 0 : 9.99;
-	const tax = totalPrice * 0.08;
-	const finalTotal = totalPrice + shipping + tax;
+	const {
+		quote,
+		isLoading: isPricing,
+		error: pricingError,
+		refresh: refreshQuote,
+	} = usePriceQuote(items, {
+		destination: {
+			country: formData.address?.country || "US",
+			province: formData.address?.province,
+		},
+		shippingMethod,
+		discountCode,
+		// Per-customer promotion limits are checked once the email is complete
+		email: checkoutSchema.shape.email.safeParse(formData.email).success
+			? formData.email
+			: undefined,
+	});
+
+	// Keep the cart's items from selling out while the customer fills the form
+	const stock = useInventoryHold(items);
 
 	// Use stable IDs instead of useId to avoid hydration issues
 	const inputFirstNameId = "checkout-firstname";
@@ -76,6 +104,10 @@ export default function CheckoutPage() {
 		}
 	}, [items, router]);
 
+	useEffect(() => {
+		track({ type: "checkout_step", name: "begin_checkout" });
+	}, []);
+
 	const handleInputChange = (field: string, value: string) => {
 		setFieldValue(field, value);
 		setError(null);
@@ -83,6 +115,7 @@ export default function CheckoutPage() {
 
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
+		if (!quote) return;
 		setIsProcessing(true);
 		setError(null);
 
@@ -96,26 +129,45 @@ export default function CheckoutPage() {
 					productId: item.product.id,
 					variantId: item.variant.id,
 					quantity: item.quantity,
-					price: item.variant.price,
 				})),
 				customer: validatedData,
-				totals: {
-					subtotal: totalPrice,
-					shipping,
-					tax,
-					total: finalTotal,
-				},
+				quoteToken: quote.token,
+				idempotencyKey,
 			};
 
+			track({
+				type: "checkout_step",
+				name: "place_order",
+				properties: {
+					shippingMethod: shippingMethod ?? null,
+					total: quote.totals.total,
+					currency: quote.currency,
+				},
+			});
+
 			// Process checkout
-			const result = await handleCheckout(orderData, sessionId);
+			const result = await handleCheckout(orderData);
 
 			if (result.success) {
+				track({
+					type: "ecommerce",
+					name: "purchase",
+					orderId: result.orderId,
+					properties: { total: quote.totals.total, currency: quote.currency },
+				});
 				// Clear cart and redirect to success page
 				clearCart();
 				router.push(`/checkout/success?order=${result.orderId}`);
 			} else {
 				setError(result.error || "Checkout failed. Please try again.");
+				// Show the current prices before the customer tries again
+				if ("code" in result && result.code === "INSUFFICIENT_STOCK") {
+					stock.refresh();
+				} else if ("code" in result && result.code === "INVENTORY_BUSY") {
+					// Nothing changed; the customer only needs to submit again
+				} else if ("code" in result && result.code) {
+					refreshQuote();
+				}
 			}
 		} catch (err) {
 			if (err instanceof Error) {
@@ -361,27 +413,57 @@ export default function CheckoutPage() {
 								Shipping method
 							</h2>
 							<div className="space-y-3">
-								<div className="flex justify-between items-center bg-gray-50 p-4 border rounded-lg">
-									<div className="flex items-center gap-3">
-										<input
-											type="radio"
-											name="shipping"
-											defaultChecked
-											className="w-4 h-4"
-										/>
-										<Truck className="w-4 h-4 text-gray-600" />
-										<div>
-											<p className="font-medium">Free Shipping</p>
-											<p className="text-gray-600 text-sm">Standard delivery</p>
-										</div>
-									</div>
-									<Badge
-										variant="secondary"
-										className="bg-green-100 text-green-800"
+								{quote?.shippingOptions.map((option) => (
+									<label
+										key={option.id}
+										className={cn(
+											"flex justify-between items-center p-4 border rounded-lg cursor-pointer",
+											option.id === quote.shippingMethod?.id && "bg-gray-50"
+										)}
 									>
-										FREE
-									</Badge>
-								</div>
+										<div className="flex items-center gap-3">
+											<input
+												type="radio"
+												name="shipping"
+												value={option.id}
+												checked={option.id === quote.shippingMethod?.id}
+												onChange={() => setShippingMethod(option.id)}
+												className="w-4 h-4"
+											/>
+											<Truck className="w-4 h-4 text-gray-600" />
+											<div>
+												<p className="font-medium">{option.title}</p>
+												<p className="text-gray-600 text-sm">
+													Estimated delivery {formatDeliveryEstimate(option)}
+												</p>
+											</div>
+										</div>
+										{option.price === 0 ? (
+											<Badge
+												variant="secondary"
+												className="bg-green-100 text-green-800"
+											>
+												FREE
+											</Badge>
+										) : (
+											<span className="font-medium">
+												{formatPrice(option.price, quote?.currency)}
+											</span>
+										)}
+									</label>
+								))}
+								{quote && quote.shippingOptions.length === 0 && (
+									<p className="text-gray-600 text-sm">
+										Nothing in your order needs shipping.
+									</p>
+								)}
+								{!quote && (
+									<p className="text-gray-600 text-sm">
+										{isPricing
+											? "Calculating shipping..."
+											: pricingError || "Enter your address to see shipping options."}
+									</p>
+								)}
 							</div>
 						</div>
 
@@ -457,7 +539,13 @@ export default function CheckoutPage() {
 						<Button
 							onClick={handleSubmit}
 							className="w-full h-12"
-							disabled={isProcessing || (formData.phone ? !phoneValid : false)}
+							disabled={
+								isProcessing ||
+								!quote ||
+								isPricing ||
+								stock.issues.length > 0 ||
+								(formData.phone ? !phoneValid : false)
+							}
 						>
 							{isProcessing ? (
 								<>
@@ -465,7 +553,7 @@ export default function CheckoutPage() {
 									Processing...
 								</>
 							) : (
-								`Complete order - ${formatPrice(finalTotal)}`
+								`Complete order${quote ? ` - ${formatPrice(quote.totals.total, quote.currency)}` : ""}`
 							)}
 						</Button>
 
@@ -521,43 +609,51 @@ export default function CheckoutPage() {
 													Qty: {item.quantity}
 												</span>
 												<span className="font-medium text-sm">
-													{formatPrice(item.variant.price * item.quantity)}
+													{formatPrice(
+														displayLineTotal(quote, item.product.id, item.variant.id) ??
+															convertCatalogPrice(item.variant.price) * item.quantity,
+														currency,
+													)}
 												</span>
 											</div>
+											<StockNotice
+												stock={stock}
+												productId={item.product.id}
+												variantId={item.variant.id}
+												className="mt-1"
+											/>
 										</div>
 									</div>
 								))}
 							</div>
 
+							{stock.expiresAt && stock.issues.length === 0 && (
+								<p className="mb-4 text-gray-600 text-xs">
+									We&apos;re holding your items until{" "}
+									{new Date(stock.expiresAt).toLocaleTimeString([], {
+										hour: "numeric",
+										minute: "2-digit",
+									})}
+								</p>
+							)}
+
+							<Separator className="my-4" />
+
+							<DiscountCodeForm
+								code={discountCode}
+								status={quote?.discountCode ?? null}
+								onChange={setDiscountCode}
+								disabled={isProcessing}
+							/>
+
 							<Separator className="my-4" />
 
 							{/* Totals */}
-							<div className="space-y-3">
-								<div className="flex justify-between text-sm">
-									<span>Subtotal</span>
-									<span>{formatPrice(totalPrice)}</span>
-								</div>
-								<div className="flex justify-between text-sm">
-									<span>Shipping</span>
-									<span>
-										{shipping === 0 ? (
-											<Badge
-												variant="secondary"
-												className="bg-green-100 text-green-800 text-xs"
-											>
-												FREE
-											</Badge>
-										) : (
-											formatPrice(shipping)
-										)}
-									</span>
-								</div>
-								<Separator />
-								<div className="flex justify-between font-semibold text-lg">
-									<span>Total</span>
-									<span>{formatPrice(finalTotal)}</span>
-								</div>
-							</div>
+							<QuoteSummary
+								quote={quote}
+								isLoading={isPricing}
+								error={pricingError}
+							/>
 						</div>
 					</div>
 				</div>
@@ -0,0 +1,116 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { type FunnelSourceReport, getFunnelReport } from "@/lib/data/funnels";
+import { requireInternalUser } from "@/lib/internal-access";
+import { formatPrice } from "@/lib/utils";
+import { FUNNELS, type FunnelName, isFunnelName } from "@/lib/utils/funnel-utils";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Funnels",
+  robots: { index: false, follow: false },
+};
+
+const PERIODS = [7, 30, 90] as const;
+
+interface FunnelsPageProps {
+  searchParams: Promise<{ funnel?: string; days?: string }>;
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function SourceRow({ label, report }: { label: string; report: FunnelSourceReport }) {
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      {report.steps.map((step, index) => (
+        <TableCell key={index}>
+          <div className="font-medium">{step.journeys.toLocaleString()}</div>
+          {index > 0 && (
+            <div className="text-muted-foreground text-xs">{formatRate(step.conversionRate)}</div>
+          )}
+          {step.droppedOff > 0 && (
+            <div className="text-red-600 text-xs">{step.droppedOff.toLocaleString()} dropped</div>
+          )}
+        </TableCell>
+      ))}
+      <TableCell>{formatPrice(report.conversionValue)}</TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Conversion through a funnel's steps per first-touch source and campaign
+ */
+export default async function FunnelsPage({ searchParams }: FunnelsPageProps) {
+  await requireInternalUser();
+  const params = await searchParams;
+
+  const funnel: FunnelName = isFunnelName(params.funnel) ? params.funnel : "purchase_funnel";
+  const days = PERIODS.find((period) => String(period) === params.days) ?? PERIODS[0];
+  const report = await getFunnelReport(funnel, new Date(Date.now() - days * 86_400_000));
+
+  const href = (next: { funnel?: FunnelName; days?: number }) =>
+    `/internal/funnels?funnel=${next.funnel ?? funnel}&days=${next.days ?? days}`;
+
+  return (
+    <div className="mx-auto px-4 py-8 container">
+      <h1 className="mb-2 font-bold text-3xl tracking-tight">Funnels</h1>
+      <p className="mb-8 text-muted-foreground">
+        Journeys started in the period that reached each step, with the share of the first step
+        and how many dropped off there, by first-touch source and campaign.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(Object.keys(FUNNELS) as FunnelName[]).map((name) => (
+          <Link key={name} href={href({ funnel: name })}>
+            <Badge variant={name === funnel ? "default" : "outline"}>{FUNNELS[name].label}</Badge>
+          </Link>
+        ))}
+        {PERIODS.map((period) => (
+          <Link key={period} href={href({ days: period })}>
+            <Badge variant={period === days ? "default" : "outline"}>{period} days</Badge>
+          </Link>
+        ))}
+      </div>
+
+      {report.totals.steps[0].journeys === 0 ? (
+        <p className="text-muted-foreground">No journeys were started in this period.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Source / campaign</TableHead>
+              {FUNNELS[funnel].steps.map((step) => (
+                <TableHead key={step.name}>{step.label}</TableHead>
+              ))}
+              <TableHead>Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <SourceRow label="All sources" report={report.totals} />
+            {report.sources.map((source) => (
+              <SourceRow
+                key={`${source.source}:${source.campaign}`}
+                label={`${source.source ?? "Direct"} / ${source.campaign ?? "-"}`}
+                report={source}
+              />
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  getPerformanceReleases,
+  getRoutePerformance,
+  type PerformanceRelease,
+  type RoutePerformance,
+  type VitalPercentiles,
+} from "@/lib/data/performance";
+import { requireInternalUser } from "@/lib/internal-access";
+import { cn } from "@/lib/utils";
+import {
+  isRegression,
+  rateVital,
+  type VitalRating,
+  WEB_VITALS,
+  type WebVital,
+} from "@/lib/utils/performance-utils";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Performance",
+  robots: { index: false, follow: false },
+};
+
+// Stands in for reports without a release in links
+const UNVERSIONED = "unversioned";
+
+const RATING_CLASSES: Record<VitalRating, string> = {
+  good: "text-green-600",
+  "needs-improvement": "text-yellow-600",
+  poor: "text-red-600",
+};
+
+interface PerformancePageProps {
+  searchParams: Promise<{ release?: string }>;
+}
+
+function releaseKey(release: PerformanceRelease): string {
+  return release.release ?? UNVERSIONED;
+}
+
+function formatVital(vital: WebVital, value: number): string {
+  return vital === "cls" ? value.toFixed(3) : `${Math.round(value).toLocaleString()} ms`;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+function VitalCell({
+  vital,
+  current,
+  baseline,
+}: {
+  vital: WebVital;
+  current?: VitalPercentiles;
+  baseline?: VitalPercentiles;
+}) {
+  if (!current) {
+    return <TableCell className="text-muted-foreground">-</TableCell>;
+  }
+
+  const regressed = isRegression(vital, current, baseline);
+  return (
+    <TableCell className={cn(regressed && "bg-red-50")}>
+      <div className={cn("font-medium", RATING_CLASSES[rateVital(vital, current.p75)])}>
+        {formatVital(vital, current.p75)}
+      </div>
+      <div className="text-muted-foreground text-xs">
+        p50 {formatVital(vital, current.p50)} · p95 {formatVital(vital, current.p95)}
+      </div>
+      {baseline && (
+        <div className={cn("text-xs", regressed ? "text-red-600" : "text-muted-foreground")}>
+          was {formatVital(vital, baseline.p75)}
+        </div>
+      )}
+    </TableCell>
+  );
+}
+
+/**
+ * Core Web Vitals per route template for a release, against the release
+ * deployed before it
+ */
+export default async function PerformancePage({ searchParams }: PerformancePageProps) {
+  await requireInternalUser();
+  const { release: requested } = await searchParams;
+
+  const releases = await getPerformanceReleases();
+  const index = requested ? releases.findIndex((r) => releaseKey(r) === requested) : 0;
+  const current = index === -1 ? undefined : releases[index];
+  const previous = current ? releases[index + 1] : undefined;
+
+  const [routes, baseline] = await Promise.all([
+    current ? getRoutePerformance(current.release) : ([] as RoutePerformance[]),
+    previous ? getRoutePerformance(previous.release) : ([] as RoutePerformance[]),
+  ]);
+  const baselineByRoute = new Map(baseline.map((route) => [route.route, route]));
+
+  return (
+    <div className="mx-auto px-4 py-8 container">
+      <h1 className="mb-2 font-bold text-3xl tracking-tight">Performance</h1>
+      <p className="mb-8 text-muted-foreground">
+        p75 of each Core Web Vital per route, with p50 and p95 below it, from sampled page
+        loads. Cells marked red got worse than in the previous release.
+      </p>
+
+      {releases.length === 0 ? (
+        <p className="text-muted-foreground">No page loads have been reported yet.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-6">
+            {releases.map((release) => (
+              <Link
+                key={releaseKey(release)}
+                href={`/internal/performance?release=${encodeURIComponent(releaseKey(release))}`}
+              >
+                <Badge variant={release === current ? "default" : "outline"}>
+                  {release.release ?? "Unversioned"} · {formatDate(release.firstSeen)} ·{" "}
+                  {release.samples.toLocaleString()} loads
+                </Badge>
+              </Link>
+            ))}
+          </div>
+
+          {!current ? (
+            <p className="text-muted-foreground">Unknown release.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Loads</TableHead>
+                  {WEB_VITALS.map((vital) => (
+                    <TableHead key={vital}>{vital.toUpperCase()}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {routes.map((route) => (
+                  <TableRow key={route.route}>
+                    <TableCell className="font-mono text-sm">{route.route}</TableCell>
+                    <TableCell>{route.samples.toLocaleString()}</TableCell>
+                    {WEB_VITALS.map((vital) => (
+                      <VitalCell
+                        key={vital}
+                        vital={vital}
+                        current={route.vitals[vital]}
+                        baseline={baselineByRoute.get(route.route)?.vitals[vital]}
+                      />
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
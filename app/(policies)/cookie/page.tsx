@@ -76,6 +76,7 @@ export default function CookiePage() {
               <li>Social media integration</li>
               <li>Retargeting campaigns</li>
               <li>Conversion tracking</li>
+              <li>Campaign attribution (the ad or link that brought you to us)</li>
             </ul>
 
             <h3>Functional Cookies</h3>
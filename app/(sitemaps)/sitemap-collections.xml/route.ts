@@ -1,49 +1,13 @@
 import { NextResponse } from "next/server";
 import { SITE_CONFIG } from "@/lib/constants";
+import { COLLECTIONS } from "@/lib/collections";
 
 export async function GET() {
-	const collectionPages = [
-		{
-			url: `${SITE_CONFIG.url}/collections/all`,
-			priority: 0.8,
-			changefreq: "daily",
-		},
-		{
-			url: `${SITE_CONFIG.url}/collections/featured`,
-			priority: 0.7,
-			changefreq: "weekly",
-		},
-		{
-			url: `${SITE_CONFIG.url}/collections/sale`,
-			priority: 0.8,
-			changefreq: "daily",
-		},
-		{
-			url: `${SITE_CONFIG.url}/collections/new`,
-			priority: 0.7,
-			changefreq: "weekly",
-		},
-		{
-			url: `${SITE_CONFIG.url}/collections/bestsellers`,
-			priority: 0.7,
-			changefreq: "weekly",
-		},
-		{
-			url: `${SITE_CONFIG.url}/collections/trending`,
-			priority: 0.6,
-			changefreq: "weekly",
-		},
-		{
-			url: `${SITE_CONFIG.url}/collections/limited-edition`,
-			priority: 0.6,
-			changefreq: "weekly",
-		},
-		{
-			url: `${SITE_CONFIG.url}/collections/clearance`,
-			priority: 0.5,
-			changefreq: "daily",
-		},
-	];
+	const collectionPages = COLLECTIONS.map((collection) => ({
+		url: `${SITE_CONFIG.url}/collections/${collection.handle}`,
+		priority: collection.sitemap.priority,
+		changefreq: collection.sitemap.changefreq,
+	}));
 
 	const collectionEntries = collectionPages
 		.map(
@@ -1,81 +1,74 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { SITE_CONFIG } from "@/lib/constants";
-import { fetchAllProducts } from "@/lib/utils/product-server-utils";
+import { iterateProducts } from "@/lib/data/products";
+import type { ApiProduct } from "@/lib/types";
+import { createXmlStream } from "@/lib/utils/xml-utils";
 import { logger } from "@/lib/utils/logger";
 
-/**
- * Generate XML sitemap for all products
- *
- * Uses fetchAllProducts() to properly paginate through all products
- * instead of using an arbitrary limit. This ensures all products are
- * included in the sitemap regardless of catalog size.
- *
- * All products are shown with in_stock: true override to ensure
- * maximum visibility in search engines.
- */
-export async function GET() {
-  try {
-    logger.info("Generating products sitemap");
-
-    // Fetch ALL products with automatic pagination
-    const products = await fetchAllProducts();
-
-    logger.info(`Fetched ${products.length} products for sitemap`);
-
-    if (!products || products.length === 0) {
-      logger.warn("No products found for sitemap");
-      const emptySitemap = `<?xml version="1.0" encoding="UTF-8"?>
+const SITEMAP_HEADER = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-</urlset>`;
-
-      return new NextResponse(emptySitemap, {
-        headers: {
-          "Content-Type": "application/xml; charset=utf-8",
-          "Cache-Control": "public, max-age=300, s-maxage=300",
-        },
-      });
-    }
+`;
+const SITEMAP_FOOTER = `</urlset>`;
 
-    const productEntries = products
-      .map((product) => {
-        // Calculate dynamic priority based on product attributes
-        let priority = 0.7;
+function renderProductEntry(product: ApiProduct): string {
+  // Calculate dynamic priority based on product attributes
+  let priority = 0.7;
 
-        // Boost priority for in-stock products
-        if (product.in_stock) priority += 0.1;
+  // Boost priority for in-stock products
+  if (product.in_stock) priority += 0.1;
 
-        // Boost priority for products on sale
-        if (
-          product.compare_at_price &&
-          product.compare_at_price > product.price
-        )
-          priority += 0.1;
+  // Boost priority for products on sale
+  if (product.compare_at_price && product.compare_at_price > product.price)
+    priority += 0.1;
 
-        // Boost priority for highly-rated products
-        if (product.rating && product.rating >= 4) priority += 0.1;
+  // Boost priority for highly-rated products
+  if (product.rating && product.rating >= 4) priority += 0.1;
 
-        // Cap priority at 0.9 (reserve 1.0 for homepage)
-        priority = Math.min(priority, 0.9);
+  // Cap priority at 0.9 (reserve 1.0 for homepage)
+  priority = Math.min(priority, 0.9);
 
-        return `  <url>
+  return `  <url>
     <loc>${SITE_CONFIG.url}/products/${product.handle}</loc>
     <lastmod>${new Date(
       product.updated_at || product.created_at || new Date()
     ).toISOString()}</lastmod>
     <changefreq>weekly</changefreq>
     <priority>${priority.toFixed(1)}</priority>
-  </url>`;
-      })
-      .join("\n");
+  </url>
+`;
+}
 
-    const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-${productEntries}
-</urlset>`;
+/**
+ * Generate XML sitemap for all products
+ *
+ * Streams the catalog with iterateProducts() so every product is included
+ * regardless of catalog size, without holding the whole catalog in memory.
+ * Entries are written as COSMOS pages arrive.
+ *
+ * All products are shown with in_stock: true override to ensure
+ * maximum visibility in search engines.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    logger.info("Generating products sitemap");
 
-    logger.info(`Generated sitemap with ${products.length} product URLs`);
+    const stream = await createXmlStream({
+      header: SITEMAP_HEADER,
+      footer: SITEMAP_FOOTER,
+      source: iterateProducts({ signal: req.signal }),
+      render: renderProductEntry,
+      onComplete: (count) => {
+        if (count === 0) {
+          logger.warn("No products found for sitemap");
+        } else {
+          logger.info(`Generated sitemap with ${count} product URLs`);
+        }
+      },
+      onError: (error) =>
+        logger.error("Products sitemap failed mid-stream", error),
+    });
 
-    return new NextResponse(sitemap, {
+    return new NextResponse(stream, {
       headers: {
         "Content-Type": "application/xml; charset=utf-8",
         "Cache-Control": "public, max-age=3600, s-maxage=3600",
@@ -84,11 +77,7 @@ ${productEntries}
   } catch (error) {
     logger.error("Error generating products sitemap", error);
 
-    const emptySitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-</urlset>`;
-
-    return new NextResponse(emptySitemap, {
+    return new NextResponse(SITEMAP_HEADER + SITEMAP_FOOTER, {
       headers: {
         "Content-Type": "application/xml; charset=utf-8",
         "Cache-Control": "public, max-age=300, s-maxage=300",
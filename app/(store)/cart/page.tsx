@@ -3,28 +3,53 @@
 import { Minus, Plus, X } from "lucide-react";
 import Image from "next/image";
 
-import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
 import { toast } from "sonner";
 import { EmptyCart } from "@blocks/cart/empty-cart";
 import { QuantityInput } from "@blocks/cart/quantity-input";
+import { DiscountCodeForm } from "@blocks/cart/discount-code-form";
+import { QuoteSummary } from "@blocks/cart/quote-summary";
+import { StockNotice } from "@blocks/cart/stock-notice";
 import { CartSkeleton } from "@blocks/skeletons/cart-skeleton";
 import { Button } from "@/components/ui/button";
-import { Separator } from "@/components/ui/separator";
 import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
+import { useStockLevels } from "@/hooks/use-inventory";
+import { usePriceQuote } from "@/hooks/use-price-quote";
 import { checkoutCartAction } from "@/lib/buy-now-actions";
 import { getProductPlaceholder } from "@/lib/placeholder";
 import { formatPrice } from "@/lib/utils";
+import { findQuoteLine } from "@/lib/utils/pricing-utils";
 
 export const dynamic = "force-dynamic";
 
 function CartContent() {
-  const { items, removeItem, updateQuantity, getTotalPrice } = useCart();
+  const { items, removeItem, updateQuantity, discountCode, setDiscountCode } = useCart();
+  const { currency, convertCatalogPrice } = useCurrency();
   const [isCheckingOut, setIsCheckingOut] = useState(false);
+  const { quote, isLoading: isPricing, error: pricingError } = usePriceQuote(items, { discountCode });
+  // Flags lines that sold out or ran low since they were added
+  const stock = useStockLevels(items);
+  const searchParams = useSearchParams();
+  // Set by /cart/restore when an abandoned cart email's link didn't work
+  const restoreFailed = searchParams.get("restore") === "failed";
+  // Set by /api/cart/unsubscribe, from the unsubscribe page the same emails link to
+  const reminders = searchParams.get("reminders");
 
-  const subtotal = getTotalPrice();
-  const shipping = subtotal > 50 ? 0 : 9.99;
-  const tax = subtotal * 0.08;
-  const total = subtotal + shipping + tax;
+  useEffect(() => {
+    if (restoreFailed) {
+      toast.error("That cart link has expired or its cart is no longer available");
+    }
+  }, [restoreFailed]);
+
+  useEffect(() => {
+    if (reminders === "stopped") {
+      toast.success("You won't get any more cart reminder emails");
+    } else if (reminders === "failed") {
+      toast.error("That unsubscribe link is invalid. Please contact us to stop the emails");
+    }
+  }, [reminders]);
 
   const handleCheckout = async () => {
     if (items.length === 0) {
@@ -42,7 +67,7 @@ function CartContent() {
         campaign: urlParams.get("utm_campaign") || undefined,
       };
 
-      await checkoutCartAction(items, utmParams);
+      await checkoutCartAction(items, utmParams, discountCode ?? undefined);
       // If successful, the action will redirect to payment page
     } catch (error) {
       console.error("Checkout error:", error);
@@ -78,7 +103,19 @@ function CartContent() {
             />
             <div className="flex-1">
               <h3 className="font-semibold">{item.name}</h3>
-              <p className="text-muted-foreground">{formatPrice(item.price)}</p>
+              <p className="text-muted-foreground">
+                {formatPrice(
+                  findQuoteLine(quote, item.product.id, item.variant.id)?.unitPrice ??
+                    convertCatalogPrice(item.price),
+                  currency
+                )}
+              </p>
+              <StockNotice
+                stock={stock}
+                productId={item.product.id}
+                variantId={item.variant.id}
+                className="mt-1"
+              />
             </div>
             <div className="flex items-center gap-2">
               <Button
@@ -123,30 +160,20 @@ function CartContent() {
       {/* Order Summary */}
       <div className="bg-muted/50 p-6 rounded-lg">
         <h2 className="mb-4 font-semibold text-xl">Order Summary</h2>
-        <div className="space-y-3">
-          <div className="flex justify-between">
-            <span>Subtotal</span>
-            <span>{formatPrice(subtotal)}</span>
-          </div>
-          <div className="flex justify-between">
-            <span>Shipping</span>
-            <span>{shipping === 0 ? "Free" : formatPrice(shipping)}</span>
-          </div>
-          <div className="flex justify-between">
-            <span>Tax</span>
-            <span>{formatPrice(tax)}</span>
-          </div>
-          <Separator />
-          <div className="flex justify-between font-semibold text-lg">
-            <span>Total</span>
-            <span>{formatPrice(total)}</span>
-          </div>
+        <div className="mb-4">
+          <DiscountCodeForm
+            code={discountCode}
+            status={quote?.discountCode ?? null}
+            onChange={setDiscountCode}
+            disabled={isCheckingOut}
+          />
         </div>
+        <QuoteSummary quote={quote} isLoading={isPricing} error={pricingError} />
         <Button
           className="mt-6 w-full"
           size="lg"
           onClick={handleCheckout}
-          disabled={isCheckingOut}
+          disabled={isCheckingOut || !quote || stock.issues.length > 0}
         >
           {isCheckingOut ? "Processing..." : "Proceed to Checkout"}
         </Button>
@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { restoreCart } from "@/lib/cart-recovery";
+import { getCartOwner } from "@/lib/cart-session";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Restore-cart links from abandoned cart emails
+ * Rebuilds the emailed cart into this browser's cart, on any device, then
+ * opens the cart; `?restore=failed` when the link was invalid, expired or
+ * its cart is gone.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+  const destination = new URL("/cart", request.nextUrl.origin);
+
+  let restored = false;
+  if (token) {
+    try {
+      restored = await restoreCart(token, await getCartOwner({ create: true }));
+    } catch {
+      // Logged by restoreCart
+    }
+  }
+
+  if (!restored) destination.searchParams.set("restore", "failed");
+  return NextResponse.redirect(destination);
+}
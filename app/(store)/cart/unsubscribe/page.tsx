@@ -0,0 +1,57 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { verifyUnsubscribeToken } from "@/lib/cart-recovery";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Stop Cart Reminders",
+  // Unsubscribe links carry a token for a single guest's cart
+  robots: { index: false, follow: false },
+};
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Unsubscribe links from abandoned cart emails
+ * Only asks: link scanners and prefetchers open these links too, so the
+ * emails stop when the form is submitted (POST /api/cart/unsubscribe).
+ */
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token } = await searchParams;
+  const valid = Boolean(token && verifyUnsubscribeToken(token));
+
+  return (
+    <section className="px-4 py-16 text-center">
+      <article className="mx-auto max-w-md">
+        <h1 className="mb-4 font-semibold text-2xl">Stop cart reminder emails?</h1>
+        {valid && token ? (
+          <>
+            <p className="mb-8 text-muted-foreground">
+              We&apos;ll stop emailing you about carts you left behind. Order
+              emails are not affected.
+            </p>
+            <form
+              method="post"
+              action={`/api/cart/unsubscribe?token=${encodeURIComponent(token)}`}
+            >
+              <Button type="submit">Unsubscribe</Button>
+            </form>
+          </>
+        ) : (
+          <>
+            <p className="mb-8 text-muted-foreground">
+              This unsubscribe link is invalid. Please contact us to stop the emails.
+            </p>
+            <Button asChild>
+              <Link href="/cart">Go to your cart</Link>
+            </Button>
+          </>
+        )}
+      </article>
+    </section>
+  );
+}
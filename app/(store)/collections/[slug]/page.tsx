@@ -1,228 +1,143 @@
-import { ChevronLeft, ChevronRight } from "lucide-react";
 import type { Metadata } from "next";
-import Link from "next/link";
-import { Suspense } from "react";
+import { notFound } from "next/navigation";
+import { cache, Suspense } from "react";
+import { CollectionSortLinks } from "@blocks/collection/collection-sort-links";
+import { PaginationLinks } from "@blocks/common/pagination-links";
 import { ProductCard } from "@blocks/product/product-card";
+import { SearchFacetsPanel } from "@blocks/search/search-facets";
 import { CollectionSkeleton } from "@blocks/skeletons/collection-skeleton";
-import { Button } from "@/components/ui/button";
-import { getProducts, getCollectionByHandle } from "@/lib/data/products";
+import { getCollectionListing } from "@/lib/data/collections";
+import {
+  COLLECTIONS,
+  getCollectionDefinition,
+  type CollectionDefinition,
+} from "@/lib/collections";
 import { generateSEO } from "@/lib/seo";
-import type { ApiProduct } from "@/lib/types";
+import {
+  buildCollectionHref,
+  parseCollectionParams,
+} from "@/lib/utils/collection-utils";
+import { hasSearchFilters } from "@/lib/utils/search-utils";
+import { collectionQuerySchema, type CollectionQuery } from "@/lib/validations";
 
 export const revalidate = 60;
 export const dynamic = "force-dynamic";
 
 interface CollectionPageProps {
   params: Promise<{ slug: string }>;
-  searchParams?: Promise<{
-    page?: string;
-  }>;
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
 }
 
 export async function generateStaticParams() {
-  const collections = [
-    "all",
-    "featured",
-    "sale",
-    "new",
-    "bestsellers",
-    "trending",
-  ];
+  return COLLECTIONS.map(({ handle }) => ({ slug: handle }));
+}
 
-  return collections.map((slug) => ({ slug }));
+/**
+ * Parse the listing query; invalid parameters fall back to the default view
+ */
+async function parseQuery(
+  searchParams: CollectionPageProps["searchParams"]
+): Promise<CollectionQuery> {
+  const parsed = collectionQuerySchema.safeParse(
+    parseCollectionParams((await searchParams) ?? {})
+  );
+  return parsed.success ? parsed.data : {};
 }
 
+/**
+ * The listing with facets, loaded once per request for both the metadata
+ * and the page; the query is keyed by its JSON, as it's parsed separately
+ * for each
+ */
+const loadListing = cache((collection: CollectionDefinition, queryJson: string) =>
+  getCollectionListing(collection, JSON.parse(queryJson) as CollectionQuery, { facets: true })
+);
+
 export async function generateMetadata({
   params,
+  searchParams,
 }: CollectionPageProps): Promise<Metadata> {
   const { slug } = await params;
-
-  const collectionNames: Record<string, string> = {
-    all: "All Products",
-    featured: "Featured Products",
-    sale: "Sale Items",
-    new: "New Arrivals",
-    bestsellers: "Bestsellers",
-    trending: "Trending Now",
-  };
-
-  const title =
-    collectionNames[slug] || slug.charAt(0).toUpperCase() + slug.slice(1);
-
-  return generateSEO({
-    title,
-    description: `Browse our ${title.toLowerCase()} collection. Discover amazing products at great prices.`,
-    path: `/collections/${slug}`,
+  const collection = getCollectionDefinition(slug);
+  if (!collection) notFound();
+
+  const query = await parseQuery(searchParams);
+  const { page, totalPages } = await loadListing(collection, JSON.stringify(query));
+  const hrefFor = (p: number) => buildCollectionHref(slug, query, { page: p });
+
+  const metadata = generateSEO({
+    title: collection.seo?.title ?? collection.title,
+    description: collection.seo?.description ?? collection.description,
+    image: collection.image,
+    // Each numbered page is its own canonical URL
+    path: hrefFor(page),
+    pagination: {
+      previous: page > 1 ? hrefFor(page - 1) : undefined,
+      next: page < totalPages ? hrefFor(page + 1) : undefined,
+    },
   });
+
+  // Filtered and re-sorted views duplicate the default listing
+  const isVariant = hasSearchFilters(query) || (query.sort ?? "featured") !== "featured";
+  return isVariant ? { ...metadata, robots: { index: false, follow: true } } : metadata;
 }
 
 async function CollectionProducts({
-  slug,
-  page = 1,
+  collection,
+  query,
 }: {
-  slug: string;
-  page: number;
+  collection: CollectionDefinition;
+  query: CollectionQuery;
 }) {
-  let products: ApiProduct[] = [];
-  const productsPerPage = 20;
-  let hasNextPage = false;
-  let totalProducts = 0;
-
-  try {
-    console.log(
-      `🔍 Loading collection "${slug}" with ${productsPerPage} products per page, page ${page}`
-    );
-
-    // Check if this is a special collection that should use the external API collections endpoint
-    const apiCollections = [
-      "featured",
-      "sale",
-      "new",
-      "bestsellers",
-      "trending",
-    ];
-
-    if (slug === "all") {
-      products = await getProducts({
-        limit: productsPerPage,
-        page,
-      });
-      // Fetch one more product to check if there's a next page
-      const nextPageProducts = await getProducts({
-        limit: 1,
-        page: page + 1,
-      });
-      hasNextPage = nextPageProducts.length > 0;
-      totalProducts = products.length; // We don't have exact total, use products length
-    } else if (apiCollections.includes(slug)) {
-      // Use the external API collections endpoint directly
-      try {
-        const collectionProducts = await getCollectionByHandle(slug, {
-          page,
-          limit: productsPerPage,
-        });
-
-        products = Array.isArray(collectionProducts)
-          ? collectionProducts
-          : [];
-
-        // For collections, we don't have meta directly from getCollectionByHandle, so we'll estimate
-        totalProducts = products.length;
-        hasNextPage = products.length === productsPerPage; // Simple heuristic
-
-        console.log(
-          `🎆 Collection "${slug}" from API: ${products.length} products, total: ${totalProducts}, hasNext: ${hasNextPage}`
-        );
-      } catch (collectionError) {
-        console.warn(
-          `⚠️ Collection API failed for "${slug}", falling back to product filtering:`,
-          collectionError
-        );
-
-        // Fallback to the old filtering method if collection API fails
-        const allProducts = await getProducts({
-          limit: 200,
-          page: 1,
-        });
-
-        let filteredProducts = allProducts;
-
-        // Apply fallback filtering
-        switch (slug) {
-          case "sale":
-            filteredProducts = allProducts.filter(
-              (p) => p.compare_at_price && p.compare_at_price > p.price
-            );
-            break;
-          case "new":
-            filteredProducts = allProducts.slice(0, 24);
-            break;
-          case "featured": {
-            const highRatedProducts = allProducts.filter(
-              (p) => p.rating && p.rating >= 4
-            );
-            filteredProducts =
-              highRatedProducts.length > 0
-                ? highRatedProducts
-                : allProducts.slice(0, 24);
-            break;
-          }
-          case "bestsellers": {
-            const highReviewProducts = allProducts.filter(
-              (p) => p.review_count && p.review_count >= 10
-            );
-            filteredProducts =
-              highReviewProducts.length > 0
-                ? highReviewProducts
-                : allProducts
-                    .filter((p) => p.review_count && p.review_count > 0)
-                    .slice(0, 20) || allProducts.slice(0, 20);
-            break;
-          }
-          case "trending":
-            filteredProducts = allProducts.slice(0, 20);
-            break;
-        }
-
-        totalProducts = filteredProducts.length;
-        const startIndex = (page - 1) * productsPerPage;
-        const endIndex = startIndex + productsPerPage;
-        products = filteredProducts.slice(startIndex, endIndex);
-        hasNextPage = endIndex < totalProducts;
-      }
-    } else {
-      // Unknown collection, try to load as regular products
-      products = await getProducts({
-        limit: productsPerPage,
-        page,
-      });
-      totalProducts = products.length;
-      hasNextPage = products.length === productsPerPage;
-    }
-  } catch (error) {
-    console.error("Error fetching collection products:", error);
-    products = [];
-  }
+  const slug = collection.handle;
+  const listing = await loadListing(collection, JSON.stringify(query));
+  // Rule-based collections are defined by their tags, so the tag facet is noise
+  const showTags = collection.source.type !== "rules";
 
   return (
-    <>
-      {products.length > 0 ? (
-        <>
-          <div className="gap-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-            {products.map((product) => (
-              <ProductCard key={product.id} product={product} />
-            ))}
-          </div>
-
-          {/* Pagination */}
-          <div className="flex justify-center items-center gap-4 mt-12">
-            {page > 1 && (
-              <Link href={`/collections/${slug}?page=${page - 1}`}>
-                <Button variant="outline" size="sm">
-                  <ChevronLeft className="mr-1 w-4 h-4" />
-                  Previous
-                </Button>
-              </Link>
-            )}
+    <div className="gap-8 grid grid-cols-1 lg:grid-cols-[240px_1fr] py-6">
+      <aside>
+        {listing.facets && (
+          <SearchFacetsPanel
+            input={query}
+            facets={listing.facets}
+            hrefFor={(filters) => buildCollectionHref(slug, { sort: query.sort, ...filters })}
+            showTags={showTags}
+          />
+        )}
+      </aside>
+
+      <section>
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+          <p className="text-gray-600 text-sm">
+            {listing.total} {listing.total === 1 ? "product" : "products"}
+          </p>
+          <CollectionSortLinks handle={slug} query={query} />
+        </div>
 
-            <span className="text-gray-600 text-sm">Page {page}</span>
+        {listing.products.length > 0 ? (
+          <>
+            <div className="gap-6 grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3">
+              {listing.products.map((product) => (
+                <ProductCard key={product.id} product={product} />
+              ))}
+            </div>
 
-            {hasNextPage && (
-              <Link href={`/collections/${slug}?page=${page + 1}`}>
-                <Button variant="outline" size="sm">
-                  Next
-                  <ChevronRight className="ml-1 w-4 h-4" />
-                </Button>
-              </Link>
-            )}
+            <div className="mt-12">
+              <PaginationLinks
+                page={listing.page}
+                totalPages={listing.totalPages}
+                hrefFor={(p) => buildCollectionHref(slug, query, { page: p })}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="py-12 text-center">
+            <p className="text-gray-600">No products found in this collection.</p>
           </div>
-        </>
-      ) : (
-        <div className="py-12 text-center">
-          <p className="text-gray-600">No products found in this collection.</p>
-        </div>
-      )}
-    </>
+        )}
+      </section>
+    </div>
   );
 }
 
@@ -231,21 +146,11 @@ export default async function CollectionPage({
   searchParams,
 }: CollectionPageProps) {
   const { slug } = await params;
-  const resolvedSearchParams = await searchParams;
-  const page = Number(resolvedSearchParams?.page) || 1;
-
-  const collectionNames: Record<string, string> = {
-    all: "All Products",
-    featured: "Featured Products",
-    sale: "Sale Items",
-    new: "New Arrivals",
-    bestsellers: "Bestsellers",
-    trending: "Trending Now",
-  };
+  const collection = getCollectionDefinition(slug);
+  if (!collection) notFound();
 
-  const title =
-    collectionNames[slug] || slug.charAt(0).toUpperCase() + slug.slice(1);
-  const description = `Discover our curated collection of ${title.toLowerCase()}. Find the perfect items for your needs.`;
+  const query = await parseQuery(searchParams);
+  const { title, description } = collection;
 
   return (
     <div className="bg-gray-50 pt-2 min-h-screen">
@@ -263,43 +168,10 @@ export default async function CollectionPage({
         </div>
       </div>
 
-      {/* Collection Filters */}
-      <div className="bg-white border-b">
-        <div className="px-4 py-4 container">
-          <div className="flex flex-wrap justify-between items-center gap-4">
-            <div className="flex items-center gap-4">
-              <span className="text-gray-600 text-sm">Filter by:</span>
-              <div className="flex space-x-2">
-                {["All", "Price", "Rating", "Brand"].map((filter) => (
-                  <button
-                    type="button"
-                    key={filter}
-                    className="hover:bg-gray-50 px-3 py-1 border border-gray-300 rounded-full text-sm transition-colors"
-                  >
-                    {filter}
-                  </button>
-                ))}
-              </div>
-            </div>
-
-            <div className="flex items-center gap-1 md:gap-4">
-              <span className="text-gray-600 text-sm">Sort by:</span>
-              <select className="px-3 py-1 border border-gray-300 rounded-md text-sm">
-                <option>Featured</option>
-                <option>Price: Low to High</option>
-                <option>Price: High to Low</option>
-                <option>Newest</option>
-                <option>Rating</option>
-              </select>
-            </div>
-          </div>
-        </div>
-      </div>
-
-      {/* Products Grid */}
-      <div className="mt-2 p-0 container">
+      {/* Filters, sorting and products */}
+      <div className="mt-2 px-4 container">
         <Suspense fallback={<CollectionSkeleton />}>
-          <CollectionProducts slug={slug} page={page} />
+          <CollectionProducts collection={collection} query={query} />
         </Suspense>
       </div>
     </div>
@@ -6,6 +6,7 @@ import { ProductDetailsSkeleton } from "@blocks/skeletons/product-details-skelet
 import { ProductProvider } from "@/contexts/product-context";
 import { getProducts, getProductByHandle } from "@/lib/data/products";
 import { SITE_CONFIG } from "@/lib/constants";
+import { getPresentmentCurrency } from "@/lib/presentment-currency";
 import { generateSEO } from "@/lib/seo";
 import { ProductDetailsClient } from "./product-details-client";
 import { ApiProduct } from "@/lib/types";
@@ -59,7 +60,10 @@ export async function generateMetadata({
 }
 
 async function ProductPageContent({ handle }: { handle: string }) {
-  const product = await getProductByHandle(handle, { context: "ssr" });
+  const [product, currency] = await Promise.all([
+    getProductByHandle(handle, { context: "ssr" }),
+    getPresentmentCurrency(),
+  ]);
 
   if (!product) {
     notFound();
@@ -67,7 +71,7 @@ async function ProductPageContent({ handle }: { handle: string }) {
 
   return (
     <>
-      <ProductSchema product={product} />
+      <ProductSchema product={product} currency={currency} />
       <ProductProvider initialProduct={product}>
         <ProductDetailsClient product={product} />
       </ProductProvider>
@@ -12,7 +12,7 @@ import { useState } from "react";
 import { ProductSchema } from "@blocks/common/product-schema";
 import { SafeHtml } from "@blocks/common/safe-html";
 import { BuyNowButton } from "@blocks/product/buy-now-button";
-import { normalizeProductTags } from "@/lib/utils";
+import { formatPrice, normalizeProductTags } from "@/lib/utils";
 import {
   Accordion,
   AccordionContent,
@@ -28,9 +28,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { useCurrency } from "@/contexts/currency-context";
 import { useProductVariants } from "@/hooks/use-product-variants";
 import type { ApiProduct } from "@/lib/types";
-import { formatPrice } from "@/lib/utils";
 
 interface ProductDetailsClientProps {
   product: ApiProduct;
@@ -42,6 +42,7 @@ export function ProductDetailsClient({ product }: ProductDetailsClientProps) {
     const [quantity] = useState(1);
     const [selectedImageIndex, setSelectedImageIndex] = useState(0);
     const { selectedVariant, setSelectedVariant } = useProductVariants(product);
+    const { currency, convertCatalogPrice, formatCatalogPrice } = useCurrency();
     const discountPercentage =
       product.compare_at_price && selectedVariant
         ? Math.round(
@@ -75,7 +76,7 @@ export function ProductDetailsClient({ product }: ProductDetailsClientProps) {
     return (
       <div className="mx-auto p-0 sm:p-0 lg:p-8 overflow-hidden container">
         <div className="gap-8 lg:gap-12 grid grid-cols-1 md:grid-cols-2">
-          <ProductSchema product={product} />
+          <ProductSchema product={product} currency={currency} />
           {/* Product Images Gallery */}
           <div className="space-y-4">
             {/* Main Image with Navigation */}
@@ -198,7 +199,7 @@ export function ProductDetailsClient({ product }: ProductDetailsClientProps) {
                         disabled={!variant.available}
                       >
                         <meta itemProp="sku" content={variant.sku || ""} />
-                        <meta itemProp="priceCurrency" content="USD" />
+                        <meta itemProp="priceCurrency" content={currency} />
                         {variant.title}
                         {!variant.available && " (Unavailable)"}
                       </SelectItem>
@@ -212,13 +213,13 @@ export function ProductDetailsClient({ product }: ProductDetailsClientProps) {
             <div className="space-y-2">
               <div className="flex items-center gap-3">
                 <span className="font-bold text-3xl">
-                  {formatPrice(currentPrice)}
+                  {formatCatalogPrice(currentPrice)}
                 </span>
 
                 {product.compare_at_price && product.compare_at_price > 0
                   ? product.compare_at_price >= product.price && (
                       <span className="font-semibold text-red-500 text-lg line-through">
-                        {formatPrice(product.compare_at_price)}
+                        {formatCatalogPrice(product.compare_at_price)}
                       </span>
                     )
                   : null}
@@ -226,8 +227,12 @@ export function ProductDetailsClient({ product }: ProductDetailsClientProps) {
               {product.compare_at_price && discountPercentage > 0 ? (
                 <p className="text-green-600 text-sm">
                   You save{" "}
-                  {formatPrice(product.compare_at_price - currentPrice)} (
-                  {discountPercentage}%)
+                  {formatPrice(
+                    convertCatalogPrice(product.compare_at_price) -
+                      convertCatalogPrice(currentPrice),
+                    currency
+                  )}{" "}
+                  ({discountPercentage}%)
                 </p>
               ) : null}
             </div>
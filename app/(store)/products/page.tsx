@@ -13,13 +13,13 @@ export const dynamic = "force-dynamic";
 async function fetchProducts(
   page: number,
   limit: number = 24
-): Promise<ApiProduct[]> {
+): Promise<{ products: ApiProduct[]; hasMore: boolean }> {
   const response = await fetch(`/api/products?page=${page}&limit=${limit}`);
   if (!response.ok) {
     throw new Error("Failed to fetch products");
   }
   const data = await response.json();
-  return data.products || [];
+  return { products: data.products || [], hasMore: Boolean(data.hasMore) };
 }
 
 function ProductsList() {
@@ -31,11 +31,9 @@ function ProductsList() {
   useEffect(() => {
     setIsLoading(true);
     fetchProducts(1, 24)
-      .then((initialProducts) => {
-        setProducts(initialProducts);
-        if (initialProducts.length < 24) {
-          setHasMore(false);
-        }
+      .then((initial) => {
+        setProducts(initial.products);
+        setHasMore(initial.hasMore);
       })
       .catch(() => {
         // Error already logged by fetch, just update UI state
@@ -50,16 +48,10 @@ function ProductsList() {
     setIsLoading(true);
     try {
       const nextPage = page + 1;
-      const newProducts = await fetchProducts(nextPage, 24);
-      if (newProducts.length > 0) {
-        setProducts((prevProducts) => [...prevProducts, ...newProducts]);
-        setPage(nextPage);
-        if (newProducts.length < 24) {
-          setHasMore(false);
-        }
-      } else {
-        setHasMore(false);
-      }
+      const next = await fetchProducts(nextPage, 24);
+      setProducts((prevProducts) => [...prevProducts, ...next.products]);
+      setPage(nextPage);
+      setHasMore(next.hasMore);
     } catch {
       // Error already logged by fetch, just update UI state
       setHasMore(false);
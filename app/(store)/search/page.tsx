@@ -1,66 +1,136 @@
-"use client";
-
-import { useQuery } from "@tanstack/react-query";
-import { useSearchParams } from "next/navigation";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ChevronRight } from "lucide-react";
 import { ProductCard } from "@blocks/product/product-card";
-import type { ApiProduct } from "@/lib/types";
+import { SearchFacetsPanel, SearchSortLinks } from "@blocks/search/search-facets";
+import { Button } from "@/components/ui/button";
+import { searchCatalog, type SearchResult } from "@/lib/data/search";
+import { generateSEO } from "@/lib/seo";
+import { searchSchema } from "@/lib/validations";
+import { buildSearchHref, parseSearchParams } from "@/lib/utils/search-utils";
+import { logger } from "@/lib/utils/logger";
 
 export const dynamic = "force-dynamic";
 
-/**
- * Fetch search results from API route
- */
-async function getSearchResults(query: string): Promise<ApiProduct[]> {
-  const response = await fetch(
-    `/api/products?search=${encodeURIComponent(query)}&limit=20&page=1`
-  );
-  if (!response.ok) {
-    throw new Error("Failed to search products");
-  }
-  const data = await response.json();
-  return data.products || [];
+interface SearchPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
-export default function SearchPage() {
-  const searchParams = useSearchParams();
-  const query = searchParams.get("q");
+async function parseInput(searchParams: SearchPageProps["searchParams"]) {
+  return searchSchema.safeParse(parseSearchParams(await searchParams));
+}
 
-  const {
-    data: products,
-    isLoading,
-    isError,
-  } = useQuery({
-    queryKey: ["search", query],
-    queryFn: () => getSearchResults(query || ""),
-    enabled: !!query,
+export async function generateMetadata({
+  searchParams,
+}: SearchPageProps): Promise<Metadata> {
+  const parsed = await parseInput(searchParams);
+  if (!parsed.success) {
+    return generateSEO({ title: "Search", path: "/search" });
+  }
+
+  const metadata = generateSEO({
+    title: `Search results for "${parsed.data.query}"`,
+    description: `Shop products matching "${parsed.data.query}".`,
+    // Canonical URL drops the cursor and orders filters consistently
+    path: buildSearchHref(parsed.data),
   });
 
-  if (!query) {
+  // Later pages are reachable by links but should not compete with page one
+  return parsed.data.cursor
+    ? { ...metadata, robots: { index: false, follow: true } }
+    : metadata;
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const parsed = await parseInput(searchParams);
+
+  if (!parsed.success) {
     return <div className="py-12 text-center">Please enter a search term.</div>;
   }
 
-  if (isLoading) {
-    return <div>Loading...</div>;
+  const input = parsed.data;
+  let result: SearchResult | null = null;
+  try {
+    result = await searchCatalog(input);
+  } catch (error) {
+    logger.error("Search page failed", error, { query: input.query });
   }
 
-  if (isError) {
-    return <div>Error loading search results.</div>;
+  if (!result) {
+    return <div className="py-12 text-center">Error loading search results.</div>;
   }
 
   return (
     <div className="px-4 py-8 container">
-      <h1 className="mb-8 font-bold text-3xl lg:text-4xl tracking-tight">
-        Search Results for &quot;{query}&quot;
+      <h1 className="mb-2 font-bold text-3xl lg:text-4xl tracking-tight">
+        Search Results for &quot;{input.query}&quot;
       </h1>
-      {products && products.length > 0 ? (
-        <div className="gap-8 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
-          {products.map((product) => (
-            <ProductCard key={product.id} product={product} />
-          ))}
-        </div>
-      ) : (
-        <div className="py-12 text-center">No products found.</div>
+      {result.correctedQuery && (
+        <p className="mb-2 text-gray-600 text-sm">
+          No exact matches. Showing results for{" "}
+          <span className="font-semibold">&quot;{result.correctedQuery}&quot;</span>.
+        </p>
       )}
+      <p className="mb-6 text-gray-600 text-sm">
+        {result.total} {result.total === 1 ? "product" : "products"}
+        {result.truncated && " (showing the most relevant matches)"}
+      </p>
+
+      <div className="gap-8 grid grid-cols-1 lg:grid-cols-[240px_1fr]">
+        <aside>
+          <SearchFacetsPanel
+            input={input}
+            facets={result.facets}
+            hrefFor={(filters) =>
+              buildSearchHref({
+                query: input.query,
+                sortBy: input.sortBy,
+                sortOrder: input.sortOrder,
+                ...filters,
+              })
+            }
+          />
+        </aside>
+
+        <section>
+          <div className="mb-6">
+            <SearchSortLinks input={input} />
+          </div>
+
+          {result.products.length > 0 ? (
+            <>
+              <div className="gap-8 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3">
+                {result.products.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+
+              <div className="flex justify-center items-center gap-4 mt-12">
+                {input.cursor && (
+                  <Link href={buildSearchHref(input)}>
+                    <Button variant="outline" size="sm">
+                      First page
+                    </Button>
+                  </Link>
+                )}
+                {result.nextCursor && (
+                  <Link
+                    href={buildSearchHref(input, { cursor: result.nextCursor })}
+                    rel="next"
+                  >
+                    <Button variant="outline" size="sm">
+                      Next
+                      <ChevronRight className="ml-1 w-4 h-4" />
+                    </Button>
+                  </Link>
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="py-12 text-center">No products found.</div>
+          )}
+        </section>
+      </div>
     </div>
   );
 }
@@ -64,7 +64,7 @@ export default function OrdersPage() {
               <div className="flex flex-col gap-4">
                 <div className="flex justify-between text-muted-foreground text-sm">
                   <span>{new Date(order.date).toLocaleDateString()}</span>
-                  <span>{formatPrice(order.total)}</span>
+                  <span>{formatPrice(order.total, order.currency)}</span>
                 </div>
                 <div className="space-y-4">
                   {order.items.map((item) => (
@@ -80,7 +80,7 @@ export default function OrdersPage() {
                       <div className="flex-1">
                         <p className="font-medium">{item.name}</p>
                         <p className="text-muted-foreground text-sm">
-                          {formatPrice(item.price)} x {item.quantity}
+                          {formatPrice(item.price, order.currency)} x {item.quantity}
                         </p>
                       </div>
                     </div>
@@ -0,0 +1,95 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCartSessionId } from "@/lib/cart-session";
+import { ANALYTICS } from "@/lib/constants";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { recordExperienceEvents } from "@/lib/experience-tracks";
+import { recordJourneyEvents } from "@/lib/journeys";
+import { rateLimit } from "@/lib/redis";
+import { ATTRIBUTION_COOKIE, parseAttribution } from "@/lib/utils/attribution-utils";
+import { CONSENT_COOKIE, parseConsent } from "@/lib/utils/consent-utils";
+import { getClientGeo, getClientIp } from "@/lib/utils/request-utils";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { analyticsBatchSchema } from "@/lib/validations";
+import { createClient } from "@/utils/supabase/server";
+
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+
+/**
+ * Store a batch of analytics events from `lib/analytics.ts`, usually sent
+ * with navigator.sendBeacon
+ * Body: `{ sessionId, anonymousId?, events }`; answers 204. Without analytics
+ * consent in the cookie-consent cookie nothing is stored (403,
+ * `CONSENT_REQUIRED`).
+ */
+export async function POST(request: NextRequest) {
+  const consent = parseConsent(request.cookies.get(CONSENT_COOKIE)?.value);
+  if (!consent?.analytics) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Analytics cookies are not enabled",
+        code: "CONSENT_REQUIRED",
+      }),
+      { status: HTTP_STATUS.FORBIDDEN }
+    );
+  }
+
+  const ip = getClientIp(request.headers);
+  const limit = await rateLimit(`analytics:ip:${ip}`, {
+    limit: ANALYTICS.BATCHES_PER_MINUTE,
+    windowSeconds: RATE_LIMIT_WINDOW_SECONDS,
+  });
+  if (!limit.allowed) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Too many analytics requests",
+        code: "RATE_LIMITED",
+      }),
+      {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(limit.retryAfter) },
+      }
+    );
+  }
+
+  const parsed = analyticsBatchSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    const [first] = transformZodErrorsToArray(parsed.error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: first?.message ?? "Invalid request",
+        code: "INVALID_REQUEST",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const attribution = parseAttribution(request.cookies.get(ATTRIBUTION_COOKIE)?.value);
+  try {
+    const stored = await recordExperienceEvents(parsed.data, {
+      userId: user?.id ?? null,
+      userAgent: request.headers.get("user-agent"),
+      ipAddress: ip === "unknown" ? null : ip,
+      geo: getClientGeo(request.headers),
+      attribution,
+    });
+    if (stored > 0) {
+      // The events are kept even if the funnels can't be updated (logged)
+      await recordJourneyEvents(parsed.data, {
+        userId: user?.id ?? null,
+        cartSessionId: await getCartSessionId(),
+        attribution,
+      }).catch(() => undefined);
+    }
+    return new NextResponse(null, { status: HTTP_STATUS.NO_CONTENT });
+  } catch {
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Failed to record events" }),
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { PERFORMANCE } from "@/lib/constants";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { recordPerformanceReport } from "@/lib/performance-metrics";
+import { rateLimit } from "@/lib/redis";
+import { CONSENT_COOKIE, parseConsent } from "@/lib/utils/consent-utils";
+import { getClientIp } from "@/lib/utils/request-utils";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { webVitalsReportSchema } from "@/lib/validations";
+
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+
+/**
+ * Store a page load's Core Web Vitals and Navigation Timing from
+ * `lib/web-vitals.ts`, sent with navigator.sendBeacon
+ * Answers 204. Like analytics events, nothing is stored without analytics
+ * consent (403, `CONSENT_REQUIRED`).
+ */
+export async function POST(request: NextRequest) {
+  const consent = parseConsent(request.cookies.get(CONSENT_COOKIE)?.value);
+  if (!consent?.analytics) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Analytics cookies are not enabled",
+        code: "CONSENT_REQUIRED",
+      }),
+      { status: HTTP_STATUS.FORBIDDEN }
+    );
+  }
+
+  const limit = await rateLimit(`vitals:ip:${getClientIp(request.headers)}`, {
+    limit: PERFORMANCE.REPORTS_PER_MINUTE,
+    windowSeconds: RATE_LIMIT_WINDOW_SECONDS,
+  });
+  if (!limit.allowed) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Too many performance reports",
+        code: "RATE_LIMITED",
+      }),
+      {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(limit.retryAfter) },
+      }
+    );
+  }
+
+  const parsed = webVitalsReportSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    const [first] = transformZodErrorsToArray(parsed.error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: first?.message ?? "Invalid request",
+        code: "INVALID_REQUEST",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  try {
+    await recordPerformanceReport(parsed.data, request.headers.get("user-agent"));
+    return new NextResponse(null, { status: HTTP_STATUS.NO_CONTENT });
+  } catch {
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Failed to record performance metrics" }),
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
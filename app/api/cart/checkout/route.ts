@@ -1,4 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { InventoryError, OrderPlacementError } from "@/lib/errors";
+import { recordOrderPlaced } from "@/lib/journeys";
+import { placeOrder } from "@/lib/order-placement";
+import { idempotencyKeySchema } from "@/lib/validations";
 import { createClient } from "@/utils/supabase/server";
 
 interface Product {
@@ -53,6 +57,37 @@ export async function POST(request: NextRequest) {
 			);
 		}
 
+		const idempotencyKey = idempotencyKeySchema.safeParse(
+			request.headers.get("Idempotency-Key"),
+		);
+		if (!idempotencyKey.success) {
+			return NextResponse.json(
+				{ message: "An Idempotency-Key header is required" },
+				{ status: 400, headers: { "Content-Type": "application/json" } },
+			);
+		}
+
+		// A retry after the first request went through finds the cart already
+		// emptied, so answer with the order it placed
+		const { data: placed } = await supabase
+			.from("orders")
+			.select("id, total")
+			.eq("user_id", user.id)
+			.eq("idempotency_key", idempotencyKey.data)
+			.maybeSingle();
+
+		if (placed) {
+			return NextResponse.json(
+				{
+					order_id: placed.id,
+					total: placed.total,
+					status: "success",
+					message: "Order created successfully",
+				},
+				{ status: 200, headers: { "Content-Type": "application/json" } },
+			);
+		}
+
 		const body: CheckoutInput = await request.json();
 
 		// Get user's cart with items
@@ -92,51 +127,30 @@ export async function POST(request: NextRequest) {
 			const price = product.price || 0;
 			total += price * item.quantity;
 			return {
-				product_id: String(item.product_id), // Convert to string for consistency
-				variant_id: item.variant_id,
+				productId: String(item.product_id), // Convert to string for consistency
+				variantId: String(item.variant_id),
 				quantity: item.quantity,
 				price: price,
 			};
 		});
 
-		// Create order
-		const { data: order, error: orderError } = await supabase
-			.from("orders")
-			.insert({
-				user_id: user.id,
-				total: total,
-				shipping_address: body.shipping_address || null,
-				billing_address: body.billing_address || null,
-				status: "Pending",
-			})
-			.select()
-			.single();
-
-		if (orderError) throw orderError;
-
-		// Create order items
-		const orderItemsWithOrderId = orderItems.map((item: CartItem) => ({
-			...item,
-			order_id: order.id,
-		}));
-
-		const { error: orderItemsError } = await supabase
-			.from("order_items")
-			.insert(orderItemsWithOrderId);
-
-		if (orderItemsError) throw orderItemsError;
-
-		// Clear cart after successful checkout
-		const { error: clearCartError } = await supabase
-			.from("cart_items")
-			.delete()
-			.eq("cart_id", cart.id);
+		// Order, items and the emptied cart in one transaction; a retry with
+		// the same key returns this order
+		const order = await placeOrder(
+			idempotencyKey.data,
+			{ userId: user.id },
+			{
+				email: user.email,
+				total,
+				shippingAddress: body.shipping_address || null,
+				billingAddress: body.billing_address || null,
+				items: orderItems,
+			},
+		);
 
-		if (clearCartError) {
-			console.warn(
-				"[CART] Failed to clear cart after checkout:",
-				clearCartError,
-			);
+		if (order.created) {
+			// Logged by recordJourneyStep; tracking never fails the checkout
+			await recordOrderPlaced(order.id, total, user.id).catch(() => undefined);
 		}
 
 		console.log(`[CART] Checkout completed for order:`, order.id);
@@ -148,11 +162,23 @@ export async function POST(request: NextRequest) {
 				message: "Order created successfully",
 			},
 			{
-				status: 201,
+				status: order.created ? 201 : 200,
 				headers: { "Content-Type": "application/json" },
 			},
 		);
 	} catch (error) {
+		if (error instanceof InventoryError) {
+			return NextResponse.json(
+				{ message: error.message, code: error.code, issues: error.issues },
+				{ status: 409, headers: { "Content-Type": "application/json" } },
+			);
+		}
+		if (error instanceof OrderPlacementError) {
+			return NextResponse.json(
+				{ message: error.message, code: error.code },
+				{ status: 409, headers: { "Content-Type": "application/json" } },
+			);
+		}
 		console.error("[CART] Error processing checkout:", error);
 		return NextResponse.json(
 			{ message: "Failed to process checkout" },
@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server";
+import { clearCart } from "@/lib/cart";
+import { handleCartRequest } from "@/lib/utils/cart-handler";
+
+/**
+ * Remove every line of the cart; its discount code, note and email stay
+ */
+export async function POST(request: NextRequest) {
+  return handleCartRequest(request, null, (owner) => clearCart(owner));
+}
@@ -0,0 +1,23 @@
+import type { NextRequest } from "next/server";
+import { applyCartDiscountCode, removeCartDiscountCode } from "@/lib/cart";
+import { handleCartRequest } from "@/lib/utils/cart-handler";
+import { cartDiscountCodeSchema } from "@/lib/validations";
+
+/**
+ * Apply a discount code to the cart
+ * Body: `{ code }`. Unknown or inactive codes answer 422
+ * (`INVALID_DISCOUNT_CODE`); whether the code applies to the cart's items is
+ * decided by the checkout quote.
+ */
+export async function POST(request: NextRequest) {
+  return handleCartRequest(request, cartDiscountCodeSchema, (owner, { code }) =>
+    applyCartDiscountCode(owner, code)
+  );
+}
+
+/**
+ * Remove the cart's discount code
+ */
+export async function DELETE(request: NextRequest) {
+  return handleCartRequest(request, null, (owner) => removeCartDiscountCode(owner));
+}
@@ -0,0 +1,19 @@
+import type { NextRequest } from "next/server";
+import { setCartEmail } from "@/lib/cart";
+import { handleCartRequest } from "@/lib/utils/cart-handler";
+import { CONSENT_COOKIE, parseConsent } from "@/lib/utils/consent-utils";
+import { cartEmailSchema } from "@/lib/validations";
+
+/**
+ * Set the buyer's email for the order
+ * Body: `{ email }`; an empty email or null clears it. Abandoned cart emails
+ * follow the marketing choice in the cookie banner at the time.
+ */
+export async function PUT(request: NextRequest) {
+  const marketingConsent =
+    parseConsent(request.cookies.get(CONSENT_COOKIE)?.value)?.marketing === true;
+
+  return handleCartRequest(request, cartEmailSchema, (owner, { email }) =>
+    setCartEmail(owner, email, { marketingConsent })
+  );
+}
@@ -1,4 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { getInventoryHolder } from "@/lib/cart-session";
+import { releaseInventory } from "@/lib/inventory";
 import { createClient } from "@/utils/supabase/server";
 
 export async function PUT(
@@ -70,6 +72,8 @@ export async function PUT(
 			.single();
 
 		if (updateError) throw updateError;
+		// The checkout's stock hold no longer matches the cart
+		await releaseInventory(getInventoryHolder({ type: "customer", userId: user.id }));
 
 		console.log(`[CART] Updated cart item:`, updatedItem.id);
 		return NextResponse.json(updatedItem, {
@@ -149,6 +153,8 @@ export async function DELETE(
 			.eq("id", itemId);
 
 		if (deleteError) throw deleteError;
+		// The checkout's stock hold no longer matches the cart
+		await releaseInventory(getInventoryHolder({ type: "customer", userId: user.id }));
 
 		console.log(`[CART] Removed cart item:`, itemId);
 		return NextResponse.json(
@@ -0,0 +1,14 @@
+import type { NextRequest } from "next/server";
+import { setCartNote } from "@/lib/cart";
+import { handleCartRequest } from "@/lib/utils/cart-handler";
+import { cartNoteSchema } from "@/lib/validations";
+
+/**
+ * Set the order note
+ * Body: `{ note }`; an empty note or null clears it.
+ */
+export async function PUT(request: NextRequest) {
+  return handleCartRequest(request, cartNoteSchema, (owner, { note }) =>
+    setCartNote(owner, note)
+  );
+}
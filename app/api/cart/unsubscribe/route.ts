@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { unsubscribeCartRecovery } from "@/lib/cart-recovery";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Stop abandoned cart emails (POST only, so fetching the URL changes nothing)
+ * Mail clients' one-click unsubscribe (RFC 8058, body
+ * `List-Unsubscribe=One-Click`) gets 200, or 400 for an invalid token. The
+ * confirmation form at /cart/unsubscribe is redirected to the cart with
+ * `?reminders=stopped`, or `?reminders=failed` when the link was invalid.
+ */
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+  const form = await request.formData().catch(() => null);
+  const oneClick = form?.get("List-Unsubscribe") === "One-Click";
+
+  let stopped = false;
+  if (token) {
+    try {
+      stopped = await unsubscribeCartRecovery(token);
+    } catch {
+      // Logged by unsubscribeCartRecovery
+    }
+  }
+
+  if (oneClick) {
+    return new NextResponse(null, { status: stopped ? 200 : 400 });
+  }
+
+  const destination = new URL("/cart", request.nextUrl.origin);
+  destination.searchParams.set("reminders", stopped ? "stopped" : "failed");
+  // 303: the browser follows a form POST with a GET
+  return NextResponse.redirect(destination, 303);
+}
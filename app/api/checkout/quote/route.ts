@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { CURRENCY_COOKIE } from "@/lib/currencies";
+import { createApiResponse, HTTP_STATUS, PricingError } from "@/lib/errors";
+import { createPriceQuote } from "@/lib/pricing";
+import { priceQuoteRequestSchema } from "@/lib/validations";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Price a cart server-side
+ * Body: `{ items: [{ productId, variantId, quantity }], destination?:
+ * { country, province? }, shippingMethod?, discountCode?, email?, currency? }`.
+ * Returns a signed quote with the destination's shipping options and the
+ * applied promotions that the cart and checkout summaries render and checkout
+ * submits. Without `currency`, the quote is in the currency cookie's currency.
+ * A rejected discount code is reported in `discountCode`, not as an error.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const parsed = priceQuoteRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const [first] = transformZodErrorsToArray(parsed.error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: first?.message ?? "Invalid cart items",
+        code: "INVALID_ITEMS",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  try {
+    const { items, ...options } = parsed.data;
+    const quote = await createPriceQuote(items, {
+      ...options,
+      currency: options.currency ?? request.cookies.get(CURRENCY_COOKIE)?.value,
+    });
+    const response = NextResponse.json(createApiResponse(quote));
+    response.headers.set("Cache-Control", "private, no-store");
+    return response;
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        createApiResponse(undefined, { message: error.message, code: error.code }),
+        { status: HTTP_STATUS.UNPROCESSABLE_ENTITY }
+      );
+    }
+    logger.error("Failed to price cart", error);
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Unable to price your cart" }),
+      { status: HTTP_STATUS.SERVICE_UNAVAILABLE }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { runCartRecovery } from "@/lib/cart-recovery";
+import { rejectCronRequest } from "@/lib/cron-auth";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Mark, expire and email abandoned guest carts (see `lib/cart-recovery.ts`)
+ * Requires `Authorization: Bearer <CRON_SECRET>`, which Vercel Cron sends;
+ * schedule it every 15 minutes or so. GET for Vercel Cron, POST for other
+ * schedulers.
+ */
+export async function GET(request: NextRequest) {
+  const rejected = rejectCronRequest(request, "Cart recovery");
+  if (rejected) return rejected;
+
+  try {
+    const run = await runCartRecovery();
+    logger.info("Cart recovery ran", { ...run });
+    return NextResponse.json(createApiResponse(run));
+  } catch {
+    // Logged by runCartRecovery
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Cart recovery failed" }),
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { rejectCronRequest } from "@/lib/cron-auth";
+import { processEmailQueue } from "@/lib/email-queue";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Retry failed transactional emails (see `lib/email-queue.ts`)
+ * Requires `Authorization: Bearer <CRON_SECRET>`; schedule it every few
+ * minutes. GET for Vercel Cron, POST for other schedulers.
+ */
+export async function GET(request: NextRequest) {
+  const rejected = rejectCronRequest(request, "Email queue");
+  if (rejected) return rejected;
+
+  try {
+    const run = await processEmailQueue();
+    if (run.sent + run.retrying + run.failed + run.purged > 0) {
+      logger.info("Email queue ran", { ...run });
+    }
+    return NextResponse.json(createApiResponse(run));
+  } catch {
+    // Logged by processEmailQueue
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Email queue failed" }),
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
+
+export const POST = GET;
@@ -1,376 +1,20 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { env } from "@/lib/env-validation";
-import type { Address } from "@/lib/types";
-
-// SECURITY: Only use server-side environment variables - NEVER expose tokens to client
-function getShopifyConfig() {
-	if (
-    !env.SHOPIFY_ACCESS_TOKEN ||
-    !env.SHOPIFY_SHOP ||
-    !env.SHOPIFY_SHOP_NAME
-  ) {
-    throw new Error(
-      "Shopify configuration is missing. Provide SHOPIFY_ACCESS_TOKEN, SHOPIFY_SHOP, and SHOPIFY_SHOP_NAME."
-    );
-  }
-	return {
-    shopDomain: env.SHOPIFY_SHOP,
-    shopName: env.SHOPIFY_SHOP_NAME,
-    accessToken: env.SHOPIFY_ACCESS_TOKEN,
-  };
-}
-
-type ShopifyUserError = {
-	field?: string[];
-	message: string;
-};
-
-// Transformer function to map canonical Address to Shopify's format
-function toShopifyAddress(address: Address): DraftOrderShippingAddress {
-	return {
-		address1: address.address1,
-		address2: address.address2,
-		city: address.city,
-		country: address.country,
-		zip: address.zip,
-		province: address.province || "",
-		first_name: address.firstName,
-		last_name: address.lastName,
-		phone: address.phone,
-		company: address.company,
-	};
-}
-
-export interface DraftOrderLineItem {
-	title?: string;
-	variant_id?: string | number;
-	product_id?: string | number;
-	quantity: number;
-	price?: string | number;
-	sku?: string;
-	grams?: number;
-	taxable?: boolean;
-	requires_shipping?: boolean;
-}
-
-export interface DraftOrderCustomer {
-	id?: string | number;
-	email?: string;
-	first_name?: string;
-	last_name?: string;
-	phone?: string;
-	accepts_marketing?: boolean;
-}
-
-export interface DraftOrderShippingAddress {
-	first_name?: string;
-	last_name?: string;
-	company?: string;
-	address1: string;
-	address2?: string;
-	city: string;
-	province?: string;
-	country: string;
-	zip?: string;
-	phone?: string;
-}
-
-export interface ShopifyDraftOrder {
-	id: string;
-	name: string;
-	invoiceUrl?: string;
-	order?: { id: string };
-	customer?: {
-		id?: string;
-		email?: string;
-		firstName?: string;
-		lastName?: string;
-	};
-	totalPrice: string;
-	subtotalPrice: string;
-	totalTax: string;
-	currencyCode: string;
-	note?: string;
-	tags?: string[];
-	createdAt: string;
-	updatedAt: string;
-}
-
-export interface DraftOrderInput {
-	line_items: DraftOrderLineItem[];
-	customer?: DraftOrderCustomer;
-	shipping_address?: DraftOrderShippingAddress;
-	billing_address?: DraftOrderShippingAddress;
-	tags?: string;
-	note?: string;
-	email?: string;
-	currency?: string;
-	use_customer_default_address?: boolean;
-	tax_lines?: Array<{
-		title: string;
-		rate: number;
-		price: string;
-	}>;
-	shipping_lines?: Array<{
-		title: string;
-		price: string;
-		code?: string;
-	}>;
-}
-
-// Helpers to format Shopify GraphQL IDs
-function toGid(
-	type: "Product" | "ProductVariant" | "DraftOrder",
-	id: string | number | undefined,
-) {
-	if (!id) return undefined;
-	const str = String(id);
-	return str.startsWith("gid://") ? str : `gid://shopify/${type}/${str}`;
-}
-
-// Map our REST-like input to Shopify GraphQL DraftOrderInput
-function toGraphqlDraftOrderInput(input: DraftOrderInput) {
-  const lineItems = (input.line_items || []).map((li) => {
-    const variantGid = li.variant_id
-      ? toGid("ProductVariant", li.variant_id)
-      : undefined;
-
-    // Log the conversion for debugging
-    if (li.variant_id) {
-      console.log("[toGraphqlDraftOrderInput] Converting variant ID:", {
-        original: li.variant_id,
-        converted: variantGid,
-      });
-    }
-
-    return {
-      ...(variantGid ? { variantId: variantGid } : {}),
-      quantity: li.quantity,
-      ...(li.title ? { title: li.title } : {}),
-      ...(li.price !== undefined
-        ? { originalUnitPrice: String(li.price) }
-        : {}),
-    };
-  });
-
-  const customer = input.customer
-    ? {
-        ...(input.customer.email ? { email: input.customer.email } : {}),
-        ...(input.customer.first_name
-          ? { firstName: input.customer.first_name }
-          : {}),
-        ...(input.customer.last_name
-          ? { lastName: input.customer.last_name }
-          : {}),
-        ...(input.customer.phone ? { phone: input.customer.phone } : {}),
-      }
-    : undefined;
-
-  const shippingAddress = input.shipping_address
-    ? toShopifyAddress(input.shipping_address)
-    : undefined;
-
-  const billingAddress = input.billing_address
-    ? toShopifyAddress(input.billing_address)
-    : undefined;
-
-  return {
-    lineItems,
-    ...(customer ? { customer } : {}),
-    ...(shippingAddress ? { shippingAddress } : {}),
-    ...(billingAddress ? { billingAddress } : {}),
-    ...(input.email ? { email: input.email } : {}),
-    ...(input.note ? { note: input.note } : {}),
-    useCustomerDefaultAddress: Boolean(input.use_customer_default_address),
-    ...(input.tags
-      ? {
-          tags: input.tags
-            .split(",")
-            .map((t) => t.trim())
-            .filter(Boolean),
-        }
-      : {}),
-  };
-}
-
-async function shopifyFetch(query: string, variables: Record<string, unknown>) {
-  const { shopDomain, accessToken } = getShopifyConfig();
-  const apiUrl = `https://${shopDomain}/admin/api/2024-01/graphql.json`;
-
-  const response = await fetch(apiUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Shopify-Access-Token": accessToken,
-    },
-    body: JSON.stringify({ query, variables }),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `Shopify API request failed: ${response.status} ${response.statusText} - ${errorBody}`
-    );
-  }
-
-  return response.json();
-}
-
-// Draft order creation function using fetch
-async function createDraftOrder(orderData: DraftOrderInput) {
-  try {
-    const query = `
-      mutation draftOrderCreate($input: DraftOrderInput!) {
-        draftOrderCreate(input: $input) {
-          draftOrder {
-            id
-            name
-            invoiceUrl
-            order { id }
-            customer { id email firstName lastName }
-            totalPrice
-            subtotalPrice
-            totalTax
-            currencyCode
-            tags
-            createdAt
-            updatedAt
-          }
-          userErrors { field message }
-        }
-      }
-    `;
-
-    const graphqlInput = toGraphqlDraftOrderInput(orderData);
-    const variables = { input: graphqlInput };
-
-    // Log the GraphQL input for debugging
-    console.log("[createDraftOrder] Sending to Shopify:", {
-      lineItems: graphqlInput.lineItems,
-      hasCustomer: !!graphqlInput.customer,
-      tags: graphqlInput.tags,
-    });
-
-    const response = await shopifyFetch(query, variables);
-
-    const draftOrderCreate = response.data?.draftOrderCreate;
-
-    if (!draftOrderCreate) {
-      const errors = response.errors || response.extensions;
-      console.error("[createDraftOrder] Shopify returned no data:", {
-        errors,
-        fullResponse: response,
-      });
-      throw new Error(
-        `Shopify draftOrderCreate returned no data: ${JSON.stringify(errors)}`
-      );
-    }
-
-    if (draftOrderCreate.userErrors && draftOrderCreate.userErrors.length > 0) {
-      console.error("[createDraftOrder] Shopify user errors:", {
-        userErrors: draftOrderCreate.userErrors,
-        sentInput: graphqlInput,
-      });
-      throw new Error(
-        `Shopify API errors: ${draftOrderCreate.userErrors
-          .map((e: ShopifyUserError) => e.message)
-          .join(", ")}`
-      );
-    }
-
-    console.log("[createDraftOrder] Draft order created successfully:", {
-      draftOrderId: draftOrderCreate.draftOrder?.id,
-      hasInvoiceUrl: !!draftOrderCreate.draftOrder?.invoiceUrl,
-    });
-
-    return draftOrderCreate.draftOrder;
-  } catch (error) {
-    console.error("Error creating draft order:", error);
-    throw new Error(
-      `Failed to create draft order: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
-  }
-}
-
-// Send invoice function using fetch
-async function sendDraftOrderInvoice(
-	draftOrderId: string,
-	invoiceData?: {
-		to?: string;
-		from?: string;
-		subject?: string;
-		customMessage?: string;
-	},
-) {
-	try {
-		const mutation = `
-      mutation draftOrderInvoiceSend($id: ID!, $email: EmailInput) {
-        draftOrderInvoiceSend(id: $id, email: $email) {
-          draftOrder {
-            id
-            invoiceUrl
-          }
-          userErrors {
-            field
-            message
-          }
-        }
-      }
-    `;
-
-		const variables = {
-			id: toGid("DraftOrder", draftOrderId)!,
-			email: invoiceData
-				? {
-						to: invoiceData.to,
-						from: invoiceData.from,
-						subject: invoiceData.subject,
-						customMessage: invoiceData.customMessage,
-					}
-				: undefined,
-		};
-
-		const response = await shopifyFetch(mutation, variables);
-
-		const draftOrderInvoiceSend = response.data?.draftOrderInvoiceSend;
-
-		if (!draftOrderInvoiceSend) {
-			const errors = response.errors || response.extensions;
-			throw new Error(
-				`Shopify draftOrderInvoiceSend returned no data: ${JSON.stringify(errors)}`,
-			);
-		}
-
-		if (
-			draftOrderInvoiceSend.userErrors &&
-			draftOrderInvoiceSend.userErrors.length > 0
-		) {
-			throw new Error(
-				`Shopify API errors: ${draftOrderInvoiceSend.userErrors.map((e: ShopifyUserError) => e.message).join(", ")}`,
-			);
-		}
-
-		return draftOrderInvoiceSend.draftOrder;
-	} catch (error) {
-		console.error("Error sending draft order invoice:", error);
-		throw new Error(
-			`Failed to send draft order invoice: ${error instanceof Error ? error.message : "Unknown error"}`,
-		);
-	}
-}
-
+import { PricingError } from "@/lib/errors";
+import { confirmPriceQuote, type ConfirmedPricing } from "@/lib/pricing";
+import {
+  createDraftOrder,
+  getShopifyConfig,
+  quotedDraftOrderFields,
+  sendDraftOrderInvoice,
+  type DraftOrderInput,
+  type DraftOrderShippingAddress,
+} from "@/lib/shopify-draft-orders";
+
+// Prices always come from the quote, so lines only say what is being bought
 interface RequestLineItem {
-	title?: string;
 	variantId?: string;
 	productId?: string;
 	quantity: number;
-	price?: string;
-	sku?: string;
-	grams?: number;
-	taxable?: boolean;
-	requiresShipping?: boolean;
 }
 
 interface DraftOrderRequestBody {
@@ -381,6 +25,11 @@ interface DraftOrderRequestBody {
 	customerPhone?: string;
 	shippingAddress?: DraftOrderShippingAddress;
 	billingAddress?: DraftOrderShippingAddress;
+	/**
+	 * Token of a checkout price quote for these lines (required); prices,
+	 * shipping, tax, the discount and the currency all come from the quote
+	 */
+	quoteToken?: string;
 	note?: string;
 	tags?: string;
 	sendInvoice?: boolean;
@@ -420,6 +69,7 @@ export async function POST(request: NextRequest) {
       customerPhone,
       shippingAddress,
       billingAddress,
+      quoteToken,
       note,
       tags,
       sendInvoice = false,
@@ -447,21 +97,43 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Money fields are only ever taken from a verified quote, never the request
+    if (!quoteToken) {
+      return NextResponse.json(
+        { success: false, error: "A price quote token is required" },
+        { status: 400 }
+      );
+    }
+
+    let quoted: ConfirmedPricing;
+    try {
+      quoted = await confirmPriceQuote(
+        lineItems.map((item) => ({
+          productId: String(item.productId ?? ""),
+          variantId: String(item.variantId ?? ""),
+          quantity: item.quantity,
+        })),
+        quoteToken,
+        {
+          destination: {
+            country: shippingAddress?.country ?? "",
+            province: shippingAddress?.province || undefined,
+          },
+          email: customerEmail,
+        }
+      );
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return NextResponse.json(
+          { success: false, error: error.message, code: error.code },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
     // Build draft order data
     const draftOrderData: DraftOrderInput = {
-      line_items: lineItems.map(
-        (item): DraftOrderLineItem => ({
-          title: item.title,
-          variant_id: item.variantId,
-          product_id: item.productId,
-          quantity: item.quantity,
-          price: item.price ? parseFloat(item.price) : undefined,
-          sku: item.sku,
-          grams: item.grams,
-          taxable: item.taxable,
-          requires_shipping: item.requiresShipping,
-        })
-      ),
       ...(customerEmail && {
         customer: {
           email: customerEmail,
@@ -476,6 +148,7 @@ export async function POST(request: NextRequest) {
       ...(note && { note }),
       ...(tags && { tags }),
       use_customer_default_address: !shippingAddress,
+      ...quotedDraftOrderFields(quoted),
     };
 
     // Create the draft order
@@ -1,12 +1,19 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { SITE_CONFIG } from "@/lib/constants";
 import { getProductsCount } from "@/lib/data/products";
 import { generateFeedIndexXml } from "@/lib/utils/xml-feeds/feed-generator";
+import { getFeedCurrency } from "@/lib/utils/xml-feeds/handler";
 import { logger } from "@/lib/utils/logger";
 
 const PRODUCTS_PER_PAGE = 5000;
 
-export async function GET() {
+export async function GET(req: NextRequest) {
+  // ?currency=EUR lists pages priced in that currency
+  const currency = getFeedCurrency(req);
+  if (!currency) {
+    return new NextResponse("Unsupported currency", { status: 400 });
+  }
+
   try {
     logger.info("Generating Bing Merchant feed index");
     const totalProducts = await getProductsCount();
@@ -15,7 +22,8 @@ export async function GET() {
     const xml = generateFeedIndexXml(
       SITE_CONFIG.url,
       "api/feed/bing-merchant",
-      totalPages
+      totalPages,
+      currency
     );
 
     return new NextResponse(xml, {
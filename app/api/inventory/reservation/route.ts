@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCartOwner, getInventoryHolder } from "@/lib/cart-session";
+import { createApiResponse, HTTP_STATUS, InventoryError } from "@/lib/errors";
+import { releaseInventory, reserveInventory } from "@/lib/inventory";
+import { stockLevelsRequestSchema } from "@/lib/validations";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Hold the cart's quantities while the shopper checks out
+ * Body: `{ items }`; the hold belongs to the signed-in customer or the guest
+ * cart session. Returns `{ expiresAt, levels }`; short items answer 409
+ * (`INSUFFICIENT_STOCK`) with the `issues` in `data`, and nothing is held.
+ */
+export async function POST(request: NextRequest) {
+  const parsed = stockLevelsRequestSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: transformZodErrorsToArray(parsed.error)[0]?.message ?? "Invalid request",
+        code: "INVALID_ITEMS",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  try {
+    const owner = await getCartOwner({ create: true });
+    const reservation = await reserveInventory(
+      getInventoryHolder(owner),
+      parsed.data.items
+    );
+    return NextResponse.json(createApiResponse(reservation));
+  } catch (error) {
+    if (error instanceof InventoryError) {
+      return NextResponse.json(
+        createApiResponse(
+          { issues: error.issues },
+          { message: error.message, code: error.code }
+        ),
+        { status: HTTP_STATUS.CONFLICT }
+      );
+    }
+    logger.error("Failed to hold inventory", error);
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Unable to hold your items" }),
+      { status: HTTP_STATUS.SERVICE_UNAVAILABLE }
+    );
+  }
+}
+
+/**
+ * Release the shopper's hold, e.g. after the cart changed
+ */
+export async function DELETE() {
+  const owner = await getCartOwner();
+  if (owner) await releaseInventory(getInventoryHolder(owner));
+  return new NextResponse(null, { status: HTTP_STATUS.NO_CONTENT });
+}
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { getStockLevels } from "@/lib/inventory";
+import { stockLevelsRequestSchema } from "@/lib/validations";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Stock available for cart lines
+ * Body: `{ items: [{ productId, variantId, quantity }] }`. Returns one
+ * `{ productId, variantId, available, status }` per line; the cart flags
+ * lines that sold out or exceed `available` since they were added.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const parsed = stockLevelsRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const [first] = transformZodErrorsToArray(parsed.error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: first?.message ?? "Invalid cart items",
+        code: "INVALID_ITEMS",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  try {
+    const levels = await getStockLevels(parsed.data.items);
+    const response = NextResponse.json(createApiResponse(levels));
+    response.headers.set("Cache-Control", "private, no-store");
+    return response;
+  } catch (error) {
+    logger.error("Failed to check stock", error);
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Unable to check stock" }),
+      { status: HTTP_STATUS.SERVICE_UNAVAILABLE }
+    );
+  }
+}
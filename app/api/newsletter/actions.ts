@@ -1,13 +1,12 @@
 "use server";
 
-import { revalidatePath } from "next/cache";
-import { createClient } from "@/utils/supabase/server";
+import { requestNewsletterSubscription } from "@/lib/newsletter";
+import { newsletterSchema } from "@/lib/validations";
 
 export async function subscribeToNewsletter(formData: FormData) {
-	const email = formData.get("email") as string;
-	const supabase = await createClient();
+	const parsed = newsletterSchema.safeParse({ email: formData.get("email") });
+	if (!parsed.success) return;
 
-	await supabase.from("newsletter_subscriptions").insert({ email });
-
-	revalidatePath("/");
+	// Logged by requestNewsletterSubscription; the form has nothing to show
+	await requestNewsletterSubscription(parsed.data.email).catch(() => undefined);
 }
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { confirmNewsletterSubscription } from "@/lib/newsletter";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Confirmation links from newsletter signup emails
+ * Confirms the subscription, then opens the home page with
+ * `?newsletter=confirmed`, or `?newsletter=invalid` when the link was
+ * unknown, already used or expired.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token");
+  const destination = new URL("/", request.nextUrl.origin);
+
+  let confirmed = false;
+  if (token) {
+    try {
+      confirmed = await confirmNewsletterSubscription(token);
+    } catch {
+      // Logged by confirmNewsletterSubscription
+    }
+  }
+
+  destination.searchParams.set("newsletter", confirmed ? "confirmed" : "invalid");
+  return NextResponse.redirect(destination);
+}
@@ -1,29 +1,32 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { requestNewsletterSubscription } from "@/lib/newsletter";
+import { newsletterSchema } from "@/lib/validations";
 
+/**
+ * Newsletter signup: emails the address a link that confirms the
+ * subscription (double opt-in, see `lib/newsletter.ts`)
+ */
 export async function POST(request: NextRequest) {
-	try {
-		const { email } = await request.json();
-
-		if (!email || !email.includes("@")) {
-			return NextResponse.json(
-				{ error: "Valid email is required" },
-				{ status: 400 },
-			);
-		}
-
-		// Here you would integrate with your email service provider
-		// For example: Mailchimp, ConvertKit, SendGrid, etc.
-
-		// Simulate API call
-		await new Promise((resolve) => setTimeout(resolve, 1000));
+	const parsed = newsletterSchema.safeParse(
+		await request.json().catch(() => null),
+	);
+	if (!parsed.success) {
+		return NextResponse.json(
+			{ error: "Valid email is required" },
+			{ status: 400 },
+		);
+	}
 
+	try {
+		await requestNewsletterSubscription(parsed.data.email);
 		return NextResponse.json(
-			{ message: "Successfully subscribed to newsletter" },
+			{ message: "Check your inbox to confirm your subscription" },
 			{ status: 200 },
 		);
-	} catch (error: unknown) {
+	} catch {
+		// Logged by requestNewsletterSubscription
 		return NextResponse.json(
-			{ error: `Internal server error ${error}` },
+			{ error: "Internal server error" },
 			{ status: 500 },
 		);
 	}
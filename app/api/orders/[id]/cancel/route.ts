@@ -0,0 +1,73 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createApiResponse, HTTP_STATUS, OrderStatusError } from "@/lib/errors";
+import { transitionOrderStatus } from "@/lib/order-status";
+import { cancelOrderSchema } from "@/lib/validations";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { logger } from "@/lib/utils/logger";
+import { createClient } from "@/utils/supabase/server";
+
+const ERROR_STATUS: Record<OrderStatusError["code"], number> = {
+  ORDER_NOT_FOUND: HTTP_STATUS.NOT_FOUND,
+  INVALID_TRANSITION: HTTP_STATUS.CONFLICT,
+  POLICY_VIOLATION: HTTP_STATUS.UNPROCESSABLE_ENTITY,
+  FORBIDDEN: HTTP_STATUS.FORBIDDEN,
+  CONFLICT: HTTP_STATUS.CONFLICT,
+};
+
+/**
+ * Cancel one of the signed-in customer's orders
+ * Allowed within the online cancellation window and before the order is
+ * being prepared; otherwise the customer is pointed to support.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Unauthorized", code: "UNAUTHORIZED" }),
+      { status: HTTP_STATUS.UNAUTHORIZED }
+    );
+  }
+
+  const parsed = cancelOrderSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    const [first] = transformZodErrorsToArray(parsed.error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: first?.message ?? "Invalid request",
+        code: "INVALID_REQUEST",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  try {
+    const result = await transitionOrderStatus(id, "cancelled", {
+      actor: { type: "customer", userId: user.id },
+      ownerId: user.id,
+      notes: parsed.data.reason
+        ? `Cancelled by customer: ${parsed.data.reason}`
+        : "Cancelled by customer",
+    });
+    return NextResponse.json(createApiResponse(result));
+  } catch (error) {
+    if (error instanceof OrderStatusError) {
+      return NextResponse.json(
+        createApiResponse(undefined, { message: error.message, code: error.code }),
+        { status: ERROR_STATUS[error.code] }
+      );
+    }
+    logger.error("Order cancellation failed", error, { orderId: id });
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Failed to cancel order" }),
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -1,4 +1,18 @@
 import { NextResponse } from "next/server";
+import {
+	InventoryError,
+	OrderPlacementError,
+	PricingError,
+} from "@/lib/errors";
+import { recordOrderPlaced } from "@/lib/journeys";
+import {
+	orderFromPricing,
+	placeOrder,
+	type PlacedOrder,
+} from "@/lib/order-placement";
+import { confirmPriceQuote, type ConfirmedPricing } from "@/lib/pricing";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { createOrderSchema } from "@/lib/validations";
 import { createClient } from "@/utils/supabase/server";
 
 export async function GET() {
@@ -45,12 +59,74 @@ export async function POST(request: Request) {
 		});
 	}
 
-	const { total, items } = await request.json();
+	const parsed = createOrderSchema.safeParse(
+		await request.json().catch(() => null),
+	);
+	if (!parsed.success) {
+		const [first] = transformZodErrorsToArray(parsed.error);
+		return NextResponse.json(
+			{ message: first?.message ?? "Invalid order" },
+			{ status: 400 },
+		);
+	}
+
+	// The total is computed server-side and must match the accepted quote
+	let pricing: ConfirmedPricing;
+	try {
+		pricing = await confirmPriceQuote(
+			parsed.data.items,
+			parsed.data.quoteToken,
+			{ destination: parsed.data.destination, email: user.email },
+		);
+	} catch (error) {
+		if (error instanceof PricingError) {
+			return NextResponse.json(
+				{ message: error.message, code: error.code },
+				{ status: 409 },
+			);
+		}
+		throw error;
+	}
+
+	// Retries with the same key get the order back instead of a duplicate
+	let placed: PlacedOrder;
+	try {
+		placed = await placeOrder(
+			parsed.data.idempotencyKey,
+			{ userId: user.id },
+			{ ...orderFromPricing(pricing), email: user.email },
+		);
+	} catch (error) {
+		if (error instanceof InventoryError) {
+			return NextResponse.json(
+				{ message: error.message, code: error.code, issues: error.issues },
+				{ status: 409 },
+			);
+		}
+		if (error instanceof PricingError || error instanceof OrderPlacementError) {
+			return NextResponse.json(
+				{ message: error.message, code: error.code },
+				{ status: 409 },
+			);
+		}
+		return new NextResponse(
+			JSON.stringify({ message: "Failed to place order" }),
+			{ status: 500, headers: { "Content-Type": "application/json" } },
+		);
+	}
+
+	if (placed.created) {
+		// Logged by recordJourneyStep; tracking never fails the order
+		await recordOrderPlaced(placed.id, pricing.totals.total, user.id).catch(
+			() => undefined,
+		);
+	}
 
 	const { data: newOrder, error } = await supabase
 		.from("orders")
-		.insert([{ user_id: user.id, total, items }])
-		.select();
+		.select("*")
+		.eq("id", placed.id)
+		.single();
 
 	if (error) {
 		return new NextResponse(JSON.stringify({ message: error.message }), {
@@ -60,7 +136,7 @@ export async function POST(request: Request) {
 	}
 
 	return new NextResponse(JSON.stringify(newOrder), {
-		status: 201,
+		status: placed.created ? 201 : 200,
 		headers: { "Content-Type": "application/json" },
 	});
 }
@@ -0,0 +1,106 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { findOrderIdForTracking, getOrderTracking } from "@/lib/data/orders";
+import { verifyTrackingToken } from "@/lib/order-tracking";
+import { rateLimit } from "@/lib/redis";
+import { trackOrderSchema } from "@/lib/validations";
+import { getClientIp } from "@/lib/utils/request-utils";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { logger } from "@/lib/utils/logger";
+
+const LOOKUP_WINDOW_SECONDS = 15 * 60;
+/** Attempts per client IP per window */
+const IP_LOOKUP_LIMIT = 10;
+/** Attempts per order number per window, so emails can't be guessed from many IPs */
+const ORDER_LOOKUP_LIMIT = 5;
+
+// One message for unknown orders and wrong emails, so neither can be probed
+const NOT_FOUND_MESSAGE =
+  "Order not found. Please check your order number and email address.";
+
+function tooManyRequests(retryAfter: number) {
+  return NextResponse.json(
+    createApiResponse(undefined, {
+      message: "Too many tracking attempts. Please try again later.",
+      code: "RATE_LIMITED",
+    }),
+    {
+      status: HTTP_STATUS.TOO_MANY_REQUESTS,
+      headers: { "Retry-After": String(retryAfter) },
+    }
+  );
+}
+
+function notFound(message = NOT_FOUND_MESSAGE) {
+  return NextResponse.json(
+    createApiResponse(undefined, { message, code: "ORDER_NOT_FOUND" }),
+    { status: HTTP_STATUS.NOT_FOUND }
+  );
+}
+
+/**
+ * Guest order tracking
+ * Body: `{ orderNumber, email }` or `{ token }` from an emailed tracking link.
+ * Responds with the order's status timeline, line items and shipments.
+ */
+export async function POST(request: NextRequest) {
+  const ipLimit = await rateLimit(`track-order:ip:${getClientIp(request.headers)}`, {
+    limit: IP_LOOKUP_LIMIT,
+    windowSeconds: LOOKUP_WINDOW_SECONDS,
+  });
+  if (!ipLimit.allowed) {
+    return tooManyRequests(ipLimit.retryAfter);
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = trackOrderSchema.safeParse(body);
+  if (!parsed.success) {
+    const [first] = transformZodErrorsToArray(parsed.error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: first?.message ?? "Order number and email are required",
+        code: "INVALID_REQUEST",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  logger.api("POST", "/api/orders/track", undefined, undefined);
+
+  try {
+    let orderId: string | null;
+    if ("token" in parsed.data) {
+      orderId = verifyTrackingToken(parsed.data.token);
+      if (!orderId) {
+        return notFound("This tracking link is invalid or has expired.");
+      }
+    } else {
+      const { orderNumber, email } = parsed.data;
+      const orderLimit = await rateLimit(`track-order:order:${orderNumber}`, {
+        limit: ORDER_LOOKUP_LIMIT,
+        windowSeconds: LOOKUP_WINDOW_SECONDS,
+      });
+      if (!orderLimit.allowed) {
+        return tooManyRequests(orderLimit.retryAfter);
+      }
+      orderId = await findOrderIdForTracking(orderNumber, email);
+    }
+
+    const tracking = orderId ? await getOrderTracking(orderId) : null;
+    if (!tracking) {
+      return notFound();
+    }
+
+    const response = NextResponse.json(createApiResponse(tracking));
+    response.headers.set("Cache-Control", "private, no-store");
+    return response;
+  } catch (error) {
+    logger.error("Order tracking lookup failed", error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Order tracking is temporarily unavailable",
+      }),
+      { status: HTTP_STATUS.SERVICE_UNAVAILABLE }
+    );
+  }
+}
@@ -1,56 +1,90 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { getProducts } from "@/lib/data/products";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { getCollectionDefinition } from "@/lib/collections";
+import {
+  getCollectionListing,
+  paginateProducts,
+  type CollectionListing,
+} from "@/lib/data/collections";
+import { getSearchCandidates } from "@/lib/data/search";
+import { collectionQuerySchema } from "@/lib/validations";
+import { parseCollectionParams } from "@/lib/utils/collection-utils";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
 import { logger } from "@/lib/utils/logger";
 
+/**
+ * Paginated product listing
+ *
+ * Query parameters: `page`, `limit`, `collection` (registry handle, default
+ * `all`), `search`, `sort` (featured|price-asc|price-desc|newest|best-rated|
+ * best-selling) and the search page's filters: repeatable `vendor`, `type`,
+ * `tag`, `option` and `price`, plus `in_stock=1`. Filters and sorting run
+ * before pagination, so `total` and `totalPages` are exact.
+ */
 export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const search = searchParams.get("search") || undefined;
-    const vendor = searchParams.get("vendor") || undefined;
-    const limit = Math.min(Number(searchParams.get("limit")) || 20, 100);
-    const page = Number(searchParams.get("page")) || 1;
+  const { searchParams } = request.nextUrl;
+  const search = searchParams.get("search")?.trim() || undefined;
+  const handle = searchParams.get("collection") || "all";
 
-    logger.api("GET", "/api/products", undefined, undefined);
-    logger.debug("Loading products", {
-      limit,
-      page,
-      search: search || "none",
-      vendor,
-    });
+  const collection = getCollectionDefinition(handle);
+  if (!collection) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: `Unknown collection "${handle}"`,
+        code: "UNKNOWN_COLLECTION",
+      }),
+      { status: HTTP_STATUS.NOT_FOUND }
+    );
+  }
 
-    // Use a generic product loader that returns JSON
-    const products = await getProducts({
-      limit,
-      page,
-      search,
-      context: "ssr",
-    });
+  const parsed = collectionQuerySchema.safeParse(parseCollectionParams(searchParams));
+  if (!parsed.success) {
+    const [first] = transformZodErrorsToArray(parsed.error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: first?.message ?? "Invalid listing parameters",
+        code: "INVALID_QUERY",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+  const query = parsed.data;
 
-    // TODO: Handle vendor filtering client-side if external API doesn't support it
-    let filteredProducts = products;
-    if (vendor) {
-      filteredProducts = products.filter(
-        (p) => p.vendor?.toLowerCase() === vendor.toLowerCase()
-      );
-    }
+  logger.api("GET", "/api/products", undefined, undefined);
+  logger.debug("Loading products", {
+    collection: handle,
+    search: search || "none",
+    page: query.page,
+    limit: query.limit,
+    sort: query.sort,
+  });
 
-    const responseData = {
-      products: filteredProducts,
-      page,
-      limit,
-      total: filteredProducts.length,
-      hasMore: products.length === limit, // Simple heuristic
-    };
+  try {
+    let listing: CollectionListing;
+    if (search) {
+      // Search candidates are already in memory, so filter them in place
+      const { products } = await getSearchCandidates(search);
+      listing = paginateProducts(products, query, false);
+    } else {
+      listing = await getCollectionListing(collection, query);
+    }
 
-    // Standard JSON response with caching
-    const response = NextResponse.json(responseData);
+    const response = NextResponse.json({
+      products: listing.products,
+      page: listing.page,
+      limit: listing.limit,
+      total: listing.total,
+      totalPages: listing.totalPages,
+      hasMore: listing.page < listing.totalPages,
+    });
     response.headers.set(
       "Cache-Control",
       "public, s-maxage=300, stale-while-revalidate=600"
     );
 
     logger.debug(`Sending products response`, {
-      count: filteredProducts.length,
+      count: listing.products.length,
+      total: listing.total,
     });
     return response;
   } catch (error) {
@@ -62,6 +96,7 @@ export async function GET(request: NextRequest) {
         page: 1,
         limit: 20,
         total: 0,
+        totalPages: 0,
         hasMore: false,
       },
       { status: 500 }
@@ -0,0 +1,73 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { searchCatalog } from "@/lib/data/search";
+import { rateLimit } from "@/lib/redis";
+import { searchSchema } from "@/lib/validations";
+import { getClientIp } from "@/lib/utils/request-utils";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+import { parseSearchParams } from "@/lib/utils/search-utils";
+import { logger } from "@/lib/utils/logger";
+
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+/** Searches per client IP per window; each uncached one queries the database */
+const SEARCHES_PER_MINUTE = 60;
+
+/**
+ * Faceted product search
+ *
+ * Query parameters: `q`, repeatable `type`, `vendor`, `tag`, `option`
+ * (`Name:Value`) and `price` (bucket id), `in_stock=1`, `sort`
+ * (relevance|price|rating|created_at|name), `order` (asc|desc), `limit`
+ * and `cursor` from a previous response's `nextCursor`.
+ */
+export async function GET(request: NextRequest) {
+  const limit = await rateLimit(`search:ip:${getClientIp(request.headers)}`, {
+    limit: SEARCHES_PER_MINUTE,
+    windowSeconds: RATE_LIMIT_WINDOW_SECONDS,
+  });
+  if (!limit.allowed) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Too many search requests. Please try again shortly.",
+        code: "RATE_LIMITED",
+      }),
+      {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(limit.retryAfter) },
+      }
+    );
+  }
+
+  const parsed = searchSchema.safeParse(
+    parseSearchParams(request.nextUrl.searchParams)
+  );
+
+  if (!parsed.success) {
+    const [first] = transformZodErrorsToArray(parsed.error);
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: first?.message ?? "Invalid search parameters",
+        code: "INVALID_SEARCH",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  try {
+    logger.api("GET", "/api/search", undefined, undefined);
+    const result = await searchCatalog(parsed.data);
+
+    const response = NextResponse.json(createApiResponse(result));
+    response.headers.set(
+      "Cache-Control",
+      "public, s-maxage=180, stale-while-revalidate=600"
+    );
+    return response;
+  } catch (error) {
+    logger.error("Search failed", error, { query: parsed.data.query });
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Search is temporarily unavailable" }),
+      { status: HTTP_STATUS.BAD_GATEWAY }
+    );
+  }
+}
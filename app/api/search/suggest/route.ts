@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { searchSuggestSchema } from "@/lib/validations";
+import { getSearchSuggestions } from "@/lib/utils/search-server-utils";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Autocomplete for the header search bar
+ * Answers from the in-process search index; `?q=` is the partial query
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const parsed = searchSuggestSchema.safeParse({
+    q: searchParams.get("q") ?? "",
+    limit: searchParams.get("limit") ?? undefined,
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Query is required",
+        code: "INVALID_SEARCH",
+      }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  try {
+    const suggestions = await getSearchSuggestions(parsed.data.q, parsed.data.limit);
+    const response = NextResponse.json(createApiResponse(suggestions));
+    response.headers.set(
+      "Cache-Control",
+      "public, s-maxage=60, stale-while-revalidate=300"
+    );
+    return response;
+  } catch (error) {
+    logger.error("Search suggestions failed", error, { query: parsed.data.q });
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Suggestions unavailable" }),
+      { status: HTTP_STATUS.SERVICE_UNAVAILABLE }
+    );
+  }
+}
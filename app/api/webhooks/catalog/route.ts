@@ -0,0 +1,96 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { env } from "@/lib/env-validation";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  claimCatalogEvent,
+  releaseCatalogEvent,
+  revalidateCatalogEvent,
+  verifyCatalogSignature,
+} from "@/lib/catalog-webhook";
+import { catalogWebhookEventSchema } from "@/lib/validations";
+import { logger } from "@/lib/utils/logger";
+import { invalidateSearchIndex } from "@/lib/utils/search-server-utils";
+
+// Signature checks need the exact raw body and must never be cached
+export const dynamic = "force-dynamic";
+
+/**
+ * Receive catalog change events and revalidate affected pages, feeds and cache
+ */
+export async function POST(request: NextRequest) {
+  const secret = env.CATALOG_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error("Catalog webhook received but CATALOG_WEBHOOK_SECRET is not set");
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Webhook not configured" }),
+      { status: HTTP_STATUS.SERVICE_UNAVAILABLE }
+    );
+  }
+
+  const rawBody = await request.text();
+  const check = verifyCatalogSignature(
+    secret,
+    rawBody,
+    request.headers.get(SIGNATURE_HEADER),
+    request.headers.get(TIMESTAMP_HEADER)
+  );
+
+  if (!check.valid) {
+    logger.warn("Rejected catalog webhook", { reason: check.reason });
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Invalid signature" }),
+      { status: HTTP_STATUS.UNAUTHORIZED }
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Malformed JSON body" }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  const parsed = catalogWebhookEventSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Unsupported catalog event",
+        code: "INVALID_EVENT",
+      }),
+      { status: HTTP_STATUS.UNPROCESSABLE_ENTITY }
+    );
+  }
+
+  const event = parsed.data;
+
+  if (!(await claimCatalogEvent(event.id))) {
+    logger.info("Ignoring duplicate catalog webhook", { eventId: event.id });
+    return NextResponse.json(createApiResponse({ duplicate: true }), {
+      status: HTTP_STATUS.OK,
+    });
+  }
+
+  try {
+    const summary = await revalidateCatalogEvent(event);
+    invalidateSearchIndex();
+    return NextResponse.json(createApiResponse(summary), {
+      status: HTTP_STATUS.OK,
+    });
+  } catch (error) {
+    // Let the sender retry the same event id
+    await releaseCatalogEvent(event.id);
+    logger.error("Catalog webhook processing failed", error, {
+      eventId: event.id,
+      type: event.type,
+    });
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Failed to process event" }),
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { env } from "@/lib/env-validation";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import {
+  HMAC_HEADER,
+  ORDERS_PAID_TOPIC,
+  TOPIC_HEADER,
+  markShopifyOrderPaid,
+  verifyShopifySignature,
+} from "@/lib/shopify-webhook";
+import { shopifyPaidOrderSchema } from "@/lib/validations";
+import { logger } from "@/lib/utils/logger";
+
+// Signature checks need the exact raw body and must never be cached
+export const dynamic = "force-dynamic";
+
+/**
+ * Receive Shopify order payments and mark the matching storefront orders paid
+ */
+export async function POST(request: NextRequest) {
+  const secret = env.SHOPIFY_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error("Shopify webhook received but SHOPIFY_WEBHOOK_SECRET is not set");
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Webhook not configured" }),
+      { status: HTTP_STATUS.SERVICE_UNAVAILABLE }
+    );
+  }
+
+  const rawBody = await request.text();
+  if (!verifyShopifySignature(secret, rawBody, request.headers.get(HMAC_HEADER))) {
+    logger.warn("Rejected Shopify webhook", { reason: "Signature mismatch" });
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Invalid signature" }),
+      { status: HTTP_STATUS.UNAUTHORIZED }
+    );
+  }
+
+  const topic = request.headers.get(TOPIC_HEADER);
+  if (topic !== ORDERS_PAID_TOPIC) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Unsupported webhook topic",
+        code: "INVALID_EVENT",
+      }),
+      { status: HTTP_STATUS.UNPROCESSABLE_ENTITY }
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Malformed JSON body" }),
+      { status: HTTP_STATUS.BAD_REQUEST }
+    );
+  }
+
+  const parsed = shopifyPaidOrderSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: "Unsupported order payload",
+        code: "INVALID_EVENT",
+      }),
+      { status: HTTP_STATUS.UNPROCESSABLE_ENTITY }
+    );
+  }
+
+  try {
+    const result = await markShopifyOrderPaid(parsed.data);
+    return NextResponse.json(createApiResponse(result), {
+      status: HTTP_STATUS.OK,
+    });
+  } catch (error) {
+    // Shopify retries failed deliveries
+    logger.error("Shopify webhook processing failed", error, {
+      shopifyOrderId: parsed.data.id,
+      topic,
+    });
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Failed to process event" }),
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { GeistSans } from "geist/font/sans";
 import type { Viewport } from "next";
 import { WebsiteSchema } from "@blocks/common/website-schema";
 import { env } from "@/lib/env-validation";
+import { getPresentmentCurrency } from "@/lib/presentment-currency";
 import { Providers } from "./providers";
 
 export const viewport: Viewport = {
@@ -62,7 +63,7 @@ export default async function RootLayout({
         <WebsiteSchema />
       </head>
       <body className="will-change-scroll">
-        <Providers>{children}</Providers>
+        <Providers currency={await getPresentmentCurrency()}>{children}</Providers>
       </body>
     </html>
   );
@@ -3,11 +3,15 @@
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import React from "react";
 
+import { AnalyticsTracker } from "@blocks/common/analytics-tracker";
+import { CookieBanner } from "@blocks/common/cookie-banner";
 import ErrorBoundary from "@blocks/common/error-boundary";
+import { WebVitalsReporter } from "@blocks/common/web-vitals-reporter";
 import { PWAProvider } from "@blocks/pwa/pwa-provider";
 import { Toaster } from "@/components/ui/sonner";
 import { AuthProvider } from "@/contexts/auth-context";
 import { CartProvider } from "@/contexts/cart-context";
+import { CurrencyProvider } from "@/contexts/currency-context";
 import { ComposeProvider } from "@/lib/compose-provider";
 
  
@@ -16,7 +20,14 @@ type ProviderWithProps<P = object> = [
   P
 ];
 
-export function Providers({ children }: { children: React.ReactNode }) {
+export function Providers({
+  children,
+  currency,
+}: {
+  children: React.ReactNode;
+  /** Presentment currency from the request cookie */
+  currency?: string;
+}) {
   const [queryClient] = React.useState(() => new QueryClient());
 
   const providers: ProviderWithProps[] = [
@@ -28,6 +39,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
       ),
       {},
     ],
+    [CurrencyProvider, { initialCurrency: currency }],
     [AuthProvider, {}],
     [CartProvider, {}],
     [PWAProvider, {}],
@@ -37,6 +49,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
     <ComposeProvider providers={providers}>
       {children}
       <Toaster />
+      <CookieBanner />
+      <AnalyticsTracker />
+      <WebVitalsReporter />
     </ComposeProvider>
   );
 }
@@ -30,6 +30,7 @@ const PRIVATE_PATHS = [
   "/cart",
   "/checkout/",
   "/admin/",
+  "/internal/",
   "/api/",
   "/_next/",
   "/static/",
@@ -1,11 +1,10 @@
 import type { MetadataRoute } from "next";
-import { getProducts } from "@/lib/data/products";
+import { iterateProducts } from "@/lib/data/products";
 import { SITE_CONFIG } from "@/lib/constants";
+import { COLLECTIONS } from "@/lib/collections";
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 	try {
-		const products = await getProducts({ limit: 10000, page: 1 });
-
 		// Core pages
 		const corePages: MetadataRoute.Sitemap = [
 			{
@@ -14,12 +13,6 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 				changeFrequency: "daily",
 				priority: 1.0,
 			},
-			{
-				url: `${SITE_CONFIG.url}/collections/all`,
-				lastModified: new Date(),
-				changeFrequency: "daily",
-				priority: 0.9,
-			},
 			{
 				url: `${SITE_CONFIG.url}/search`,
 				lastModified: new Date(),
@@ -265,8 +258,9 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 			...apiPages,
 		];
 
-		// Product pages with enhanced metadata
-		const productEntries: MetadataRoute.Sitemap = products.map((product) => {
+		// Product pages with enhanced metadata, streamed page by page from the catalog
+		const productEntries: MetadataRoute.Sitemap = [];
+		for await (const product of iterateProducts()) {
 			// Determine priority based on product status and type
 			let priority = 0.7; // Default priority
 
@@ -278,43 +272,25 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 			// Cap priority at 0.9 (below homepage)
 			priority = Math.min(priority, 0.9);
 
-			return {
+			productEntries.push({
 				url: `${SITE_CONFIG.url}/products/${product.handle}`,
 				lastModified: new Date(
 					product.updated_at || product.created_at || new Date(),
 				),
 				changeFrequency: "weekly" as const,
 				priority: priority,
-			};
-		});
+			});
+		}
 
-		// Category/Collection pages (if you have them)
-		const categoryPages: MetadataRoute.Sitemap = [
-			{
-				url: `${SITE_CONFIG.url}/collections/all`,
-				lastModified: new Date(),
-				changeFrequency: "daily",
-				priority: 0.8,
-			},
-			{
-				url: `${SITE_CONFIG.url}/collections/featured`,
-				lastModified: new Date(),
-				changeFrequency: "weekly",
-				priority: 0.7,
-			},
-			{
-				url: `${SITE_CONFIG.url}/collections/sale`,
-				lastModified: new Date(),
-				changeFrequency: "daily",
-				priority: 0.8,
-			},
-			{
-				url: `${SITE_CONFIG.url}/collections/new`,
-				lastModified: new Date(),
-				changeFrequency: "weekly",
-				priority: 0.7,
-			},
-		];
+		// Collection pages from the collection registry
+		const categoryPages: MetadataRoute.Sitemap = COLLECTIONS.map(
+			(collection) => ({
+				url: `${SITE_CONFIG.url}/collections/${collection.handle}`,
+				lastModified: new Date(),
+				changeFrequency: collection.sitemap.changefreq,
+				priority: collection.sitemap.priority,
+			}),
+		);
 
 		// Combine all pages
 		const allPages: MetadataRoute.Sitemap = [
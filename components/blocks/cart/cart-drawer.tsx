@@ -27,8 +27,16 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
+import { DiscountCodeForm } from "@blocks/cart/discount-code-form";
+import { QuoteSummary } from "@blocks/cart/quote-summary";
+import { StockNotice } from "@blocks/cart/stock-notice";
 import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
+import { useStockLevels } from "@/hooks/use-inventory";
+import { usePriceQuote } from "@/hooks/use-price-quote";
 import { checkoutCartAction } from "@/lib/buy-now-actions";
+import { formatPrice } from "@/lib/utils";
+import { findQuoteLine } from "@/lib/utils/pricing-utils";
 
 export default function CartDrawer() {
 	const {
@@ -38,11 +46,18 @@ export default function CartDrawer() {
 		removeItem,
 		updateQuantity,
 		clearCart,
-		getTotalPrice,
+		discountCode,
+		setDiscountCode,
 	} = useCart();
 
+	const { currency, convertCatalogPrice } = useCurrency();
 	const [isCheckingOut, setIsCheckingOut] = useState(false);
-	const totalPrice = getTotalPrice();
+	// Only price the cart while the drawer is visible
+	const { quote, isLoading: isPricing, error: pricingError } = usePriceQuote(
+		isOpen ? items : [],
+		{ discountCode },
+	);
+	const stock = useStockLevels(isOpen ? items : []);
 
 	const handleCheckout = async () => {
     if (items.length === 0) {
@@ -60,7 +75,7 @@ export default function CartDrawer() {
         campaign: urlParams.get("utm_campaign") || undefined,
       };
 
-      await checkoutCartAction(items, utmParams);
+      await checkoutCartAction(items, utmParams, discountCode ?? undefined);
       // If successful, the action will redirect to payment page
     } catch (error) {
       console.error("Checkout error:", error);
@@ -90,7 +105,9 @@ export default function CartDrawer() {
           ) : (
             <div className="space-y-4">
               {items.map((item) => {
-                const price = item.product.price;
+                const price =
+                  findQuoteLine(quote, item.product.id, item.variant.id)
+                    ?.unitPrice ?? convertCatalogPrice(item.variant.price);
                 const imageUrl = item.product.images?.[0]?.src || "/og.png";
 
                 return (
@@ -120,8 +137,14 @@ export default function CartDrawer() {
                               </p>
                             )}
                           <p className="font-semibold text-sm">
-                            ${price.toFixed(2)}
+                            {formatPrice(price, currency)}
                           </p>
+                          <StockNotice
+                            stock={stock}
+                            productId={item.product.id}
+                            variantId={item.variant.id}
+                            className="mt-1"
+                          />
                         </div>
 
                         {/* Remove Button */}
@@ -173,7 +196,7 @@ export default function CartDrawer() {
                           </Button>
                         </div>
                         <p className="font-semibold text-sm">
-                          ${(price * item.quantity).toFixed(2)}
+                          {formatPrice(price * item.quantity, currency)}
                         </p>
                       </div>
                     </CardContent>
@@ -188,11 +211,17 @@ export default function CartDrawer() {
         {items.length > 0 && (
           <SheetFooter>
             <div className="space-y-4 p-4 border-t w-full">
-              {/* Total */}
-              <div className="flex justify-between items-center font-semibold text-lg">
-                <span>Total:</span>
-                <span>${totalPrice.toFixed(2)}</span>
-              </div>
+              <DiscountCodeForm
+                code={discountCode}
+                status={quote?.discountCode ?? null}
+                onChange={setDiscountCode}
+                disabled={isCheckingOut}
+              />
+              <QuoteSummary
+                quote={quote}
+                isLoading={isPricing}
+                error={pricingError}
+              />
 
               {/* Actions */}
               <div className="space-y-2">
@@ -200,7 +229,7 @@ export default function CartDrawer() {
                   className="w-full"
                   size="lg"
                   onClick={handleCheckout}
-                  disabled={isCheckingOut}
+                  disabled={isCheckingOut || stock.issues.length > 0}
                 >
                   {isCheckingOut ? "Processing..." : "Checkout"}
                 </Button>
@@ -0,0 +1,83 @@
+"use client";
+
+import { Tag, X } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { DiscountCodeStatus } from "@/lib/utils/promotion-utils";
+
+interface DiscountCodeFormProps {
+  /** Code the cart is priced with */
+  code: string | null;
+  /** The server's verdict on `code`, from the current quote */
+  status: DiscountCodeStatus | null;
+  onChange: (code: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Enter or remove a discount code
+ * The code is only ever checked by the quote API; this form just reports
+ * whether the latest quote applied it.
+ */
+export function DiscountCodeForm({
+  code,
+  status,
+  onChange,
+  disabled = false,
+}: DiscountCodeFormProps) {
+  const [value, setValue] = useState("");
+
+  if (code) {
+    const rejected = status?.code.toUpperCase() === code.toUpperCase() && !status.applied;
+    return (
+      <div className="space-y-1">
+        <div className="flex justify-between items-center text-sm">
+          <span className="flex items-center gap-2 font-medium">
+            <Tag className="w-4 h-4" />
+            {code.toUpperCase()}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="w-7 h-7"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            aria-label="Remove discount code"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        {rejected && status.message && (
+          <p className="text-destructive text-xs">{status.message}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const trimmed = value.trim();
+        if (!trimmed) return;
+        onChange(trimmed);
+        setValue("");
+      }}
+    >
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="Discount code"
+        aria-label="Discount code"
+        maxLength={50}
+        disabled={disabled}
+      />
+      <Button type="submit" variant="outline" disabled={disabled || !value.trim()}>
+        Apply
+      </Button>
+    </form>
+  );
+}
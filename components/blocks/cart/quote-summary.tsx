@@ -0,0 +1,97 @@
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/utils";
+import { displayQuoteTotals, type PriceQuote } from "@/lib/utils/pricing-utils";
+
+interface QuoteSummaryProps {
+  quote: PriceQuote | null;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Subtotal, discounts, shipping, tax and total from a server price quote
+ * Each applied promotion gets its own line.
+ * Tax-inclusive quotes show subtotal and shipping with tax and list the tax
+ * included in the total.
+ */
+export function QuoteSummary({ quote, isLoading = false, error }: QuoteSummaryProps) {
+  if (error && !isLoading) {
+    return <p className="text-destructive text-sm">{error}</p>;
+  }
+
+  if (!quote) {
+    return (
+      <div className="space-y-3" aria-busy="true">
+        <Skeleton className="w-full h-4" />
+        <Skeleton className="w-full h-4" />
+        <Skeleton className="w-full h-6" />
+      </div>
+    );
+  }
+
+  const { totals, currency, shippingMethod, taxLines, taxesIncluded } = quote;
+  const display = displayQuoteTotals(quote);
+  return (
+    <div
+      className={`space-y-3 ${isLoading ? "opacity-60" : ""}`}
+      aria-busy={isLoading}
+    >
+      <div className="flex justify-between text-sm">
+        <span>Subtotal</span>
+        <span>{formatPrice(display.subtotal, currency)}</span>
+      </div>
+      {display.discounts.map((discount) => (
+        <div key={discount.id} className="flex justify-between gap-4 text-green-700 text-sm">
+          <span>{discount.code ? `${discount.title} (${discount.code})` : discount.title}</span>
+          <span>-{formatPrice(discount.amount, currency)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between text-sm">
+        <span>
+          Shipping
+          {shippingMethod && (
+            <span className="text-muted-foreground"> ({shippingMethod.title})</span>
+          )}
+        </span>
+        <span>
+          {display.shipping === 0 ? (
+            <Badge variant="secondary" className="bg-green-100 text-green-800 text-xs">
+              FREE
+            </Badge>
+          ) : (
+            formatPrice(display.shipping, currency)
+          )}
+        </span>
+      </div>
+      {!taxesIncluded &&
+        (taxLines.length > 0 ? (
+          taxLines.map((taxLine) => (
+            <div key={taxLine.title} className="flex justify-between text-sm">
+              <span>{taxLine.title}</span>
+              <span>{formatPrice(taxLine.price, currency)}</span>
+            </div>
+          ))
+        ) : (
+          <div className="flex justify-between text-sm">
+            <span>Tax</span>
+            <span>{formatPrice(totals.tax, currency)}</span>
+          </div>
+        ))}
+      <Separator />
+      <div className="flex justify-between font-semibold text-lg">
+        <span>Total</span>
+        <span>{formatPrice(totals.total, currency)}</span>
+      </div>
+      {taxesIncluded && totals.tax > 0 && (
+        <p className="text-muted-foreground text-xs">
+          Including{" "}
+          {taxLines
+            .map((taxLine) => `${formatPrice(taxLine.price, currency)} ${taxLine.title}`)
+            .join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { AlertCircle } from "lucide-react";
+import type { StockState } from "@/hooks/use-inventory";
+import { cn } from "@/lib/utils";
+import { stockLabel } from "@/lib/utils/inventory-utils";
+
+interface StockNoticeProps {
+  /** From useStockLevels or useInventoryHold */
+  stock: StockState;
+  productId: string;
+  variantId: string;
+  className?: string;
+}
+
+/**
+ * "Only 3 left" for a low-stock cart line, or why it can't be ordered as is
+ */
+export function StockNotice({ stock, productId, variantId, className }: StockNoticeProps) {
+  const matches = (line: { productId: string; variantId: string }) =>
+    line.productId === String(productId) && line.variantId === String(variantId);
+
+  const issue = stock.issues.find(matches);
+  if (issue) {
+    return (
+      <p className={cn("flex items-center gap-1 text-red-600 text-xs", className)}>
+        <AlertCircle className="w-3 h-3 shrink-0" />
+        {issue.available > 0
+          ? `Only ${issue.available} left - reduce the quantity to continue`
+          : "No longer available - remove it to continue"}
+      </p>
+    );
+  }
+
+  const label = stockLabel(stock.levels.find(matches));
+  if (!label) return null;
+  return <p className={cn("text-amber-600 text-xs", className)}>{label}</p>;
+}
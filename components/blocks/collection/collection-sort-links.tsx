@@ -0,0 +1,44 @@
+import Link from "next/link";
+import type { CollectionQuery } from "@/lib/validations";
+import {
+  COLLECTION_SORT_OPTIONS,
+  buildCollectionHref,
+} from "@/lib/utils/collection-utils";
+import { cn } from "@/lib/utils";
+
+/**
+ * Sort links for collection pages
+ */
+export function CollectionSortLinks({
+  handle,
+  query,
+}: {
+  handle: string;
+  query: CollectionQuery;
+}) {
+  const activeSort = query.sort ?? "featured";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-600">Sort by:</span>
+      {COLLECTION_SORT_OPTIONS.map((option) => {
+        const active = option.value === activeSort;
+        return (
+          <Link
+            key={option.value}
+            href={buildCollectionHref(handle, query, { sort: option.value })}
+            aria-current={active ? "true" : undefined}
+            className={cn(
+              "px-3 py-1 border rounded-full transition-colors",
+              active
+                ? "bg-gray-900 border-gray-900 text-white"
+                : "border-gray-300 hover:bg-gray-50"
+            )}
+          >
+            {option.label}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { useEffect } from "react";
+import { startAnalytics, trackPageView } from "@/lib/analytics";
+
+/**
+ * Starts the analytics SDK and tracks a page view on every navigation
+ */
+export function AnalyticsTracker() {
+	const pathname = usePathname();
+
+	useEffect(() => startAnalytics(), []);
+
+	useEffect(() => {
+		trackPageView();
+	}, [pathname]);
+
+	return null;
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { Cookie } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useCookieConsent } from "@/hooks/use-cookie-consent";
+import {
+	ALL_COOKIES,
+	type CookieConsent,
+	ESSENTIAL_COOKIES_ONLY,
+} from "@/lib/utils/consent-utils";
+
+const CATEGORIES: { key: keyof CookieConsent; label: string }[] = [
+	{ key: "analytics", label: "Analytics" },
+	{ key: "marketing", label: "Marketing" },
+	{ key: "functional", label: "Functional" },
+];
+
+/**
+ * Asks first-time visitors for their cookie choice, as described on /cookie
+ */
+export function CookieBanner() {
+	const { consent, ready, save } = useCookieConsent();
+	const [customizing, setCustomizing] = useState(false);
+	const [choice, setChoice] = useState<CookieConsent>(ESSENTIAL_COOKIES_ONLY);
+
+	if (!ready || consent) {
+		return null;
+	}
+
+	return (
+		<div className="right-4 bottom-4 left-4 z-50 fixed md:left-auto md:max-w-md">
+			<Card className="shadow-lg border-2 border-primary/20">
+				<CardHeader className="pb-3">
+					<CardTitle className="flex items-center gap-2 text-lg">
+						<Cookie className="w-5 h-5 text-primary" />
+						Cookies
+					</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<p className="text-gray-600 text-sm">
+						We use essential cookies to run the store, and optional cookies to
+						understand how it&apos;s used and improve it.{" "}
+						<Link href="/cookie" className="underline">
+							Learn more
+						</Link>
+					</p>
+
+					{customizing && (
+						<div className="space-y-2">
+							<Label className="flex items-center gap-2 text-sm">
+								<input type="checkbox" checked disabled />
+								Essential (always on)
+							</Label>
+							{CATEGORIES.map(({ key, label }) => (
+								<Label key={key} className="flex items-center gap-2 text-sm">
+									<input
+										type="checkbox"
+										checked={choice[key]}
+										onChange={(e) =>
+											setChoice({ ...choice, [key]: e.target.checked })
+										}
+									/>
+									{label}
+								</Label>
+							))}
+						</div>
+					)}
+
+					<div className="flex flex-wrap gap-2">
+						{customizing ? (
+							<Button onClick={() => save(choice)} className="flex-1">
+								Save preferences
+							</Button>
+						) : (
+							<>
+								<Button onClick={() => save(ALL_COOKIES)} className="flex-1">
+									Accept all
+								</Button>
+								<Button
+									variant="outline"
+									onClick={() => save(ESSENTIAL_COOKIES_ONLY)}
+									className="flex-1"
+								>
+									Reject non-essential
+								</Button>
+								<Button variant="ghost" onClick={() => setCustomizing(true)}>
+									Customize
+								</Button>
+							</>
+						)}
+					</div>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
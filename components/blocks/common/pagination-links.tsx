@@ -0,0 +1,93 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+
+interface PaginationLinksProps {
+  page: number;
+  totalPages: number;
+  hrefFor: (page: number) => string;
+  /** Pages shown on each side of the current one */
+  siblings?: number;
+}
+
+/**
+ * Page numbers to show, with null marking a gap
+ * e.g. page 6 of 12 -> 1 … 5 6 7 … 12
+ */
+export function getPageRange(
+  page: number,
+  totalPages: number,
+  siblings = 1
+): Array<number | null> {
+  const pages = new Set([1, totalPages]);
+  for (let p = page - siblings; p <= page + siblings; p++) {
+    if (p >= 1 && p <= totalPages) pages.add(p);
+  }
+
+  const sorted = Array.from(pages).sort((a, b) => a - b);
+  const range: Array<number | null> = [];
+  for (const p of sorted) {
+    const previous = range[range.length - 1];
+    if (typeof previous === "number" && p - previous > 1) {
+      // Show a lone skipped page instead of a gap
+      range.push(p - previous === 2 ? previous + 1 : null);
+    }
+    range.push(p);
+  }
+  return range;
+}
+
+const linkClass =
+  "inline-flex justify-center items-center px-3 border rounded-md min-w-9 h-9 text-sm transition-colors";
+
+/**
+ * Numbered pagination built from plain links so every page is crawlable
+ */
+export function PaginationLinks({
+  page,
+  totalPages,
+  hrefFor,
+  siblings = 1,
+}: PaginationLinksProps) {
+  if (totalPages <= 1) return null;
+
+  return (
+    <nav aria-label="Pagination" className="flex flex-wrap justify-center items-center gap-2">
+      {page > 1 && (
+        <Link href={hrefFor(page - 1)} rel="prev" className={cn(linkClass, "border-gray-300 hover:bg-gray-50")}>
+          <ChevronLeft className="mr-1 w-4 h-4" />
+          Previous
+        </Link>
+      )}
+
+      {getPageRange(page, totalPages, siblings).map((p, i) =>
+        p === null ? (
+          <span key={`gap-${i}`} className="px-1 text-gray-400">
+            …
+          </span>
+        ) : (
+          <Link
+            key={p}
+            href={hrefFor(p)}
+            aria-current={p === page ? "page" : undefined}
+            className={cn(
+              linkClass,
+              p === page
+                ? "bg-gray-900 border-gray-900 text-white"
+                : "border-gray-300 hover:bg-gray-50"
+            )}
+          >
+            {p}
+          </Link>
+        )
+      )}
+
+      {page < totalPages && (
+        <Link href={hrefFor(page + 1)} rel="next" className={cn(linkClass, "border-gray-300 hover:bg-gray-50")}>
+          Next
+          <ChevronRight className="ml-1 w-4 h-4" />
+        </Link>
+      )}
+    </nav>
+  );
+}
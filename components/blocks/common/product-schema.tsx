@@ -3,9 +3,18 @@
 import Script from "next/script";
 import type { Product, WithContext } from "schema-dts";
 import { SITE_CONFIG } from "@/lib/constants";
+import { SHOP_CURRENCY } from "@/lib/currencies";
 import type { ApiProduct } from "@/lib/types";
+import { convertPrice } from "@/lib/utils/currency-utils";
 
-export function ProductSchema({ product }: { product: ApiProduct }) {
+export function ProductSchema({
+	product,
+	currency = SHOP_CURRENCY,
+}: {
+	product: ApiProduct;
+	/** Presentment currency the offer is priced in */
+	currency?: string;
+}) {
 	if (!product) {
 		return null;
 	}
@@ -27,8 +36,11 @@ export function ProductSchema({ product }: { product: ApiProduct }) {
 		offers: {
 			"@type": "Offer",
 			url: `${SITE_CONFIG.url}/products/${product.handle}`,
-			priceCurrency: "USD",
-			price: product.variants?.[0]?.price || product.price,
+			priceCurrency: currency,
+			price: convertPrice(
+				Number(product.variants?.[0]?.price || product.price),
+				currency,
+			),
 			priceValidUntil: new Date(Date.now() + 1000 * 60 * 60 * 24 * 30)
 				.toISOString()
 				.split("T")[0],
@@ -1,30 +1,209 @@
 "use client";
 
 import { Search } from "lucide-react";
+import Image from "next/image";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useId, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { useCurrency } from "@/contexts/currency-context";
+import { UI_CONFIG } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+import type {
+	HighlightSegment,
+	SearchSuggestions,
+} from "@/lib/utils/search-index";
+import type { ApiResponse } from "@/lib/errors";
+
+interface SuggestionOption {
+	id: string;
+	href: string;
+	label: string;
+	highlight?: HighlightSegment[];
+	detail?: string;
+	image?: string;
+}
+
+interface SuggestionGroup {
+	title: string;
+	options: SuggestionOption[];
+}
+
+function searchHref(query: string) {
+	return `/search?q=${encodeURIComponent(query)}`;
+}
+
+function toGroups(
+	suggestions: SearchSuggestions | null,
+	formatCatalogPrice: (amount: number) => string,
+): SuggestionGroup[] {
+	if (!suggestions) return [];
+
+	const groups: SuggestionGroup[] = [
+		{
+			title: "Searches",
+			options: suggestions.queries.map((query) => ({
+				id: `query-${query}`,
+				href: searchHref(query),
+				label: query,
+			})),
+		},
+		{
+			title: "Collections",
+			options: suggestions.collections.map((collection) => ({
+				id: `collection-${collection.handle}`,
+				href: `/collections/${collection.handle}`,
+				label: collection.title,
+				highlight: collection.highlight,
+			})),
+		},
+		{
+			title: "Products",
+			options: suggestions.products.map((product) => ({
+				id: `product-${product.id}`,
+				href: `/products/${product.handle}`,
+				label: product.title,
+				highlight: product.highlight,
+				detail: formatCatalogPrice(product.price),
+				image: product.image,
+			})),
+		},
+	];
+
+	return groups.filter((group) => group.options.length > 0);
+}
+
+function Highlighted({ option }: { option: SuggestionOption }) {
+	if (!option.highlight) return <>{option.label}</>;
+
+	return (
+		<>
+			{option.highlight.map((segment, i) =>
+				segment.match ? (
+					<mark key={i} className="bg-transparent font-semibold text-foreground">
+						{segment.text}
+					</mark>
+				) : (
+					<span key={i}>{segment.text}</span>
+				),
+			)}
+		</>
+	);
+}
 
 export function SearchBar({ className = "" }: { className?: string }) {
 	const [searchQuery, setSearchQuery] = useState("");
+	const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+	const [open, setOpen] = useState(false);
+	const [activeIndex, setActiveIndex] = useState(-1);
 	const router = useRouter();
+	const { formatCatalogPrice } = useCurrency();
+	const listboxId = useId();
+	const containerRef = useRef<HTMLFormElement>(null);
+
+	// Debounced suggestion lookup; stale responses are aborted
+	useEffect(() => {
+		const query = searchQuery.trim();
+		if (query.length < 2) {
+			setSuggestions(null);
+			return;
+		}
+
+		const controller = new AbortController();
+		const timer = setTimeout(async () => {
+			try {
+				const response = await fetch(
+					`/api/search/suggest?q=${encodeURIComponent(query)}`,
+					{ signal: controller.signal },
+				);
+				if (!response.ok) return;
+				const body: ApiResponse<SearchSuggestions> = await response.json();
+				setSuggestions(body.data ?? null);
+				setActiveIndex(-1);
+			} catch {
+				// Aborted or offline - the form still submits to /search
+			}
+		}, UI_CONFIG.DEBOUNCE_DELAY);
+
+		return () => {
+			clearTimeout(timer);
+			controller.abort();
+		};
+	}, [searchQuery]);
+
+	// Close the dropdown when clicking outside
+	useEffect(() => {
+		const handleClick = (e: MouseEvent) => {
+			if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+		};
+		document.addEventListener("mousedown", handleClick);
+		return () => document.removeEventListener("mousedown", handleClick);
+	}, []);
+
+	const groups = toGroups(suggestions, formatCatalogPrice);
+	const options = groups.flatMap((group) => group.options);
+	const showSuggestions = open && options.length > 0;
+	const activeOption = showSuggestions ? options[activeIndex] : undefined;
+
+	const navigate = (href: string) => {
+		setOpen(false);
+		setActiveIndex(-1);
+		router.push(href);
+	};
 
 	const handleSearch = (e: React.FormEvent) => {
 		e.preventDefault();
-		if (searchQuery.trim()) {
-			router.push(`/search?q=${searchQuery.trim()}`);
+		if (activeOption) {
+			navigate(activeOption.href);
+		} else if (searchQuery.trim()) {
+			navigate(searchHref(searchQuery.trim()));
+		}
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === "Escape") {
+			setOpen(false);
+			setActiveIndex(-1);
+			return;
+		}
+		if (options.length === 0) return;
+
+		if (e.key === "ArrowDown") {
+			e.preventDefault();
+			setOpen(true);
+			setActiveIndex((index) => (index + 1) % options.length);
+		} else if (e.key === "ArrowUp") {
+			e.preventDefault();
+			setOpen(true);
+			setActiveIndex((index) => (index <= 0 ? options.length - 1 : index - 1));
 		}
 	};
 
 	return (
-		<form onSubmit={handleSearch} className={`relative ${className}`}>
+		<form
+			ref={containerRef}
+			onSubmit={handleSearch}
+			className={`relative ${className}`}
+			role="search"
+		>
 			<Input
 				type="search"
 				placeholder="Search products..."
 				value={searchQuery}
-				onChange={(e) => setSearchQuery(e.target.value)}
+				onChange={(e) => {
+					setSearchQuery(e.target.value);
+					setOpen(true);
+				}}
+				onFocus={() => setOpen(true)}
+				onKeyDown={handleKeyDown}
 				className="pr-10"
+				role="combobox"
+				aria-autocomplete="list"
+				aria-expanded={showSuggestions}
+				aria-controls={listboxId}
+				aria-activedescendant={
+					activeOption ? `${listboxId}-${activeOption.id}` : undefined
+				}
 			/>
 			<Button
 				type="submit"
@@ -35,6 +214,59 @@ export function SearchBar({ className = "" }: { className?: string }) {
 				<Search className="w-4 h-4" />
 				<span className="sr-only">Search</span>
 			</Button>
+
+			{showSuggestions && (
+				<div
+					id={listboxId}
+					role="listbox"
+					className="top-full right-0 left-0 z-50 absolute bg-popover shadow-md mt-1 py-1 border rounded-md max-h-96 overflow-y-auto text-popover-foreground"
+				>
+					{groups.map((group) => (
+						<div key={group.title} role="group" aria-label={group.title}>
+							<div className="px-3 py-1 font-medium text-muted-foreground text-xs uppercase">
+								{group.title}
+							</div>
+							{group.options.map((option) => {
+								const active = option === activeOption;
+								return (
+									<div
+										key={option.id}
+										id={`${listboxId}-${option.id}`}
+										role="option"
+										aria-selected={active}
+										tabIndex={-1}
+										onMouseDown={(e) => e.preventDefault()}
+										onClick={() => navigate(option.href)}
+										onMouseEnter={() => setActiveIndex(options.indexOf(option))}
+										className={cn(
+											"flex items-center gap-3 px-3 py-2 text-sm cursor-pointer",
+											active && "bg-accent text-accent-foreground",
+										)}
+									>
+										{option.image && (
+											<Image
+												src={option.image}
+												alt=""
+												width={32}
+												height={32}
+												className="rounded object-cover"
+											/>
+										)}
+										<span className="flex-1 truncate">
+											<Highlighted option={option} />
+										</span>
+										{option.detail && (
+											<span className="text-muted-foreground text-xs">
+												{option.detail}
+											</span>
+										)}
+									</div>
+								);
+							})}
+						</div>
+					))}
+				</div>
+			)}
 		</form>
 	);
 }
@@ -0,0 +1,23 @@
+"use client";
+
+import { useReportWebVitals } from "next/web-vitals";
+import { useParams, usePathname } from "next/navigation";
+import { useEffect, useRef } from "react";
+import { getRouteTemplate } from "@/lib/utils/performance-utils";
+import { reportWebVital, startWebVitals } from "@/lib/web-vitals";
+
+/**
+ * Reports the Core Web Vitals of the page load to performance_metrics
+ */
+export function WebVitalsReporter() {
+	const pathname = usePathname();
+	const params = useParams();
+	// The route the document loaded on; later navigations keep it
+	const route = useRef(getRouteTemplate(pathname, params ?? {}));
+
+	useReportWebVitals(reportWebVital);
+
+	useEffect(() => startWebVitals(route.current), []);
+
+	return null;
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuLabel,
+	DropdownMenuRadioGroup,
+	DropdownMenuRadioItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useCurrency } from "@/contexts/currency-context";
+import { CURRENCIES } from "@/lib/currencies";
+
+export function CurrencySelector() {
+	const { currency, setCurrency } = useCurrency();
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="font-semibold text-gray-600 hover:text-gray-900"
+				>
+					{currency}
+					<span className="sr-only">Change currency</span>
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end">
+				<DropdownMenuLabel>Currency</DropdownMenuLabel>
+				<DropdownMenuSeparator />
+				<DropdownMenuRadioGroup value={currency} onValueChange={setCurrency}>
+					{Object.entries(CURRENCIES).map(([code, { name }]) => (
+						<DropdownMenuRadioItem key={code} value={code}>
+							{code} - {name}
+						</DropdownMenuRadioItem>
+					))}
+				</DropdownMenuRadioGroup>
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
@@ -1,9 +1,11 @@
 import { Mail, MapPin, Phone } from "lucide-react";
 import Link from "next/link";
+import { Suspense } from "react";
 import { subscribeToNewsletter } from "@/app/api/newsletter/actions";
 import { Logo } from "@blocks/common/logo";
 import { SafeHtml } from "@blocks/common/safe-html";
 import { PaymentMethods } from "@blocks/icons/payment-methods";
+import { NewsletterStatus } from "@blocks/layout/newsletter-status";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
@@ -41,9 +43,12 @@ export function Footer() {
               </Button>
             </form>
             <p className="opacity-75 mt-3 text-xs">
-              By subscribing, you agree to receive promotional emails. You can
-              unsubscribe at any time.
+              We&apos;ll email you a link to confirm. By subscribing, you agree
+              to receive promotional emails. You can unsubscribe at any time.
             </p>
+            <Suspense fallback={null}>
+              <NewsletterStatus />
+            </Suspense>
           </div>
         </div>
       </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import { AnimatePresence, motion } from "framer-motion";
-import { Search, ShoppingCart } from "lucide-react";
+import { ChevronDown, Search, ShoppingCart } from "lucide-react";
 import Link from "next/link";
 import { useState } from "react";
 import CartDrawer from "@blocks/cart/cart-drawer";
@@ -9,9 +9,16 @@ import { Logo } from "@blocks/common/logo";
 import { SearchBar } from "@blocks/common/search-bar";
 import { Badge } from "@/components/ui/badge";
 import { IconButton } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useCart } from "@/contexts/cart-context";
 import { NAVIGATION_ITEMS } from "@/lib/constants";
 import { AccountDropdown } from "./account-dropdown";
+import { CurrencySelector } from "./currency-selector";
 import { MobileNav } from "./mobile-nav";
 
 export function Header() {
@@ -32,15 +39,31 @@ export function Header() {
 
         {/* Desktop navigation */}
         <nav className="hidden md:flex flex-1 justify-center items-center space-x-8">
-          {NAVIGATION_ITEMS.map((item) => (
-            <Link
-              key={item.href}
-              href={item.href}
-              className="font-semibold text-primary hover:text-primary-hover text-md transition-colors"
-            >
-              {item.name}
-            </Link>
-          ))}
+          {NAVIGATION_ITEMS.map((item) =>
+            item.children ? (
+              <DropdownMenu key={item.href}>
+                <DropdownMenuTrigger className="flex items-center gap-1 font-semibold text-primary hover:text-primary-hover text-md transition-colors">
+                  {item.name}
+                  <ChevronDown className="w-4 h-4" />
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="center">
+                  {item.children.map((child) => (
+                    <DropdownMenuItem key={child.href} asChild>
+                      <Link href={child.href}>{child.name}</Link>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ) : (
+              <Link
+                key={item.href}
+                href={item.href}
+                className="font-semibold text-primary hover:text-primary-hover text-md transition-colors"
+              >
+                {item.name}
+              </Link>
+            )
+          )}
         </nav>
 
         {/* Actions */}
@@ -57,6 +80,9 @@ export function Header() {
             <span className="sr-only">Search</span>
           </IconButton>
 
+          {/* Currency */}
+          <CurrencySelector />
+
           {/* Account */}
           <AccountDropdown />
 
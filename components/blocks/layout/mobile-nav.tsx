@@ -38,19 +38,35 @@ export function MobileNav() {
 				<div className="flex-1 py-4">
 					<nav className="flex flex-col gap-4">
 						{NAVIGATION_ITEMS.map((link) => (
-							<Link
-								key={link.href}
-								href={link.href}
-								className={cn(
-									"font-medium text-lg",
-									pathname === link.href
-										? "text-primary"
-										: "text-muted-foreground",
-								)}
-								onClick={() => setIsOpen(false)}
-							>
-								{link.name}
-							</Link>
+							<div key={link.href} className="flex flex-col gap-3">
+								<Link
+									href={link.href}
+									className={cn(
+										"font-medium text-lg",
+										pathname === link.href
+											? "text-primary"
+											: "text-muted-foreground",
+									)}
+									onClick={() => setIsOpen(false)}
+								>
+									{link.name}
+								</Link>
+								{link.children?.map((child) => (
+									<Link
+										key={child.href}
+										href={child.href}
+										className={cn(
+											"pl-4 text-base",
+											pathname === child.href
+												? "text-primary"
+												: "text-muted-foreground",
+										)}
+										onClick={() => setIsOpen(false)}
+									>
+										{child.name}
+									</Link>
+								))}
+							</div>
 						))}
 					</nav>
 				</div>
@@ -0,0 +1,24 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { SUCCESS_MESSAGES } from "@/lib/constants";
+
+/**
+ * Toasts the outcome of a newsletter confirmation link, which
+ * /api/newsletter/confirm passes back as `?newsletter=`
+ */
+export function NewsletterStatus() {
+	const status = useSearchParams().get("newsletter");
+
+	useEffect(() => {
+		if (status === "confirmed") {
+			toast.success(SUCCESS_MESSAGES.SUBSCRIPTION_CONFIRMED);
+		} else if (status === "invalid") {
+			toast.error("That confirmation link has expired or was already used");
+		}
+	}, [status]);
+
+	return null;
+}
@@ -0,0 +1,188 @@
+import {
+  CheckCircle,
+  ExternalLink,
+  Package,
+  Truck,
+  XCircle,
+} from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { OrderTracking } from "@/lib/data/orders";
+import { formatPrice } from "@/lib/utils";
+import type { OrderTimelineEntry } from "@/lib/utils/order-utils";
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+function formatDate(value: string) {
+  return dateFormatter.format(new Date(value));
+}
+
+function TimelineIcon({ entry }: { entry: OrderTimelineEntry }) {
+  if (entry.status === "cancelled" || entry.status === "refunded") {
+    return <XCircle className="w-5 h-5 text-destructive" />;
+  }
+  if (entry.completed) {
+    return <CheckCircle className="w-5 h-5 text-green-500" />;
+  }
+  if (entry.status === "shipped" || entry.status === "delivered") {
+    return <Truck className="w-5 h-5 text-muted-foreground" />;
+  }
+  return <Package className="w-5 h-5 text-muted-foreground" />;
+}
+
+/**
+ * Status summary, timeline, shipments and line items for a tracked order
+ */
+export function OrderTrackingDetails({ order }: { order: OrderTracking }) {
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Order #{order.orderNumber}</CardTitle>
+        </CardHeader>
+        <CardContent className="gap-4 grid grid-cols-1 md:grid-cols-3">
+          <div>
+            <p className="text-muted-foreground text-sm">Status</p>
+            <p className="font-medium">{order.statusLabel}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground text-sm">Placed</p>
+            <p className="font-medium">{formatDate(order.placedAt)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground text-sm">Total</p>
+            <p className="font-medium">{formatPrice(order.total, order.currency)}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Order Progress</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-4">
+            {order.timeline.map((entry) => (
+              <li key={entry.status} className="flex gap-3">
+                <div
+                  className={`flex-shrink-0 ${
+                    entry.completed ? "opacity-100" : "opacity-50"
+                  }`}
+                >
+                  <TimelineIcon entry={entry} />
+                </div>
+                <div className="flex-1">
+                  <p
+                    className={`font-medium ${
+                      entry.completed ? "text-foreground" : "text-muted-foreground"
+                    }`}
+                  >
+                    {entry.label}
+                  </p>
+                  {entry.date && (
+                    <p className="text-muted-foreground text-sm">
+                      {formatDate(entry.date)}
+                    </p>
+                  )}
+                  {entry.notes && <p className="mt-1 text-sm">{entry.notes}</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </CardContent>
+      </Card>
+
+      {order.shipments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="w-5 h-5" />
+              Shipments
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {order.shipments.map((shipment) => (
+              <div
+                key={`${shipment.carrier}-${shipment.trackingNumber}`}
+                className="flex flex-wrap justify-between items-center gap-2"
+              >
+                <div>
+                  <p className="font-medium uppercase">{shipment.carrier}</p>
+                  <p className="text-muted-foreground text-sm">
+                    {shipment.trackingNumber} · Shipped{" "}
+                    {formatDate(shipment.shippedAt)}
+                    {shipment.deliveredAt &&
+                      ` · Delivered ${formatDate(shipment.deliveredAt)}`}
+                  </p>
+                </div>
+                {shipment.trackingUrl && (
+                  <a
+                    href={shipment.trackingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-primary text-sm hover:underline"
+                  >
+                    Track with carrier
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {order.items.map((item) => (
+            <div
+              key={`${item.productId}-${item.variantId}`}
+              className="flex items-center gap-4"
+            >
+              {item.image ? (
+                <Image
+                  src={item.image}
+                  alt={item.title}
+                  width={64}
+                  height={64}
+                  className="rounded-md object-cover"
+                />
+              ) : (
+                <div className="flex justify-center items-center bg-muted rounded-md w-16 h-16">
+                  <Package className="w-6 h-6 text-muted-foreground" />
+                </div>
+              )}
+              <div className="flex-1">
+                {item.handle ? (
+                  <Link
+                    href={`/products/${item.handle}`}
+                    className="font-medium hover:underline"
+                  >
+                    {item.title}
+                  </Link>
+                ) : (
+                  <p className="font-medium">{item.title}</p>
+                )}
+                {item.variantTitle && (
+                  <p className="text-muted-foreground text-sm">
+                    {item.variantTitle}
+                  </p>
+                )}
+              </div>
+              <p className="text-sm">
+                {item.quantity} × {formatPrice(item.price, order.currency)}
+              </p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { AlertCircle, Search } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { OrderTracking } from "@/lib/data/orders";
+import type { ApiResponse } from "@/lib/errors";
+import { OrderTrackingDetails } from "./order-tracking-details";
+
+interface TrackOrderFormProps {
+  /** Order resolved server-side from a signed tracking link */
+  initialOrder?: OrderTracking | null;
+  initialError?: string;
+}
+
+export function TrackOrderForm({ initialOrder = null, initialError = "" }: TrackOrderFormProps) {
+  const orderNumberId = useId();
+  const emailId = useId();
+  const [orderNumber, setOrderNumber] = useState("");
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [order, setOrder] = useState<OrderTracking | null>(initialOrder);
+  const [error, setError] = useState(initialError);
+
+  const handleTrackOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/orders/track", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderNumber, email }),
+      });
+      const result: ApiResponse<OrderTracking> = await response.json();
+
+      if (result.success && result.data) {
+        setOrder(result.data);
+      } else {
+        setOrder(null);
+        setError(result.error?.message ?? "Unable to track this order.");
+      }
+    } catch {
+      setOrder(null);
+      setError("Unable to reach order tracking. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="w-5 h-5" />
+            Order Tracking
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleTrackOrder} className="space-y-4">
+            <div>
+              <Label htmlFor={orderNumberId}>Order Number</Label>
+              <Input
+                id={orderNumberId}
+                type="text"
+                placeholder="e.g. OG100001"
+                value={orderNumber}
+                onChange={(e) => setOrderNumber(e.target.value)}
+                required
+              />
+              <p className="mt-1 text-muted-foreground text-sm">
+                You&apos;ll find it in your order confirmation email
+              </p>
+            </div>
+            <div>
+              <Label htmlFor={emailId}>Email Address</Label>
+              <Input
+                id={emailId}
+                type="email"
+                placeholder="Email used at checkout"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            {error && (
+              <div role="alert" className="flex items-center gap-2 text-destructive">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+            <Button type="submit" disabled={isLoading} className="w-full">
+              {isLoading ? "Tracking..." : "Track Order"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {order && <OrderTrackingDetails order={order} />}
+    </>
+  );
+}
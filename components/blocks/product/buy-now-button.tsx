@@ -52,6 +52,11 @@ export function BuyNowButton({
         className={className}
         size={size}
         data-style={style}
+        data-track="buy_now"
+        data-track-type="ecommerce"
+        data-track-product={variant?.product_id || product.id}
+        data-track-variant={variant?.id}
+        data-track-quantity={quantity}
       >
         {pending ? (
           <Loader2 className="mr-2 w-4 h-4 animate-spin" />
@@ -8,9 +8,10 @@ import { BuyNowButton } from "@blocks/product/buy-now-button";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useCart } from "@/contexts/cart-context";
+import { useCurrency } from "@/contexts/currency-context";
 
 import type { ApiProduct } from "@/lib/types";
-import { formatPrice, stripHtml } from "@/lib/utils";
+import { stripHtml } from "@/lib/utils";
 import {
   Select,
   SelectContent,
@@ -28,6 +29,7 @@ interface ProductCardProps {
 export function ProductCard({ product }: ProductCardProps) {
   const { selectedVariant, setSelectedVariant } = useProductVariants(product);
   const { addItem } = useCart();
+  const { currency, formatCatalogPrice } = useCurrency();
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [previousPrice, setPreviousPrice] = useState<number | null>(null);
@@ -265,18 +267,18 @@ export function ProductCard({ product }: ProductCardProps) {
           <span
             ref={priceRef}
             className="font-bold text-lg transition-all duration-300"
-            aria-label={`Current price: ${formatPrice(currentPrice)}`}
+            aria-label={`Current price: ${formatCatalogPrice(currentPrice)}`}
           >
-            {formatPrice(currentPrice)}
+            {formatCatalogPrice(currentPrice)}
           </span>
           {product.compare_at_price && (
             <span
               className="text-muted-foreground text-sm line-through"
-              aria-label={`Original price: ${formatPrice(
+              aria-label={`Original price: ${formatCatalogPrice(
                 product.compare_at_price
               )}`}
             >
-              {formatPrice(product.compare_at_price)}
+              {formatCatalogPrice(product.compare_at_price)}
             </span>
           )}
         </div>
@@ -315,7 +317,7 @@ export function ProductCard({ product }: ProductCardProps) {
                     disabled={!variant.available}
                   >
                     <meta itemProp="sku" content={variant.sku || ""} />
-                    <meta itemProp="priceCurrency" content="USD" />
+                    <meta itemProp="priceCurrency" content={currency} />
                     {variant.title}
                     {!variant.available && " (Unavailable)"}
                   </SelectItem>
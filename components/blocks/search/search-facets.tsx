@@ -0,0 +1,214 @@
+import Link from "next/link";
+import type { SearchInput } from "@/lib/validations";
+import {
+  SEARCH_SORT_OPTIONS,
+  buildSearchHref,
+  hasSearchFilters,
+  toggleFacetValue,
+  type FacetValue,
+  type SearchFacets,
+  type SearchFilters,
+} from "@/lib/utils/search-utils";
+import { cn } from "@/lib/utils";
+
+interface SearchFacetsProps {
+  input: SearchFilters;
+  facets: SearchFacets;
+  /** Link for the page showing these filters; keeps the page's own query and sort */
+  hrefFor: (filters: SearchFilters) => string;
+  /** Hide the tag facet, e.g. where tags define the listing itself */
+  showTags?: boolean;
+}
+
+type ListFacetKey = "productTypes" | "vendors" | "tags" | "options" | "priceRanges";
+
+function FacetLink({
+  href,
+  label,
+  count,
+  selected,
+}: {
+  href: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}) {
+  return (
+    <li>
+      <Link
+        href={href}
+        scroll={false}
+        aria-current={selected ? "true" : undefined}
+        className={cn(
+          "flex justify-between items-center gap-2 hover:bg-gray-50 px-2 py-1 rounded text-sm",
+          selected ? "font-semibold text-gray-900" : "text-gray-600",
+          count === 0 && !selected && "opacity-50"
+        )}
+      >
+        <span className="flex items-center gap-2">
+          <span
+            aria-hidden
+            className={cn(
+              "inline-block border border-gray-400 rounded-sm w-3 h-3",
+              selected && "bg-gray-900 border-gray-900"
+            )}
+          />
+          {label}
+        </span>
+        <span className="text-gray-400 text-xs">{count}</span>
+      </Link>
+    </li>
+  );
+}
+
+function FacetGroup({
+  title,
+  input,
+  hrefFor,
+  facetKey,
+  values,
+  labelOf = (value) => value,
+}: {
+  title: string;
+  input: SearchFilters;
+  hrefFor: SearchFacetsProps["hrefFor"];
+  facetKey: ListFacetKey;
+  values: FacetValue[];
+  labelOf?: (value: string) => string;
+}) {
+  if (values.length === 0) return null;
+
+  return (
+    <div className="pb-4 border-b">
+      <h3 className="mb-2 font-medium text-gray-900 text-sm">{title}</h3>
+      <ul className="space-y-0.5">
+        {values.map((facet) => (
+          <FacetLink
+            key={facet.value}
+            href={hrefFor(toggleFacetValue(input, facetKey, facet.value))}
+            label={labelOf(facet.value)}
+            count={facet.count}
+            selected={facet.selected}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Facet sidebar for the search and collection pages
+ * Every facet is a plain link so filtered result pages are shareable and crawlable
+ */
+export function SearchFacetsPanel({
+  input,
+  facets,
+  hrefFor,
+  showTags = true,
+}: SearchFacetsProps) {
+  return (
+    <nav aria-label="Product filters" className="space-y-4">
+      {hasSearchFilters(input) && (
+        <Link
+          href={hrefFor({})}
+          className="text-gray-600 text-sm underline"
+        >
+          Clear all filters
+        </Link>
+      )}
+
+      <div className="pb-4 border-b">
+        <h3 className="mb-2 font-medium text-gray-900 text-sm">Availability</h3>
+        <ul>
+          <FacetLink
+            href={hrefFor({ ...input, inStock: input.inStock ? undefined : true })}
+            label="In stock"
+            count={facets.inStock.count}
+            selected={facets.inStock.selected}
+          />
+        </ul>
+      </div>
+
+      <FacetGroup
+        title="Price"
+        input={input}
+        hrefFor={hrefFor}
+        facetKey="priceRanges"
+        values={facets.priceRanges}
+        labelOf={(value) =>
+          facets.priceRanges.find((bucket) => bucket.value === value)?.label ?? value
+        }
+      />
+      <FacetGroup
+        title="Category"
+        input={input}
+        hrefFor={hrefFor}
+        facetKey="productTypes"
+        values={facets.productTypes}
+      />
+      <FacetGroup
+        title="Brand"
+        input={input}
+        hrefFor={hrefFor}
+        facetKey="vendors"
+        values={facets.vendors}
+      />
+      {Object.entries(facets.options).map(([name, values]) => (
+        <FacetGroup
+          key={name}
+          title={name}
+          input={input}
+          hrefFor={hrefFor}
+          facetKey="options"
+          values={values}
+          labelOf={(value) => value.slice(name.length + 1)}
+        />
+      ))}
+      {showTags && (
+        <FacetGroup
+          title="Tags"
+          input={input}
+          hrefFor={hrefFor}
+          facetKey="tags"
+          values={facets.tags}
+        />
+      )}
+    </nav>
+  );
+}
+
+/**
+ * Sort links for the search page
+ */
+export function SearchSortLinks({ input }: { input: SearchInput }) {
+  const activeSort = input.sortBy ?? "relevance";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-600">Sort by:</span>
+      {SEARCH_SORT_OPTIONS.map((option) => {
+        const active =
+          option.sortBy === activeSort &&
+          (option.sortOrder === undefined || option.sortOrder === (input.sortOrder ?? "desc"));
+        return (
+          <Link
+            key={option.label}
+            href={buildSearchHref(input, {
+              sortBy: option.sortBy,
+              sortOrder: option.sortOrder,
+            })}
+            aria-current={active ? "true" : undefined}
+            className={cn(
+              "px-3 py-1 border rounded-full transition-colors",
+              active
+                ? "bg-gray-900 border-gray-900 text-white"
+                : "border-gray-300 hover:bg-gray-50"
+            )}
+          >
+            {option.label}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { SITE_CONFIG } from "@/lib/constants";
+import { EmailButton, EmailHeading, EmailLayout, EmailText } from "./email-layout";
+import { type EmailLineItem, EmailLineItems } from "./email-line-items";
+
+export interface AbandonedCartEmailProps {
+  /** The cart's saved lines, priced when they were added */
+  items: EmailLineItem[];
+  currency: string;
+  restoreUrl: string;
+  /** Stops these emails for the address */
+  unsubscribeUrl: string;
+  discountCode: string | null;
+  /** 0-based position in the recovery sequence */
+  step: number;
+}
+
+const HEADINGS = [
+  "You left something behind",
+  "Your cart is still waiting for you",
+  "Still thinking it over?",
+];
+
+export function AbandonedCartEmail({
+  items,
+  currency,
+  restoreUrl,
+  unsubscribeUrl,
+  discountCode,
+  step,
+}: AbandonedCartEmailProps) {
+  const subtotal =
+    items.reduce((cents, item) => cents + Math.round(item.price * 100) * item.quantity, 0) / 100;
+
+  return (
+    <EmailLayout
+      footer={
+        <>
+          You&apos;re receiving this because you entered your email at {SITE_CONFIG.name}.{" "}
+          <a href={unsubscribeUrl} style={{ color: "#71717a" }}>
+            Unsubscribe from cart reminders
+          </a>
+        </>
+      }
+    >
+      <EmailHeading>{HEADINGS[Math.min(step, HEADINGS.length - 1)]}</EmailHeading>
+      <EmailText>You left these items in your cart at {SITE_CONFIG.name}:</EmailText>
+      <EmailLineItems items={items} currency={currency} summary={{ label: "Subtotal", amount: subtotal }} />
+      {discountCode && <EmailText>Your code {discountCode} is still applied.</EmailText>}
+      <EmailButton href={restoreUrl}>Return to your cart</EmailButton>
+      <EmailText>The link picks up where you left off, on any device.</EmailText>
+    </EmailLayout>
+  );
+}
@@ -0,0 +1,38 @@
+import { APP_CONTACTS, SITE_CONFIG } from "@/lib/constants";
+import { EmailHeading, EmailLayout, EmailText } from "./email-layout";
+
+export interface ContactAcknowledgementEmailProps {
+  name: string;
+  /** The message as submitted, quoted back */
+  message: string;
+}
+
+export function ContactAcknowledgementEmail({ name, message }: ContactAcknowledgementEmailProps) {
+  return (
+    <EmailLayout
+      footer={`You're receiving this because you contacted ${SITE_CONFIG.name}.`}
+    >
+      <EmailHeading>We received your message</EmailHeading>
+      <EmailText>
+        Hi {name}, thanks for getting in touch. Our team usually replies within one business day.
+      </EmailText>
+      <EmailText>Here&apos;s what you sent us:</EmailText>
+      <blockquote
+        style={{
+          margin: "0 0 16px",
+          padding: "8px 12px",
+          borderLeft: "3px solid #e4e4e7",
+          color: "#3f3f46",
+          fontSize: 14,
+          lineHeight: "20px",
+          whiteSpace: "pre-wrap",
+        }}
+      >
+        {message}
+      </blockquote>
+      <EmailText>
+        Need something sooner? Call us at {APP_CONTACTS.phone.main}.
+      </EmailText>
+    </EmailLayout>
+  );
+}
@@ -0,0 +1,91 @@
+import type { CSSProperties, ReactNode } from "react";
+import { SITE_CONFIG } from "@/lib/constants";
+
+/**
+ * Shared building blocks of the transactional email templates
+ * Email clients ignore stylesheets and most modern CSS, so everything is
+ * laid out with tables and styled inline.
+ */
+
+const FONT_FAMILY =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+const styles = {
+  body: {
+    margin: 0,
+    padding: "24px 12px",
+    backgroundColor: "#f4f4f5",
+    color: "#111111",
+    fontFamily: FONT_FAMILY,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 560,
+    margin: "0 auto",
+    backgroundColor: "#ffffff",
+    borderCollapse: "collapse",
+  },
+  store: { margin: "0 0 24px", fontSize: 20, fontWeight: "bold" },
+  heading: { margin: "0 0 16px", fontSize: 22, lineHeight: "28px" },
+  text: { margin: "0 0 16px", fontSize: 15, lineHeight: "22px" },
+  muted: { margin: "24px 0 0", fontSize: 12, lineHeight: "18px", color: "#71717a" },
+  button: {
+    display: "inline-block",
+    padding: "12px 20px",
+    backgroundColor: "#111111",
+    color: "#ffffff",
+    fontSize: 15,
+    fontWeight: "bold",
+    textDecoration: "none",
+  },
+} satisfies Record<string, CSSProperties>;
+
+interface EmailLayoutProps {
+  children: ReactNode;
+  /** Small print under the content, e.g. why the email was sent */
+  footer?: ReactNode;
+}
+
+export function EmailLayout({ children, footer }: EmailLayoutProps) {
+  return (
+    <html lang="en">
+      {/* Rendered to a static email, outside Next.js */}
+      {/* eslint-disable-next-line @next/next/no-head-element */}
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+      </head>
+      <body style={styles.body}>
+        <table role="presentation" cellPadding={0} cellSpacing={0} style={styles.container}>
+          <tbody>
+            <tr>
+              <td style={{ padding: 24 }}>
+                <p style={styles.store}>{SITE_CONFIG.name}</p>
+                {children}
+                {footer && <p style={styles.muted}>{footer}</p>}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </body>
+    </html>
+  );
+}
+
+export function EmailHeading({ children }: { children: ReactNode }) {
+  return <h1 style={styles.heading}>{children}</h1>;
+}
+
+export function EmailText({ children }: { children: ReactNode }) {
+  return <p style={styles.text}>{children}</p>;
+}
+
+export function EmailButton({ href, children }: { href: string; children: ReactNode }) {
+  return (
+    <p style={{ margin: "24px 0" }}>
+      <a href={href} style={styles.button}>
+        {children}
+      </a>
+    </p>
+  );
+}
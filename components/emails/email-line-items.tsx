@@ -0,0 +1,68 @@
+import { formatPrice } from "@/lib/utils";
+
+export interface EmailLineItem {
+  title: string;
+  variantTitle?: string | null;
+  /** Absolute image URL */
+  image: string | null;
+  quantity: number;
+  /** Unit price */
+  price: number;
+}
+
+interface EmailLineItemsProps {
+  items: EmailLineItem[];
+  currency: string;
+  /** Bold summary row under the items, e.g. the order total */
+  summary?: { label: string; amount: number };
+}
+
+const cell = { padding: "8px 0", fontSize: 14, lineHeight: "20px", verticalAlign: "top" } as const;
+
+export function EmailLineItems({ items, currency, summary }: EmailLineItemsProps) {
+  return (
+    <table
+      role="presentation"
+      cellPadding={0}
+      cellSpacing={0}
+      style={{ width: "100%", borderCollapse: "collapse", margin: "0 0 16px" }}
+    >
+      <tbody>
+        {items.map((item, index) => (
+          <tr key={index} style={{ borderBottom: "1px solid #e4e4e7" }}>
+            <td style={{ ...cell, width: 64 }}>
+              {item.image && (
+                // Email clients need a plain image tag
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={item.image}
+                  alt=""
+                  width={56}
+                  height={56}
+                  style={{ display: "block", objectFit: "cover" }}
+                />
+              )}
+            </td>
+            <td style={{ ...cell, paddingLeft: 12 }}>
+              {item.title}
+              {item.variantTitle && <span style={{ color: "#71717a" }}> ({item.variantTitle})</span>}
+              {" "}&times; {item.quantity}
+            </td>
+            <td style={{ ...cell, textAlign: "right", whiteSpace: "nowrap" }}>
+              {formatPrice(item.price * item.quantity, currency)}
+            </td>
+          </tr>
+        ))}
+        {summary && (
+          <tr>
+            <td style={cell} />
+            <td style={{ ...cell, paddingLeft: 12, fontWeight: "bold" }}>{summary.label}</td>
+            <td style={{ ...cell, textAlign: "right", fontWeight: "bold" }}>
+              {formatPrice(summary.amount, currency)}
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,24 @@
+import { SITE_CONFIG } from "@/lib/constants";
+import { EmailButton, EmailHeading, EmailLayout, EmailText } from "./email-layout";
+
+export interface NewsletterConfirmationEmailProps {
+  confirmUrl: string;
+}
+
+export function NewsletterConfirmationEmail({ confirmUrl }: NewsletterConfirmationEmailProps) {
+  return (
+    <EmailLayout
+      footer={`You're receiving this because this address was entered in the ${SITE_CONFIG.name} newsletter signup.`}
+    >
+      <EmailHeading>Confirm your subscription</EmailHeading>
+      <EmailText>
+        Please confirm that you&apos;d like to receive offers, new product updates and style tips
+        from {SITE_CONFIG.name}.
+      </EmailText>
+      <EmailButton href={confirmUrl}>Confirm subscription</EmailButton>
+      <EmailText>
+        If you didn&apos;t sign up, ignore this email and you won&apos;t hear from us again.
+      </EmailText>
+    </EmailLayout>
+  );
+}
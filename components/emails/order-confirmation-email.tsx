@@ -0,0 +1,40 @@
+import { SITE_CONFIG } from "@/lib/constants";
+import { EmailButton, EmailHeading, EmailLayout, EmailText } from "./email-layout";
+import { type EmailLineItem, EmailLineItems } from "./email-line-items";
+
+export interface OrderConfirmationEmailProps {
+  orderNumber: string;
+  items: EmailLineItem[];
+  total: number;
+  /** Currency the order was placed in */
+  currency: string;
+  /** Signed tracking page link, when tracking links are enabled */
+  trackingUrl: string | null;
+}
+
+export function OrderConfirmationEmail({
+  orderNumber,
+  items,
+  total,
+  currency,
+  trackingUrl,
+}: OrderConfirmationEmailProps) {
+  return (
+    <EmailLayout footer={`You're receiving this because you placed an order at ${SITE_CONFIG.name}.`}>
+      <EmailHeading>Thanks for your order</EmailHeading>
+      <EmailText>
+        We&apos;ve received order {orderNumber} and will let you know as soon as it ships.
+      </EmailText>
+      <EmailLineItems items={items} currency={currency} summary={{ label: "Total", amount: total }} />
+      {trackingUrl ? (
+        <EmailButton href={trackingUrl}>View your order</EmailButton>
+      ) : (
+        <EmailText>
+          You can follow your order at{" "}
+          <a href={`${SITE_CONFIG.url}/track-order`}>{`${SITE_CONFIG.url}/track-order`}</a> with
+          your order number and this email address.
+        </EmailText>
+      )}
+    </EmailLayout>
+  );
+}
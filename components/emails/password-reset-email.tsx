@@ -0,0 +1,26 @@
+import { SITE_CONFIG } from "@/lib/constants";
+import { EmailButton, EmailHeading, EmailLayout, EmailText } from "./email-layout";
+
+export interface PasswordResetEmailProps {
+  resetUrl: string;
+  /** How long the link stays valid */
+  expiresInMinutes: number;
+}
+
+export function PasswordResetEmail({ resetUrl, expiresInMinutes }: PasswordResetEmailProps) {
+  return (
+    <EmailLayout
+      footer={`You're receiving this because someone asked to reset the password of your ${SITE_CONFIG.name} account.`}
+    >
+      <EmailHeading>Reset your password</EmailHeading>
+      <EmailText>
+        Use the link below to choose a new password. It works once and expires in{" "}
+        {expiresInMinutes} minutes.
+      </EmailText>
+      <EmailButton href={resetUrl}>Choose a new password</EmailButton>
+      <EmailText>
+        If you didn&apos;t ask for this, you can ignore this email: your password stays the same.
+      </EmailText>
+    </EmailLayout>
+  );
+}
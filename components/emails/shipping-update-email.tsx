@@ -0,0 +1,55 @@
+import { SITE_CONFIG } from "@/lib/constants";
+import { EmailButton, EmailHeading, EmailLayout, EmailText } from "./email-layout";
+import { type EmailLineItem, EmailLineItems } from "./email-line-items";
+
+export interface ShippingUpdateShipment {
+  carrier: string;
+  trackingNumber: string;
+  /** Carrier tracking page, when one is known */
+  trackingUrl: string | null;
+}
+
+export interface ShippingUpdateEmailProps {
+  orderNumber: string;
+  status: "shipped" | "delivered";
+  shipments: ShippingUpdateShipment[];
+  items: EmailLineItem[];
+  currency: string;
+  /** Signed tracking page link, when tracking links are enabled */
+  trackingUrl: string | null;
+}
+
+export function ShippingUpdateEmail({
+  orderNumber,
+  status,
+  shipments,
+  items,
+  currency,
+  trackingUrl,
+}: ShippingUpdateEmailProps) {
+  return (
+    <EmailLayout footer={`You're receiving this because you placed an order at ${SITE_CONFIG.name}.`}>
+      <EmailHeading>
+        {status === "shipped" ? "Your order is on its way" : "Your order was delivered"}
+      </EmailHeading>
+      <EmailText>
+        {status === "shipped"
+          ? `Good news: order ${orderNumber} has shipped.`
+          : `Order ${orderNumber} has been delivered. We hope you enjoy it.`}
+      </EmailText>
+      {status === "shipped" &&
+        shipments.map((shipment) => (
+          <EmailText key={`${shipment.carrier}:${shipment.trackingNumber}`}>
+            {shipment.carrier} tracking number:{" "}
+            {shipment.trackingUrl ? (
+              <a href={shipment.trackingUrl}>{shipment.trackingNumber}</a>
+            ) : (
+              shipment.trackingNumber
+            )}
+          </EmailText>
+        ))}
+      <EmailLineItems items={items} currency={currency} />
+      {trackingUrl && <EmailButton href={trackingUrl}>View your order</EmailButton>}
+    </EmailLayout>
+  );
+}
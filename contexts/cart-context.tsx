@@ -9,14 +9,16 @@ import {
 	useReducer,
 	useState,
 } from "react";
+import { cartStore, createDefaultVariant } from "@/lib/cart-store";
 import type {
-	ShoppingCartItem as ApiCartItem,
 	ApiProduct,
 	ApiProductVariant,
 	CartContextType,
 	ClientCartItem,
 	ClientCartState,
 } from "@/lib/types";
+import { releaseInventoryHold } from "@/hooks/use-inventory";
+import { track } from "@/lib/analytics";
 import { useAuth } from "./auth-context";
 import { toast } from "sonner";
 
@@ -111,27 +113,6 @@ const cartReducer = (
 	}
 };
 
-function createDefaultVariant(product: ApiProduct): ApiProductVariant {
-	const firstVariant = product.variants?.[0];
-	return {
-		id: firstVariant?.id || product.id,
-		product_id: product.id,
-		title: firstVariant?.title || "Default Title",
-		price: product.price,
-		sku: firstVariant?.sku || "",
-		grams: firstVariant?.grams || 0,
-		featured_image: product.images?.[0]?.src,
-		available: product.in_stock,
-		requires_shipping: firstVariant?.requires_shipping ?? true,
-		taxable: firstVariant?.taxable ?? true,
-		compare_at_price: product.compare_at_price,
-		position: 1,
-
-		created_at: product.created_at,
-		updated_at: product.updated_at,
-	};
-}
-
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({
 	children,
 }) => {
@@ -140,72 +121,41 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({
 		isOpen: false,
 	});
 	const { user } = useAuth();
-	const [cartId, setCartId] = useState<string | null>(null);
-
-	const loadCart = useCallback(async () => {
-		if (!user) {
-			const savedCart = localStorage.getItem("jhuangnyc-cart");
-      if (savedCart) {
-        try {
-          const cartItems = JSON.parse(savedCart);
-          dispatch({ type: "LOAD_CART", payload: cartItems });
-        } catch (e) {
-          console.error("Error loading cart from localStorage:", e);
-          localStorage.removeItem("jhuangnyc-cart");
-        }
-      }
-			return;
-		}
+	const userId = user?.id;
+	const [discountCode, setDiscountCodeState] = useState<string | null>(null);
 
-		try {
-			const res = await fetch("/api/cart");
-			if (!res.ok) throw new Error("Failed to fetch cart");
-			let cartData = await res.json();
-
-			if (!cartData || !cartData.id) {
-				const createRes = await fetch("/api/cart", { method: "POST" });
-				if (!createRes.ok) throw new Error("Failed to create cart");
-				cartData = await createRes.json();
-			}
-			setCartId(cartData.id);
-
-			if (cartData.cart_items && cartData.cart_items.length > 0) {
-				const itemsWithDetails = await Promise.all(
-					cartData.cart_items.map(async (item: ApiCartItem) => {
-						const product = item.product;
-						const variant =
-							product.variants?.find((v) => v.id === item.variant_id) ||
-							createDefaultVariant(product);
-
-						return {
-							id: item.id,
-							product,
-							variant,
-							quantity: item.quantity,
-							name: product.title,
-							price: variant.price,
-							image: variant.featured_image || product.images[0]?.src,
-						};
-					}),
-				);
-				dispatch({ type: "LOAD_CART", payload: itemsWithDetails });
-			} else {
-				dispatch({ type: "LOAD_CART", payload: [] });
+	// Signing in or out switches carts (signing in brings the guest cart
+	// along), so load again
+	useEffect(() => {
+		let cancelled = false;
+
+		const loadCart = async () => {
+			try {
+				const items = await cartStore.load();
+				if (!cancelled) dispatch({ type: "LOAD_CART", payload: items });
+			} catch (err) {
+				console.error("Error loading cart:", err);
 			}
-		} catch (err) {
-			console.error("Error loading cart from API:", err);
-		}
-	}, [user]);
+		};
 
-	useEffect(() => {
 		loadCart();
-	}, [loadCart]);
+		return () => {
+			cancelled = true;
+		};
+	}, [userId]);
 
 	useEffect(() => {
-		if (!user) {
-			localStorage.setItem("jhuangnyc-cart", JSON.stringify(state.items));
+		setDiscountCodeState(localStorage.getItem("jhuangnyc-discount-code"));
+	}, []);
+
+	const setDiscountCode = useCallback((code: string | null) => {
+		setDiscountCodeState(code);
+		if (code) {
+			localStorage.setItem("jhuangnyc-discount-code", code);
+		} else {
+			localStorage.removeItem("jhuangnyc-discount-code");
 		}
-	}, [state.items, user]);
+	}, []);
 
 	const addItem = async (
 		product: ApiProduct,
@@ -214,29 +164,23 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({
 	) => {
 		const variant = selectedVariant || createDefaultVariant(product);
 
+		// A checkout hold covers the old cart; checkout holds the new one again
+		releaseInventoryHold();
 		dispatch({
 			type: "ADD_ITEM",
 			payload: { product, variant, quantity },
 		});
 
 		toast.success(`${product.title} added to cart`);
-
-		if (!user || !cartId) {
-			return;
-		}
+		track({
+			type: "add_to_cart",
+			name: "add_to_cart",
+			productId: product.id,
+			properties: { variantId: variant.id, quantity, price: variant.price },
+		});
 
 		try {
-			const res = await fetch("/api/cart/items", {
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({
-					cart_id: cartId,
-					product_id: product.id,
-					variant_id: variant.id,
-					quantity,
-				}),
-			});
-			if (!res.ok) throw new Error("Failed to add item");
+			await cartStore.addItem(product, variant, quantity);
 		} catch (err) {
 			console.error("Error adding item to cart:", err);
 			toast.error("Failed to sync cart. Please try again.");
@@ -253,19 +197,11 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({
 		);
 		if (!itemToRemove) return;
 
+		releaseInventoryHold();
 		dispatch({ type: "REMOVE_ITEM", payload: { productId, variantId } });
 
-		if (!user || !cartId) {
-			return;
-		}
-
 		try {
-			const res = await fetch("/api/cart/items", {
-				method: "DELETE",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({ cart_id: cartId, item_id: itemToRemove.id }),
-			});
-			if (!res.ok) throw new Error("Failed to remove item");
+			await cartStore.removeItem(itemToRemove);
 		} catch (err) {
 			console.error("Error removing item from cart:", err);
 			toast.error("Failed to remove item. Please try again.");
@@ -291,56 +227,43 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({
 		if (!itemToUpdate) return;
 
 		const originalQuantity = itemToUpdate.quantity;
+		releaseInventoryHold();
 		dispatch({
 			type: "UPDATE_QUANTITY",
 			payload: { productId, variantId, quantity },
 		});
 
-		if (!user || !cartId) {
-			return;
-		}
-
-		if (quantity <= 0) {
-			await removeItem(productId, variantId);
-			return;
-		}
-
 		try {
-			const res = await fetch("/api/cart/items", {
-				method: "PUT",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({
-					cart_id: cartId,
-					item_id: itemToUpdate.id,
-					quantity,
-				}),
-			});
-			if (!res.ok) throw new Error("Failed to update quantity");
+			await cartStore.updateQuantity(itemToUpdate, quantity);
 		} catch (err) {
 			console.error("Error updating item quantity:", err);
 			toast.error("Failed to update quantity. Please try again.");
-			dispatch({
-				type: "UPDATE_QUANTITY",
-				payload: { productId, variantId, quantity: originalQuantity },
-			});
+			dispatch(
+				quantity > 0
+					? {
+							type: "UPDATE_QUANTITY",
+							payload: { productId, variantId, quantity: originalQuantity },
+						}
+					: {
+							type: "ADD_ITEM",
+							payload: {
+								product: itemToUpdate.product,
+								variant: itemToUpdate.variant,
+								quantity: originalQuantity,
+							},
+						},
+			);
 		}
 	};
 
 	const clearCart = async () => {
 		const currentItems = state.items;
+		releaseInventoryHold();
 		dispatch({ type: "CLEAR_CART" });
-
-		if (!user || !cartId) {
-			return;
-		}
+		setDiscountCode(null);
 
 		try {
-			const res = await fetch("/api/cart/clear", {
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({ cart_id: cartId }),
-			});
-			if (!res.ok) throw new Error("Failed to clear cart");
+			await cartStore.clear();
 		} catch (err) {
 			console.error("Error clearing cart:", err);
 			toast.error("Failed to clear cart. Please try again.");
@@ -371,6 +294,8 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({
 		toggleCart,
 		getTotalItems,
 		getTotalPrice,
+		discountCode,
+		setDiscountCode,
 	};
 
 	return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
@@ -0,0 +1,80 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+	type ReactNode,
+	createContext,
+	useCallback,
+	useContext,
+	useMemo,
+	useState,
+} from "react";
+import {
+	CURRENCY_COOKIE,
+	CURRENCY_COOKIE_MAX_AGE,
+	resolveCurrency,
+} from "@/lib/currencies";
+import { formatPrice } from "@/lib/utils";
+import { convertPrice } from "@/lib/utils/currency-utils";
+
+interface CurrencyContextType {
+	/** Presentment currency code */
+	currency: string;
+	/** Persist a new currency and re-render server components in it */
+	setCurrency: (currency: string) => void;
+	/** A shop-currency catalog price in the presentment currency */
+	convertCatalogPrice: (amount: number) => number;
+	/** A shop-currency catalog price, converted and formatted */
+	formatCatalogPrice: (amount: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(
+	undefined,
+);
+
+export function CurrencyProvider({
+	children,
+	initialCurrency,
+}: {
+	children: ReactNode;
+	/** From the request cookie, so the first render matches the server */
+	initialCurrency?: string;
+}) {
+	const router = useRouter();
+	const [currency, setCurrencyState] = useState(() =>
+		resolveCurrency(initialCurrency),
+	);
+
+	const setCurrency = useCallback(
+		(next: string) => {
+			const code = resolveCurrency(next);
+			document.cookie = `${CURRENCY_COOKIE}=${code}; path=/; max-age=${CURRENCY_COOKIE_MAX_AGE}; samesite=lax`;
+			setCurrencyState(code);
+			router.refresh();
+		},
+		[router],
+	);
+
+	const value = useMemo<CurrencyContextType>(
+		() => ({
+			currency,
+			setCurrency,
+			convertCatalogPrice: (amount) => convertPrice(amount, currency),
+			formatCatalogPrice: (amount) =>
+				formatPrice(convertPrice(amount, currency), currency),
+		}),
+		[currency, setCurrency],
+	);
+
+	return (
+		<CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>
+	);
+}
+
+export function useCurrency() {
+	const context = useContext(CurrencyContext);
+	if (context === undefined) {
+		throw new Error("useCurrency must be used within a CurrencyProvider");
+	}
+	return context;
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CONSENT_CHANGE_EVENT, readConsent, saveConsent } from "@/lib/cookie-consent";
+import type { CookieConsent } from "@/lib/utils/consent-utils";
+
+/**
+ * The visitor's cookie choice and a setter that saves it
+ * `ready` is false until the cookie has been read after mount, so banners
+ * don't flash during hydration.
+ */
+export function useCookieConsent() {
+  const [consent, setConsent] = useState<CookieConsent | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    setConsent(readConsent());
+    setReady(true);
+
+    const handleChange = () => setConsent(readConsent());
+    window.addEventListener(CONSENT_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(CONSENT_CHANGE_EVENT, handleChange);
+  }, []);
+
+  const save = useCallback((choice: CookieConsent) => saveConsent(choice), []);
+
+  return { consent, ready, save };
+}
@@ -0,0 +1,183 @@
+/**
+ * React Hooks for Stock Levels and Checkout Holds
+ * `useStockLevels` asks /api/inventory/stock what is left of each cart line,
+ * so the cart can flag items that sold out or ran low since they were added.
+ * `useInventoryHold` holds the cart's quantities while the shopper is in
+ * checkout; changing the cart releases the hold (`releaseInventoryHold`).
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { ApiResponse } from "@/lib/errors";
+import type { ClientCartItem } from "@/lib/types";
+import {
+  findStockIssues,
+  type StockIssue,
+  type StockLevel,
+} from "@/lib/utils/inventory-utils";
+import type { PricingItem } from "@/lib/utils/pricing-utils";
+
+// Let quantity steppers settle before re-checking
+const STOCK_DEBOUNCE_MS = 250;
+
+// Set while this tab holds stock, so cart changes only release real holds
+const HOLD_STORAGE_KEY = "inventory-hold";
+
+export interface StockState {
+  levels: StockLevel[];
+  /** Lines asking for more than is left */
+  issues: StockIssue[];
+}
+
+interface UseInventoryHoldReturn extends StockState {
+  /** When the hold lapses, or null when nothing is held */
+  expiresAt: string | null;
+  error: string | null;
+  /** Hold again, e.g. after checkout reported a stock problem */
+  refresh: () => void;
+}
+
+function usePricingItems(items: ClientCartItem[]): PricingItem[] {
+  // Stable key so unrelated cart re-renders don't re-check
+  const itemsKey = JSON.stringify(
+    items.map((item) => [item.product.id, item.variant.id, item.quantity])
+  );
+  return useMemo<PricingItem[]>(
+    () =>
+      (JSON.parse(itemsKey) as [string, string, number][]).map(
+        ([productId, variantId, quantity]) => ({
+          productId: String(productId),
+          variantId: String(variantId),
+          quantity,
+        })
+      ),
+    [itemsKey]
+  );
+}
+
+function withIssues(items: ClientCartItem[], levels: StockLevel[]): StockState {
+  return {
+    levels,
+    issues: findStockIssues(
+      items.map((item) => ({
+        productId: String(item.product.id),
+        variantId: String(item.variant.id),
+        quantity: item.quantity,
+        title: item.product.title,
+      })),
+      levels
+    ),
+  };
+}
+
+export function useStockLevels(items: ClientCartItem[]): StockState {
+  const pricingItems = usePricingItems(items);
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+
+  useEffect(() => {
+    if (pricingItems.length === 0) {
+      setLevels([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/inventory/stock", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ items: pricingItems }),
+          signal: controller.signal,
+        });
+        const result: ApiResponse<StockLevel[]> = await response.json();
+        // Without levels the cart just shows no stock badges
+        setLevels(result.success && result.data ? result.data : []);
+      } catch (err) {
+        if ((err as Error).name !== "AbortError") setLevels([]);
+      }
+    }, STOCK_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [pricingItems]);
+
+  return useMemo(() => withIssues(items, levels), [items, levels]);
+}
+
+export function useInventoryHold(items: ClientCartItem[]): UseInventoryHoldReturn {
+  const pricingItems = usePricingItems(items);
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (pricingItems.length === 0) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/inventory/reservation", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ items: pricingItems }),
+          signal: controller.signal,
+        });
+        const result: ApiResponse<
+          { expiresAt: string; levels: StockLevel[] } | { issues: StockIssue[] }
+        > = await response.json();
+
+        if (result.success && result.data && "levels" in result.data) {
+          sessionStorage.setItem(HOLD_STORAGE_KEY, "1");
+          setLevels(result.data.levels);
+          setExpiresAt(result.data.expiresAt);
+          setError(null);
+        } else if (result.data && "issues" in result.data) {
+          // Show the shortfall on each line; levels follow the issues
+          setLevels(
+            result.data.issues.map((issue) => ({
+              productId: issue.productId,
+              variantId: issue.variantId,
+              available: issue.available,
+              status: issue.available > 0 ? "low_stock" : "out_of_stock",
+            }))
+          );
+          setExpiresAt(null);
+          setError(result.error?.message ?? null);
+        } else {
+          // The store is unavailable; checkout re-checks stock when placing the order
+          setExpiresAt(null);
+          setError(null);
+        }
+      } catch (err) {
+        if ((err as Error).name !== "AbortError") setExpiresAt(null);
+      }
+    }, STOCK_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [pricingItems, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+  const state = useMemo(() => withIssues(items, levels), [items, levels]);
+
+  return { ...state, expiresAt, error, refresh };
+}
+
+/**
+ * Release this tab's checkout hold, if it has one
+ */
+export function releaseInventoryHold(): void {
+  if (!sessionStorage.getItem(HOLD_STORAGE_KEY)) return;
+
+  sessionStorage.removeItem(HOLD_STORAGE_KEY);
+  fetch("/api/inventory/reservation", {
+    method: "DELETE",
+    keepalive: true,
+  }).catch(() => {
+    // The hold lapses on its own
+  });
+}
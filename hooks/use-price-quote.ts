@@ -0,0 +1,120 @@
+/**
+ * React Hook for Server-Priced Cart Totals
+ * Requests a signed quote from /api/checkout/quote whenever the cart's
+ * items, quantities, destination, shipping method, discount code, email or
+ * the presentment currency change. Summaries render the quote, never local
+ * math.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCurrency } from "@/contexts/currency-context";
+import type { ApiResponse } from "@/lib/errors";
+import type { ShippingDestination } from "@/lib/shipping";
+import type { ClientCartItem } from "@/lib/types";
+import type { PriceQuote, PricingItem } from "@/lib/utils/pricing-utils";
+
+// Let quantity steppers settle before re-pricing
+const QUOTE_DEBOUNCE_MS = 250;
+
+interface UsePriceQuoteReturn {
+  quote: PriceQuote | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Fetch a fresh quote, e.g. after checkout rejected an expired one */
+  refresh: () => void;
+}
+
+interface UsePriceQuoteOptions {
+  /** Omit to estimate shipping for the default destination */
+  destination?: ShippingDestination;
+  /** Shipping option id chosen by the customer */
+  shippingMethod?: string;
+  discountCode?: string | null;
+  /** Lets the server check per-customer promotion limits */
+  email?: string;
+}
+
+export function usePriceQuote(
+  items: ClientCartItem[],
+  { destination, shippingMethod, discountCode, email }: UsePriceQuoteOptions = {}
+): UsePriceQuoteReturn {
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const { currency } = useCurrency();
+
+  // Stable key so unrelated cart re-renders don't re-price
+  const itemsKey = JSON.stringify(
+    items.map((item) => [item.product.id, item.variant.id, item.quantity])
+  );
+  const pricingItems = useMemo<PricingItem[]>(
+    () =>
+      (JSON.parse(itemsKey) as [string, string, number][]).map(
+        ([productId, variantId, quantity]) => ({
+          productId: String(productId),
+          variantId: String(variantId),
+          quantity,
+        })
+      ),
+    [itemsKey]
+  );
+  const country = destination?.country || undefined;
+  const province = destination?.province || undefined;
+
+  // A quote in the previous currency must not be shown while re-pricing
+  useEffect(() => {
+    setQuote(null);
+  }, [currency]);
+
+  useEffect(() => {
+    if (pricingItems.length === 0) {
+      setQuote(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/checkout/quote", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: pricingItems,
+            ...(country && { destination: { country, province } }),
+            ...(shippingMethod && { shippingMethod }),
+            ...(discountCode && { discountCode }),
+            ...(email && { email }),
+            currency,
+          }),
+          signal: controller.signal,
+        });
+        const result: ApiResponse<PriceQuote> = await response.json();
+        if (result.success && result.data) {
+          setQuote(result.data);
+          setError(null);
+        } else {
+          setQuote(null);
+          setError(result.error?.message ?? "Unable to price your cart");
+        }
+      } catch (err) {
+        if ((err as Error).name === "AbortError") return;
+        setError("Unable to price your cart");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [pricingItems, country, province, shippingMethod, discountCode, email, currency, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { quote, isLoading, error, refresh };
+}
@@ -0,0 +1,249 @@
+/**
+ * Analytics SDK
+ * First-party event tracking into `experience_tracks` through
+ * /api/analytics/events. Events wait in an in-memory queue and leave in
+ * batches with navigator.sendBeacon, so a batch survives the page unloading:
+ * the queue is sent ANALYTICS.FLUSH_INTERVAL_MS after its first event, as
+ * soon as it holds a full batch, and when the page is hidden.
+ *
+ * Nothing is queued, stored or sent without analytics consent (see
+ * `lib/cookie-consent.ts`); withdrawing consent drops the queue and the ids.
+ *
+ * Once `startAnalytics` runs, clicks on elements tagged with `data-track` are
+ * tracked without code:
+ *
+ *   <button data-track="hero-cta" data-track-type="ecommerce"
+ *     data-track-product="123" data-track-placement="hero">
+ *
+ * `data-track` names the event, `data-track-type` sets its type (`click` by
+ * default), `data-track-product` its product, and every other `data-track-*`
+ * attribute becomes a property (`placement: "hero"`).
+ */
+
+import { ANALYTICS } from "@/lib/constants";
+import { CONSENT_CHANGE_EVENT, readConsent } from "@/lib/cookie-consent";
+import { ANALYTICS_ID_COOKIE, serializeAnalyticsIds } from "@/lib/utils/analytics-utils";
+import type { AnalyticsEventInput } from "@/lib/validations";
+
+const ENDPOINT = "/api/analytics/events";
+// A tab's visit; the server rolls its events up into user_sessions
+const SESSION_STORAGE_KEY = "analytics-session-id";
+// The browser across visits
+const ANONYMOUS_ID_STORAGE_KEY = "analytics-anonymous-id";
+const ELEMENT_TEXT_MAX_LENGTH = 100;
+
+export type AnalyticsEventType = (typeof ANALYTICS.EVENT_TYPES)[number];
+
+export interface TrackEvent {
+  type: AnalyticsEventType;
+  name: string;
+  productId?: string;
+  orderId?: string;
+  searchQuery?: string;
+  properties?: Record<string, string | number | boolean | null>;
+}
+
+let queue: AnalyticsEventInput[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let lastPageUrl: string | undefined;
+
+function enabled(): boolean {
+  return readConsent()?.analytics === true;
+}
+
+function storedId(storage: Storage, key: string): string {
+  let id = storage.getItem(key);
+  if (!id) {
+    id = crypto.randomUUID();
+    storage.setItem(key, id);
+  }
+  return id;
+}
+
+/**
+ * The id of this tab's visit, which other first-party metrics (see
+ * `lib/web-vitals.ts`) share with the events; call only with consent
+ */
+export function getSessionId(): string {
+  return storedId(sessionStorage, SESSION_STORAGE_KEY);
+}
+
+/**
+ * The visit's ids, also kept in a session cookie for server-recorded funnel
+ * steps (`lib/journeys.ts`); call only with consent
+ */
+function identify() {
+  const ids = {
+    sessionId: getSessionId(),
+    anonymousId: storedId(localStorage, ANONYMOUS_ID_STORAGE_KEY),
+  };
+  document.cookie = `${ANALYTICS_ID_COOKIE}=${serializeAnalyticsIds(ids)}; path=/; samesite=lax`;
+  return ids;
+}
+
+function isEventType(value: string | undefined): value is AnalyticsEventType {
+  return (ANALYTICS.EVENT_TYPES as readonly string[]).includes(value ?? "");
+}
+
+function pageContext() {
+  return {
+    url: window.location.href,
+    title: document.title || undefined,
+    timestamp: Date.now(),
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    screen: { width: window.screen.width, height: window.screen.height },
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+}
+
+function enqueue(event: AnalyticsEventInput): void {
+  if (!enabled()) return;
+
+  queue.push(event);
+  // Conversions usually come just before the page navigates away
+  if (queue.length >= ANALYTICS.MAX_BATCH_EVENTS || event.type === "ecommerce") {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flush, ANALYTICS.FLUSH_INTERVAL_MS);
+  }
+}
+
+/**
+ * Send everything queued
+ */
+export function flush(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (queue.length === 0) return;
+  if (!enabled()) {
+    queue = [];
+    return;
+  }
+
+  const { sessionId, anonymousId } = identify();
+  while (queue.length > 0) {
+    const body = JSON.stringify({
+      sessionId,
+      anonymousId,
+      events: queue.splice(0, ANALYTICS.MAX_BATCH_EVENTS),
+    });
+    const sent = navigator.sendBeacon?.(
+      ENDPOINT,
+      new Blob([body], { type: "application/json" })
+    );
+    if (!sent) {
+      fetch(ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+        keepalive: true,
+      }).catch(() => {
+        // Analytics never gets in the shopper's way
+      });
+    }
+  }
+}
+
+/**
+ * Track an event on the current page
+ */
+export function track(event: TrackEvent): void {
+  if (typeof window === "undefined") return;
+  enqueue({ ...pageContext(), ...event });
+}
+
+/**
+ * Track a view of the current page; calling it again for the same URL does
+ * nothing
+ */
+export function trackPageView(): void {
+  if (typeof window === "undefined" || !enabled()) return;
+
+  const url = window.location.href;
+  if (url === lastPageUrl) return;
+  const previousUrl = lastPageUrl;
+  lastPageUrl = url;
+
+  enqueue({
+    ...pageContext(),
+    type: "page_view",
+    name: "page_view",
+    previousUrl,
+    // Only the landing page has an outside referrer
+    referrer: previousUrl ? undefined : document.referrer || undefined,
+  });
+}
+
+function handleClick(event: MouseEvent): void {
+  const element = (event.target as Element | null)?.closest<HTMLElement>("[data-track]");
+  if (!element?.dataset.track) return;
+
+  const { track: name, trackType, trackProduct, ...dataset } = element.dataset;
+  const properties = Object.fromEntries(
+    Object.entries(dataset)
+      .filter(([key]) => key.startsWith("track"))
+      .map(([key, value]) => [key.charAt(5).toLowerCase() + key.slice(6), value ?? null])
+  );
+  const box = element.getBoundingClientRect();
+
+  enqueue({
+    ...pageContext(),
+    type: isEventType(trackType) ? trackType : "click",
+    name,
+    productId: trackProduct,
+    properties,
+    element: {
+      selector: `${element.tagName.toLowerCase()}[data-track="${name}"]`,
+      text: element.innerText?.trim().slice(0, ELEMENT_TEXT_MAX_LENGTH) || undefined,
+      position: {
+        x: Math.round(box.left + window.scrollX),
+        y: Math.round(box.top + window.scrollY),
+        width: Math.round(box.width),
+        height: Math.round(box.height),
+      },
+      buttonType: element instanceof HTMLButtonElement ? element.type : undefined,
+    },
+    click: { x: Math.round(event.pageX), y: Math.round(event.pageY) },
+  });
+}
+
+function handleVisibilityChange(): void {
+  if (document.visibilityState === "hidden") flush();
+}
+
+function handleConsentChange(): void {
+  if (enabled()) {
+    identify();
+    trackPageView();
+    return;
+  }
+  queue = [];
+  lastPageUrl = undefined;
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  localStorage.removeItem(ANONYMOUS_ID_STORAGE_KEY);
+  document.cookie = `${ANALYTICS_ID_COOKIE}=; path=/; max-age=0`;
+}
+
+/**
+ * Track tagged clicks and send the queue when the page is hidden
+ * Returns the cleanup; page views are tracked by the caller on navigation.
+ */
+export function startAnalytics(): () => void {
+  if (enabled()) identify();
+
+  // Capture, so handlers that stop propagation don't hide clicks
+  document.addEventListener("click", handleClick, true);
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+  window.addEventListener("pagehide", flush);
+  window.addEventListener(CONSENT_CHANGE_EVENT, handleConsentChange);
+
+  return () => {
+    document.removeEventListener("click", handleClick, true);
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+    window.removeEventListener("pagehide", flush);
+    window.removeEventListener(CONSENT_CHANGE_EVENT, handleConsentChange);
+    flush();
+  };
+}
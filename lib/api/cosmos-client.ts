@@ -11,6 +11,16 @@
 
 import { logger } from "@/lib/utils/logger";
 import type { ApiProduct } from "@/lib/types";
+import {
+  MSGPACK_CONTENT_TYPE,
+  decodeMsgpackBody,
+  decodePaginatedProducts,
+  decodeProduct,
+  isMsgpackResponse,
+  type PaginatedResponse,
+} from "./cosmos-decoder";
+
+export type { PaginatedResponse } from "./cosmos-decoder";
 
 /**
  * Get server-side environment variables
@@ -39,6 +49,16 @@ async function getServerConfig() {
  */
 export type ResponseFormat = "json" | "msgpack";
 
+/**
+ * Default wire format - MessagePack keeps full-catalog pulls small
+ */
+export const DEFAULT_RESPONSE_FORMAT: ResponseFormat = "msgpack";
+
+/**
+ * Largest page the COSMOS API will serve
+ */
+export const MAX_PAGE_SIZE = 100;
+
 /**
  * Base request options
  */
@@ -46,6 +66,9 @@ export interface CosmosRequestOptions {
   format?: ResponseFormat;
   cache?: RequestCache;
   revalidate?: number;
+  /** Next.js data cache tags, for `revalidateTag` */
+  tags?: string[];
+  signal?: AbortSignal;
 }
 
 /**
@@ -57,19 +80,6 @@ export interface PaginationParams {
   fields?: string;
 }
 
-/**
- * Paginated response structure
- */
-export interface PaginatedResponse<T> {
-  products: T[];
-  meta?: {
-    total?: number;
-    page?: number;
-    limit?: number;
-    total_pages?: number;
-  };
-}
-
 /**
  * Build full API URL
  */
@@ -91,7 +101,8 @@ async function buildHeaders(format: ResponseFormat = "json"): Promise<HeadersIni
   };
 
   if (format === "msgpack") {
-    headers["Accept"] = "application/x-msgpack";
+    // Let the server fall back to JSON if it cannot encode MessagePack
+    headers["Accept"] = `${MSGPACK_CONTENT_TYPE}, application/json;q=0.9`;
   } else {
     headers["Accept"] = "application/json";
   }
@@ -101,30 +112,45 @@ async function buildHeaders(format: ResponseFormat = "json"): Promise<HeadersIni
 
 /**
  * Parse response based on content type
+ * The server decides the format, so this follows Content-Type rather than the request
  */
-async function parseResponse<T>(response: Response): Promise<T> {
-  const contentType = response.headers.get("Content-Type") || "";
-
-  if (contentType.includes("application/x-msgpack")) {
-    // TODO: Implement MessagePack decoding when needed
-    // For now, fall back to JSON
-    logger.warn(
-      "MessagePack response received but not yet implemented, falling back to JSON"
-    );
-    return response.json();
+async function parseResponse(response: Response): Promise<unknown> {
+  if (isMsgpackResponse(response)) {
+    return decodeMsgpackBody(response);
   }
 
   return response.json();
 }
 
+/**
+ * Swap the `format` query parameter so a retried request asks for JSON
+ */
+function withFormat(endpoint: string, format: ResponseFormat): string {
+  const [path, query = ""] = endpoint.split("?");
+  const params = new URLSearchParams(query);
+  if (params.has("format")) {
+    params.set("format", format);
+  }
+  const queryString = params.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
 /**
  * Core fetch function with error handling
+ * Decodes the body with `decoder` when given; otherwise the payload is trusted as `T`
  */
 async function cosmosRequest<T>(
   endpoint: string,
-  options: CosmosRequestOptions = {}
+  options: CosmosRequestOptions = {},
+  decoder?: (raw: unknown) => T
 ): Promise<T> {
-  const { format = "json", cache = "default", revalidate } = options;
+  const {
+    format = DEFAULT_RESPONSE_FORMAT,
+    cache = "default",
+    revalidate,
+    tags,
+    signal,
+  } = options;
   const url = await buildUrl(endpoint);
 
   logger.debug("COSMOS API request", { endpoint, format });
@@ -133,11 +159,29 @@ async function cosmosRequest<T>(
     const fetchOptions: RequestInit = {
       headers: await buildHeaders(format),
       cache,
-      ...(revalidate !== undefined && { next: { revalidate } }),
+      signal,
+      ...((revalidate !== undefined || tags) && { next: { revalidate, tags } }),
     };
 
     const response = await fetch(url, fetchOptions);
 
+    // Content negotiation: retry as JSON when MessagePack is refused
+    if (
+      format === "msgpack" &&
+      (response.status === 406 || response.status === 415)
+    ) {
+      logger.warn("COSMOS API refused MessagePack, retrying as JSON", {
+        endpoint,
+        status: response.status,
+      });
+      await response.body?.cancel();
+      return cosmosRequest(
+        withFormat(endpoint, "json"),
+        { ...options, format: "json" },
+        decoder
+      );
+    }
+
     if (!response.ok) {
       const errorText = await response.text().catch(() => "Unknown error");
       throw new Error(
@@ -145,11 +189,20 @@ async function cosmosRequest<T>(
       );
     }
 
-    const data = await parseResponse<T>(response);
-    logger.debug("COSMOS API response received", { endpoint });
+    const raw = await parseResponse(response);
+    const data = decoder ? decoder(raw) : (raw as T);
+    logger.debug("COSMOS API response received", {
+      endpoint,
+      format: isMsgpackResponse(response) ? "msgpack" : "json",
+    });
     return data;
   } catch (error) {
-    logger.error("COSMOS API request failed", error, { endpoint, url });
+    if (signal?.aborted) {
+      // Caller gave up on the request; not an API failure
+      logger.debug("COSMOS API request aborted", { endpoint });
+    } else {
+      logger.error("COSMOS API request failed", error, { endpoint, url });
+    }
     throw error;
   }
 }
@@ -165,14 +218,15 @@ export async function getProducts(
 
   const queryParams = new URLSearchParams({
     page: page.toString(),
-    limit: Math.min(limit, 100).toString(), // Max 100 per API docs
+    limit: Math.min(limit, MAX_PAGE_SIZE).toString(), // Max 100 per API docs
     ...(fields && { fields }),
-    ...(options.format && { format: options.format }),
+    format: options.format ?? DEFAULT_RESPONSE_FORMAT,
   });
 
-  return cosmosRequest<PaginatedResponse<ApiProduct>>(
+  return cosmosRequest(
     `/products?${queryParams}`,
-    options
+    options,
+    decodePaginatedProducts
   );
 }
 
@@ -189,14 +243,15 @@ export async function searchProducts(
   const queryParams = new URLSearchParams({
     q: query,
     page: page.toString(),
-    limit: Math.min(limit, 100).toString(),
+    limit: Math.min(limit, MAX_PAGE_SIZE).toString(),
     ...(fields && { fields }),
-    ...(options.format && { format: options.format }),
+    format: options.format ?? DEFAULT_RESPONSE_FORMAT,
   });
 
-  return cosmosRequest<PaginatedResponse<ApiProduct>>(
+  return cosmosRequest(
     `/products/search?${queryParams}`,
-    options
+    options,
+    decodePaginatedProducts
   );
 }
 
@@ -208,13 +263,13 @@ export async function getProduct(
   options: CosmosRequestOptions = {}
 ): Promise<ApiProduct> {
   const queryParams = new URLSearchParams({
-    ...(options.format && { format: options.format }),
+    format: options.format ?? DEFAULT_RESPONSE_FORMAT,
   });
 
-  const query = queryParams.toString() ? `?${queryParams}` : "";
-  return cosmosRequest<ApiProduct>(
-    `/products/${key}${query}`,
-    options
+  return cosmosRequest(
+    `/products/${key}?${queryParams}`,
+    options,
+    decodeProduct
   );
 }
 
@@ -230,14 +285,15 @@ export async function getCollection(
 
   const queryParams = new URLSearchParams({
     page: page.toString(),
-    limit: Math.min(limit, 100).toString(),
+    limit: Math.min(limit, MAX_PAGE_SIZE).toString(),
     ...(fields && { fields }),
-    ...(options.format && { format: options.format }),
+    format: options.format ?? DEFAULT_RESPONSE_FORMAT,
   });
 
-  return cosmosRequest<PaginatedResponse<ApiProduct>>(
+  return cosmosRequest(
     `/collections/${handle}?${queryParams}`,
-    options
+    options,
+    decodePaginatedProducts
   );
 }
 
@@ -252,38 +308,215 @@ export async function getImageUrl(path: string): Promise<string> {
 }
 
 /**
- * Fetch all products with pagination (for feeds, etc.)
+ * Resumable position in a full-catalog walk
+ * Persist it from `onCheckpoint` and pass it back as `cursor` to resume
  */
-export async function fetchAllProducts(
-  pageSize: number = 250
-): Promise<ApiProduct[]> {
-  const allProducts: ApiProduct[] = [];
-  let page = 1;
-  let hasMore = true;
+export interface CatalogCursor {
+  /** Next COSMOS page to fetch */
+  page: number;
+  pageSize: number;
+  /** Page count reported by the API, once known */
+  totalPages?: number;
+  /** Products yielded so far, including previous runs */
+  fetched: number;
+}
 
-  while (hasMore) {
-    const response = await getProducts(
-      { page, limit: pageSize },
-      { cache: "no-store" } // Don't cache bulk operations
-    );
+/**
+ * A single catalog page as yielded by `iterateCatalogPages`
+ */
+export interface CatalogPage {
+  page: number;
+  products: ApiProduct[];
+  totalPages?: number;
+  /** Cursor pointing past this page */
+  cursor: CatalogCursor;
+}
 
-    if (!response.products || response.products.length === 0) {
-      break;
+/**
+ * Options for walking the full catalog
+ */
+export interface CatalogIteratorOptions {
+  /** Products per request, capped at MAX_PAGE_SIZE */
+  pageSize?: number;
+  /** Page requests kept in flight once the page count is known */
+  concurrency?: number;
+  /** First page to fetch (ignored when `cursor` is given) */
+  startPage?: number;
+  /** Resume from a previously checkpointed cursor */
+  cursor?: CatalogCursor;
+  /** Stop after this many pages */
+  maxPages?: number;
+  /** Retries per page before the walk fails */
+  retries?: number;
+  signal?: AbortSignal;
+  format?: ResponseFormat;
+  /** Called after the consumer has finished with each page */
+  onCheckpoint?: (cursor: CatalogCursor) => void | Promise<void>;
+}
+
+const DEFAULT_CATALOG_CONCURRENCY = 4;
+const DEFAULT_CATALOG_RETRIES = 2;
+const CATALOG_RETRY_DELAY_MS = 500;
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException("Catalog iteration aborted", "AbortError");
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortError(signal));
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Fetch one catalog page, retrying with exponential backoff
+ */
+async function fetchCatalogPage(
+  page: number,
+  pageSize: number,
+  retries: number,
+  format: ResponseFormat,
+  signal: AbortSignal
+): Promise<PaginatedResponse<ApiProduct>> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // Don't cache bulk operations
+      return await getProducts(
+        { page, limit: pageSize },
+        { cache: "no-store", format, signal }
+      );
+    } catch (error) {
+      if (signal.aborted || attempt >= retries) throw error;
+      logger.warn("Retrying catalog page", { page, attempt: attempt + 1 });
+      await delay(CATALOG_RETRY_DELAY_MS * 2 ** attempt, signal);
     }
+  }
+}
 
-    allProducts.push(...response.products);
+/**
+ * Walk the full catalog page by page
+ *
+ * The first request is sequential so `meta.total_pages` can be learned; after
+ * that up to `concurrency` pages are fetched ahead while pages are still
+ * yielded in order. Without a page count the walk falls back to one request at
+ * a time and stops at the first short page. Breaking out of the loop or
+ * aborting `signal` cancels any requests still in flight.
+ */
+export async function* iterateCatalogPages(
+  options: CatalogIteratorOptions = {}
+): AsyncGenerator<CatalogPage, void, undefined> {
+  const {
+    cursor,
+    concurrency = DEFAULT_CATALOG_CONCURRENCY,
+    retries = DEFAULT_CATALOG_RETRIES,
+    format = DEFAULT_RESPONSE_FORMAT,
+    maxPages,
+    onCheckpoint,
+  } = options;
+
+  const pageSize = Math.max(
+    1,
+    Math.min(options.pageSize ?? cursor?.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE)
+  );
+  let page = cursor?.page ?? options.startPage ?? 1;
+  let totalPages = cursor?.totalPages;
+  let fetched = cursor?.fetched ?? 0;
+  const lastPage = maxPages !== undefined ? page + maxPages - 1 : Infinity;
+
+  // Internal controller so in-flight requests stop when the consumer does
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) onAbort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  const inFlight = new Map<number, Promise<PaginatedResponse<ApiProduct>>>();
+  const request = (target: number) => {
+    if (inFlight.has(target)) return;
+    const pending = fetchCatalogPage(
+      target,
+      pageSize,
+      retries,
+      format,
+      controller.signal
+    );
+    // Read-ahead pages may be dropped unawaited; keep their rejections handled
+    pending.catch(() => undefined);
+    inFlight.set(target, pending);
+  };
 
-    // Check if there are more pages
-    if (response.products.length < pageSize) {
-      hasMore = false;
-    } else {
+  try {
+    while (page <= lastPage && (totalPages === undefined || page <= totalPages)) {
+      if (controller.signal.aborted) throw abortError(controller.signal);
+
+      const window =
+        totalPages === undefined
+          ? page
+          : Math.min(page + Math.max(1, concurrency) - 1, totalPages, lastPage);
+      for (let target = page; target <= window; target++) request(target);
+
+      const pending = inFlight.get(page);
+      inFlight.delete(page);
+      const response = await pending!;
+
+      totalPages = response.meta?.total_pages ?? totalPages;
+      const products = response.products ?? [];
+      fetched += products.length;
+
+      const next: CatalogCursor = { page: page + 1, pageSize, totalPages, fetched };
+      logger.debug(`Fetched catalog page ${page}`, {
+        count: products.length,
+        fetched,
+        totalPages,
+      });
+
+      yield { page, products, totalPages, cursor: next };
+      await onCheckpoint?.(next);
+
+      if (products.length === 0) break;
+      if (totalPages === undefined && products.length < pageSize) break;
       page++;
     }
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
+    if (!controller.signal.aborted) controller.abort();
+  }
+}
 
-    logger.debug(`Fetched page ${page - 1}`, {
-      count: response.products.length,
-      total: allProducts.length,
-    });
+/**
+ * Walk the full catalog product by product
+ * Same options and guarantees as `iterateCatalogPages`
+ */
+export async function* iterateCatalogProducts(
+  options: CatalogIteratorOptions = {}
+): AsyncGenerator<ApiProduct, void, undefined> {
+  for await (const { products } of iterateCatalogPages(options)) {
+    yield* products;
+  }
+}
+
+/**
+ * Fetch all products into memory
+ * Prefer `iterateCatalogProducts` for feeds and sitemaps - this buffers the whole catalog
+ */
+export async function fetchAllProducts(
+  pageSize: number = MAX_PAGE_SIZE,
+  options: Omit<CatalogIteratorOptions, "pageSize"> = {}
+): Promise<ApiProduct[]> {
+  const allProducts: ApiProduct[] = [];
+
+  for await (const { products } of iterateCatalogPages({ ...options, pageSize })) {
+    allProducts.push(...products);
   }
 
   return allProducts;
@@ -0,0 +1,255 @@
+/**
+ * COSMOS Response Decoder
+ * Decodes COSMOS API payloads (MessagePack or JSON) into typed catalog objects
+ *
+ * MessagePack bodies are decoded incrementally from the response stream, so a
+ * full-catalog page never has to be buffered as a string first. Both formats go
+ * through the same normalisers, which coerce the wire types MessagePack may
+ * produce (integer IDs, timestamp extensions, bigint) into the shapes declared
+ * in `@/lib/types`.
+ *
+ * IMPORTANT: Server-side only, like the COSMOS client itself.
+ */
+
+import { decode, decodeAsync } from "@msgpack/msgpack";
+import type {
+  ApiProduct,
+  ApiProductImage,
+  ApiProductOption,
+  ApiProductVariant,
+} from "@/lib/types";
+
+export const MSGPACK_CONTENT_TYPE = "application/x-msgpack";
+
+/**
+ * Paginated response structure
+ */
+export interface PaginatedResponse<T> {
+  products: T[];
+  meta?: {
+    total?: number;
+    page?: number;
+    limit?: number;
+    total_pages?: number;
+  };
+}
+
+/**
+ * Error raised when a payload does not have the expected shape
+ */
+export class CosmosDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CosmosDecodeError";
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Check whether a response advertises a MessagePack body
+ */
+export function isMsgpackResponse(response: Response): boolean {
+  const contentType = response.headers.get("Content-Type") || "";
+  return (
+    contentType.includes(MSGPACK_CONTENT_TYPE) ||
+    contentType.includes("application/msgpack")
+  );
+}
+
+/**
+ * Decode a MessagePack response body
+ * Streams from `response.body` when available and falls back to a buffered decode
+ */
+export async function decodeMsgpackBody(response: Response): Promise<unknown> {
+  if (response.body) {
+    return decodeAsync(response.body);
+  }
+
+  const buffer = await response.arrayBuffer();
+  return decode(new Uint8Array(buffer));
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toStringValue(value: unknown, fallback = ""): string {
+  if (value === null || value === undefined) return fallback;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "bigint") {
+    return value.toString();
+  }
+  return fallback;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  const result = toStringValue(value);
+  return result === "" ? undefined : result;
+}
+
+function toNumberValue(value: unknown, fallback = 0): number {
+  if (typeof value === "number") return Number.isFinite(value) ? value : fallback;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  }
+  return fallback;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  return toNumberValue(value);
+}
+
+function toBooleanValue(value: unknown, fallback: boolean): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  if (typeof value === "string") return value === "true" || value === "1";
+  return fallback;
+}
+
+function toRecordArray(value: unknown): RawRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function decodeTags(value: unknown): string[] | null {
+  if (Array.isArray(value)) {
+    return value.map((tag) => toStringValue(tag)).filter(Boolean);
+  }
+  if (typeof value === "string") {
+    // COSMOS may send tags as a comma-separated string
+    return value
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  return null;
+}
+
+function decodeImage(raw: RawRecord): ApiProductImage {
+  return {
+    id: toStringValue(raw.id),
+    product_id: toStringValue(raw.product_id),
+    position: toNumberValue(raw.position, 1),
+    alt: toOptionalString(raw.alt),
+    src: toStringValue(raw.src),
+    width: toOptionalNumber(raw.width),
+    height: toOptionalNumber(raw.height),
+    created_at: toStringValue(raw.created_at),
+    updated_at: toStringValue(raw.updated_at),
+    variant_ids: Array.isArray(raw.variant_ids)
+      ? raw.variant_ids.map((id) => toStringValue(id))
+      : undefined,
+  };
+}
+
+function decodeVariant(raw: RawRecord): ApiProductVariant {
+  const featuredImage = isRecord(raw.featured_image)
+    ? toOptionalString(raw.featured_image.src)
+    : toOptionalString(raw.featured_image);
+
+  return {
+    id: toStringValue(raw.id),
+    product_id: toStringValue(raw.product_id),
+    title: toStringValue(raw.title, "Default Title"),
+    option1: toOptionalString(raw.option1),
+    option2: toOptionalString(raw.option2),
+    option3: toOptionalString(raw.option3),
+    sku: toOptionalString(raw.sku),
+    requires_shipping: toBooleanValue(raw.requires_shipping, true),
+    taxable: toBooleanValue(raw.taxable, true),
+    featured_image: featuredImage,
+    available: toBooleanValue(raw.available, true),
+    price: toNumberValue(raw.price),
+    grams: toNumberValue(raw.grams),
+    compare_at_price: toOptionalNumber(raw.compare_at_price),
+    // Absent for untracked variants; inventory holds rely on it
+    inventory_quantity: toOptionalNumber(raw.inventory_quantity),
+    position: toNumberValue(raw.position, 1),
+    created_at: toStringValue(raw.created_at),
+    updated_at: toStringValue(raw.updated_at),
+  };
+}
+
+function decodeOption(raw: RawRecord): ApiProductOption {
+  return {
+    id: toStringValue(raw.id),
+    product_id: toStringValue(raw.product_id),
+    name: toStringValue(raw.name),
+    position: toNumberValue(raw.position, 1),
+    values: Array.isArray(raw.values)
+      ? raw.values.map((value) => toStringValue(value))
+      : [],
+  };
+}
+
+/**
+ * Decode a single product payload into an ApiProduct
+ */
+export function decodeProduct(raw: unknown): ApiProduct {
+  if (!isRecord(raw)) {
+    throw new CosmosDecodeError("Expected a product object");
+  }
+
+  const id = toStringValue(raw.id);
+  if (!id) {
+    throw new CosmosDecodeError("Product payload is missing an id");
+  }
+
+  return {
+    id,
+    title: toStringValue(raw.title),
+    handle: toStringValue(raw.handle),
+    body_html: toStringValue(raw.body_html),
+    price: toNumberValue(raw.price),
+    compare_at_price: toOptionalNumber(raw.compare_at_price),
+    images: toRecordArray(raw.images).map(decodeImage),
+    product_type: toStringValue(raw.product_type),
+    in_stock: toBooleanValue(raw.in_stock, true),
+    rating: toNumberValue(raw.rating),
+    review_count: toNumberValue(raw.review_count),
+    tags: decodeTags(raw.tags),
+    vendor: toStringValue(raw.vendor),
+    variants: toRecordArray(raw.variants).map(decodeVariant),
+    options: toRecordArray(raw.options).map(decodeOption),
+    created_at: toStringValue(raw.created_at),
+    updated_at: toStringValue(raw.updated_at),
+    quantity: toOptionalNumber(raw.quantity),
+    raw_json: toOptionalString(raw.raw_json),
+  };
+}
+
+/**
+ * Decode a paginated product listing
+ * Products that fail to decode are dropped rather than failing the whole page
+ */
+export function decodePaginatedProducts(
+  raw: unknown
+): PaginatedResponse<ApiProduct> {
+  if (!isRecord(raw)) {
+    throw new CosmosDecodeError("Expected a paginated products object");
+  }
+
+  const products: ApiProduct[] = [];
+  for (const item of Array.isArray(raw.products) ? raw.products : []) {
+    try {
+      products.push(decodeProduct(item));
+    } catch {
+      // Skip malformed entries; the caller still gets the rest of the page
+    }
+  }
+
+  const meta = isRecord(raw.meta)
+    ? {
+        total: toOptionalNumber(raw.meta.total),
+        page: toOptionalNumber(raw.meta.page),
+        limit: toOptionalNumber(raw.meta.limit),
+        total_pages: toOptionalNumber(raw.meta.total_pages),
+      }
+    : undefined;
+
+  return { products, ...(meta && { meta }) };
+}
@@ -3,8 +3,17 @@
 import { redirect } from "next/navigation";
 import { logError } from "@/lib/errors";
 import { LIMITS, ERROR_MESSAGES } from "@/lib/constants";
+import { markGuestCartCheckedOut } from "@/lib/cart-recovery";
+import { getCartOwner } from "@/lib/cart-session";
 import { generateInvoiceNumber } from "@/lib/utils/invoice";
 import type { ClientCartItem } from "@/lib/types";
+import { isLimitedPromotion } from "@/lib/discounts";
+import { getStockLevels } from "@/lib/inventory";
+import { getJourneyVisitor, recordJourneyStep } from "@/lib/journeys";
+import { getPresentmentCurrency } from "@/lib/presentment-currency";
+import { createPriceQuote } from "@/lib/pricing";
+import { findStockIssues } from "@/lib/utils/inventory-utils";
+import { fromCents, toCents } from "@/lib/utils/pricing-utils";
 
 /**
  * Server Action suitable for use as a <form action={buyNowAction}> handler.
@@ -276,6 +285,14 @@ export async function buyNowAction(formData: FormData): Promise<never> {
     finalUrl.searchParams.set("product_image", safeProductImage);
   }
 
+  const visitor = await getJourneyVisitor();
+  if (visitor) {
+    await recordJourneyStep("buy_now_funnel", "invoice", visitor, {
+      conversionValue: price * quantity,
+      properties: { product_id: productId, invoice_number: invoiceNumber },
+    }).catch(() => undefined);
+  }
+
   console.log(
     "[buyNowAction] Redirecting to:",
     finalUrl.toString().substring(0, 100) + "..."
@@ -291,6 +308,8 @@ export async function buyNowAction(formData: FormData): Promise<never> {
  * Server Action for checking out with multiple cart items.
  * Creates a draft order with all items in the cart and redirects to payment.
  * Enhanced with comprehensive validation and error handling.
+ * Items are priced server-side; the discount code's savings are forwarded as
+ * the draft's `applied_discount`.
  */
 export async function checkoutCartAction(
   cartItems: ClientCartItem[],
@@ -298,7 +317,8 @@ export async function checkoutCartAction(
     source?: string;
     medium?: string;
     campaign?: string;
-  }
+  },
+  discountCode?: string | null
 ): Promise<never> {
   let finalUrl: URL;
 
@@ -330,15 +350,51 @@ export async function checkoutCartAction(
     const utmCampaign = utmParams?.campaign || "cart-checkout";
     const invoiceNumber = generateInvoiceNumber();
 
-    const line_items = cartItems.map((item) => ({
-      title: item.product.title,
-      price: item.variant.price.toFixed(2),
-      quantity: item.quantity,
+    const quote = await createPriceQuote(
+      cartItems.map((item) => ({
+        productId: String(item.product.id),
+        variantId: String(item.variant.id),
+        quantity: item.quantity,
+      })),
+      { discountCode: discountCode ?? undefined, currency: await getPresentmentCurrency() }
+    );
+
+    // Shopify's invoice takes payment later, so nothing is held for it; just
+    // refuse lines that sold out or exceed what's left
+    const stockIssues = findStockIssues(quote.lines, await getStockLevels(quote.lines));
+    if (stockIssues.length > 0) {
+      throw new Error(stockIssues.map((issue) => issue.message).join(". "));
+    }
+
+    const line_items = quote.lines.map((line) => ({
+      title: line.title,
+      price: line.unitPrice.toFixed(2),
+      quantity: line.quantity,
     }));
 
+    // Shopify's invoice checkout charges its own shipping, and drafts placed
+    // here have no local order to record redemptions against, so only
+    // unlimited merchandise promotions carry over
+    const discounts = quote.discounts.filter(
+      (discount) => discount.class !== "shipping" && !isLimitedPromotion(discount.id)
+    );
+    const discountTotal = fromCents(
+      discounts.reduce((sum, discount) => sum + toCents(discount.amount), 0)
+    );
+
     const shopifyPayload = {
       draft_order: {
         line_items,
+        currency: quote.currency,
+        ...(discounts.length > 0 && {
+          applied_discount: {
+            title: discounts.map((d) => d.code ?? d.title).join(", "),
+            description: discounts.map((d) => d.title).join(", "),
+            value: discountTotal.toFixed(2),
+            value_type: "fixed_amount",
+            amount: discountTotal.toFixed(2),
+          },
+        }),
         tags: `${utmSource},${utmMedium},${utmCampaign},${invoiceNumber}`,
         use_customer_default_address: true,
       },
@@ -411,6 +467,10 @@ export async function checkoutCartAction(
       throw new Error("No invoice URL returned from Shopify.");
     }
 
+    // A guest who checked out gets no abandoned cart emails for this cart
+    const owner = await getCartOwner();
+    if (owner) await markGuestCartCheckedOut(owner).catch(() => undefined);
+
     // 4. Append tracking parameters
     finalUrl = new URL(invoiceUrl);
     finalUrl.searchParams.set("utm_source", utmSource);
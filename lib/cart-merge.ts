@@ -0,0 +1,53 @@
+/**
+ * Cart Merge Service
+ * Folds a guest's cart into the customer's own cart when they sign in,
+ * through the `merge_anonymous_cart` database function: lines combine by
+ * product and variant (capped at LIMITS.MAX_QUANTITY_PER_ITEM), the anonymous
+ * cart is marked converted, and its UTM and referrer attribution is copied to
+ * the customer's cart.
+ *
+ * A guest session merges once; merging it again returns `merged: false`.
+ * `getCartOwner` (`lib/cart-session.ts`) merges on the first cart request
+ * after sign-in.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { LIMITS } from "@/lib/constants";
+import { logger } from "@/lib/utils/logger";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface CartMergeResult {
+  cartId: string;
+  /** False when the session had already been merged */
+  merged: boolean;
+}
+
+/**
+ * Merge guest session `sessionId` into `userId`'s cart, creating the cart if
+ * needed
+ */
+export async function mergeAnonymousCart(
+  userId: string,
+  sessionId: string
+): Promise<CartMergeResult> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .rpc("merge_anonymous_cart", {
+      p_user_id: userId,
+      p_session_id: sessionId,
+      p_max_quantity: LIMITS.MAX_QUANTITY_PER_ITEM,
+    })
+    .single<{ cart_id: string; merged: boolean }>();
+
+  if (error || !data) {
+    logger.error("Cart merge failed", error, { userId });
+    throw new Error("Failed to merge cart");
+  }
+
+  if (data.merged) {
+    logger.info("Guest cart merged", { cartId: data.cart_id, userId });
+  }
+  return { cartId: data.cart_id, merged: data.merged };
+}
@@ -0,0 +1,389 @@
+/**
+ * Abandoned Cart Recovery
+ * The scheduled job behind /api/cron/cart-recovery, and the restore-cart
+ * links its emails carry.
+ *
+ * Each run marks guest carts idle for CART_RECOVERY.ABANDON_AFTER_MINUTES
+ * abandoned, expires carts past `expires_at`, and emails guests who gave an
+ * email the next step of the recovery sequence once it is due
+ * (CART_RECOVERY.EMAIL_DELAYS_HOURS after abandonment). The sequence stops
+ * when the cart converts - merged into a customer's cart on sign-in, or
+ * checked out through a Shopify invoice (`markGuestCartCheckedOut`) - and
+ * starts over if the guest changes the cart's lines and leaves it again.
+ * Idleness is measured from `items_changed_at`, which only changes with the
+ * lines, never from `updated_at`.
+ *
+ * The emails are marketing: they only go to guests who consented to
+ * marketing cookies when they gave the cart its email, and each carries an
+ * unsubscribe link (to a page that asks first) and a one-click
+ * List-Unsubscribe header (POST only) that stop them for good for that
+ * address.
+ *
+ * Restore token format: `${cartId}.${expiresAt}.${signature}` where the
+ * signature is base64url HMAC-SHA256 of `${cartId}.${expiresAt}` keyed with
+ * CART_RECOVERY_SECRET and `expiresAt` is unix seconds. Unsubscribe tokens
+ * are `${cartId}.${signature}` over `unsubscribe.${cartId}` and don't expire.
+ * Without the secret, carts are still marked and expired but no emails go out.
+ *
+ * Emails go out through the email queue (`lib/email-queue.ts`) with the
+ * `abandoned_cart` template.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { applyCartDiscountCode, replaceCartItems } from "@/lib/cart";
+import type { CartOwner } from "@/lib/cart-session";
+import { CART_RECOVERY, SITE_CONFIG } from "@/lib/constants";
+import { getCart } from "@/lib/data/carts";
+import { env } from "@/lib/env-validation";
+import { SHOP_CURRENCY } from "@/lib/currencies";
+import { queueEmail } from "@/lib/email-queue";
+import { CartError } from "@/lib/errors";
+import { logger } from "@/lib/utils/logger";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface CartRecoveryRun {
+  /** Carts newly marked abandoned */
+  abandoned: number;
+  /** Carts newly expired */
+  expired: number;
+  /** Emails handed to the email queue, which retries failed sends */
+  emailsQueued: number;
+  emailsFailed: number;
+}
+
+interface RecoveryCandidate {
+  id: string;
+  email: string;
+  discount_code: string | null;
+  recovery_emails_sent: number;
+}
+
+interface SavedLine {
+  product_id: number;
+  variant_id: number | null;
+  product_title: string | null;
+  product_image: string | null;
+  price: number | string | null;
+  quantity: number;
+}
+
+function getSecret(): string | null {
+  return env.CART_RECOVERY_SECRET ?? null;
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Absolute restore-cart URL for a guest cart, or null without a secret
+ */
+export function createRestoreUrl(cartId: string, now: number = Date.now()): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const expiresAt =
+    Math.floor(now / 1000) + CART_RECOVERY.RESTORE_LINK_TTL_DAYS * 24 * 60 * 60;
+  const payload = `${cartId}.${expiresAt}`;
+  const token = `${payload}.${sign(secret, payload)}`;
+  return `${SITE_CONFIG.url}/cart/restore?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Verify a restore token and return the guest cart id it restores
+ */
+export function verifyRestoreToken(token: string, now: number = Date.now()): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [cartId, expiresAt, signature] = parts;
+
+  const expected = Buffer.from(sign(secret, `${cartId}.${expiresAt}`));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  const expiry = Number(expiresAt);
+  if (!Number.isInteger(expiry) || expiry < now / 1000) return null;
+
+  return cartId;
+}
+
+function unsubscribeSignature(secret: string, cartId: string): string {
+  return sign(secret, `unsubscribe.${cartId}`);
+}
+
+export interface UnsubscribeUrls {
+  /** The email's link: a page that asks before unsubscribing */
+  confirm: string;
+  /** The List-Unsubscribe target, which only unsubscribes on POST */
+  oneClick: string;
+}
+
+/**
+ * Absolute unsubscribe URLs for a guest cart's emails, or null without a secret
+ * Nothing unsubscribes on GET, so link scanners and prefetchers can't opt
+ * anyone out.
+ */
+export function createUnsubscribeUrls(cartId: string): UnsubscribeUrls | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const query = `token=${encodeURIComponent(`${cartId}.${unsubscribeSignature(secret, cartId)}`)}`;
+  return {
+    confirm: `${SITE_CONFIG.url}/cart/unsubscribe?${query}`,
+    oneClick: `${SITE_CONFIG.url}/api/cart/unsubscribe?${query}`,
+  };
+}
+
+/**
+ * The cart id of a valid unsubscribe token, or null
+ */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const parts = token.split(".");
+  if (parts.length !== 2) return null;
+  const [cartId, signature] = parts;
+
+  const expected = Buffer.from(unsubscribeSignature(secret, cartId));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+  return cartId;
+}
+
+/**
+ * Stop abandoned cart emails to the address of an unsubscribe link's cart,
+ * for that cart and any other; resolves false when the link is invalid
+ */
+export async function unsubscribeCartRecovery(token: string): Promise<boolean> {
+  const cartId = verifyUnsubscribeToken(token);
+  if (!cartId) return false;
+
+  const supabase = createAdminClient();
+  const { data: cart, error } = await supabase
+    .from("anonymous_carts")
+    .select("email")
+    .eq("id", cartId)
+    .maybeSingle();
+  if (error) {
+    logger.error("Failed to load cart to unsubscribe", error, { cartId });
+    throw new Error("Failed to unsubscribe");
+  }
+  if (!cart) return false;
+
+  const now = new Date().toISOString();
+  const optOut = supabase
+    .from("anonymous_carts")
+    .update({ recovery_opted_out_at: now })
+    .is("recovery_opted_out_at", null);
+  const { error: optOutError } = await (cart.email
+    ? optOut.eq("email", cart.email)
+    : optOut.eq("id", cartId));
+  if (optOutError) {
+    logger.error("Failed to unsubscribe from cart recovery", optOutError, { cartId });
+    throw new Error("Failed to unsubscribe");
+  }
+  return true;
+}
+
+async function loadSavedLines(cartId: string): Promise<SavedLine[]> {
+  const { data, error } = await createAdminClient()
+    .from("anonymous_cart_items")
+    .select("product_id, variant_id, product_title, product_image, price, quantity")
+    .eq("cart_id", cartId)
+    .order("added_at", { ascending: true });
+  if (error) {
+    logger.error("Failed to load abandoned cart lines", error, { cartId });
+    throw new Error("Failed to load abandoned cart lines");
+  }
+  return (data ?? []) as SavedLine[];
+}
+
+/**
+ * Queue the next email of one cart's sequence
+ * The email's slot is claimed first, so overlapping runs can't both queue
+ * it, and given back if it couldn't be queued so the next run retries.
+ */
+async function queueRecoveryEmail(cart: RecoveryCandidate, now: number): Promise<boolean> {
+  const supabase = createAdminClient();
+  const step = cart.recovery_emails_sent;
+
+  const { data: claimed, error } = await supabase
+    .from("anonymous_carts")
+    .update({
+      recovery_emails_sent: step + 1,
+      last_recovery_email_at: new Date(now).toISOString(),
+    })
+    .eq("id", cart.id)
+    .eq("status", "abandoned")
+    .eq("recovery_emails_sent", step)
+    .select("id");
+  if (error) {
+    logger.error("Failed to claim recovery email", error, { cartId: cart.id });
+    return false;
+  }
+  if (!claimed?.length) return true;
+
+  try {
+    const restoreUrl = createRestoreUrl(cart.id, now);
+    const unsubscribeUrls = createUnsubscribeUrls(cart.id);
+    if (!restoreUrl || !unsubscribeUrls) throw new Error("CART_RECOVERY_SECRET is not set");
+
+    const items = (await loadSavedLines(cart.id)).map((line) => ({
+      title: line.product_title ?? `Product ${line.product_id}`,
+      image: line.product_image,
+      price: Number(line.price ?? 0),
+      quantity: line.quantity,
+    }));
+    await queueEmail(
+      "abandoned_cart",
+      {
+        items,
+        currency: SHOP_CURRENCY,
+        restoreUrl,
+        unsubscribeUrl: unsubscribeUrls.confirm,
+        discountCode: cart.discount_code,
+        step,
+      },
+      {
+        to: cart.email,
+        // One-click unsubscribe (RFC 8058): mail clients POST to this URL
+        headers: {
+          "List-Unsubscribe": `<${unsubscribeUrls.oneClick}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+      }
+    );
+    return true;
+  } catch (queueError) {
+    logger.error("Failed to queue recovery email", queueError, { cartId: cart.id, step });
+    await supabase
+      .from("anonymous_carts")
+      .update({ recovery_emails_sent: step })
+      .eq("id", cart.id)
+      .eq("recovery_emails_sent", step + 1);
+    return false;
+  }
+}
+
+/**
+ * Mark, expire and email abandoned guest carts; safe to run as often as
+ * every few minutes
+ */
+export async function runCartRecovery(now: number = Date.now()): Promise<CartRecoveryRun> {
+  const supabase = createAdminClient();
+
+  const { data: abandoned, error: abandonError } = await supabase.rpc("mark_abandoned_carts", {
+    abandonment_minutes: CART_RECOVERY.ABANDON_AFTER_MINUTES,
+  });
+  if (abandonError) {
+    logger.error("Failed to mark abandoned carts", abandonError);
+    throw new Error("Failed to mark abandoned carts");
+  }
+
+  const { data: expired, error: expireError } = await supabase.rpc("expire_anonymous_carts");
+  if (expireError) {
+    logger.error("Failed to expire carts", expireError);
+    throw new Error("Failed to expire carts");
+  }
+
+  const run: CartRecoveryRun = {
+    abandoned: Number(abandoned ?? 0),
+    expired: Number(expired ?? 0),
+    emailsQueued: 0,
+    emailsFailed: 0,
+  };
+  if (!getSecret()) return run;
+
+  const { data: candidates, error } = await supabase.rpc("cart_recovery_candidates", {
+    p_delays_hours: CART_RECOVERY.EMAIL_DELAYS_HOURS,
+    p_limit: CART_RECOVERY.BATCH_SIZE,
+  });
+  if (error) {
+    logger.error("Failed to load cart recovery candidates", error);
+    throw new Error("Failed to load cart recovery candidates");
+  }
+
+  for (const cart of (candidates ?? []) as RecoveryCandidate[]) {
+    if (await queueRecoveryEmail(cart, now)) run.emailsQueued++;
+    else run.emailsFailed++;
+  }
+  return run;
+}
+
+/**
+ * Rebuild a guest cart from a restore link into the owner's cart
+ * The restored lines replace the owner's lines for the same variants; their
+ * other lines stay. Resolves false when the link is invalid or expired, or
+ * the cart has nothing left to restore.
+ */
+export async function restoreCart(token: string, owner: CartOwner): Promise<boolean> {
+  const cartId = verifyRestoreToken(token);
+  if (!cartId) return false;
+
+  const { data: source, error } = await createAdminClient()
+    .from("anonymous_carts")
+    .select("id, session_id, discount_code")
+    .eq("id", cartId)
+    .maybeSingle();
+  if (error) {
+    logger.error("Failed to load cart to restore", error, { cartId });
+    throw new Error("Failed to load cart to restore");
+  }
+  if (!source) return false;
+
+  // Lines saved before carts kept one line per variant may lack the variant
+  const lines = (await loadSavedLines(cartId)).filter((line) => line.variant_id !== null);
+  if (lines.length === 0) return false;
+  // Opened on the device that left it: the cart is already there
+  if (owner.type === "guest" && owner.sessionId === source.session_id) return true;
+
+  const restored = lines.map((line) => ({
+    productId: String(line.product_id),
+    variantId: String(line.variant_id),
+    quantity: line.quantity,
+  }));
+  const restoredKeys = new Set(restored.map((line) => `${line.productId}:${line.variantId}`));
+  const current = await getCart(owner);
+  const kept = current.lines
+    .filter((line) => !restoredKeys.has(`${line.productId}:${line.variantId}`))
+    .map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity }));
+
+  await replaceCartItems(owner, [...kept, ...restored]);
+
+  if (source.discount_code && !current.discountCode) {
+    try {
+      await applyCartDiscountCode(owner, source.discount_code);
+    } catch (codeError) {
+      // The code ended since; the cart is restored without it
+      if (!(codeError instanceof CartError)) throw codeError;
+    }
+  }
+  return true;
+}
+
+/**
+ * Record that a guest checked their cart out, which stops its recovery
+ * emails until they change its lines again
+ */
+export async function markGuestCartCheckedOut(owner: CartOwner): Promise<void> {
+  if (owner.type !== "guest") return;
+
+  const { error } = await createAdminClient()
+    .from("anonymous_carts")
+    .update({ converted_at: new Date().toISOString() })
+    .eq("session_id", owner.sessionId);
+  if (error) {
+    logger.error("Failed to mark guest cart checked out", error);
+    throw new Error("Failed to mark guest cart checked out");
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Cart Sessions
+ * Whose cart a request works on. Signed-in customers own their cart; a
+ * guest's cart belongs to the session in an HttpOnly cookie, so browser
+ * scripts can't read or forge it.
+ *
+ * Cookie format: `${sessionId}.${signature}` where the signature is base64url
+ * HMAC-SHA256 of the session id keyed with CART_SESSION_SECRET.
+ *
+ * When a guest signs in, the first cart request merges their guest cart into
+ * the customer's (`mergeAnonymousCart`) and ends the session.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import { mergeAnonymousCart } from "@/lib/cart-merge";
+import { env } from "@/lib/env-validation";
+import { createClient } from "@/utils/supabase/server";
+
+export const CART_SESSION_COOKIE = "cart_session";
+
+/** Outlasts the guest cart, whose 7-day expiry each change pushes back */
+const CART_SESSION_MAX_AGE = 60 * 60 * 24 * 30;
+
+export type CartOwner =
+  | { type: "customer"; userId: string }
+  | { type: "guest"; sessionId: string };
+
+function sign(sessionId: string): string {
+  return createHmac("sha256", env.CART_SESSION_SECRET).update(sessionId).digest("base64url");
+}
+
+/**
+ * The cookie value for a guest session
+ */
+export function signCartSession(sessionId: string): string {
+  return `${sessionId}.${sign(sessionId)}`;
+}
+
+/**
+ * Verify a cookie value and return its session id
+ */
+export function verifyCartSession(value: string | undefined): string | null {
+  if (!value) return null;
+
+  const parts = value.split(".");
+  if (parts.length !== 2) return null;
+  const [sessionId, signature] = parts;
+
+  const expected = Buffer.from(sign(sessionId));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+  return sessionId;
+}
+
+async function startCartSession(): Promise<string> {
+  const sessionId = randomUUID();
+  const cookieStore = await cookies();
+  cookieStore.set(CART_SESSION_COOKIE, signCartSession(sessionId), {
+    path: "/",
+    maxAge: CART_SESSION_MAX_AGE,
+    sameSite: "lax",
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+  });
+  return sessionId;
+}
+
+/**
+ * The current request's guest session, if its cookie verifies
+ */
+export async function getCartSessionId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return verifyCartSession(cookieStore.get(CART_SESSION_COOKIE)?.value);
+}
+
+/**
+ * Whose cart the current request works on
+ * Resolves null for a guest without a session unless `create` starts one;
+ * only route handlers and server actions can start a session, since it sets
+ * the cookie.
+ */
+export async function getCartOwner(options: { create: true }): Promise<CartOwner>;
+export async function getCartOwner(options?: { create?: boolean }): Promise<CartOwner | null>;
+export async function getCartOwner({ create = false } = {}): Promise<CartOwner | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const sessionId = await getCartSessionId();
+
+  if (user) {
+    if (sessionId) {
+      try {
+        await mergeAnonymousCart(user.id, sessionId);
+        (await cookies()).delete(CART_SESSION_COOKIE);
+      } catch {
+        // Logged by mergeAnonymousCart; the next request tries again
+      }
+    }
+    return { type: "customer", userId: user.id };
+  }
+
+  if (sessionId) return { type: "guest", sessionId };
+  if (!create) return null;
+
+  return { type: "guest", sessionId: await startCartSession() };
+}
+
+/**
+ * The inventory holder id of a cart owner (see `lib/inventory.ts`)
+ */
+export function getInventoryHolder(owner: CartOwner): string {
+  return owner.type === "customer" ? `user:${owner.userId}` : `guest:${owner.sessionId}`;
+}
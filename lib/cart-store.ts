@@ -0,0 +1,145 @@
+/**
+ * Cart Store
+ * How the cart context reaches the cart behind /api/cart. Guests and
+ * signed-in customers use the same store: the server works out whose cart a
+ * request is for from the session, and merges a guest's cart into the
+ * customer's on the first request after sign-in.
+ *
+ * Carts from before the server kept guest carts are still in this browser's
+ * localStorage; the first load moves them to the server (`importLegacyCart`).
+ */
+
+import type { Cart } from "@/lib/data/carts";
+import type { ApiResponse } from "@/lib/errors";
+import type { ApiProduct, ApiProductVariant, ClientCartItem } from "@/lib/types";
+
+const LEGACY_CART_STORAGE_KEY = "jhuangnyc-cart";
+const LEGACY_SESSION_STORAGE_KEY = "anonymous_session_id";
+
+export interface CartStore {
+  load(): Promise<ClientCartItem[]>;
+  addItem(product: ApiProduct, variant: ApiProductVariant, quantity: number): Promise<void>;
+  removeItem(item: ClientCartItem): Promise<void>;
+  updateQuantity(item: ClientCartItem, quantity: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export function createDefaultVariant(product: ApiProduct): ApiProductVariant {
+  const firstVariant = product.variants?.[0];
+  return {
+    id: firstVariant?.id || product.id,
+    product_id: product.id,
+    title: firstVariant?.title || "Default Title",
+    price: product.price,
+    sku: firstVariant?.sku || "",
+    grams: firstVariant?.grams || 0,
+    featured_image: product.images?.[0]?.src,
+    available: product.in_stock,
+    requires_shipping: firstVariant?.requires_shipping ?? true,
+    taxable: firstVariant?.taxable ?? true,
+    compare_at_price: product.compare_at_price,
+    position: 1,
+
+    created_at: product.created_at,
+    updated_at: product.updated_at,
+  };
+}
+
+async function send(method: string, path: string, body: object | null, failure: string) {
+  const res = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const result: ApiResponse<Cart> = await res.json().catch(() => ({ success: false }));
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message ?? failure);
+  }
+  return result.data;
+}
+
+/**
+ * Move a cart this browser kept in localStorage to the server, once
+ * The saved cart is removed before it is sent, so another tab can't add it
+ * a second time.
+ */
+async function importLegacyCart(): Promise<void> {
+  const savedCart = localStorage.getItem(LEGACY_CART_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_CART_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+  if (!savedCart) return;
+
+  let items: ClientCartItem[];
+  try {
+    items = JSON.parse(savedCart);
+  } catch (e) {
+    console.error("Error reading saved cart:", e);
+    return;
+  }
+
+  for (const item of items) {
+    await send(
+      "POST",
+      "/api/cart/items",
+      { productId: item.product.id, variantId: item.variant.id, quantity: item.quantity },
+      "Failed to add item"
+    ).catch((err) => console.error("Error importing saved cart item:", err));
+  }
+}
+
+/**
+ * The cart of whoever is browsing: the guest session or the signed-in customer
+ */
+export const cartStore: CartStore = {
+  async load() {
+    await importLegacyCart();
+    const cart = await send("GET", "/api/cart", null, "Failed to fetch cart");
+    // Lines whose product left the catalog can't be shown or bought
+    return cart.lines.flatMap((line) =>
+      line.product
+        ? [
+            {
+              id: line.id,
+              product: line.product,
+              variant: line.variant ?? createDefaultVariant(line.product),
+              quantity: line.quantity,
+              name: line.title,
+              price: line.price,
+              image: line.image ?? undefined,
+            },
+          ]
+        : []
+    );
+  },
+
+  async addItem(product, variant, quantity) {
+    await send(
+      "POST",
+      "/api/cart/items",
+      { productId: product.id, variantId: variant.id, quantity },
+      "Failed to add item"
+    );
+  },
+
+  async removeItem(item) {
+    await send(
+      "DELETE",
+      "/api/cart/items",
+      { productId: item.product.id, variantId: item.variant.id },
+      "Failed to remove item"
+    );
+  },
+
+  async updateQuantity(item, quantity) {
+    await send(
+      "PUT",
+      "/api/cart/items",
+      { productId: item.product.id, variantId: item.variant.id, quantity: Math.max(0, quantity) },
+      "Failed to update quantity"
+    );
+  },
+
+  async clear() {
+    await send("POST", "/api/cart/clear", null, "Failed to clear cart");
+  },
+};
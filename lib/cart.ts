@@ -0,0 +1,298 @@
+/**
+ * Cart Service
+ * Changes to the cart behind /api/cart, for a signed-in customer or a guest
+ * cart session (`CartOwner`, see `lib/cart-session.ts`). Lines are addressed
+ * by product and variant, so a client never needs the database ids of its
+ * lines. Adding to a line and replacing every line run in database functions
+ * (`add_cart_item` and `replace_cart_items`, or their `anonymous` versions
+ * for guests), so concurrent requests can't lose quantities; quantities are
+ * capped at LIMITS.MAX_QUANTITY_PER_ITEM.
+ *
+ * A guest cart also records where the guest came from (IP address, user
+ * agent and the first-touch attribution cookie) and a snapshot of each line's
+ * title, image and price for remarketing.
+ *
+ * Changing the lines releases the owner's checkout stock hold
+ * (`lib/inventory.ts`), so units the cart no longer wants are free for
+ * other shoppers right away. Every change resolves the cart as getCart
+ * (`lib/data/carts.ts`) reads it.
+ * The discount code is only checked to exist here; the checkout quote
+ * decides whether it applies to the cart.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { cookies, headers } from "next/headers";
+import { type CartOwner, getInventoryHolder } from "@/lib/cart-session";
+import { LIMITS } from "@/lib/constants";
+import { type Cart, CART_TABLES, cartOwnerFilter, getCart } from "@/lib/data/carts";
+import { getProductById } from "@/lib/data/products";
+import { CartError } from "@/lib/errors";
+import { releaseInventory } from "@/lib/inventory";
+import { findPromotionByCode } from "@/lib/promotions";
+import { ATTRIBUTION_COOKIE, parseAttribution } from "@/lib/utils/attribution-utils";
+import { logger } from "@/lib/utils/logger";
+import { mergePricingItems } from "@/lib/utils/pricing-utils";
+import { isPromotionActive } from "@/lib/utils/promotion-utils";
+import { getClientIp } from "@/lib/utils/request-utils";
+import type { CartItemInput } from "@/lib/validations";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+// Unique violation: another request created the cart first
+const UNIQUE_VIOLATION = "23505";
+
+// Matches the anonymous_carts.expires_at default
+const GUEST_CART_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const USER_AGENT_MAX_LENGTH = 512;
+
+function cartWriteFailed(action: string, error: unknown, owner: CartOwner): Error {
+  logger.error(`Failed to ${action}`, error, {
+    owner: owner.type,
+    userId: owner.type === "customer" ? owner.userId : undefined,
+  });
+  return new Error(`Failed to ${action}`);
+}
+
+/**
+ * A new cart's row; a guest's records the request it was created from
+ */
+async function newCartRow(owner: CartOwner): Promise<Record<string, string | null>> {
+  if (owner.type === "customer") return { user_id: owner.userId };
+
+  const requestHeaders = await headers();
+  const cookieStore = await cookies();
+  const ip = getClientIp(requestHeaders);
+  const { utm_source, utm_medium, utm_campaign, referrer } = parseAttribution(
+    cookieStore.get(ATTRIBUTION_COOKIE)?.value
+  );
+  return {
+    session_id: owner.sessionId,
+    ip_address: ip === "unknown" ? null : ip,
+    user_agent: requestHeaders.get("user-agent")?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+    utm_source: utm_source ?? null,
+    utm_medium: utm_medium ?? null,
+    utm_campaign: utm_campaign ?? null,
+    referrer: referrer ?? null,
+  };
+}
+
+/**
+ * A line as the owner's line-writing database functions take it; guest lines
+ * carry the catalog's current title, image and price
+ */
+async function lineRecord(owner: CartOwner, item: CartItemInput) {
+  const line = {
+    product_id: Number(item.productId),
+    variant_id: Number(item.variantId),
+    quantity: Math.min(item.quantity, LIMITS.MAX_QUANTITY_PER_ITEM),
+  };
+  if (owner.type === "customer") return line;
+
+  const product = await getProductById(item.productId, { context: "ssr" });
+  const variant = product?.variants.find((v) => String(v.id) === String(item.variantId));
+  return {
+    ...line,
+    product_title: product?.title ?? null,
+    product_image: variant?.featured_image || product?.images[0]?.src || null,
+    price: variant ? Number(variant.price) : 0,
+  };
+}
+
+/**
+ * The owner's cart id, creating the cart if they have none
+ */
+export async function getOrCreateCartId(owner: CartOwner): Promise<string> {
+  const supabase = createAdminClient();
+  const table = CART_TABLES[owner.type].carts;
+  const [column, value] = cartOwnerFilter(owner);
+  const findCart = () => supabase.from(table).select("id").eq(column, value).maybeSingle();
+
+  const { data: existing, error } = await findCart();
+  if (error) throw cartWriteFailed("load cart", error, owner);
+  if (existing) return existing.id;
+
+  const { data: created, error: createError } = await supabase
+    .from(table)
+    .insert(await newCartRow(owner))
+    .select("id")
+    .single();
+  if (createError?.code === UNIQUE_VIOLATION) {
+    const { data: raced } = await findCart();
+    if (raced) return raced.id;
+  }
+  if (createError || !created) throw cartWriteFailed("create cart", createError, owner);
+  return created.id;
+}
+
+async function updateCart(
+  owner: CartOwner,
+  changes: Record<string, string | boolean | null>,
+  action: string
+): Promise<Cart> {
+  const cartId = await getOrCreateCartId(owner);
+  const now = Date.now();
+  const { error } = await createAdminClient()
+    .from(CART_TABLES[owner.type].carts)
+    .update({
+      ...changes,
+      updated_at: new Date(now).toISOString(),
+      // A guest cart in use doesn't expire
+      ...(owner.type === "guest" && {
+        expires_at: new Date(now + GUEST_CART_TTL_MS).toISOString(),
+      }),
+    })
+    .eq("id", cartId);
+  if (error) throw cartWriteFailed(action, error, owner);
+  return getCart(owner);
+}
+
+/**
+ * The cart after a change to its lines; a checkout's hold no longer matches it
+ */
+async function cartAfterLinesChange(owner: CartOwner): Promise<Cart> {
+  await releaseInventory(getInventoryHolder(owner));
+  return getCart(owner);
+}
+
+/**
+ * Add to a line, or add the line
+ */
+export async function addCartItem(owner: CartOwner, item: CartItemInput): Promise<Cart> {
+  const cartId = await getOrCreateCartId(owner);
+  const supabase = createAdminClient();
+  const { error } =
+    owner.type === "customer"
+      ? await supabase.rpc("add_cart_item", {
+          p_cart_id: cartId,
+          p_product_id: Number(item.productId),
+          p_variant_id: Number(item.variantId),
+          p_quantity: item.quantity,
+          p_max_quantity: LIMITS.MAX_QUANTITY_PER_ITEM,
+        })
+      : await supabase.rpc("add_anonymous_cart_item", {
+          p_cart_id: cartId,
+          p_item: await lineRecord(owner, item),
+          p_max_quantity: LIMITS.MAX_QUANTITY_PER_ITEM,
+        });
+  if (error) throw cartWriteFailed("add cart item", error, owner);
+  return cartAfterLinesChange(owner);
+}
+
+/**
+ * Set a line's quantity; 0 removes the line
+ * Throws CartError (CART_ITEM_NOT_FOUND) when the cart has no such line.
+ */
+export async function updateCartItem(owner: CartOwner, item: CartItemInput): Promise<Cart> {
+  if (item.quantity === 0) return removeCartItem(owner, item);
+
+  const cartId = await getOrCreateCartId(owner);
+  const { data, error } = await createAdminClient()
+    .from(CART_TABLES[owner.type].items)
+    .update({ quantity: item.quantity, updated_at: new Date().toISOString() })
+    .eq("cart_id", cartId)
+    .eq("product_id", Number(item.productId))
+    .eq("variant_id", Number(item.variantId))
+    .select("id");
+  if (error) throw cartWriteFailed("update cart item", error, owner);
+  if (!data?.length) {
+    throw new CartError("That item is no longer in your cart", "CART_ITEM_NOT_FOUND");
+  }
+  return cartAfterLinesChange(owner);
+}
+
+/**
+ * Remove a line; removing a line that isn't there changes nothing
+ */
+export async function removeCartItem(
+  owner: CartOwner,
+  { productId, variantId }: Pick<CartItemInput, "productId" | "variantId">
+): Promise<Cart> {
+  const cartId = await getOrCreateCartId(owner);
+  const { error } = await createAdminClient()
+    .from(CART_TABLES[owner.type].items)
+    .delete()
+    .eq("cart_id", cartId)
+    .eq("product_id", Number(productId))
+    .eq("variant_id", Number(variantId));
+  if (error) throw cartWriteFailed("remove cart item", error, owner);
+  return cartAfterLinesChange(owner);
+}
+
+/**
+ * Replace every line; repeated lines combine (capped at the quantity limit)
+ */
+export async function replaceCartItems(owner: CartOwner, items: CartItemInput[]): Promise<Cart> {
+  const cartId = await getOrCreateCartId(owner);
+  const { error } = await createAdminClient().rpc(
+    owner.type === "customer" ? "replace_cart_items" : "replace_anonymous_cart_items",
+    {
+      p_cart_id: cartId,
+      p_items: await Promise.all(
+        mergePricingItems(items).map((item) => lineRecord(owner, item))
+      ),
+    }
+  );
+  if (error) throw cartWriteFailed("replace cart items", error, owner);
+  return cartAfterLinesChange(owner);
+}
+
+/**
+ * Remove every line; the discount code, note and email stay
+ */
+export async function clearCart(owner: CartOwner): Promise<Cart> {
+  return replaceCartItems(owner, []);
+}
+
+/**
+ * Keep a discount code on the cart for checkout to price with
+ * Throws CartError (INVALID_DISCOUNT_CODE) for unknown or inactive codes.
+ */
+export async function applyCartDiscountCode(
+  owner: CartOwner,
+  code: string,
+  now: number = Date.now()
+): Promise<Cart> {
+  const promotion = findPromotionByCode(code);
+  if (!promotion?.code) {
+    throw new CartError("This discount code isn't valid", "INVALID_DISCOUNT_CODE");
+  }
+  if (!isPromotionActive(promotion, now)) {
+    throw new CartError(
+      "This code has expired or isn't active yet",
+      "INVALID_DISCOUNT_CODE"
+    );
+  }
+  return updateCart(owner, { discount_code: promotion.code }, "apply discount code");
+}
+
+export async function removeCartDiscountCode(owner: CartOwner): Promise<Cart> {
+  return updateCart(owner, { discount_code: null }, "remove discount code");
+}
+
+/**
+ * Set the note for the order, or clear it with null
+ */
+export async function setCartNote(owner: CartOwner, note: string | null): Promise<Cart> {
+  return updateCart(owner, { note }, "set cart note");
+}
+
+/**
+ * Set the buyer's email for the order, or clear it with null
+ * A guest cart only gets abandoned cart emails when the guest had consented
+ * to marketing as they gave the address.
+ */
+export async function setCartEmail(
+  owner: CartOwner,
+  email: string | null,
+  { marketingConsent = false }: { marketingConsent?: boolean } = {}
+): Promise<Cart> {
+  return updateCart(
+    owner,
+    {
+      email,
+      ...(owner.type === "guest" && { recovery_consent: email !== null && marketingConsent }),
+    },
+    "set cart email"
+  );
+}
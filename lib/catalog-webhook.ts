@@ -0,0 +1,219 @@
+/**
+ * Catalog Webhook
+ * Signature verification, replay protection and revalidation for catalog
+ * change events posted to /api/webhooks/catalog
+ *
+ * Senders sign `${timestamp}.${rawBody}` with HMAC-SHA256 using
+ * CATALOG_WEBHOOK_SECRET and send:
+ * - `X-Catalog-Timestamp`: unix seconds
+ * - `X-Catalog-Signature`: `sha256=<hex digest>`
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { revalidatePath, revalidateTag } from "next/cache";
+import { COLLECTIONS } from "@/lib/collections";
+import { resetCommittedInventory } from "@/lib/inventory";
+import { cacheTags, getCacheBackend, invalidateCache } from "@/lib/redis";
+import type { CatalogWebhookEvent } from "@/lib/validations";
+import { logger } from "@/lib/utils/logger";
+
+export const SIGNATURE_HEADER = "x-catalog-signature";
+export const TIMESTAMP_HEADER = "x-catalog-timestamp";
+
+/** Maximum clock skew accepted between sender and storefront */
+const TIMESTAMP_TOLERANCE_SECONDS = 300;
+
+/** How long delivered event ids are remembered */
+const EVENT_ID_TTL_SECONDS = 60 * 60 * 24;
+
+const MERCHANT_FEEDS = ["google-merchant", "bing-merchant"] as const;
+
+type ProductEvent = Extract<CatalogWebhookEvent, { data: { id: string } }>;
+
+function isProductEvent(event: CatalogWebhookEvent): event is ProductEvent {
+  return event.type.startsWith("product.");
+}
+
+export type SignatureCheck =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * Compute the signature header value for a payload
+ */
+export function signCatalogPayload(
+  secret: string,
+  timestamp: number | string,
+  rawBody: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify the HMAC signature and freshness of a webhook delivery
+ */
+export function verifyCatalogSignature(
+  secret: string,
+  rawBody: string,
+  signature: string | null,
+  timestamp: string | null,
+  now: number = Date.now()
+): SignatureCheck {
+  if (!signature || !timestamp) {
+    return { valid: false, reason: "Missing signature headers" };
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt)) {
+    return { valid: false, reason: "Malformed timestamp" };
+  }
+
+  if (Math.abs(now / 1000 - sentAt) > TIMESTAMP_TOLERANCE_SECONDS) {
+    return { valid: false, reason: "Timestamp outside tolerance" };
+  }
+
+  const expected = Buffer.from(signCatalogPayload(secret, timestamp, rawBody));
+  const received = Buffer.from(signature.trim());
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return { valid: false, reason: "Signature mismatch" };
+  }
+
+  return { valid: true };
+}
+
+function eventKey(eventId: string): string {
+  return `webhook:catalog:${eventId}`;
+}
+
+/**
+ * Record an event id, returning false if it was already delivered
+ * Fails open when the store is unreachable - the timestamp window still
+ * bounds replays, and revalidation is idempotent.
+ */
+export async function claimCatalogEvent(eventId: string): Promise<boolean> {
+  try {
+    return await getCacheBackend().setIfAbsent(
+      eventKey(eventId),
+      Date.now(),
+      EVENT_ID_TTL_SECONDS
+    );
+  } catch (error) {
+    logger.warn("Could not record catalog webhook id", {
+      eventId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return true;
+  }
+}
+
+/**
+ * Forget an event id so a failed delivery can be retried by the sender
+ */
+export async function releaseCatalogEvent(eventId: string): Promise<void> {
+  try {
+    await getCacheBackend().del(eventKey(eventId));
+  } catch {
+    // The id expires on its own
+  }
+}
+
+export interface RevalidationSummary {
+  paths: string[];
+  tags: string[];
+  purgedKeys: number;
+}
+
+function revalidateCatalogRoutes(paths: Set<string>): void {
+  // Sitemaps
+  paths.add("/sitemap.xml");
+  paths.add("/sitemap-products.xml");
+  paths.add("/sitemap-collections.xml");
+
+  // Merchant feeds
+  for (const feed of MERCHANT_FEEDS) {
+    paths.add(`/api/feed/${feed}/index.xml`);
+    revalidatePath(`/api/feed/${feed}/pages/[page]`, "page");
+  }
+}
+
+/**
+ * Revalidate every page, feed and cache entry affected by an event
+ */
+export async function revalidateCatalogEvent(
+  event: CatalogWebhookEvent
+): Promise<RevalidationSummary> {
+  const paths = new Set<string>();
+  const tags = new Set<string>();
+  let purgedKeys = 0;
+
+  if (isProductEvent(event)) {
+    const { id, handle, previous_handle, collections, inventory } = event.data;
+    const handles = previous_handle ? [handle, previous_handle] : [handle];
+
+    for (const productHandle of handles) {
+      paths.add(`/products/${productHandle}`);
+      tags.add(cacheTags.productHandle(productHandle));
+    }
+    tags.add(cacheTags.product(id));
+    tags.add(cacheTags.productLists);
+
+    // Collection membership is not always known, so also refresh the catch-all
+    // and every smart collection, whose rules may now match differently
+    for (const collection of COLLECTIONS) {
+      if (collection.source.type !== "cosmos") {
+        paths.add(`/collections/${collection.handle}`);
+      }
+    }
+    for (const collection of collections) {
+      paths.add(`/collections/${collection}`);
+      tags.add(cacheTags.collection(collection));
+    }
+
+    // New stock levels already include the orders placed against them
+    await resetCommittedInventory(
+      id,
+      inventory.map((level) => level.variant_id)
+    );
+
+    purgedKeys += await invalidateCache.tags([
+      cacheTags.product(id),
+      ...handles.map((productHandle) => cacheTags.productHandle(productHandle)),
+      cacheTags.productLists,
+      ...collections.map((collection) => cacheTags.collection(collection)),
+    ]);
+  } else {
+    const { handle, previous_handle } = event.data;
+    const handles = previous_handle ? [handle, previous_handle] : [handle];
+
+    for (const collectionHandle of handles) {
+      paths.add(`/collections/${collectionHandle}`);
+      tags.add(cacheTags.collection(collectionHandle));
+    }
+    tags.add(cacheTags.collections);
+
+    purgedKeys += await invalidateCache.tags(
+      handles.map((collectionHandle) => cacheTags.collection(collectionHandle))
+    );
+  }
+
+  revalidateCatalogRoutes(paths);
+
+  for (const path of paths) revalidatePath(path);
+  for (const tag of tags) revalidateTag(tag);
+
+  const summary = {
+    paths: Array.from(paths),
+    tags: Array.from(tags),
+    purgedKeys,
+  };
+  logger.info("Catalog webhook processed", { event: event.type, ...summary });
+  return summary;
+}
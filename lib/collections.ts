@@ -0,0 +1,174 @@
+/**
+ * Collection Registry
+ * Every storefront collection is declared here. The collection page,
+ * navigation, search suggestions and both sitemaps read from this list.
+ *
+ * A collection's products come from one of:
+ * - `catalog`: the whole COSMOS catalog, in COSMOS order
+ * - `cosmos`: a COSMOS collection handle, optionally with fallback rules for
+ *   when the endpoint returns nothing
+ * - `rules`: a smart collection evaluated server-side against ApiProduct
+ *   fields (see `lib/utils/collection-utils.ts`)
+ */
+
+export type CollectionRule =
+	/** Product has a tag containing `value` (case-insensitive) */
+	| { type: "tag"; value: string }
+	| { type: "product_type"; value: string }
+	| { type: "vendor"; value: string }
+	/** compare_at_price is above price */
+	| { type: "on_sale" }
+	| { type: "created_within_days"; days: number }
+	| { type: "min_rating"; value: number }
+	| { type: "min_reviews"; value: number }
+	| { type: "price_range"; min?: number; max?: number };
+
+export type CollectionSource =
+	| { type: "catalog" }
+	| { type: "cosmos"; handle: string; fallback?: CollectionRule[] }
+	| { type: "rules"; match: "all" | "any"; rules: CollectionRule[] };
+
+export type SitemapChangeFrequency = "daily" | "weekly" | "monthly";
+
+export interface CollectionDefinition {
+	handle: string;
+	title: string;
+	description: string;
+	image?: string;
+	seo?: {
+		title?: string;
+		description?: string;
+	};
+	source: CollectionSource;
+	/** Listed in the header collections menu */
+	navigation: boolean;
+	sitemap: {
+		priority: number;
+		changefreq: SitemapChangeFrequency;
+	};
+}
+
+export const COLLECTIONS: CollectionDefinition[] = [
+	{
+		handle: "all",
+		title: "All Products",
+		description:
+			"Browse our full catalog. Discover amazing products at great prices.",
+		source: { type: "catalog" },
+		navigation: true,
+		sitemap: { priority: 0.9, changefreq: "daily" },
+	},
+	{
+		handle: "featured",
+		title: "Featured Products",
+		description: "Hand-picked favourites from across the store.",
+		source: {
+			type: "cosmos",
+			handle: "featured",
+			fallback: [{ type: "min_rating", value: 4 }],
+		},
+		navigation: true,
+		sitemap: { priority: 0.7, changefreq: "weekly" },
+	},
+	{
+		handle: "sale",
+		title: "Sale Items",
+		description: "Everything currently marked down from its regular price.",
+		seo: {
+			title: "Sale",
+			description: "Shop discounted products while the offers last.",
+		},
+		source: { type: "rules", match: "all", rules: [{ type: "on_sale" }] },
+		navigation: true,
+		sitemap: { priority: 0.8, changefreq: "daily" },
+	},
+	{
+		handle: "new",
+		title: "New Arrivals",
+		description: "Products added to the store in the last 30 days.",
+		source: {
+			type: "rules",
+			match: "all",
+			rules: [{ type: "created_within_days", days: 30 }],
+		},
+		navigation: true,
+		sitemap: { priority: 0.7, changefreq: "daily" },
+	},
+	{
+		handle: "bestsellers",
+		title: "Bestsellers",
+		description: "Our most reviewed products, loved by customers.",
+		source: {
+			type: "cosmos",
+			handle: "bestsellers",
+			fallback: [{ type: "min_reviews", value: 10 }],
+		},
+		navigation: true,
+		sitemap: { priority: 0.7, changefreq: "weekly" },
+	},
+	{
+		handle: "top-rated",
+		title: "Top Rated",
+		description: "Products rated 4.5 stars or higher.",
+		source: {
+			type: "rules",
+			match: "all",
+			rules: [
+				{ type: "min_rating", value: 4.5 },
+				{ type: "min_reviews", value: 1 },
+			],
+		},
+		navigation: false,
+		sitemap: { priority: 0.6, changefreq: "weekly" },
+	},
+	{
+		handle: "trending",
+		title: "Trending Now",
+		description: "What shoppers are looking at right now.",
+		source: { type: "cosmos", handle: "trending" },
+		navigation: false,
+		sitemap: { priority: 0.6, changefreq: "weekly" },
+	},
+	{
+		handle: "limited-edition",
+		title: "Limited Edition",
+		description: "Small runs and one-off releases.",
+		source: {
+			type: "rules",
+			match: "all",
+			rules: [{ type: "tag", value: "limited" }],
+		},
+		navigation: false,
+		sitemap: { priority: 0.6, changefreq: "weekly" },
+	},
+	{
+		handle: "clearance",
+		title: "Clearance",
+		description: "Final reductions on end-of-line stock.",
+		source: {
+			type: "rules",
+			match: "any",
+			rules: [
+				{ type: "tag", value: "clearance" },
+				{ type: "tag", value: "final sale" },
+			],
+		},
+		navigation: false,
+		sitemap: { priority: 0.5, changefreq: "daily" },
+	},
+];
+
+const collectionsByHandle = new Map(
+	COLLECTIONS.map((collection) => [collection.handle, collection]),
+);
+
+export function getCollectionDefinition(
+	handle: string,
+): CollectionDefinition | undefined {
+	return collectionsByHandle.get(handle);
+}
+
+/** Collections shown in the header menu, in registry order */
+export const NAVIGATION_COLLECTIONS = COLLECTIONS.filter(
+	(collection) => collection.navigation,
+).map(({ handle, title }) => ({ name: title, href: `/collections/${handle}` }));
@@ -1,3 +1,4 @@
+import { NAVIGATION_COLLECTIONS } from "./collections";
 import { env } from "./env-validation";
 
 export const IS_DEV = process.env.NODE_ENV === "development";
@@ -61,6 +62,95 @@ export const LIMITS = {
   MESSAGE_MIN_LENGTH: 10,
 } as const;
 
+// Checkout pricing rules, applied server-side by lib/pricing.ts
+export const PRICING = {
+  /** How long a signed checkout quote can be used to place an order */
+  QUOTE_TTL_SECONDS: 1800, // 30 minutes
+} as const;
+
+// Stock holds and levels, applied server-side by lib/inventory.ts
+export const INVENTORY = {
+  /** How long starting checkout holds the cart's quantities */
+  HOLD_TTL_SECONDS: 900, // 15 minutes
+  /** Orders count against stock until the catalog reports the new level */
+  COMMITTED_TTL_SECONDS: 604800, // 7 days
+  /** Stock at or below this shows "Only N left" */
+  LOW_STOCK_THRESHOLD: 5,
+} as const;
+
+// First-party analytics, stored in experience_tracks
+export const ANALYTICS = {
+  /** The values experience_tracks_event_type_check allows */
+  EVENT_TYPES: [
+    "page_view",
+    "click",
+    "scroll",
+    "form_interaction",
+    "product_view",
+    "add_to_cart",
+    "search",
+    "filter",
+    "sort",
+    "hover",
+    "video_interaction",
+    "image_interaction",
+    "checkout_step",
+    "error",
+    "performance",
+    "product",
+    "ecommerce",
+    "api",
+  ],
+  /** Events per beacon; browsers cap a beacon at 64 KB */
+  MAX_BATCH_EVENTS: 25,
+  /** How long an event waits in the queue before it is sent */
+  FLUSH_INTERVAL_MS: 5000,
+  /** Batches accepted per client IP per minute */
+  BATCHES_PER_MINUTE: 60,
+  /** How far an event's client timestamp may be from the server clock */
+  MAX_CLOCK_SKEW_MS: 24 * 60 * 60 * 1000,
+} as const;
+
+// Core Web Vitals, stored in performance_metrics
+export const PERFORMANCE = {
+  /** Share of sessions whose page loads report their vitals */
+  SAMPLE_RATE: 0.1,
+  /** Reports accepted per client IP per minute */
+  REPORTS_PER_MINUTE: 30,
+} as const;
+
+// Abandoned guest cart recovery (lib/cart-recovery.ts)
+export const CART_RECOVERY = {
+  /** Idle time after which an active cart with lines is abandoned */
+  ABANDON_AFTER_MINUTES: 60,
+  /** Hours after abandonment each recovery email goes out */
+  EMAIL_DELAYS_HOURS: [1, 24, 72],
+  /** How long a restore-cart link stays valid */
+  RESTORE_LINK_TTL_DAYS: 14,
+  /** Recovery emails sent per job run */
+  BATCH_SIZE: 50,
+} as const;
+
+// Transactional email queue (lib/email-queue.ts)
+export const EMAIL_QUEUE = {
+  /** Minutes before each retry of a failed send; an email gets one more attempt than there are delays */
+  RETRY_DELAYS_MINUTES: [1, 5, 30, 120, 720],
+  /** Emails sent per job run */
+  BATCH_SIZE: 50,
+  /** How long a send may stay in progress before it is presumed lost and retried */
+  SENDING_TIMEOUT_MINUTES: 15,
+  /** How long sent and failed emails stay in email_log */
+  RETENTION_DAYS: 90,
+} as const;
+
+// Newsletter double opt-in (lib/newsletter.ts)
+export const NEWSLETTER = {
+  /** How long a confirmation link stays valid */
+  CONFIRMATION_TTL_HOURS: 72,
+  /** Signing up again within this window doesn't send another confirmation email */
+  RESEND_AFTER_MINUTES: 10,
+} as const;
+
 // Cache durations (in seconds)
 export const CACHE_DURATIONS = {
   PRODUCTS: 300, // 5 minutes
@@ -186,9 +276,19 @@ export const APP_CONTACTS = {
   },
 };
 
-export const NAVIGATION_ITEMS = [
+export interface NavigationItem {
+	name: string;
+	href: string;
+	children?: NavigationItem[];
+}
+
+export const NAVIGATION_ITEMS: NavigationItem[] = [
 	{ name: "Home", href: "/" },
-	{ name: "Collections", href: "/collections/all" },
+	{
+		name: "Collections",
+		href: "/collections/all",
+		children: NAVIGATION_COLLECTIONS,
+	},
 	{ name: "Contact", href: "/contact" },
 	{ name: "About us", href: "/about" },
 ];
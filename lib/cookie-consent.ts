@@ -0,0 +1,39 @@
+/**
+ * Cookie Consent
+ * The browser side of the visitor's cookie choice (see
+ * `lib/utils/consent-utils.ts`). Saving a choice fires CONSENT_CHANGE_EVENT
+ * so trackers already running can start or stop.
+ */
+
+import { SITE_CONFIG } from "@/lib/constants";
+import {
+  CONSENT_COOKIE,
+  type CookieConsent,
+  parseConsent,
+  serializeConsent,
+} from "@/lib/utils/consent-utils";
+
+export const CONSENT_CHANGE_EVENT = "cookie-consent-change";
+
+/**
+ * The visitor's choice, or null until they make one
+ */
+export function readConsent(): CookieConsent | null {
+  if (typeof document === "undefined") return null;
+  const cookie = document.cookie
+    .split("; ")
+    .find((entry) => entry.startsWith(`${CONSENT_COOKIE}=`));
+  return parseConsent(cookie?.slice(CONSENT_COOKIE.length + 1));
+}
+
+export function saveConsent(consent: CookieConsent): void {
+  const { expires, sameSite, secure } = SITE_CONFIG.cookieConfig;
+  document.cookie = [
+    `${CONSENT_COOKIE}=${serializeConsent(consent)}`,
+    "path=/",
+    `max-age=${expires * 24 * 60 * 60}`,
+    `samesite=${sameSite}`,
+    ...(secure ? ["secure"] : []),
+  ].join("; ");
+  window.dispatchEvent(new CustomEvent(CONSENT_CHANGE_EVENT, { detail: consent }));
+}
@@ -0,0 +1,41 @@
+/**
+ * Cron Job Auth
+ * Scheduled job routes under /api/cron require
+ * `Authorization: Bearer <CRON_SECRET>`, which Vercel Cron sends.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { type NextRequest, NextResponse } from "next/server";
+import { env } from "@/lib/env-validation";
+import { createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { logger } from "@/lib/utils/logger";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * The response refusing a job request, or null when it may run
+ * 503 when CRON_SECRET isn't set, 401 for a missing or wrong token.
+ */
+export function rejectCronRequest(request: NextRequest, job: string): NextResponse | null {
+  const secret = env.CRON_SECRET;
+  if (!secret) {
+    logger.error(`${job} requested but CRON_SECRET is not set`);
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Job not configured" }),
+      { status: HTTP_STATUS.SERVICE_UNAVAILABLE }
+    );
+  }
+
+  const authorization = request.headers.get("authorization") ?? "";
+  if (!timingSafeEqual(digest(authorization), digest(`Bearer ${secret}`))) {
+    return NextResponse.json(
+      createApiResponse(undefined, { message: "Unauthorized" }),
+      { status: HTTP_STATUS.UNAUTHORIZED }
+    );
+  }
+  return null;
+}
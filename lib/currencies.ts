@@ -0,0 +1,54 @@
+/**
+ * Currency Registry
+ * Presentment currencies the storefront can price in, with exchange rates
+ * from `lib/currency-rates.json`. Edit that file to change rates or add a
+ * currency; it is validated when the module loads.
+ *
+ * Catalog prices are kept in SHOP_CURRENCY. A presentment price is the shop
+ * price times the currency's `rate`, then rounded up to its `rounding` rule
+ * (e.g. step 1, ending 0.99 turns 27.34 into 27.99). The customer's currency
+ * lives in the CURRENCY_COOKIE; middleware defaults it from the visitor's
+ * country or browser language.
+ */
+
+import { currencyTableSchema } from "@/lib/validations";
+import rates from "@/lib/currency-rates.json";
+
+export interface CurrencyRounding {
+	/** Round up to a multiple of this amount... */
+	step: number;
+	/** ...then end on this fraction of a step, e.g. 0.99 */
+	ending: number;
+}
+
+export interface CurrencyDefinition {
+	name: string;
+	/** Units of this currency per unit of SHOP_CURRENCY */
+	rate: number;
+	/** BCP 47 locale prices are formatted in */
+	locale: string;
+	/** ISO 3166-1 alpha-2 codes that default to this currency */
+	countries: string[];
+	/** Applied to catalog prices; other amounts round to the cent */
+	rounding?: CurrencyRounding;
+}
+
+export const SHOP_CURRENCY = "USD";
+
+export const CURRENCY_COOKIE = "currency";
+export const CURRENCY_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+
+/** Keyed by ISO 4217 code; must include SHOP_CURRENCY at rate 1 */
+export const CURRENCIES: Record<string, CurrencyDefinition> =
+	currencyTableSchema.parse(rates);
+
+export function getCurrency(code: string | null | undefined): CurrencyDefinition | undefined {
+	return code ? CURRENCIES[code.toUpperCase()] : undefined;
+}
+
+/**
+ * A supported currency code, or SHOP_CURRENCY
+ */
+export function resolveCurrency(code: string | null | undefined): string {
+	return code && getCurrency(code) ? code.toUpperCase() : SHOP_CURRENCY;
+}
@@ -0,0 +1,139 @@
+import type { CartOwner } from "@/lib/cart-session";
+import { getProductById } from "@/lib/data/products";
+import type { ApiProduct, ApiProductVariant } from "@/lib/types";
+import { catalogStock } from "@/lib/utils/inventory-utils";
+import { logger } from "@/lib/utils/logger";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface CartLine {
+  id: string;
+  productId: string;
+  variantId: string;
+  quantity: number;
+  /** Falls back to a generic label when the product left the catalog */
+  title: string;
+  variantTitle: string | null;
+  handle: string | null;
+  image: string | null;
+  /** Current catalog price of one unit, in the shop currency */
+  price: number;
+  /** False when the variant sold out or left the catalog */
+  available: boolean;
+  /** The catalog records, or null when the product left the catalog */
+  product: ApiProduct | null;
+  variant: ApiProductVariant | null;
+}
+
+export interface Cart {
+  /** Null until the cart is created */
+  id: string | null;
+  lines: CartLine[];
+  itemCount: number;
+  /** Catalog prices before discounts, shipping and tax; checkout prices from a quote */
+  subtotal: number;
+  discountCode: string | null;
+  note: string | null;
+  email: string | null;
+}
+
+/**
+ * Where each owner's cart is kept: customers in `carts`, guests in
+ * `anonymous_carts` under their cart session
+ */
+export const CART_TABLES = {
+  customer: { carts: "carts", items: "cart_items", addedAt: "created_at" },
+  guest: { carts: "anonymous_carts", items: "anonymous_cart_items", addedAt: "added_at" },
+} as const;
+
+/**
+ * The owner's column and value in their cart table
+ */
+export function cartOwnerFilter(owner: CartOwner): [column: string, value: string] {
+  return owner.type === "customer"
+    ? ["user_id", owner.userId]
+    : ["session_id", owner.sessionId];
+}
+
+export const EMPTY_CART: Cart = {
+  id: null,
+  lines: [],
+  itemCount: 0,
+  subtotal: 0,
+  discountCode: null,
+  note: null,
+  email: null,
+};
+
+async function loadCartLine(row: {
+  id: string;
+  product_id: number | string;
+  variant_id: number | string | null;
+  quantity: number;
+}): Promise<CartLine> {
+  const productId = String(row.product_id);
+  const product = await getProductById(productId, { context: "ssr" });
+  // Lines saved without a variant are the product's only variant
+  const variant =
+    product?.variants.find((v) => String(v.id) === String(row.variant_id)) ??
+    (row.variant_id === null ? product?.variants[0] : undefined) ??
+    null;
+
+  return {
+    id: row.id,
+    productId,
+    variantId: String(variant?.id ?? row.variant_id ?? productId),
+    quantity: row.quantity,
+    title: product?.title ?? `Product ${productId}`,
+    variantTitle:
+      variant?.title && variant.title !== "Default Title" ? variant.title : null,
+    handle: product?.handle ?? null,
+    image: variant?.featured_image || product?.images[0]?.src || null,
+    price: variant ? Number(variant.price) : 0,
+    available: !!product && !!variant && catalogStock(product, variant) !== 0,
+    product,
+    variant,
+  };
+}
+
+/**
+ * The owner's cart, with each line resolved from the catalog
+ * Uses the service-role client, so only call it with an owner from
+ * `getCartOwner`. Resolves EMPTY_CART when the owner has no cart yet.
+ */
+export async function getCart(owner: CartOwner): Promise<Cart> {
+  const tables = CART_TABLES[owner.type];
+  const [column, value] = cartOwnerFilter(owner);
+  const { data: cart, error } = await createAdminClient()
+    .from(tables.carts)
+    .select(
+      `id, discount_code, note, email, lines:${tables.items}(id, product_id, variant_id, quantity, ${tables.addedAt})`
+    )
+    .eq(column, value)
+    .order(tables.addedAt, { referencedTable: "lines", ascending: true })
+    .maybeSingle<{
+      id: string;
+      discount_code: string | null;
+      note: string | null;
+      email: string | null;
+      lines: { id: string; product_id: number; variant_id: number | null; quantity: number }[];
+    }>();
+
+  if (error) {
+    logger.error("Failed to load cart", error, { owner: owner.type });
+    throw new Error("Failed to load cart");
+  }
+  if (!cart) return EMPTY_CART;
+
+  const lines = await Promise.all((cart.lines ?? []).map(loadCartLine));
+  return {
+    id: cart.id,
+    lines,
+    itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+    subtotal:
+      lines.reduce((cents, line) => cents + Math.round(line.price * 100) * line.quantity, 0) /
+      100,
+    discountCode: cart.discount_code,
+    note: cart.note,
+    email: cart.email,
+  };
+}
@@ -0,0 +1,210 @@
+import type { ApiProduct } from "@/lib/types";
+import type { CollectionDefinition, CollectionRule } from "@/lib/collections";
+import type { CollectionQuery } from "@/lib/validations";
+import { LIMITS } from "@/lib/constants";
+import { logger } from "@/lib/utils/logger";
+import {
+  matchesCollectionRules,
+  sortCollectionProducts,
+} from "@/lib/utils/collection-utils";
+import {
+  computeSearchFacets,
+  hasSearchFilters,
+  matchesSearchFilters,
+  type SearchFacets,
+} from "@/lib/utils/search-utils";
+import { cacheKeys, cacheTags, productTags, readThrough } from "@/lib/redis";
+import {
+  CATALOG_PAGE_SIZE,
+  getCollectionPage,
+  getProductsPage,
+  iterateProducts,
+  type ProductsPage,
+} from "@/lib/data/products";
+
+// Member lists take a full scan to build, so keep them longer than a page
+const MEMBERS_CACHE_TTL = 600;
+
+export interface CollectionListing {
+  products: ApiProduct[];
+  /** Null when only the current page was loaded */
+  facets: SearchFacets | null;
+  /** Products after filters, across all pages */
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface CollectionListingOptions {
+  /**
+   * Compute facet counts (default false)
+   * Facets need every member loaded; without them, an unfiltered listing in
+   * source order is served straight from COSMOS pages.
+   */
+  facets?: boolean;
+}
+
+function cacheMembers(
+  handle: string,
+  tags: string[],
+  load: () => Promise<ApiProduct[]>
+): Promise<ApiProduct[]> {
+  return readThrough(
+    cacheKeys.collection(handle),
+    async () => {
+      const started = Date.now();
+      const members = await load();
+      logger.perf(`Collection "${handle}" members (${members.length} products)`, Date.now() - started);
+      return members;
+    },
+    {
+      ttl: MEMBERS_CACHE_TTL,
+      tags: (members) => [...tags, ...productTags(members)],
+    }
+  );
+}
+
+async function collectCatalog(
+  filter: (product: ApiProduct) => boolean = () => true
+): Promise<ApiProduct[]> {
+  const members: ApiProduct[] = [];
+  for await (const product of iterateProducts()) {
+    if (filter(product)) members.push(product);
+  }
+  return members;
+}
+
+async function collectCosmosCollection(handle: string): Promise<ApiProduct[]> {
+  const members: ApiProduct[] = [];
+  for (let page = 1; ; page++) {
+    const { products, totalPages } = await getCollectionPage(handle, {
+      limit: CATALOG_PAGE_SIZE,
+      page,
+      context: "ssr",
+    });
+    members.push(...products);
+    if (products.length < CATALOG_PAGE_SIZE || (totalPages !== null && page >= totalPages)) {
+      return members;
+    }
+  }
+}
+
+function collectRules(rules: CollectionRule[], match: "all" | "any"): Promise<ApiProduct[]> {
+  const now = Date.now();
+  return collectCatalog((product) => matchesCollectionRules(product, rules, match, now));
+}
+
+/**
+ * Every product in a collection, in source order
+ * Cached under the collection tag and the product-list tag, so catalog
+ * webhooks for any product refresh every member list.
+ */
+export async function getCollectionMembers(
+  collection: CollectionDefinition
+): Promise<ApiProduct[]> {
+  const { handle, source } = collection;
+  const tags = [cacheTags.collection(handle), cacheTags.productLists];
+
+  switch (source.type) {
+    case "catalog":
+      return cacheMembers(handle, tags, () => collectCatalog());
+
+    case "rules":
+      return cacheMembers(handle, tags, () => collectRules(source.rules, source.match));
+
+    case "cosmos":
+      return cacheMembers(handle, [...tags, cacheTags.collections], async () => {
+        const members = await collectCosmosCollection(source.handle);
+        if (members.length > 0 || !source.fallback) return members;
+
+        logger.warn("COSMOS collection empty, using fallback rules", { handle });
+        return collectRules(source.fallback, "all");
+      });
+  }
+}
+
+/**
+ * Filter, sort and paginate an in-memory product list
+ */
+export function paginateProducts(
+  candidates: ApiProduct[],
+  query: CollectionQuery,
+  withFacets = true
+): CollectionListing {
+  const limit = query.limit ?? LIMITS.PRODUCTS_PER_PAGE;
+  const matches = sortCollectionProducts(
+    candidates.filter((product) => matchesSearchFilters(product, query)),
+    query.sort
+  );
+  const totalPages = Math.max(1, Math.ceil(matches.length / limit));
+  const page = query.page ?? 1;
+  const start = (page - 1) * limit;
+
+  return {
+    products: matches.slice(start, start + limit),
+    facets: withFacets ? computeSearchFacets(candidates, query) : null,
+    total: matches.length,
+    page,
+    limit,
+    totalPages,
+  };
+}
+
+async function loadSourcePage(
+  collection: CollectionDefinition,
+  limit: number,
+  page: number
+): Promise<ProductsPage | null> {
+  const { source } = collection;
+  if (source.type === "catalog") {
+    return getProductsPage({ limit, page, context: "ssr" });
+  }
+  // A fallback collection may need its rules, which only the member list applies
+  if (source.type === "cosmos" && !source.fallback) {
+    return getCollectionPage(source.handle, { limit, page, context: "ssr" });
+  }
+  return null;
+}
+
+/**
+ * One page of a registry collection
+ * Filters and sorting apply to every member before pagination, so pages are
+ * full and totals are exact.
+ */
+export async function getCollectionListing(
+  collection: CollectionDefinition,
+  query: CollectionQuery,
+  { facets = false }: CollectionListingOptions = {}
+): Promise<CollectionListing> {
+  const limit = query.limit ?? LIMITS.PRODUCTS_PER_PAGE;
+  const page = query.page ?? 1;
+  logger.debug("Fetching collection listing", {
+    handle: collection.handle,
+    source: collection.source.type,
+    page,
+    limit,
+    sort: query.sort,
+  });
+
+  if (!facets && !hasSearchFilters(query) && (query.sort ?? "featured") === "featured") {
+    const sourcePage = await loadSourcePage(collection, limit, page);
+    if (sourcePage && sourcePage.total !== null) {
+      return {
+        products: sourcePage.products,
+        facets: null,
+        total: sourcePage.total,
+        page,
+        limit,
+        totalPages: Math.max(1, sourcePage.totalPages ?? 1),
+      };
+    }
+  }
+
+  try {
+    return paginateProducts(await getCollectionMembers(collection), query, facets);
+  } catch (error) {
+    logger.error("Error fetching collection listing", error, { handle: collection.handle });
+    return { products: [], facets: null, total: 0, page, limit, totalPages: 1 };
+  }
+}
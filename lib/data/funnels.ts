@@ -0,0 +1,103 @@
+import { FUNNELS, type FunnelName } from "@/lib/utils/funnel-utils";
+import { logger } from "@/lib/utils/logger";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface FunnelStepCount {
+  /** Journeys that reached the step */
+  journeys: number;
+  /** Journeys that dropped off at the step */
+  droppedOff: number;
+  /** Share of the funnel's first step that reached this one */
+  conversionRate: number;
+}
+
+export interface FunnelSourceReport {
+  /** First-touch utm_source; null for direct and unattributed traffic */
+  source: string | null;
+  campaign: string | null;
+  /** One entry per funnel step, in order */
+  steps: FunnelStepCount[];
+  /** Conversion value of the journeys that completed the funnel */
+  conversionValue: number;
+}
+
+export interface FunnelReport {
+  funnel: FunnelName;
+  totals: FunnelSourceReport;
+  /** Busiest source first */
+  sources: FunnelSourceReport[];
+}
+
+interface ConversionRow {
+  utm_source: string | null;
+  utm_campaign: string | null;
+  step_order: number;
+  journeys: number;
+  dropped_off: number;
+  conversion_value: number;
+}
+
+function emptySource(source: string | null, campaign: string | null, steps: number): FunnelSourceReport {
+  return {
+    source,
+    campaign,
+    steps: Array.from({ length: steps }, () => ({ journeys: 0, droppedOff: 0, conversionRate: 0 })),
+    conversionValue: 0,
+  };
+}
+
+function addRates(report: FunnelSourceReport): FunnelSourceReport {
+  const started = report.steps[0]?.journeys ?? 0;
+  for (const step of report.steps) {
+    step.conversionRate = started > 0 ? step.journeys / started : 0;
+  }
+  return report;
+}
+
+/**
+ * Step-by-step conversion of the journeys started in a window, per
+ * utm_source and utm_campaign
+ */
+export async function getFunnelReport(
+  funnel: FunnelName,
+  since: Date,
+  until: Date = new Date()
+): Promise<FunnelReport> {
+  const stepCount = FUNNELS[funnel].steps.length;
+  const { data, error } = await createAdminClient().rpc("funnel_conversion_by_source", {
+    p_journey_type: funnel,
+    p_steps: stepCount,
+    p_since: since.toISOString(),
+    p_until: until.toISOString(),
+  });
+  if (error) {
+    logger.error("Failed to load funnel report", error, { funnel });
+    throw new Error("Failed to load funnel report");
+  }
+
+  const totals = emptySource(null, null, stepCount);
+  const sources = new Map<string, FunnelSourceReport>();
+  for (const row of (data ?? []) as ConversionRow[]) {
+    const key = JSON.stringify([row.utm_source, row.utm_campaign]);
+    const source =
+      sources.get(key) ?? emptySource(row.utm_source, row.utm_campaign, stepCount);
+    sources.set(key, source);
+
+    const index = row.step_order - 1;
+    for (const report of [source, totals]) {
+      report.steps[index].journeys += Number(row.journeys);
+      report.steps[index].droppedOff += Number(row.dropped_off);
+      if (row.step_order === stepCount) {
+        report.conversionValue += Number(row.conversion_value);
+      }
+    }
+  }
+
+  return {
+    funnel,
+    totals: addRates(totals),
+    sources: [...sources.values()]
+      .map(addRates)
+      .sort((a, b) => b.steps[0].journeys - a.steps[0].journeys),
+  };
+}
@@ -0,0 +1,170 @@
+import { getProductById } from "@/lib/data/products";
+import { logger } from "@/lib/utils/logger";
+import {
+  buildOrderTimeline,
+  carrierTrackingUrl,
+  normalizeOrderStatus,
+  orderStatusLabel,
+  type OrderStatusChange,
+  type OrderTimelineEntry,
+} from "@/lib/utils/order-utils";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface OrderTrackingItem {
+  productId: string;
+  variantId: string;
+  /** Falls back to a generic label when the product left the catalog */
+  title: string;
+  variantTitle: string | null;
+  handle: string | null;
+  image: string | null;
+  quantity: number;
+  price: number;
+}
+
+export interface OrderShipment {
+  carrier: string;
+  trackingNumber: string;
+  trackingUrl: string | null;
+  shippedAt: string;
+  deliveredAt: string | null;
+}
+
+export interface OrderTracking {
+  orderNumber: string;
+  status: string;
+  statusLabel: string;
+  placedAt: string;
+  total: number;
+  /** Presentment currency `total` and item prices are in */
+  currency: string;
+  items: OrderTrackingItem[];
+  timeline: OrderTimelineEntry[];
+  shipments: OrderShipment[];
+}
+
+/**
+ * Find the order a guest is asking about
+ * Both the order number and the email on the order must match; the caller
+ * should not reveal which one was wrong.
+ */
+export async function findOrderIdForTracking(
+  orderNumber: string,
+  email: string
+): Promise<string | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, email")
+    .eq("order_number", orderNumber.trim().toUpperCase())
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Order lookup failed", error, { orderNumber });
+    throw new Error("Order lookup failed");
+  }
+  if (!data?.email) return null;
+
+  return data.email.trim().toLowerCase() === email.trim().toLowerCase()
+    ? data.id
+    : null;
+}
+
+async function loadTrackingItem(row: {
+  product_id: number | string;
+  variant_id: number | string;
+  quantity: number;
+  price: number;
+}): Promise<OrderTrackingItem> {
+  const productId = String(row.product_id);
+  const variantId = String(row.variant_id);
+  const product = await getProductById(productId, { context: "ssr" });
+  const variant = product?.variants.find((v) => String(v.id) === variantId);
+
+  return {
+    productId,
+    variantId,
+    title: product?.title ?? `Product ${productId}`,
+    variantTitle:
+      variant?.title && variant.title !== "Default Title" ? variant.title : null,
+    handle: product?.handle ?? null,
+    image: product?.images[0]?.src ?? null,
+    quantity: row.quantity,
+    price: Number(row.price),
+  };
+}
+
+/**
+ * Everything the tracking page shows for an order
+ * Uses the service-role client, so only call it once the request has been
+ * authorised by order number + email or a signed tracking token.
+ */
+export async function getOrderTracking(
+  orderId: string
+): Promise<OrderTracking | null> {
+  const supabase = createAdminClient();
+
+  const [orderResult, itemsResult, historyResult, shipmentsResult] =
+    await Promise.all([
+      supabase
+        .from("orders")
+        .select("id, order_number, status, total, currency, created_at")
+        .eq("id", orderId)
+        .maybeSingle(),
+      supabase
+        .from("order_items")
+        .select("product_id, variant_id, quantity, price")
+        .eq("order_id", orderId),
+      supabase
+        .from("order_status_history")
+        .select("old_status, new_status, notes, created_at")
+        .eq("order_id", orderId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("order_shipments")
+        .select("carrier, tracking_number, tracking_url, shipped_at, delivered_at")
+        .eq("order_id", orderId)
+        .order("shipped_at", { ascending: true }),
+    ]);
+
+  const failed = [orderResult, itemsResult, historyResult, shipmentsResult].find(
+    (result) => result.error
+  );
+  if (failed?.error) {
+    logger.error("Failed to load order tracking", failed.error, { orderId });
+    throw new Error("Failed to load order tracking");
+  }
+
+  const order = orderResult.data;
+  if (!order) return null;
+
+  const history: OrderStatusChange[] = (historyResult.data ?? []).map((row) => ({
+    oldStatus: row.old_status,
+    newStatus: row.new_status,
+    notes: row.notes,
+    createdAt: row.created_at,
+  }));
+
+  const items = await Promise.all((itemsResult.data ?? []).map(loadTrackingItem));
+
+  const shipments: OrderShipment[] = (shipmentsResult.data ?? []).map((row) => ({
+    carrier: row.carrier,
+    trackingNumber: row.tracking_number,
+    trackingUrl: carrierTrackingUrl(row.carrier, row.tracking_number, row.tracking_url),
+    shippedAt: row.shipped_at,
+    deliveredAt: row.delivered_at,
+  }));
+
+  const status = normalizeOrderStatus(order.status);
+  return {
+    orderNumber: order.order_number,
+    status,
+    statusLabel: orderStatusLabel(status),
+    placedAt: order.created_at,
+    total: Number(order.total),
+    currency: order.currency,
+    items,
+    timeline: buildOrderTimeline(status, order.created_at, history),
+    shipments,
+  };
+}
@@ -0,0 +1,90 @@
+import { logger } from "@/lib/utils/logger";
+import { isWebVital, type WebVital } from "@/lib/utils/performance-utils";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface VitalPercentiles {
+  samples: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface RoutePerformance {
+  /** Route template, e.g. `/products/[handle]` */
+  route: string;
+  /** Page loads reported for the route */
+  samples: number;
+  vitals: Partial<Record<WebVital, VitalPercentiles>>;
+}
+
+export interface PerformanceRelease {
+  /** Deployed commit; null for reports from outside Vercel */
+  release: string | null;
+  firstSeen: string;
+  lastSeen: string;
+  samples: number;
+}
+
+interface PercentileRow {
+  route: string;
+  page_loads: number;
+  metric: string;
+  samples: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+/**
+ * Releases with reports in the retention window, newest deploy first
+ */
+export async function getPerformanceReleases(limit = 10): Promise<PerformanceRelease[]> {
+  const { data, error } = await createAdminClient().rpc("performance_releases", {
+    p_limit: limit,
+  });
+  if (error) {
+    logger.error("Failed to load performance releases", error);
+    throw new Error("Failed to load performance releases");
+  }
+
+  return (data ?? []).map(
+    (row: { release: string | null; first_seen: string; last_seen: string; samples: number }) => ({
+      release: row.release,
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+      samples: Number(row.samples),
+    })
+  );
+}
+
+/**
+ * p50/p75/p95 of each vital per route template for one release, busiest
+ * routes first
+ */
+export async function getRoutePerformance(release: string | null): Promise<RoutePerformance[]> {
+  const { data, error } = await createAdminClient().rpc("performance_route_percentiles", {
+    p_release: release,
+  });
+  if (error) {
+    logger.error("Failed to load route performance", error, { release });
+    throw new Error("Failed to load route performance");
+  }
+
+  const routes = new Map<string, RoutePerformance>();
+  for (const row of (data ?? []) as PercentileRow[]) {
+    if (!isWebVital(row.metric)) continue;
+    const route = routes.get(row.route) ?? {
+      route: row.route,
+      samples: Number(row.page_loads),
+      vitals: {},
+    };
+    route.vitals[row.metric] = {
+      samples: Number(row.samples),
+      p50: Number(row.p50),
+      p75: Number(row.p75),
+      p95: Number(row.p95),
+    };
+    routes.set(row.route, route);
+  }
+  return [...routes.values()].sort((a, b) => b.samples - a.samples);
+}
@@ -1,6 +1,16 @@
 import type { ApiProduct } from "@/lib/types";
 import { logger } from "@/lib/utils/logger";
 import * as cosmosClient from "@/lib/api/cosmos-client";
+import {
+  cacheKeys,
+  cacheTags,
+  productTags,
+  readThrough,
+} from "@/lib/redis";
+
+// Seconds a cached entry is fresh; stale entries are served for as long again while refreshing
+const PRODUCT_CACHE_TTL = 300;
+const COLLECTION_CACHE_TTL = 600;
 
 export interface GetProductsOptions {
   limit: number;
@@ -9,6 +19,30 @@ export interface GetProductsOptions {
   context?: "ssr" | "client";
 }
 
+/**
+ * One page of products with the totals COSMOS reports in `meta`
+ */
+export interface ProductsPage {
+  products: ApiProduct[];
+  /** Null when COSMOS omits the count */
+  total: number | null;
+  totalPages: number | null;
+}
+
+const EMPTY_PAGE: ProductsPage = { products: [], total: 0, totalPages: 0 };
+
+function toProductsPage(
+  response: { products?: ApiProduct[]; meta?: { total?: number; total_pages?: number } },
+  limit: number
+): ProductsPage {
+  const total = response.meta?.total ?? null;
+  return {
+    products: (response.products || []).map((p: ApiProduct) => ({ ...p, in_stock: true })),
+    total,
+    totalPages: response.meta?.total_pages ?? (total === null ? null : Math.ceil(total / limit)),
+  };
+}
+
 /**
  * Get products with optional search
  * Wrapper around COSMOS API client for backward compatibility
@@ -19,37 +53,63 @@ export async function getProducts({
   search,
   context,
 }: GetProductsOptions): Promise<ApiProduct[]> {
-  logger.debug("Fetching products", {
-    limit,
-    page,
-    search: search || "none",
-    context,
-  });
+  if (!search) {
+    return (await getProductsPage({ limit, page, context })).products;
+  }
+
+  logger.debug("Searching products", { limit, page, search, context });
 
   try {
-    let response;
-    if (search) {
-      response = await cosmosClient.searchProducts(
-        search,
-        { limit, page },
-        {
-          cache: context === "ssr" ? "force-cache" : "default",
-          revalidate: 300,
-        }
-      );
-    } else {
-      response = await cosmosClient.getProducts(
-        { limit, page },
-        { cache: context === "ssr" ? "force-cache" : "default", revalidate: 300 }
-      );
-    }
-    return (response.products || []).map((p: ApiProduct) => ({ ...p, in_stock: true }));
+    const response = await cosmosClient.searchProducts(
+      search,
+      { limit, page },
+      {
+        cache: context === "ssr" ? "force-cache" : "default",
+        revalidate: 300,
+        tags: [cacheTags.productLists],
+      }
+    );
+    return toProductsPage(response, limit).products;
   } catch (error) {
     logger.error("Error fetching products", error);
     return [];
   }
 }
 
+/**
+ * Get one page of the catalog with its real totals
+ */
+export async function getProductsPage({
+  limit,
+  page,
+  context,
+}: Omit<GetProductsOptions, "search">): Promise<ProductsPage> {
+  logger.debug("Fetching products", { limit, page, context });
+
+  try {
+    const response = await readThrough(
+      cacheKeys.products(limit, page),
+      () =>
+        cosmosClient.getProducts(
+          { limit, page },
+          {
+            cache: context === "ssr" ? "force-cache" : "default",
+            revalidate: 300,
+            tags: [cacheTags.productLists],
+          }
+        ),
+      {
+        ttl: PRODUCT_CACHE_TTL,
+        tags: (result) => [cacheTags.productLists, ...productTags(result.products ?? [])],
+      }
+    );
+    return toProductsPage(response, limit);
+  } catch (error) {
+    logger.error("Error fetching products", error);
+    return EMPTY_PAGE;
+  }
+}
+
 export interface GetProductByHandleOptions {
   context?: "ssr" | "client";
 }
@@ -64,10 +124,19 @@ export async function getProductByHandle(
   logger.debug("Fetching product by handle", { handle, context });
 
   try {
-    const product = await cosmosClient.getProduct(handle, {
-      cache: context === "ssr" ? "force-cache" : "default",
-      revalidate: 300,
-    });
+    const product = await readThrough(
+      cacheKeys.productByHandle(handle),
+      () =>
+        cosmosClient.getProduct(handle, {
+          cache: context === "ssr" ? "force-cache" : "default",
+          revalidate: 300,
+          tags: [cacheTags.productHandle(handle)],
+        }),
+      {
+        ttl: PRODUCT_CACHE_TTL,
+        tags: (result) => [cacheTags.productHandle(handle), ...productTags([result])],
+      }
+    );
     if (!product) {
       return null;
     }
@@ -95,10 +164,19 @@ export async function getProductById(
   logger.debug("Fetching product by ID", { id, context });
 
   try {
-    const product = await cosmosClient.getProduct(id, {
-      cache: context === "ssr" ? "force-cache" : "default",
-      revalidate: 300,
-    });
+    const product = await readThrough(
+      cacheKeys.product(id),
+      () =>
+        cosmosClient.getProduct(id, {
+          cache: context === "ssr" ? "force-cache" : "default",
+          revalidate: 300,
+          tags: [cacheTags.product(id)],
+        }),
+      {
+        ttl: PRODUCT_CACHE_TTL,
+        tags: (result) => [cacheTags.product(id), ...productTags([result])],
+      }
+    );
     if (!product) {
       return null;
     }
@@ -131,7 +209,11 @@ export async function searchProducts(
     const response = await cosmosClient.searchProducts(
       query,
       { limit, page },
-      { cache: context === "ssr" ? "force-cache" : "default", revalidate: 180 }
+      {
+        cache: context === "ssr" ? "force-cache" : "default",
+        revalidate: 180,
+        tags: [cacheTags.productLists],
+      }
     );
     return (response.products || []).map((p: ApiProduct) => ({ ...p, in_stock: true }));
   } catch (error) {
@@ -152,8 +234,18 @@ interface GetCollectionByHandleOptions {
  */
 export async function getCollectionByHandle(
   handle: string,
-  { limit, page, fields, context }: GetCollectionByHandleOptions
+  options: GetCollectionByHandleOptions
 ): Promise<ApiProduct[]> {
+  return (await getCollectionPage(handle, options)).products;
+}
+
+/**
+ * Get one page of a COSMOS collection with its real totals
+ */
+export async function getCollectionPage(
+  handle: string,
+  { limit, page, fields, context }: GetCollectionByHandleOptions
+): Promise<ProductsPage> {
   logger.debug("Fetching collection by handle", {
     handle,
     limit,
@@ -163,15 +255,31 @@ export async function getCollectionByHandle(
   });
 
   try {
-    const response = await cosmosClient.getCollection(
-      handle,
-      { limit, page, fields },
-      { cache: context === "ssr" ? "force-cache" : "default", revalidate: 600 }
+    const response = await readThrough(
+      cacheKeys.collectionProducts(handle, limit, page, fields),
+      () =>
+        cosmosClient.getCollection(
+          handle,
+          { limit, page, fields },
+          {
+            cache: context === "ssr" ? "force-cache" : "default",
+            revalidate: 600,
+            tags: [cacheTags.collections, cacheTags.collection(handle)],
+          }
+        ),
+      {
+        ttl: COLLECTION_CACHE_TTL,
+        tags: (result) => [
+          cacheTags.collections,
+          cacheTags.collection(handle),
+          ...productTags(result.products ?? []),
+        ],
+      }
     );
-    return (response.products || []).map((p: ApiProduct) => ({ ...p, in_stock: true }));
+    return toProductsPage(response, limit);
   } catch (error) {
     logger.error("Error fetching collection by handle", error, { handle });
-    return [];
+    return EMPTY_PAGE;
   }
 }
 
@@ -189,3 +297,26 @@ export async function getProductsCount(): Promise<number> {
     return 0;
   }
 }
+
+export type IterateProductsOptions = cosmosClient.CatalogIteratorOptions;
+
+/** Products per catalog page when streaming */
+export const CATALOG_PAGE_SIZE = cosmosClient.MAX_PAGE_SIZE;
+
+/**
+ * Stream every product in the catalog
+ * Unlike the wrappers above, errors are not swallowed: a stream that fails
+ * halfway must not be mistaken for a complete (but shorter) catalog
+ */
+export async function* iterateProducts(
+  options: IterateProductsOptions = {}
+): AsyncGenerator<ApiProduct, void, undefined> {
+  logger.debug("Streaming catalog", {
+    startPage: options.cursor?.page ?? options.startPage ?? 1,
+    maxPages: options.maxPages,
+  });
+
+  for await (const product of cosmosClient.iterateCatalogProducts(options)) {
+    yield { ...product, in_stock: true };
+  }
+}
@@ -0,0 +1,118 @@
+import type { ApiProduct } from "@/lib/types";
+import { CACHE_DURATIONS, LIMITS } from "@/lib/constants";
+import { logger } from "@/lib/utils/logger";
+import * as cosmosClient from "@/lib/api/cosmos-client";
+import { cacheKeys, cacheTags, productTags, readThrough } from "@/lib/redis";
+import type { SearchInput } from "@/lib/validations";
+import { correctSearchQuery } from "@/lib/utils/search-server-utils";
+import {
+  computeSearchFacets,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  matchesSearchFilters,
+  sortSearchResults,
+  type SearchFacets,
+} from "@/lib/utils/search-utils";
+
+/** COSMOS pages pulled per query; facets and sorting cover this window */
+const MAX_CANDIDATE_PAGES = 5;
+
+export interface SearchResult {
+  query: string;
+  products: ApiProduct[];
+  facets: SearchFacets;
+  /** Matches after filters, across all pages */
+  total: number;
+  nextCursor: string | null;
+  /** True when COSMOS had more matches than the candidate window */
+  truncated: boolean;
+  /** Spell-corrected query used when the original found nothing */
+  correctedQuery: string | null;
+}
+
+export interface SearchCandidates {
+  products: ApiProduct[];
+  truncated: boolean;
+}
+
+/**
+ * Fetch the candidate set for a query from COSMOS
+ */
+export async function getSearchCandidates(query: string): Promise<SearchCandidates> {
+  const pageSize = cosmosClient.MAX_PAGE_SIZE;
+
+  return readThrough(
+    cacheKeys.search(query.toLowerCase(), pageSize * MAX_CANDIDATE_PAGES, 1),
+    async () => {
+      const products: ApiProduct[] = [];
+      let totalPages: number | undefined;
+
+      for (let page = 1; page <= MAX_CANDIDATE_PAGES; page++) {
+        const response = await cosmosClient.searchProducts(
+          query,
+          { limit: pageSize, page },
+          { revalidate: CACHE_DURATIONS.SEARCH_RESULTS, tags: [cacheTags.productLists] }
+        );
+        const batch = response.products ?? [];
+        products.push(...batch);
+        totalPages = response.meta?.total_pages ?? totalPages;
+
+        if (batch.length < pageSize || (totalPages !== undefined && page >= totalPages)) {
+          return { products, truncated: false };
+        }
+      }
+
+      return { products, truncated: true };
+    },
+    {
+      ttl: CACHE_DURATIONS.SEARCH_RESULTS,
+      tags: (result) => [cacheTags.productLists, ...productTags(result.products)],
+    }
+  );
+}
+
+/**
+ * Faceted search over COSMOS results
+ * Filters, facet counts, sorting and cursor pagination run over the first
+ * MAX_CANDIDATE_PAGES pages of COSMOS matches for the query.
+ */
+export async function searchCatalog(input: SearchInput): Promise<SearchResult> {
+  const limit = input.limit ?? LIMITS.PRODUCTS_PER_PAGE;
+  logger.debug("Faceted search", { query: input.query, limit, sortBy: input.sortBy });
+
+  let candidates = await getSearchCandidates(input.query);
+  let correctedQuery: string | null = null;
+
+  if (candidates.products.length === 0) {
+    correctedQuery = await correctSearchQuery(input.query).catch((error) => {
+      logger.warn("Query correction unavailable", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    });
+    if (correctedQuery) {
+      candidates = await getSearchCandidates(correctedQuery);
+    }
+  }
+
+  const matches = sortSearchResults(
+    candidates.products.filter((product) => matchesSearchFilters(product, input)),
+    { ...input, query: correctedQuery ?? input.query }
+  );
+
+  const offset = decodeSearchCursor(input);
+  const nextOffset = offset + limit;
+
+  return {
+    query: input.query,
+    // Storefront listings always show products as purchasable
+    products: matches
+      .slice(offset, nextOffset)
+      .map((product) => ({ ...product, in_stock: true })),
+    facets: computeSearchFacets(candidates.products, input),
+    total: matches.length,
+    nextCursor: nextOffset < matches.length ? encodeSearchCursor(input, nextOffset) : null,
+    truncated: candidates.truncated,
+    correctedQuery,
+  };
+}
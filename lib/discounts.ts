@@ -0,0 +1,315 @@
+/**
+ * Discount Service
+ * Decides which promotions from `lib/promotions.ts` apply to a priced cart:
+ * the entered code plus every automatic promotion whose dates, scope, spend
+ * threshold and customer limits are met. Placed orders record their
+ * promotions in the same transaction as the order (`lib/order-placement.ts`),
+ * which re-checks usage limits atomically and rejects the order if one was
+ * reached in the meantime.
+ *
+ * Without a customer email (cart estimates), per-customer limits and
+ * first-order promotions are assumed to be met; checkout quotes always carry
+ * the email, so the order is priced with the real answer.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { getCollectionDefinition } from "@/lib/collections";
+import { SHOP_CURRENCY } from "@/lib/currencies";
+import { getCollectionMembers } from "@/lib/data/collections";
+import { getProductById } from "@/lib/data/products";
+import {
+  findPromotionByCode,
+  PROMOTIONS,
+  type PromotionDefinition,
+  type PromotionScope,
+} from "@/lib/promotions";
+import type { ApiProduct } from "@/lib/types";
+import { formatPrice, normalizeProductTags } from "@/lib/utils";
+import { logger } from "@/lib/utils/logger";
+import type { QuoteLine } from "@/lib/utils/pricing-utils";
+import {
+  applyPromotions,
+  eligibleSubtotal,
+  isPromotionActive,
+  localizePromotion,
+  type AppliedDiscount,
+  type DiscountCodeStatus,
+  type PromotionCandidate,
+  type PromotionResult,
+} from "@/lib/utils/promotion-utils";
+import type { ShippingOption } from "@/lib/utils/shipping-utils";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface DiscountRequest {
+  /** Code entered by the customer */
+  code?: string;
+  /** Customer email, when known */
+  email?: string;
+}
+
+export interface ResolvedDiscounts extends PromotionResult {
+  codeStatus: DiscountCodeStatus | null;
+}
+
+interface PromotionUsage {
+  total: number;
+  customer: number;
+}
+
+function hasCustomerLimits(promotion: PromotionDefinition): boolean {
+  return (
+    promotion.usageLimit !== undefined ||
+    promotion.perCustomerLimit !== undefined ||
+    Boolean(promotion.firstOrderOnly)
+  );
+}
+
+/**
+ * Whether a promotion has usage, per-customer or first-order limits
+ */
+export function isLimitedPromotion(id: string): boolean {
+  const promotion = PROMOTIONS.find((p) => p.id === id);
+  return promotion ? hasCustomerLimits(promotion) : false;
+}
+
+async function loadUsage(
+  promotions: PromotionDefinition[],
+  email: string | undefined
+): Promise<Map<string, PromotionUsage>> {
+  const usage = new Map<string, PromotionUsage>();
+  if (promotions.length === 0) return usage;
+
+  const supabase = createAdminClient();
+  const { data, error } = await supabase.rpc("promotion_usage", {
+    p_promotion_ids: promotions.map((promotion) => promotion.id),
+    p_email: email ?? null,
+  });
+  if (error) throw error;
+
+  for (const row of (data ?? []) as {
+    promotion_id: string;
+    total_uses: number;
+    customer_uses: number;
+  }[]) {
+    usage.set(row.promotion_id, {
+      total: Number(row.total_uses),
+      customer: Number(row.customer_uses),
+    });
+  }
+  return usage;
+}
+
+async function hasPreviousOrder(email: string): Promise<boolean> {
+  const supabase = createAdminClient();
+  const { count, error } = await supabase
+    .from("orders")
+    .select("id", { count: "exact", head: true })
+    .eq("email", email.trim().toLowerCase())
+    .neq("status", "cancelled");
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+async function resolveScope(
+  scope: PromotionScope,
+  products: Map<string, ApiProduct | null>,
+  lines: QuoteLine[]
+): Promise<boolean[]> {
+  switch (scope.type) {
+    case "all":
+      return lines.map(() => true);
+
+    case "tag": {
+      const needle = scope.value.toLowerCase();
+      return lines.map((line) =>
+        normalizeProductTags(products.get(line.productId)?.tags ?? null).some((tag) =>
+          tag.toLowerCase().includes(needle)
+        )
+      );
+    }
+
+    case "collection": {
+      const collection = getCollectionDefinition(scope.handle);
+      if (!collection) return lines.map(() => false);
+      const members = new Set(
+        (await getCollectionMembers(collection)).map((product) => String(product.id))
+      );
+      return lines.map((line) => members.has(line.productId));
+    }
+  }
+}
+
+/**
+ * Why a qualifying code took nothing off the order
+ */
+function noSavingsMessage(
+  promotion: PromotionDefinition,
+  shipping: ShippingOption | null
+): string {
+  const reward = promotion.reward;
+  if (reward.type !== "free_shipping") {
+    return "No items in your cart qualify for this code";
+  }
+  if (!shipping || shipping.price === 0) {
+    return "Your order already ships free";
+  }
+  return `This code only applies to ${reward.services?.join(" or ")} shipping`;
+}
+
+/**
+ * Promotions that apply to priced lines and the chosen shipping method
+ * Lines and shipping are in `currency`; fixed promotion amounts are converted
+ * to it. An unknown or ineligible code never fails the quote; it comes back
+ * in `codeStatus` with the reason.
+ */
+export async function resolveDiscounts(
+  lines: QuoteLine[],
+  shipping: ShippingOption | null,
+  { code, email }: DiscountRequest,
+  now: number,
+  currency: string = SHOP_CURRENCY
+): Promise<ResolvedDiscounts> {
+  const entered = code ? findPromotionByCode(code) : undefined;
+  const rejections = new Map<string, string>();
+  const reject = (promotion: PromotionDefinition, message: string) => {
+    if (promotion.id === entered?.id) rejections.set(promotion.id, message);
+  };
+
+  const pool = PROMOTIONS.filter((promotion) => !promotion.code || promotion === entered).map(
+    (promotion) => localizePromotion(promotion, currency)
+  );
+  const active = pool.filter((promotion) => {
+    if (isPromotionActive(promotion, now)) return true;
+    reject(promotion, "This code has expired or isn't active yet");
+    return false;
+  });
+
+  const productIds = [...new Set(lines.map((line) => line.productId))];
+  const products = new Map<string, ApiProduct | null>(
+    await Promise.all(
+      productIds.map(
+        async (id) => [id, await getProductById(id, { context: "ssr" })] as const
+      )
+    )
+  );
+  const discountable = lines.map((line) => ({
+    unitCents: Math.round(line.unitPrice * 100),
+    quantity: line.quantity,
+  }));
+
+  const scoped: PromotionCandidate[] = [];
+  for (const promotion of active) {
+    const eligible = await resolveScope(promotion.scope, products, lines);
+    if (!eligible.some(Boolean)) {
+      reject(promotion, "No items in your cart qualify for this code");
+      continue;
+    }
+    const minCents = Math.round((promotion.minSubtotal ?? 0) * 100);
+    if (eligibleSubtotal(discountable, eligible) < minCents) {
+      reject(
+        promotion,
+        `Spend ${formatPrice(promotion.minSubtotal ?? 0, currency)} on eligible items to use this code`
+      );
+      continue;
+    }
+    scoped.push({ promotion, eligible });
+  }
+
+  // Limits need the database; a failed lookup skips the limited promotions
+  const limited = scoped.map((c) => c.promotion).filter(hasCustomerLimits);
+  let usage = new Map<string, PromotionUsage>();
+  let firstOrder = true;
+  let limitsAvailable = true;
+  try {
+    [usage, firstOrder] = await Promise.all([
+      loadUsage(limited, email),
+      email && limited.some((promotion) => promotion.firstOrderOnly)
+        ? hasPreviousOrder(email).then((previous) => !previous)
+        : Promise.resolve(true),
+    ]);
+  } catch (error) {
+    logger.error("Failed to load promotion usage", error);
+    limitsAvailable = false;
+  }
+
+  const candidates = scoped.filter(({ promotion }) => {
+    if (!hasCustomerLimits(promotion)) return true;
+    if (!limitsAvailable) {
+      reject(promotion, "This code can't be used right now. Please try again");
+      return false;
+    }
+    const used = usage.get(promotion.id) ?? { total: 0, customer: 0 };
+    if (promotion.usageLimit !== undefined && used.total >= promotion.usageLimit) {
+      reject(promotion, "This code has reached its usage limit");
+      return false;
+    }
+    if (
+      email &&
+      promotion.perCustomerLimit !== undefined &&
+      used.customer >= promotion.perCustomerLimit
+    ) {
+      reject(promotion, "You've already used this code");
+      return false;
+    }
+    if (promotion.firstOrderOnly && !firstOrder) {
+      reject(promotion, "This code is only valid on your first order");
+      return false;
+    }
+    return true;
+  });
+
+  const result = applyPromotions(
+    candidates,
+    discountable,
+    shipping ? { cents: Math.round(shipping.price * 100), service: shipping.service } : null
+  );
+
+  if (entered) {
+    const blocked = result.excluded.find((e) => e.id === entered.id);
+    const blocker = PROMOTIONS.find((promotion) => promotion.id === blocked?.blockedBy);
+    if (blocker) {
+      rejections.set(entered.id, `This code can't be combined with "${blocker.title}"`);
+    } else if (
+      !rejections.has(entered.id) &&
+      !result.applied.some((discount) => discount.id === entered.id)
+    ) {
+      rejections.set(entered.id, noSavingsMessage(entered, shipping));
+    }
+  }
+
+  return {
+    ...result,
+    codeStatus: code
+      ? entered
+        ? {
+            code: entered.code ?? code,
+            applied: !rejections.has(entered.id),
+            message: rejections.get(entered.id),
+          }
+        : { code, applied: false, message: "This discount code isn't valid" }
+      : null,
+  };
+}
+
+/** A promotion to redeem with an order, as `place_order` expects it */
+export interface PromotionRedemption {
+  id: string;
+  usage_limit: number | null;
+  per_customer_limit: number | null;
+}
+
+/**
+ * An order's promotions with the limits `place_order` re-checks when it
+ * records them
+ */
+export function toPromotionRedemptions(discounts: AppliedDiscount[]): PromotionRedemption[] {
+  return discounts.map((discount) => {
+    const promotion = PROMOTIONS.find((p) => p.id === discount.id);
+    return {
+      id: discount.id,
+      usage_limit: promotion?.usageLimit ?? null,
+      per_customer_limit: promotion?.perCustomerLimit ?? null,
+    };
+  });
+}
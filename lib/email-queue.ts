@@ -0,0 +1,207 @@
+/**
+ * Email Queue
+ * Every transactional email goes through here: rendered from its template
+ * (`lib/email-templates.ts`), written to `email_log`, then sent through the
+ * mailer (`lib/mailer.ts`) straight away. A failed send stays queued and
+ * /api/cron/emails retries it EMAIL_QUEUE.RETRY_DELAYS_MINUTES later, until
+ * it goes out or runs out of attempts and is marked failed.
+ *
+ * An idempotency key makes queueing safe to repeat: an email whose key was
+ * already used is dropped, so an order gets one confirmation however often
+ * its placement is replayed.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { EMAIL_QUEUE } from "@/lib/constants";
+import {
+  type EmailTemplate,
+  type EmailTemplateProps,
+  renderEmailTemplate,
+} from "@/lib/email-templates";
+import { env } from "@/lib/env-validation";
+import { sendEmail } from "@/lib/mailer";
+import { logger } from "@/lib/utils/logger";
+import { emailAddressSchema } from "@/lib/validations";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface QueueEmailOptions {
+  to: string;
+  /** Extra headers, kept with the email for its retries */
+  headers?: Record<string, string>;
+  /** Drops the email when one with the same key was already queued */
+  idempotencyKey?: string;
+}
+
+export interface EmailQueueRun {
+  sent: number;
+  /** Failed this time, queued for another attempt */
+  retrying: number;
+  /** Failed for the last time */
+  failed: number;
+  /** Old emails removed from the log */
+  purged: number;
+}
+
+type DeliveryOutcome = "sent" | "retrying" | "failed";
+
+interface ClaimedEmail {
+  id: string;
+  recipient: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers: Record<string, string>;
+  /** Including the attempt being made */
+  attempts: number;
+}
+
+function claimEmails(limit: number, id?: string) {
+  return createAdminClient().rpc("claim_emails", {
+    p_limit: limit,
+    p_id: id ?? null,
+    p_sending_timeout_minutes: EMAIL_QUEUE.SENDING_TIMEOUT_MINUTES,
+  });
+}
+
+/**
+ * Send a claimed email and record the outcome
+ * The email keeps its log id as Message-ID across attempts.
+ */
+async function deliver(email: ClaimedEmail): Promise<DeliveryOutcome> {
+  const supabase = createAdminClient();
+  const now = new Date();
+
+  try {
+    await sendEmail(
+      {
+        to: email.recipient,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+        headers: email.headers,
+      },
+      { id: email.id }
+    );
+  } catch (error) {
+    // Logged by sendEmail
+    const delay: number | undefined = EMAIL_QUEUE.RETRY_DELAYS_MINUTES[email.attempts - 1];
+    const outcome: DeliveryOutcome = delay === undefined ? "failed" : "retrying";
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+
+    const { error: updateError } = await supabase
+      .from("email_log")
+      .update({
+        status: outcome === "failed" ? "failed" : "queued",
+        next_attempt_at: new Date(now.getTime() + (delay ?? 0) * 60_000).toISOString(),
+        last_error: String(cause instanceof Error ? cause.message : cause).slice(0, 1000),
+        transport: env.EMAIL_TRANSPORT,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", email.id);
+    if (updateError) {
+      // It stays claimed and is retried once the claim times out
+      logger.error("Failed to record email failure", updateError, { emailId: email.id });
+    }
+    return outcome;
+  }
+
+  const { error } = await supabase
+    .from("email_log")
+    .update({
+      status: "sent",
+      sent_at: now.toISOString(),
+      last_error: null,
+      transport: env.EMAIL_TRANSPORT,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", email.id);
+  if (error) {
+    // Sent, but it may be sent again once the claim times out
+    logger.error("Failed to record sent email", error, { emailId: email.id });
+  }
+  return "sent";
+}
+
+/**
+ * Queue an email and try to send it right away
+ * Rejects only when the email couldn't be queued (logged), including when
+ * `to` isn't a valid address; a failed send is left to the retries.
+ */
+export async function queueEmail<T extends EmailTemplate>(
+  template: T,
+  props: EmailTemplateProps<T>,
+  { to, headers = {}, idempotencyKey }: QueueEmailOptions
+): Promise<void> {
+  if (!emailAddressSchema.safeParse(to).success) {
+    logger.warn("Refusing to queue email to an invalid address", { template, idempotencyKey });
+    throw new Error("Failed to queue email");
+  }
+
+  const supabase = createAdminClient();
+  const rendered = await renderEmailTemplate(template, props);
+
+  const { data, error } = await supabase
+    .from("email_log")
+    .upsert(
+      {
+        template,
+        recipient: to,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        headers,
+        idempotency_key: idempotencyKey ?? null,
+      },
+      { onConflict: "idempotency_key", ignoreDuplicates: true }
+    )
+    .select("id");
+  if (error) {
+    logger.error("Failed to queue email", error, { template, idempotencyKey });
+    throw new Error("Failed to queue email");
+  }
+
+  const id: string | undefined = data?.[0]?.id;
+  // Already queued under this key
+  if (!id) return;
+
+  const { data: claimed, error: claimError } = await claimEmails(1, id);
+  if (claimError) {
+    // Still queued; the next job run sends it
+    logger.error("Failed to claim queued email", claimError, { emailId: id });
+    return;
+  }
+  for (const email of (claimed ?? []) as ClaimedEmail[]) {
+    await deliver(email);
+  }
+}
+
+/**
+ * Send due retries and purge emails past EMAIL_QUEUE.RETENTION_DAYS; safe
+ * to run as often as every minute
+ */
+export async function processEmailQueue(now: number = Date.now()): Promise<EmailQueueRun> {
+  const { data: claimed, error } = await claimEmails(EMAIL_QUEUE.BATCH_SIZE);
+  if (error) {
+    logger.error("Failed to claim due emails", error);
+    throw new Error("Failed to claim due emails");
+  }
+
+  const run: EmailQueueRun = { sent: 0, retrying: 0, failed: 0, purged: 0 };
+  for (const email of (claimed ?? []) as ClaimedEmail[]) {
+    run[await deliver(email)]++;
+  }
+
+  const cutoff = new Date(now - EMAIL_QUEUE.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { count, error: purgeError } = await createAdminClient()
+    .from("email_log")
+    .delete({ count: "exact" })
+    .in("status", ["sent", "failed"])
+    .lt("created_at", cutoff.toISOString());
+  if (purgeError) {
+    logger.error("Failed to purge email log", purgeError);
+  } else {
+    run.purged = count ?? 0;
+  }
+  return run;
+}
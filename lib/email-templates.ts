@@ -0,0 +1,116 @@
+/**
+ * Email Templates
+ * The transactional emails the store sends, each a React component in
+ * `components/emails` with typed props and a subject line. Templates are
+ * rendered to static HTML, with a plain text alternative derived from it,
+ * before they are queued (`lib/email-queue.ts`), so the log keeps exactly
+ * what was sent.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createElement, type FunctionComponent, type ReactElement } from "react";
+import {
+  AbandonedCartEmail,
+  type AbandonedCartEmailProps,
+} from "@/components/emails/abandoned-cart-email";
+import {
+  ContactAcknowledgementEmail,
+  type ContactAcknowledgementEmailProps,
+} from "@/components/emails/contact-acknowledgement-email";
+import {
+  NewsletterConfirmationEmail,
+  type NewsletterConfirmationEmailProps,
+} from "@/components/emails/newsletter-confirmation-email";
+import {
+  OrderConfirmationEmail,
+  type OrderConfirmationEmailProps,
+} from "@/components/emails/order-confirmation-email";
+import {
+  PasswordResetEmail,
+  type PasswordResetEmailProps,
+} from "@/components/emails/password-reset-email";
+import {
+  ShippingUpdateEmail,
+  type ShippingUpdateEmailProps,
+} from "@/components/emails/shipping-update-email";
+import { SITE_CONFIG } from "@/lib/constants";
+import { htmlToText } from "@/lib/utils/email-utils";
+
+interface EmailTemplateDefinition<Props> {
+  render: (props: Props) => ReactElement;
+  subject: (props: Props) => string;
+}
+
+function defineTemplate<Props extends object>(
+  component: FunctionComponent<Props>,
+  subject: (props: Props) => string
+): EmailTemplateDefinition<Props> {
+  return { render: (props) => createElement(component, props), subject };
+}
+
+const ABANDONED_CART_SUBJECTS = [
+  `You left something in your ${SITE_CONFIG.name} cart`,
+  "Your cart is still waiting for you",
+  "Still thinking it over?",
+];
+
+const EMAIL_TEMPLATES = {
+  order_confirmation: defineTemplate<OrderConfirmationEmailProps>(
+    OrderConfirmationEmail,
+    ({ orderNumber }) => `Order ${orderNumber} confirmed`
+  ),
+  shipping_update: defineTemplate<ShippingUpdateEmailProps>(
+    ShippingUpdateEmail,
+    ({ orderNumber, status }) =>
+      status === "shipped"
+        ? `Your order ${orderNumber} is on its way`
+        : `Your order ${orderNumber} was delivered`
+  ),
+  password_reset: defineTemplate<PasswordResetEmailProps>(
+    PasswordResetEmail,
+    () => `Reset your ${SITE_CONFIG.name} password`
+  ),
+  newsletter_confirmation: defineTemplate<NewsletterConfirmationEmailProps>(
+    NewsletterConfirmationEmail,
+    () => `Confirm your subscription to ${SITE_CONFIG.name}`
+  ),
+  contact_acknowledgement: defineTemplate<ContactAcknowledgementEmailProps>(
+    ContactAcknowledgementEmail,
+    () => "We received your message"
+  ),
+  abandoned_cart: defineTemplate<AbandonedCartEmailProps>(
+    AbandonedCartEmail,
+    ({ step }) => ABANDONED_CART_SUBJECTS[Math.min(step, ABANDONED_CART_SUBJECTS.length - 1)]
+  ),
+};
+
+export type EmailTemplate = keyof typeof EMAIL_TEMPLATES;
+
+export type EmailTemplateProps<T extends EmailTemplate> =
+  (typeof EMAIL_TEMPLATES)[T] extends EmailTemplateDefinition<infer Props> ? Props : never;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Render a template to its subject, HTML and plain text
+ */
+export async function renderEmailTemplate<T extends EmailTemplate>(
+  template: T,
+  props: EmailTemplateProps<T>
+): Promise<RenderedEmail> {
+  const { render, subject } = EMAIL_TEMPLATES[template] as EmailTemplateDefinition<
+    EmailTemplateProps<T>
+  >;
+  // Loaded on demand: Next.js refuses a static react-dom/server import in the server graph
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  // React hoists a preload link for every image into <head>; email has no use for them
+  const markup = renderToStaticMarkup(render(props)).replace(/<link rel="preload"[^>]*>/g, "");
+  const html = `<!doctype html>${markup}`;
+
+  return { subject: subject(props), html, text: htmlToText(html) };
+}
@@ -8,8 +8,22 @@ export const env = createEnv({
     SHOPIFY_ACCESS_TOKEN: z.string().min(1),
     SHOPIFY_SHOP: z.string().optional(),
     SHOPIFY_SHOP_NAME: z.string().optional(),
-    UPSTASH_REDIS_REST_URL: z.string().min(1),
-    UPSTASH_REDIS_REST_TOKEN: z.string().min(1),
+    SHOPIFY_WEBHOOK_SECRET: z.string().min(1).optional(),
+    UPSTASH_REDIS_REST_URL: z.string().min(1).optional(),
+    UPSTASH_REDIS_REST_TOKEN: z.string().min(1).optional(),
+    CATALOG_WEBHOOK_SECRET: z.string().min(32).optional(),
+    ORDER_TRACKING_SECRET: z.string().min(32).optional(),
+    CHECKOUT_QUOTE_SECRET: z.string().min(32),
+    CART_SESSION_SECRET: z.string().min(32),
+    INTERNAL_REPORT_EMAILS: z.string().optional(),
+    CART_RECOVERY_SECRET: z.string().min(32).optional(),
+    CRON_SECRET: z.string().min(16).optional(),
+    EMAIL_TRANSPORT: z.enum(["smtp", "http", "file", "console"]).default("console"),
+    EMAIL_FROM: z.string().min(1).optional(),
+    SMTP_URL: z.url().optional(),
+    EMAIL_HTTP_URL: z.url().optional(),
+    EMAIL_HTTP_TOKEN: z.string().min(1).optional(),
+    EMAIL_FILE_DIR: z.string().min(1).default(".emails"),
   },
   client: {
     NEXT_PUBLIC_SUPABASE_URL: z.url(),
@@ -28,8 +42,22 @@ export const env = createEnv({
     SHOPIFY_ACCESS_TOKEN: process.env.SHOPIFY_ACCESS_TOKEN,
     SHOPIFY_SHOP: process.env.SHOPIFY_SHOP,
     SHOPIFY_SHOP_NAME: process.env.SHOPIFY_SHOP_NAME,
+    SHOPIFY_WEBHOOK_SECRET: process.env.SHOPIFY_WEBHOOK_SECRET,
     UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL,
     UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN,
+    CATALOG_WEBHOOK_SECRET: process.env.CATALOG_WEBHOOK_SECRET,
+    ORDER_TRACKING_SECRET: process.env.ORDER_TRACKING_SECRET,
+    CHECKOUT_QUOTE_SECRET: process.env.CHECKOUT_QUOTE_SECRET,
+    CART_SESSION_SECRET: process.env.CART_SESSION_SECRET,
+    INTERNAL_REPORT_EMAILS: process.env.INTERNAL_REPORT_EMAILS,
+    CART_RECOVERY_SECRET: process.env.CART_RECOVERY_SECRET,
+    CRON_SECRET: process.env.CRON_SECRET,
+    EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+    EMAIL_FROM: process.env.EMAIL_FROM,
+    SMTP_URL: process.env.SMTP_URL,
+    EMAIL_HTTP_URL: process.env.EMAIL_HTTP_URL,
+    EMAIL_HTTP_TOKEN: process.env.EMAIL_HTTP_TOKEN,
+    EMAIL_FILE_DIR: process.env.EMAIL_FILE_DIR,
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
     NEXT_PUBLIC_SITE_URL: process.env.NEXT_PUBLIC_SITE_URL,
@@ -38,4 +66,6 @@ export const env = createEnv({
     NEXT_PUBLIC_CHAT_WIDGET_ENABLED:
       process.env.NEXT_PUBLIC_CHAT_WIDGET_ENABLED,
   },
+  // An empty value in .env leaves an optional setting unset
+  emptyStringAsUndefined: true,
 });
@@ -1,5 +1,7 @@
 // Enhanced error handling types and utilities
 
+import type { StockIssue } from "@/lib/utils/inventory-utils";
+
 export interface ApiError {
 	message: string;
 	status?: number;
@@ -90,6 +92,74 @@ export class ShopifyApiError extends Error {
 	}
 }
 
+export class OrderStatusError extends Error {
+	public code:
+		| "ORDER_NOT_FOUND"
+		| "INVALID_TRANSITION"
+		| "POLICY_VIOLATION"
+		| "FORBIDDEN"
+		| "CONFLICT";
+
+	constructor(message: string, code: OrderStatusError["code"]) {
+		super(message);
+		this.name = "OrderStatusError";
+		this.code = code;
+	}
+}
+
+export class PricingError extends Error {
+	public code:
+		| "ITEM_UNAVAILABLE"
+		| "SHIPPING_UNAVAILABLE"
+		| "QUOTE_INVALID"
+		| "QUOTE_EXPIRED"
+		| "PRICE_CHANGED"
+		| "DISCOUNT_UNAVAILABLE";
+
+	constructor(message: string, code: PricingError["code"]) {
+		super(message);
+		this.name = "PricingError";
+		this.code = code;
+	}
+}
+
+export class OrderPlacementError extends Error {
+	public code: "IDEMPOTENCY_CONFLICT";
+
+	constructor(message: string, code: OrderPlacementError["code"]) {
+		super(message);
+		this.name = "OrderPlacementError";
+		this.code = code;
+	}
+}
+
+export class InventoryError extends Error {
+	/** INVENTORY_BUSY: another checkout held the stock; safe to retry */
+	public code: "INSUFFICIENT_STOCK" | "INVENTORY_BUSY";
+	public issues: StockIssue[];
+
+	constructor(
+		message: string,
+		issues: StockIssue[],
+		code: InventoryError["code"] = "INSUFFICIENT_STOCK",
+	) {
+		super(message);
+		this.name = "InventoryError";
+		this.code = code;
+		this.issues = issues;
+	}
+}
+
+export class CartError extends Error {
+	public code: "CART_ITEM_NOT_FOUND" | "INVALID_DISCOUNT_CODE";
+
+	constructor(message: string, code: CartError["code"]) {
+		super(message);
+		this.name = "CartError";
+		this.code = code;
+	}
+}
+
 // Error logging utility
 export function logError(
 	error: Error,
@@ -149,6 +219,7 @@ export const HTTP_STATUS = {
 	METHOD_NOT_ALLOWED: 405,
 	CONFLICT: 409,
 	UNPROCESSABLE_ENTITY: 422,
+	TOO_MANY_REQUESTS: 429,
 	INTERNAL_SERVER_ERROR: 500,
 	BAD_GATEWAY: 502,
 	SERVICE_UNAVAILABLE: 503,
@@ -0,0 +1,110 @@
+/**
+ * Experience Tracking
+ * Stores event batches from the analytics SDK (`lib/analytics.ts`) in
+ * `experience_tracks`. The server adds what the browser isn't trusted with:
+ * the signed-in user, the user agent and the device, browser and OS read
+ * from it, the IP address and geo, and the first-touch attribution from the
+ * `cart_attribution` cookie. Each row also updates the session's
+ * `user_sessions` row through the table's insert trigger.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import type { Attribution } from "@/lib/utils/attribution-utils";
+import { logger } from "@/lib/utils/logger";
+import { type getClientGeo, parseUserAgent } from "@/lib/utils/request-utils";
+import type { AnalyticsBatch, AnalyticsEventInput } from "@/lib/validations";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface TrackingContext {
+  userId: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  geo: ReturnType<typeof getClientGeo>;
+  /** First-touch attribution of the visit */
+  attribution: Attribution;
+}
+
+function utmParams(pageUrl: string): URLSearchParams {
+  try {
+    return new URL(pageUrl).searchParams;
+  } catch {
+    return new URLSearchParams();
+  }
+}
+
+function toRow(
+  event: AnalyticsEventInput,
+  batch: AnalyticsBatch,
+  context: TrackingContext,
+  device: ReturnType<typeof parseUserAgent> | null
+) {
+  // A campaign link on this page wins over the visit's first touch
+  const params = utmParams(event.url);
+  const utm = (name: "utm_source" | "utm_medium" | "utm_campaign") =>
+    params.get(name) ?? context.attribution[name] ?? null;
+
+  return {
+    session_id: batch.sessionId,
+    anonymous_id: batch.anonymousId ?? null,
+    user_id: context.userId,
+    event_type: event.type,
+    event_name: event.name,
+    page_url: event.url,
+    page_title: event.title ?? null,
+    previous_url: event.previousUrl ?? null,
+    element_selector: event.element?.selector ?? null,
+    element_text: event.element?.text ?? null,
+    element_position: event.element?.position ?? null,
+    button_type: event.element?.buttonType ?? null,
+    click_coordinates: event.click ?? null,
+    product_id: event.productId ?? null,
+    order_id: event.orderId ?? null,
+    search_query: event.searchQuery ?? null,
+    scroll_depth: event.scrollDepth ?? null,
+    custom_properties: event.properties ?? {},
+    user_agent: context.userAgent,
+    viewport_width: event.viewport?.width ?? null,
+    viewport_height: event.viewport?.height ?? null,
+    screen_width: event.screen?.width ?? null,
+    screen_height: event.screen?.height ?? null,
+    device_type: device?.deviceType ?? null,
+    browser_name: device?.browserName ?? null,
+    browser_version: device?.browserVersion ?? null,
+    os_name: device?.osName ?? null,
+    os_version: device?.osVersion ?? null,
+    utm_source: utm("utm_source"),
+    utm_medium: utm("utm_medium"),
+    utm_campaign: utm("utm_campaign"),
+    utm_term: params.get("utm_term"),
+    utm_content: params.get("utm_content"),
+    referrer_url: event.referrer ?? context.attribution.referrer ?? null,
+    attribution_data: context.attribution,
+    ip_address: context.ipAddress,
+    country_code: context.geo.countryCode,
+    city: context.geo.city,
+    timezone: event.timezone ?? context.geo.timezone,
+    client_timestamp: new Date(event.timestamp).toISOString(),
+    timestamp: event.timestamp,
+  };
+}
+
+/**
+ * Insert a batch in one statement and resolve the number of rows stored
+ * Batches from crawlers are dropped.
+ */
+export async function recordExperienceEvents(
+  batch: AnalyticsBatch,
+  context: TrackingContext
+): Promise<number> {
+  const device = context.userAgent ? parseUserAgent(context.userAgent) : null;
+  if (device?.deviceType === "bot") return 0;
+
+  const rows = batch.events.map((event) => toRow(event, batch, context, device));
+  const { error } = await createAdminClient().from("experience_tracks").insert(rows);
+  if (error) {
+    logger.error("Failed to record analytics events", error, { events: rows.length });
+    throw new Error("Failed to record analytics events");
+  }
+  return rows.length;
+}
@@ -0,0 +1,36 @@
+/**
+ * Internal Access
+ * Internal report pages (under /internal) are for the staff listed in
+ * INTERNAL_REPORT_EMAILS. Everyone else gets a 404, so the pages don't reveal
+ * that they exist.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { notFound } from "next/navigation";
+import { env } from "@/lib/env-validation";
+import { createClient } from "@/utils/supabase/server";
+
+function internalEmails(): string[] {
+  return (env.INTERNAL_REPORT_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * The signed-in staff member, or a 404 for anyone else
+ * The email must be confirmed; an unconfirmed signup could claim any address.
+ */
+export async function requireInternalUser(): Promise<{ id: string; email: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const email = user?.email_confirmed_at ? user.email?.toLowerCase() : undefined;
+  if (!user || !email || !internalEmails().includes(email)) {
+    notFound();
+  }
+  return { id: user.id, email };
+}
@@ -0,0 +1,366 @@
+/**
+ * Inventory Service
+ * Stock holds that keep a checkout's quantities from being sold to someone
+ * else, and committed counts that keep placed orders from being oversold
+ * before the catalog reports the new stock level.
+ *
+ * Starting checkout holds the cart's quantities for INVENTORY.HOLD_TTL_SECONDS
+ * under a holder id (the cart's owner, see `getInventoryHolder`). Holding
+ * again replaces the previous hold, changing the cart's lines on the server
+ * (`lib/cart.ts`) releases it and an expired hold frees its stock on its own.
+ * Placing an order converts the hold into committed units; a `product.*`
+ * catalog webhook carrying new stock levels resets those variants' committed
+ * units, as the catalog's own stock now reflects the sales.
+ *
+ * State lives in the cache backend (Redis, or the in-memory fallback). Each
+ * variant's check-and-write runs under a short lock; a checkout that can't
+ * get one in time fails with INVENTORY_BUSY and can try again. Only when the
+ * store itself is unreachable do checks fall back to the catalog's stock
+ * rather than blocking checkout.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { INVENTORY } from "@/lib/constants";
+import { getProductById } from "@/lib/data/products";
+import { randomUUID } from "crypto";
+import { InventoryError } from "@/lib/errors";
+import { type CacheBackend, cacheKeys, getCacheBackend } from "@/lib/redis";
+import type { ApiProduct } from "@/lib/types";
+import {
+  catalogStock,
+  findStockIssues,
+  stockStatus,
+  type StockIssue,
+  type StockLevel,
+} from "@/lib/utils/inventory-utils";
+import { logger } from "@/lib/utils/logger";
+import { mergePricingItems, type PricingItem } from "@/lib/utils/pricing-utils";
+
+const LOCK_TTL_SECONDS = 10;
+const LOCK_ATTEMPTS = 20;
+const LOCK_RETRY_MS = 50;
+
+interface InventoryHold {
+  /** Held units by `${productId}:${variantId}` */
+  items: Record<string, number>;
+  expiresAt: number;
+}
+
+export interface InventoryReservation {
+  expiresAt: string;
+  levels: StockLevel[];
+}
+
+/**
+ * The inventory store could not be reached (as opposed to a busy lock or
+ * short stock)
+ */
+class InventoryStoreUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super("Inventory store unavailable", { cause });
+    this.name = "InventoryStoreUnavailableError";
+  }
+}
+
+/**
+ * The cache backend, with every failed call raised as
+ * InventoryStoreUnavailableError
+ */
+function getInventoryStore(): CacheBackend {
+  const backend = getCacheBackend();
+  return new Proxy(backend, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== "function") return value;
+      return (...args: unknown[]) =>
+        Promise.resolve()
+          .then(() => value.apply(target, args))
+          .catch((error: unknown) => {
+            throw new InventoryStoreUnavailableError(error);
+          });
+    },
+  });
+}
+
+function lineKey(productId: string, variantId: string): string {
+  return `${productId}:${variantId}`;
+}
+
+async function loadProducts(items: PricingItem[]): Promise<Map<string, ApiProduct | null>> {
+  const productIds = [...new Set(items.map((item) => item.productId))];
+  return new Map(
+    await Promise.all(
+      productIds.map(
+        async (id) => [id, await getProductById(id, { context: "ssr" })] as const
+      )
+    )
+  );
+}
+
+function productTitle(products: Map<string, ApiProduct | null>, productId: string): string {
+  return products.get(productId)?.title ?? "An item in your cart";
+}
+
+/**
+ * Run `task` holding the lock of every listed variant
+ * Locks are taken in key order so concurrent callers can't deadlock, and
+ * released only while they still hold this call's token, so a task that
+ * outlives LOCK_TTL_SECONDS can't free another call's lock. Throws
+ * InventoryError (INVENTORY_BUSY) when a lock isn't free in time.
+ */
+async function withVariantLocks<T>(items: PricingItem[], task: () => Promise<T>): Promise<T> {
+  const store = getInventoryStore();
+  const token = randomUUID();
+  const locks = items
+    .map((item) => `lock:inventory:${lineKey(item.productId, item.variantId)}`)
+    .sort();
+  const acquired: string[] = [];
+
+  try {
+    for (const lock of locks) {
+      let attempt = 0;
+      while (!(await store.setIfAbsent(lock, token, LOCK_TTL_SECONDS))) {
+        if (++attempt >= LOCK_ATTEMPTS) {
+          throw new InventoryError(
+            "Other shoppers are checking out the same items right now. Please try again",
+            [],
+            "INVENTORY_BUSY"
+          );
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+      acquired.push(lock);
+    }
+    return await task();
+  } finally {
+    await Promise.all(
+      acquired.map((lock) => store.deleteIfEquals(lock, token).catch(() => false))
+    );
+  }
+}
+
+/**
+ * Units of a variant held by checkouts other than `holderId`
+ */
+async function heldByOthers(
+  productId: string,
+  variantId: string,
+  holderId: string | undefined,
+  now: number
+): Promise<number> {
+  const backend = getInventoryStore();
+  const key = lineKey(productId, variantId);
+  const holders = await backend.setMembers(cacheKeys.inventoryHolders(productId, variantId));
+
+  const holds = await Promise.all(
+    holders
+      .filter((holder) => holder !== holderId)
+      .map((holder) => backend.get<InventoryHold>(cacheKeys.inventoryHold(holder)))
+  );
+  return holds.reduce(
+    (sum, hold) => (hold && hold.expiresAt > now ? sum + (hold.items[key] ?? 0) : sum),
+    0
+  );
+}
+
+async function readStockLevels(
+  items: PricingItem[],
+  products: Map<string, ApiProduct | null>,
+  holderId: string | undefined,
+  now: number
+): Promise<StockLevel[]> {
+  const backend = getInventoryStore();
+
+  return Promise.all(
+    items.map(async ({ productId, variantId }) => {
+      const product = products.get(productId);
+      const variant = product?.variants.find((v) => String(v.id) === variantId);
+      const stock = product && variant ? catalogStock(product, variant) : 0;
+
+      let available = stock;
+      if (stock !== null && stock > 0) {
+        const [committed, held] = await Promise.all([
+          backend.get<number>(cacheKeys.inventoryCommitted(productId, variantId)),
+          heldByOthers(productId, variantId, holderId, now),
+        ]);
+        available = Math.max(0, stock - (Number(committed) || 0) - held);
+      }
+      return { productId, variantId, available, status: stockStatus(available) };
+    })
+  );
+}
+
+/**
+ * Stock a shopper can still buy, per item
+ * `holderId`'s own hold counts as available to them.
+ */
+export async function getStockLevels(
+  items: PricingItem[],
+  holderId?: string,
+  now: number = Date.now()
+): Promise<StockLevel[]> {
+  const merged = mergePricingItems(items);
+  const products = await loadProducts(merged);
+
+  try {
+    return await readStockLevels(merged, products, holderId, now);
+  } catch (error) {
+    logger.error("Failed to read inventory holds", error);
+    return readStockLevels(merged, products, undefined, now).catch(() =>
+      merged.map(({ productId, variantId }) => ({
+        productId,
+        variantId,
+        available: null,
+        status: stockStatus(null),
+      }))
+    );
+  }
+}
+
+function insufficientStock(issues: StockIssue[]): InventoryError {
+  return new InventoryError(
+    issues.length === 1
+      ? issues[0].message
+      : "Some items in your cart are no longer available in the quantity you chose",
+    issues
+  );
+}
+
+/**
+ * Hold the cart's quantities for checkout, replacing `holderId`'s previous hold
+ * Throws InventoryError (holding nothing) when an item is short.
+ */
+export async function reserveInventory(
+  holderId: string,
+  items: PricingItem[],
+  now: number = Date.now()
+): Promise<InventoryReservation> {
+  const merged = mergePricingItems(items);
+  const products = await loadProducts(merged);
+  const backend = getInventoryStore();
+  const expiresAt = now + INVENTORY.HOLD_TTL_SECONDS * 1000;
+
+  return withVariantLocks(merged, async () => {
+    const levels = await readStockLevels(merged, products, holderId, now);
+    const issues = findStockIssues(
+      merged.map((item) => ({ ...item, title: productTitle(products, item.productId) })),
+      levels
+    );
+    if (issues.length > 0) {
+      await backend.del(cacheKeys.inventoryHold(holderId));
+      throw insufficientStock(issues);
+    }
+
+    const hold: InventoryHold = {
+      items: Object.fromEntries(
+        merged.map((item) => [lineKey(item.productId, item.variantId), item.quantity])
+      ),
+      expiresAt,
+    };
+    await backend.set(cacheKeys.inventoryHold(holderId), hold, INVENTORY.HOLD_TTL_SECONDS);
+    await backend.addToSets(
+      merged.map((item) => cacheKeys.inventoryHolders(item.productId, item.variantId)),
+      holderId,
+      INVENTORY.HOLD_TTL_SECONDS
+    );
+
+    return { expiresAt: new Date(expiresAt).toISOString(), levels };
+  });
+}
+
+/**
+ * Drop `holderId`'s hold, e.g. when the cart changes
+ */
+export async function releaseInventory(holderId: string): Promise<void> {
+  try {
+    await getCacheBackend().del(cacheKeys.inventoryHold(holderId));
+  } catch (error) {
+    logger.error("Failed to release inventory hold", error, { holderId });
+  }
+}
+
+/**
+ * Count an order's items against stock and release the holder's hold
+ * Resolves the items committed (those with tracked stock). Throws
+ * InventoryError (committing nothing) when an item is short, or
+ * INVENTORY_BUSY when concurrent checkouts kept the locks. Only an
+ * unreachable store lets the order through unchecked. If the order then
+ * isn't placed, give the units back with restoreInventory.
+ */
+export async function commitInventory(
+  items: PricingItem[],
+  holderId?: string,
+  now: number = Date.now()
+): Promise<PricingItem[]> {
+  const merged = mergePricingItems(items);
+  const products = await loadProducts(merged);
+  const backend = getInventoryStore();
+
+  try {
+    return await withVariantLocks(merged, async () => {
+      const levels = await readStockLevels(merged, products, holderId, now);
+      const issues = findStockIssues(
+        merged.map((item) => ({ ...item, title: productTitle(products, item.productId) })),
+        levels
+      );
+      if (issues.length > 0) throw insufficientStock(issues);
+
+      const tracked = merged.filter((item, index) => levels[index].available !== null);
+      await Promise.all(
+        tracked.map((item) =>
+          backend.increment(
+            cacheKeys.inventoryCommitted(item.productId, item.variantId),
+            INVENTORY.COMMITTED_TTL_SECONDS,
+            item.quantity
+          )
+        )
+      );
+      if (holderId) await backend.del(cacheKeys.inventoryHold(holderId));
+      return tracked;
+    });
+  } catch (error) {
+    if (!(error instanceof InventoryStoreUnavailableError)) throw error;
+    // The catalog still refuses unavailable variants when the order is priced
+    logger.error("Inventory store unavailable; placing order unchecked", error.cause);
+    return [];
+  }
+}
+
+/**
+ * Give back units committed (by commitInventory) for an order that wasn't placed
+ */
+export async function restoreInventory(items: PricingItem[]): Promise<void> {
+  const backend = getCacheBackend();
+  try {
+    await Promise.all(
+      mergePricingItems(items).map((item) =>
+        backend.increment(
+          cacheKeys.inventoryCommitted(item.productId, item.variantId),
+          INVENTORY.COMMITTED_TTL_SECONDS,
+          -item.quantity
+        )
+      )
+    );
+  } catch (error) {
+    logger.error("Failed to restore committed inventory", error);
+  }
+}
+
+/**
+ * Forget the committed units of variants whose catalog stock now reflects
+ * the orders placed against it
+ */
+export async function resetCommittedInventory(
+  productId: string,
+  variantIds: string[]
+): Promise<void> {
+  if (variantIds.length === 0) return;
+  try {
+    await getCacheBackend().del(
+      ...variantIds.map((variantId) => cacheKeys.inventoryCommitted(productId, variantId))
+    );
+  } catch (error) {
+    logger.error("Failed to reset committed inventory", error, { productId });
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Journey Tracking
+ * Records visitors' progress through the conversion funnels defined in
+ * `lib/utils/funnel-utils.ts` into `user_journeys`, through the
+ * `record_journey_step` database function: a step continues the visitor's
+ * open journey when it is further along, and otherwise starts a new one.
+ * Steps come from analytics events as they are ingested, and from the server
+ * where only it knows the outcome (order placed, order paid, Shopify invoice
+ * issued). Journeys whose next step doesn't arrive in time are marked
+ * dropped off by `mark_dropped_journeys`.
+ *
+ * Like the events, nothing is recorded without analytics consent.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { cookies } from "next/headers";
+import { getCartSessionId } from "@/lib/cart-session";
+import { ANALYTICS_ID_COOKIE, parseAnalyticsIds } from "@/lib/utils/analytics-utils";
+import {
+  ATTRIBUTION_COOKIE,
+  type Attribution,
+  parseAttribution,
+} from "@/lib/utils/attribution-utils";
+import { CONSENT_COOKIE, parseConsent } from "@/lib/utils/consent-utils";
+import {
+  FUNNELS,
+  type FunnelName,
+  type FunnelStep,
+  type FunnelStepName,
+  funnelStepForEvent,
+  funnelStepOrder,
+} from "@/lib/utils/funnel-utils";
+import { logger } from "@/lib/utils/logger";
+import type { AnalyticsBatch } from "@/lib/validations";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface JourneyVisitor {
+  sessionId: string | null;
+  anonymousId: string | null;
+  userId: string | null;
+  /** The guest cart session, which links the journey to anonymous_carts */
+  cartSessionId: string | null;
+  attribution: Attribution;
+}
+
+export interface JourneyStepDetails {
+  pageUrl?: string;
+  conversionValue?: number;
+  /** Orders are recorded as `order_id`, so later steps can find the journey */
+  orderId?: string;
+  properties?: Record<string, unknown>;
+}
+
+async function recordStep(
+  funnel: FunnelName,
+  step: string,
+  visitor: JourneyVisitor,
+  details: JourneyStepDetails
+): Promise<string> {
+  const steps = FUNNELS[funnel].steps as readonly FunnelStep[];
+  const order = funnelStepOrder(funnel, step);
+  const { timeoutMinutes } = steps[order - 1];
+
+  const { data, error } = await createAdminClient().rpc("record_journey_step", {
+    p_journey_type: funnel,
+    p_step: step,
+    p_step_order: order,
+    p_final: order === steps.length,
+    p_expires_at: timeoutMinutes
+      ? new Date(Date.now() + timeoutMinutes * 60_000).toISOString()
+      : null,
+    p_session_id: visitor.sessionId,
+    p_anonymous_id: visitor.anonymousId,
+    p_user_id: visitor.userId,
+    p_cart_session_id: visitor.cartSessionId,
+    p_utm_source: visitor.attribution.utm_source ?? null,
+    p_utm_campaign: visitor.attribution.utm_campaign ?? null,
+    p_page_url: details.pageUrl ?? null,
+    p_conversion_value: details.conversionValue ?? null,
+    p_properties: {
+      ...details.properties,
+      ...(details.orderId && { order_id: details.orderId }),
+    },
+  });
+  if (error) {
+    logger.error("Failed to record journey step", error, { funnel, step });
+    throw new Error("Failed to record journey step");
+  }
+  return data as string;
+}
+
+/**
+ * Record that a visitor reached a funnel step; resolves the journey id
+ */
+export async function recordJourneyStep<F extends FunnelName>(
+  funnel: F,
+  step: FunnelStepName<F>,
+  visitor: JourneyVisitor,
+  details: JourneyStepDetails = {}
+): Promise<string> {
+  return recordStep(funnel, step, visitor, details);
+}
+
+/**
+ * Record the funnel steps an ingested batch of analytics events reaches
+ */
+export async function recordJourneyEvents(
+  batch: AnalyticsBatch,
+  visitor: Omit<JourneyVisitor, "sessionId" | "anonymousId">
+): Promise<void> {
+  const events = [...batch.events].sort((a, b) => a.timestamp - b.timestamp);
+  for (const event of events) {
+    const reached = funnelStepForEvent(event);
+    if (!reached) continue;
+    await recordStep(
+      reached.funnel,
+      reached.step,
+      { ...visitor, sessionId: batch.sessionId, anonymousId: batch.anonymousId ?? null },
+      {
+        pageUrl: event.url,
+        properties: event.productId ? { product_id: event.productId } : undefined,
+      }
+    );
+  }
+}
+
+/**
+ * The current request's visitor, or null without analytics consent
+ * For server actions; `userId` is the signed-in customer, when known.
+ */
+export async function getJourneyVisitor(userId: string | null = null): Promise<JourneyVisitor | null> {
+  const cookieStore = await cookies();
+  if (!parseConsent(cookieStore.get(CONSENT_COOKIE)?.value)?.analytics) {
+    return null;
+  }
+
+  const ids = parseAnalyticsIds(cookieStore.get(ANALYTICS_ID_COOKIE)?.value);
+  if (!ids && !userId) return null;
+
+  return {
+    sessionId: ids?.sessionId ?? null,
+    anonymousId: ids?.anonymousId ?? null,
+    userId,
+    cartSessionId: await getCartSessionId(),
+    attribution: parseAttribution(cookieStore.get(ATTRIBUTION_COOKIE)?.value),
+  };
+}
+
+/**
+ * Record the `order` step for an order the current visitor just placed
+ * Skipped without analytics consent.
+ */
+export async function recordOrderPlaced(
+  orderId: string,
+  total: number,
+  userId: string | null = null
+): Promise<void> {
+  const visitor = await getJourneyVisitor(userId);
+  if (!visitor) return;
+  await recordJourneyStep("purchase_funnel", "order", visitor, {
+    conversionValue: total,
+    orderId,
+  });
+}
+
+/**
+ * Record the `paid` step of the purchase journey that created the order
+ * Orders placed without a recorded journey (no consent) are skipped.
+ */
+export async function recordOrderPaid(orderId: string, total: number): Promise<void> {
+  const { data: journey, error } = await createAdminClient()
+    .from("user_journeys")
+    .select("session_id, anonymous_id, user_id, cart_session_id, utm_source, utm_campaign")
+    .eq("journey_type", "purchase_funnel")
+    .eq("properties->>order_id", orderId)
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    logger.error("Failed to find the order's journey", error, { orderId });
+    throw new Error("Failed to find the order's journey");
+  }
+  if (!journey) return;
+
+  await recordJourneyStep(
+    "purchase_funnel",
+    "paid",
+    {
+      sessionId: journey.session_id,
+      anonymousId: journey.anonymous_id,
+      userId: journey.user_id,
+      cartSessionId: journey.cart_session_id,
+      attribution: {
+        utm_source: journey.utm_source ?? undefined,
+        utm_campaign: journey.utm_campaign ?? undefined,
+      },
+    },
+    { conversionValue: total, orderId }
+  );
+}
@@ -0,0 +1,270 @@
+/**
+ * Mailer
+ * Sends email through the transport EMAIL_TRANSPORT selects:
+ * - `smtp`: the server in SMTP_URL. `smtp://` upgrades with STARTTLS when the
+ *   server offers it, `smtps://` connects over TLS, and credentials in the URL
+ *   are sent with AUTH PLAIN - only over TLS, unless the server is on this
+ *   machine. A local catcher such as Mailpit works with `smtp://localhost:1025`.
+ * - `http`: POSTs each message as JSON
+ *   `{ from, to, subject, text, html, headers }` to EMAIL_HTTP_URL with
+ *   EMAIL_HTTP_TOKEN as a bearer token, the shape send APIs such as Resend's
+ *   take. The message id goes in `Idempotency-Key`, so
+ *   a provider that honours it drops a retried send it already accepted.
+ * - `file`: writes each message as an `.eml` file to EMAIL_FILE_DIR
+ * - `console` (default): logs the message, for development
+ *
+ * Messages come from EMAIL_FROM, or the store's name at its domain.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import { connect as connectTcp, type Socket } from "net";
+import path from "path";
+import { connect as connectTls } from "tls";
+import { SITE_CONFIG } from "@/lib/constants";
+import { env } from "@/lib/env-validation";
+import {
+  type EmailEnvelope,
+  type EmailMessage,
+  emailAddress,
+  formatEmailMessage,
+} from "@/lib/utils/email-utils";
+import { logger } from "@/lib/utils/logger";
+import { emailAddressSchema, emailSenderSchema } from "@/lib/validations";
+
+export type { EmailMessage } from "@/lib/utils/email-utils";
+
+type MailTransport = (message: EmailEnvelope) => Promise<void>;
+
+const SMTP_TIMEOUT_MS = 30_000;
+const HTTP_TIMEOUT_MS = 15_000;
+
+// SITE_CONFIG.domain may be a full URL
+const SITE_HOST = new URL(SITE_CONFIG.url).hostname;
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Reads SMTP replies off a socket, one per `next()` call
+ */
+function replyReader(socket: Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line[3] === "-") continue;
+
+      const reply = { code: Number(line.slice(0, 3)), text: lines.join("\n") };
+      lines = [];
+      const waiter = waiting.shift();
+      if (waiter) waiter.resolve(reply);
+      else replies.push(reply);
+    }
+  };
+  const onFailure = (error?: Error) => {
+    failure = error ?? new Error("SMTP connection closed");
+    for (const waiter of waiting.splice(0)) waiter.reject(failure);
+  };
+  const onClose = () => onFailure();
+
+  socket.on("data", onData);
+  socket.on("error", onFailure);
+  socket.on("close", onClose);
+
+  return {
+    next(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onFailure);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+function isLoopbackHost(hostname: string): boolean {
+  return hostname === "localhost" || hostname === "[::1]" || /^127(\.\d{1,3}){3}$/.test(hostname);
+}
+
+function openSocket(url: URL, secure: boolean): Promise<Socket> {
+  const port = Number(url.port) || (secure ? 465 : 587);
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? connectTls({ host: url.hostname, port, servername: url.hostname }, () => resolve(socket))
+      : connectTcp({ host: url.hostname, port }, () => resolve(socket));
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timed out")));
+    socket.once("error", reject);
+  });
+}
+
+function upgradeSocket(socket: Socket, host: string): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const secured = connectTls({ socket, servername: host }, () => resolve(secured));
+    secured.setTimeout(SMTP_TIMEOUT_MS, () => secured.destroy(new Error("SMTP timed out")));
+    secured.once("error", reject);
+  });
+}
+
+async function sendSmtp(message: EmailEnvelope): Promise<void> {
+  if (!env.SMTP_URL) {
+    throw new Error("SMTP_URL is not set");
+  }
+  const url = new URL(env.SMTP_URL);
+  let secure = url.protocol === "smtps:";
+  let socket = await openSocket(url, secure);
+  let reader = replyReader(socket);
+
+  const expect = async (codes: number[]) => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  };
+  const command = (line: string, codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes);
+  };
+
+  try {
+    await expect([220]);
+    const features = await command(`EHLO ${SITE_HOST}`, [250]);
+
+    if (url.protocol === "smtp:" && /^STARTTLS$/im.test(features.text)) {
+      await command("STARTTLS", [220]);
+      reader.detach();
+      socket = await upgradeSocket(socket, url.hostname);
+      secure = true;
+      reader = replyReader(socket);
+      await command(`EHLO ${SITE_HOST}`, [250]);
+    }
+
+    if (url.username) {
+      if (!secure && !isLoopbackHost(url.hostname)) {
+        throw new Error("SMTP server offers no TLS; refusing to send credentials in the clear");
+      }
+      const credentials = Buffer.from(
+        `\0${decodeURIComponent(url.username)}\0${decodeURIComponent(url.password)}`
+      ).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${emailAddress(message.from)}>`, [250]);
+    await command(`RCPT TO:<${emailAddress(message.to)}>`, [250, 251]);
+    await command("DATA", [354]);
+    // The message ends with CRLF, so "." alone on the next line ends the data
+    await command(`${formatEmailMessage(message)}.`, [250]);
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
+
+async function sendHttp(message: EmailEnvelope): Promise<void> {
+  if (!env.EMAIL_HTTP_URL) {
+    throw new Error("EMAIL_HTTP_URL is not set");
+  }
+
+  const response = await fetch(env.EMAIL_HTTP_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Idempotency-Key": message.id,
+      ...(env.EMAIL_HTTP_TOKEN && { Authorization: `Bearer ${env.EMAIL_HTTP_TOKEN}` }),
+    },
+    body: JSON.stringify({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      ...(message.html && { html: message.html }),
+      ...(message.headers && { headers: message.headers }),
+    }),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(`Email API error ${response.status}: ${detail.slice(0, 200)}`);
+  }
+}
+
+async function sendFile(message: EmailEnvelope): Promise<void> {
+  const directory = path.resolve(env.EMAIL_FILE_DIR);
+  await mkdir(directory, { recursive: true });
+  const name = `${message.date.toISOString().replace(/[:.]/g, "-")}-${message.id}.eml`;
+  await writeFile(path.join(directory, name), formatEmailMessage(message));
+}
+
+async function sendConsole(message: EmailEnvelope): Promise<void> {
+  logger.info("Email (console transport)", {
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+  });
+}
+
+const TRANSPORTS: Record<typeof env.EMAIL_TRANSPORT, MailTransport> = {
+  smtp: sendSmtp,
+  http: sendHttp,
+  file: sendFile,
+  console: sendConsole,
+};
+
+/**
+ * Send one email; rejects when an address is invalid or the transport
+ * fails (logged), with the transport's error as the cause
+ * Pass the same `id` when retrying a message so it keeps its Message-ID.
+ */
+export async function sendEmail(
+  message: EmailMessage,
+  { id = randomUUID() }: { id?: string } = {}
+): Promise<void> {
+  const envelope: EmailEnvelope = {
+    ...message,
+    from: env.EMAIL_FROM ?? `${SITE_CONFIG.name} <hello@${SITE_HOST}>`,
+    id,
+    date: new Date(),
+  };
+
+  // A CR or LF in an address would smuggle SMTP commands or headers in
+  if (
+    !emailAddressSchema.safeParse(envelope.to).success ||
+    !emailSenderSchema.safeParse(envelope.from).success
+  ) {
+    logger.warn("Refusing to send email with an invalid address", {
+      subject: message.subject,
+    });
+    throw new Error("Invalid email address");
+  }
+
+  try {
+    await TRANSPORTS[env.EMAIL_TRANSPORT](envelope);
+  } catch (error) {
+    logger.error("Failed to send email", error, {
+      transport: env.EMAIL_TRANSPORT,
+      subject: message.subject,
+    });
+    throw new Error("Failed to send email", { cause: error });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Newsletter Subscriptions
+ * Double opt-in: a signup is stored unconfirmed and the address is emailed
+ * a confirmation link (`newsletter_confirmation` template); the subscription
+ * only counts once the link is opened, within
+ * NEWSLETTER.CONFIRMATION_TTL_HOURS.
+ *
+ * Only the SHA-256 of each link's token is stored. Signing up again resends
+ * the link, at most every NEWSLETTER.RESEND_AFTER_MINUTES, and an address
+ * that is already confirmed is left alone without saying so.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { NEWSLETTER, SITE_CONFIG } from "@/lib/constants";
+import { queueEmail } from "@/lib/email-queue";
+import { logger } from "@/lib/utils/logger";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Sign an address up and email it a confirmation link
+ * Expects a validated, lowercased address (`newsletterSchema`).
+ */
+export async function requestNewsletterSubscription(email: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { data: existing, error } = await supabase
+    .from("newsletter_subscriptions")
+    .select("confirmed_at, confirmation_sent_at")
+    .eq("email", email)
+    .maybeSingle();
+  if (error) {
+    logger.error("Failed to load newsletter subscription", error);
+    throw new Error("Failed to subscribe to newsletter");
+  }
+  if (existing?.confirmed_at) return;
+
+  const resendAfter = Date.now() - NEWSLETTER.RESEND_AFTER_MINUTES * 60 * 1000;
+  if (
+    existing?.confirmation_sent_at &&
+    new Date(existing.confirmation_sent_at).getTime() > resendAfter
+  ) {
+    return;
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date().toISOString();
+  const { error: saveError } = await supabase.from("newsletter_subscriptions").upsert(
+    {
+      email,
+      confirmation_token_hash: hashToken(token),
+      confirmation_sent_at: now,
+      updated_at: now,
+    },
+    { onConflict: "email" }
+  );
+  if (saveError) {
+    logger.error("Failed to save newsletter subscription", saveError);
+    throw new Error("Failed to subscribe to newsletter");
+  }
+
+  await queueEmail(
+    "newsletter_confirmation",
+    { confirmUrl: `${SITE_CONFIG.url}/api/newsletter/confirm?token=${token}` },
+    { to: email }
+  );
+}
+
+/**
+ * Confirm the subscription a link's token belongs to
+ * Resolves false when the token is unknown, used or expired.
+ */
+export async function confirmNewsletterSubscription(token: string): Promise<boolean> {
+  const sentAfter = new Date(
+    Date.now() - NEWSLETTER.CONFIRMATION_TTL_HOURS * 60 * 60 * 1000
+  ).toISOString();
+  const now = new Date().toISOString();
+
+  const { data, error } = await createAdminClient()
+    .from("newsletter_subscriptions")
+    .update({ confirmed_at: now, confirmation_token_hash: null, updated_at: now })
+    .eq("confirmation_token_hash", hashToken(token))
+    .is("confirmed_at", null)
+    .gt("confirmation_sent_at", sentAfter)
+    .select("id");
+  if (error) {
+    logger.error("Failed to confirm newsletter subscription", error);
+    throw new Error("Failed to confirm newsletter subscription");
+  }
+  return (data?.length ?? 0) > 0;
+}
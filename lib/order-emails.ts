@@ -0,0 +1,97 @@
+/**
+ * Order Emails
+ * The order confirmation and shipping update emails, built from what the
+ * order's tracking page shows (`getOrderTracking`) and sent to the email on
+ * the order. Each goes out once per order and status, however often it is
+ * requested, and links to the tracking page when tracking links are enabled.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { getOrderTracking, type OrderTracking } from "@/lib/data/orders";
+import { queueEmail } from "@/lib/email-queue";
+import { createTrackingUrl } from "@/lib/order-tracking";
+import { logger } from "@/lib/utils/logger";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+interface OrderEmailData {
+  email: string;
+  order: OrderTracking;
+}
+
+async function loadOrderEmailData(orderId: string): Promise<OrderEmailData | null> {
+  const { data, error } = await createAdminClient()
+    .from("orders")
+    .select("email")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) {
+    logger.error("Failed to load order email", error, { orderId });
+    throw new Error("Failed to load order email");
+  }
+  // Orders placed before orders kept an email have nowhere to send to
+  if (!data?.email) return null;
+
+  const order = await getOrderTracking(orderId);
+  return order ? { email: data.email, order } : null;
+}
+
+function emailItems(order: OrderTracking) {
+  return order.items.map((item) => ({
+    title: item.title,
+    variantTitle: item.variantTitle,
+    image: item.image,
+    quantity: item.quantity,
+    price: item.price,
+  }));
+}
+
+/**
+ * Email the customer their order confirmation; rejects when it couldn't be
+ * queued (logged)
+ */
+export async function sendOrderConfirmation(orderId: string): Promise<void> {
+  const data = await loadOrderEmailData(orderId);
+  if (!data) return;
+
+  await queueEmail(
+    "order_confirmation",
+    {
+      orderNumber: data.order.orderNumber,
+      items: emailItems(data.order),
+      total: data.order.total,
+      currency: data.order.currency,
+      trackingUrl: createTrackingUrl(orderId),
+    },
+    { to: data.email, idempotencyKey: `order_confirmation:${orderId}` }
+  );
+}
+
+/**
+ * Email the customer that their order shipped or was delivered; rejects when
+ * it couldn't be queued (logged)
+ */
+export async function sendShippingUpdate(
+  orderId: string,
+  status: "shipped" | "delivered"
+): Promise<void> {
+  const data = await loadOrderEmailData(orderId);
+  if (!data) return;
+
+  await queueEmail(
+    "shipping_update",
+    {
+      orderNumber: data.order.orderNumber,
+      status,
+      shipments: data.order.shipments.map((shipment) => ({
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        trackingUrl: shipment.trackingUrl,
+      })),
+      items: emailItems(data.order),
+      currency: data.order.currency,
+      trackingUrl: createTrackingUrl(orderId),
+    },
+    { to: data.email, idempotencyKey: `shipping_update:${orderId}:${status}` }
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Order Placement Service
+ * Places orders through the `place_order` database function, which writes
+ * the order, its items, the initial status history row and the promotion
+ * redemptions, and empties the customer's carts, in one transaction. A
+ * failure anywhere leaves nothing behind.
+ *
+ * Every placement carries an idempotency key from the client (one per
+ * checkout attempt). Retrying with the same key returns the order the first
+ * request placed instead of creating another, so double submits and
+ * network retries are safe.
+ *
+ * Stock is committed (`lib/inventory.ts`) before the order is written, from
+ * the shopper's checkout hold when they have one, and given back if the
+ * order isn't placed.
+ *
+ * A newly placed order is confirmed to the customer by email
+ * (`lib/order-emails.ts`).
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { SHOP_CURRENCY } from "@/lib/currencies";
+import { toPromotionRedemptions } from "@/lib/discounts";
+import { OrderPlacementError, PricingError } from "@/lib/errors";
+import { commitInventory, restoreInventory } from "@/lib/inventory";
+import { sendOrderConfirmation } from "@/lib/order-emails";
+import type { ConfirmedPricing } from "@/lib/pricing";
+import { logger } from "@/lib/utils/logger";
+import type { AppliedDiscount } from "@/lib/utils/promotion-utils";
+import { toShippingLine, type OrderShippingLine } from "@/lib/utils/shipping-utils";
+import type { TaxLine } from "@/lib/utils/tax-utils";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+// SQLSTATEs raised by place_order
+const IDEMPOTENCY_CONFLICT = "OG409";
+const PROMOTION_LIMIT_REACHED = "OG410";
+
+export interface NewOrderItem {
+  productId: string;
+  variantId: string;
+  quantity: number;
+  price: number;
+}
+
+export interface NewOrder {
+  email?: string | null;
+  total: number;
+  currency?: string;
+  exchangeRate?: number;
+  discountTotal?: number;
+  discounts?: AppliedDiscount[];
+  shippingLine?: OrderShippingLine | null;
+  taxLines?: TaxLine[];
+  taxesIncluded?: boolean;
+  shippingAddress?: object | null;
+  billingAddress?: object | null;
+  items: NewOrderItem[];
+}
+
+export interface OrderOwner {
+  userId: string | null;
+  /** Anonymous cart the order came from; its items are cleared */
+  anonymousCartId?: string | null;
+  /** Holder of the checkout's inventory hold, converted by this order */
+  inventoryHolder?: string;
+}
+
+export interface PlacedOrder {
+  id: string;
+  orderNumber: string;
+  /** False when the key had already placed this order */
+  created: boolean;
+}
+
+/**
+ * The totals, lines and promotions of an order priced by confirmPriceQuote
+ */
+export function orderFromPricing(pricing: ConfirmedPricing): NewOrder {
+  return {
+    total: pricing.totals.total,
+    currency: pricing.currency,
+    exchangeRate: pricing.exchangeRate,
+    discountTotal: pricing.totals.discount,
+    discounts: pricing.discounts,
+    shippingLine: toShippingLine(pricing.shippingMethod),
+    taxLines: pricing.taxLines,
+    taxesIncluded: pricing.taxesIncluded,
+    items: pricing.lines.map((line) => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: line.quantity,
+      price: line.unitPrice,
+    })),
+  };
+}
+
+/**
+ * Place an order, or return the one already placed with `idempotencyKey`
+ * Throws InventoryError when an item is out of stock, PricingError
+ * (DISCOUNT_UNAVAILABLE) when a promotion's limit was reached since the order
+ * was quoted, and OrderPlacementError when the key was used for another
+ * customer's order.
+ */
+export async function placeOrder(
+  idempotencyKey: string,
+  { userId, anonymousCartId, inventoryHolder }: OrderOwner,
+  order: NewOrder
+): Promise<PlacedOrder> {
+  const supabase = createAdminClient();
+
+  // A retry must not be turned away because its own order took the last unit
+  const { data: existing } = await supabase
+    .from("orders")
+    .select("id, order_number, user_id")
+    .eq("idempotency_key", idempotencyKey)
+    .maybeSingle();
+  if (existing) {
+    if (existing.user_id !== userId) {
+      throw new OrderPlacementError(
+        "This checkout was already used for another order",
+        "IDEMPOTENCY_CONFLICT"
+      );
+    }
+    return { id: existing.id, orderNumber: existing.order_number, created: false };
+  }
+
+  const committed = await commitInventory(order.items, inventoryHolder);
+
+  const { data, error } = await supabase
+    .rpc("place_order", {
+      p_idempotency_key: idempotencyKey,
+      p_user_id: userId,
+      p_anonymous_cart_id: anonymousCartId ?? null,
+      p_order: {
+        email: order.email?.trim().toLowerCase() ?? null,
+        total: order.total,
+        currency: order.currency ?? SHOP_CURRENCY,
+        shop_currency: SHOP_CURRENCY,
+        exchange_rate: order.exchangeRate ?? 1,
+        discount_total: order.discountTotal ?? 0,
+        discounts: order.discounts ?? [],
+        shipping_line: order.shippingLine ?? null,
+        tax_lines: order.taxLines ?? [],
+        taxes_included: order.taxesIncluded ?? false,
+        shipping_address: order.shippingAddress ?? null,
+        billing_address: order.billingAddress ?? null,
+      },
+      p_items: order.items.map((item) => ({
+        product_id: item.productId,
+        variant_id: item.variantId,
+        quantity: item.quantity,
+        price: item.price,
+      })),
+      p_promotions: toPromotionRedemptions(order.discounts ?? []),
+    })
+    .single<{ order_id: string; order_number: string; created: boolean }>();
+
+  // A concurrent retry placed it first, or nothing was written
+  if (error || !data?.created) await restoreInventory(committed);
+
+  if (error?.code === PROMOTION_LIMIT_REACHED) {
+    throw new PricingError(
+      "A discount on your order is no longer available. Please review your order total",
+      "DISCOUNT_UNAVAILABLE"
+    );
+  }
+  if (error?.code === IDEMPOTENCY_CONFLICT) {
+    throw new OrderPlacementError(
+      "This checkout was already used for another order",
+      "IDEMPOTENCY_CONFLICT"
+    );
+  }
+  if (error || !data) {
+    logger.error("Order placement failed", error, { idempotencyKey, userId });
+    throw new Error("Failed to place order");
+  }
+
+  if (data.created) {
+    logger.info("Order placed", { orderId: data.order_id, userId });
+    // A failure is logged and doesn't fail the placement
+    await sendOrderConfirmation(data.order_id).catch(() => undefined);
+  } else {
+    logger.info("Order placement replayed", { orderId: data.order_id, idempotencyKey });
+  }
+  return { id: data.order_id, orderNumber: data.order_number, created: data.created };
+}
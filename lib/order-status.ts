@@ -0,0 +1,121 @@
+/**
+ * Order Status Service
+ * The only path that changes an order's status. Each change is checked
+ * against the lifecycle and store policies in `lib/utils/order-utils.ts`,
+ * then applied by the `transition_order_status` database function, which
+ * updates the order only if it is still in the expected status and appends
+ * the matching `order_status_history` row in the same transaction.
+ * Customers are emailed when their order ships and when it is delivered.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { OrderStatusError } from "@/lib/errors";
+import { recordOrderPaid } from "@/lib/journeys";
+import { sendShippingUpdate } from "@/lib/order-emails";
+import { logger } from "@/lib/utils/logger";
+import {
+  checkOrderTransition,
+  isOrderStatus,
+  normalizeOrderStatus,
+  type OrderActor,
+  type OrderStatus,
+} from "@/lib/utils/order-utils";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+export interface OrderTransitionOptions {
+  actor: OrderActor;
+  notes?: string;
+  /** Require the order to belong to this user (customer requests) */
+  ownerId?: string;
+}
+
+export interface OrderTransitionResult {
+  orderId: string;
+  from: OrderStatus;
+  to: OrderStatus;
+}
+
+/**
+ * Move an order to a new status
+ * Throws OrderStatusError when the order is missing, the change is not
+ * allowed, or another change landed first.
+ */
+export async function transitionOrderStatus(
+  orderId: string,
+  to: OrderStatus,
+  { actor, notes, ownerId }: OrderTransitionOptions
+): Promise<OrderTransitionResult> {
+  const supabase = createAdminClient();
+
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select("id, user_id, status, created_at, total")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error("Failed to load order for status change", error, { orderId });
+    throw new Error("Failed to load order");
+  }
+  // Someone else's order looks the same as a missing one
+  if (!order || (ownerId !== undefined && order.user_id !== ownerId)) {
+    throw new OrderStatusError("Order not found", "ORDER_NOT_FOUND");
+  }
+
+  const from = normalizeOrderStatus(order.status);
+  if (!isOrderStatus(from)) {
+    throw new OrderStatusError(
+      `Order has unknown status "${order.status}"`,
+      "INVALID_TRANSITION"
+    );
+  }
+
+  const check = checkOrderTransition(to, {
+    status: from,
+    placedAt: order.created_at,
+    actor,
+  });
+  if (!check.allowed) {
+    throw new OrderStatusError(check.reason, check.code);
+  }
+
+  const { data: applied, error: rpcError } = await supabase.rpc(
+    "transition_order_status",
+    {
+      p_order_id: orderId,
+      // Match the stored value so legacy rows ("Pending") still compare equal
+      p_from_status: order.status,
+      p_to_status: to,
+      p_changed_by: actor.userId,
+      p_notes: notes ?? null,
+    }
+  );
+
+  if (rpcError) {
+    logger.error("Order status change failed", rpcError, { orderId, from, to });
+    throw new Error("Failed to update order status");
+  }
+  if (!applied) {
+    throw new OrderStatusError(
+      "This order was updated by someone else. Please refresh and try again",
+      "CONFLICT"
+    );
+  }
+
+  logger.info("Order status changed", {
+    orderId,
+    from,
+    to,
+    actor: actor.type,
+  });
+  if (to === "paid") {
+    // Completes the purchase funnel; a failure is logged and doesn't undo the change
+    await recordOrderPaid(orderId, Number(order.total)).catch(() => undefined);
+  }
+  if (to === "shipped" || to === "delivered") {
+    // Tells the customer; a failure is logged and doesn't undo the change
+    await sendShippingUpdate(orderId, to).catch(() => undefined);
+  }
+  return { orderId, from, to };
+}
@@ -0,0 +1,85 @@
+/**
+ * Order Tracking Links
+ * Signed tokens that let a customer open their order's tracking page from a
+ * confirmation email without re-entering the order number and email.
+ *
+ * Token format: `${orderId}.${expiresAt}.${signature}` where the signature
+ * is base64url HMAC-SHA256 of `${orderId}.${expiresAt}` keyed with
+ * ORDER_TRACKING_SECRET and `expiresAt` is unix seconds.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { SITE_CONFIG } from "@/lib/constants";
+import { env } from "@/lib/env-validation";
+
+/** How long emailed tracking links stay valid */
+const TRACKING_LINK_TTL_SECONDS = 60 * 60 * 24 * 90;
+
+function getSecret(): string | null {
+  return env.ORDER_TRACKING_SECRET ?? null;
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Whether signed tracking links can be issued and verified
+ */
+export function trackingLinksEnabled(): boolean {
+  return getSecret() !== null;
+}
+
+/**
+ * Create a tracking token for an order
+ * Returns null when ORDER_TRACKING_SECRET is not configured
+ */
+export function createTrackingToken(
+  orderId: string,
+  now: number = Date.now()
+): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const expiresAt = Math.floor(now / 1000) + TRACKING_LINK_TTL_SECONDS;
+  const payload = `${orderId}.${expiresAt}`;
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+/**
+ * Absolute tracking page URL for emails, or null without a secret
+ */
+export function createTrackingUrl(orderId: string): string | null {
+  const token = createTrackingToken(orderId);
+  return token
+    ? `${SITE_CONFIG.url}/track-order?token=${encodeURIComponent(token)}`
+    : null;
+}
+
+/**
+ * Verify a tracking token and return the order id it grants access to
+ */
+export function verifyTrackingToken(
+  token: string,
+  now: number = Date.now()
+): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [orderId, expiresAt, signature] = parts;
+
+  const expected = Buffer.from(sign(secret, `${orderId}.${expiresAt}`));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  const expiry = Number(expiresAt);
+  if (!Number.isInteger(expiry) || expiry < now / 1000) return null;
+
+  return orderId;
+}
@@ -0,0 +1,63 @@
+/**
+ * Performance Metrics
+ * Stores page-load reports from the web vitals reporter (`lib/web-vitals.ts`)
+ * in `performance_metrics`, one row per sampled page load. The server adds
+ * the device type read from the user agent and the release (the deployed
+ * commit), so the report page can compare a deploy with the one before it.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { logger } from "@/lib/utils/logger";
+import { parseUserAgent } from "@/lib/utils/request-utils";
+import type { WebVitalsReport } from "@/lib/validations";
+import { createAdminClient } from "@/utils/supabase/admin";
+
+/**
+ * The deployment serving this request, or null outside Vercel
+ */
+export function getRelease(): string | null {
+  return process.env.VERCEL_GIT_COMMIT_SHA?.slice(0, 12) || null;
+}
+
+/**
+ * Store a page load's report; reports from crawlers are dropped
+ * Resolves whether a row was stored.
+ */
+export async function recordPerformanceReport(
+  report: WebVitalsReport,
+  userAgent: string | null
+): Promise<boolean> {
+  const device = userAgent ? parseUserAgent(userAgent) : null;
+  if (device?.deviceType === "bot") return false;
+
+  const { vitals, navigation } = report;
+  const { error } = await createAdminClient()
+    .from("performance_metrics")
+    .insert({
+      session_id: report.sessionId,
+      page_url: report.url,
+      route: report.route,
+      release: getRelease(),
+      device_type: device?.deviceType ?? null,
+      navigation_type: navigation?.type ?? null,
+      lcp: vitals.lcp ?? null,
+      inp: vitals.inp ?? null,
+      cls: vitals.cls ?? null,
+      fcp: vitals.fcp ?? null,
+      ttfb: vitals.ttfb ?? null,
+      fid: vitals.fid ?? null,
+      dns_lookup_time: navigation?.dns ?? null,
+      tcp_connect_time: navigation?.tcp ?? null,
+      tls_setup_time: navigation?.tls ?? null,
+      request_time: navigation?.request ?? null,
+      response_time: navigation?.response ?? null,
+      dom_processing_time: navigation?.domProcessing ?? null,
+      load_event_time: navigation?.loadEvent ?? null,
+    });
+  if (error) {
+    logger.error("Failed to record performance metrics", error, { route: report.route });
+    throw new Error("Failed to record performance metrics");
+  }
+  return true;
+}
@@ -0,0 +1,18 @@
+/**
+ * Presentment Currency
+ * Reads the customer's currency from the request cookie set by the currency
+ * switcher or, on a first visit, by `middleware.ts`.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { cookies } from "next/headers";
+import { CURRENCY_COOKIE, resolveCurrency } from "@/lib/currencies";
+
+/**
+ * The current request's presentment currency; SHOP_CURRENCY when unset or unsupported
+ */
+export async function getPresentmentCurrency(): Promise<string> {
+  const cookieStore = await cookies();
+  return resolveCurrency(cookieStore.get(CURRENCY_COOKIE)?.value);
+}
@@ -0,0 +1,457 @@
+/**
+ * Checkout Pricing
+ * Prices cart items from COSMOS variant prices, charges the chosen shipping
+ * method for the destination's zone, applies promotions (`lib/discounts.ts`),
+ * taxes the discounted order for the destination's jurisdiction and issues
+ * signed quotes. Quotes are in the customer's presentment currency: catalog
+ * prices are converted with the currency's rounding rule, shipping rates and
+ * fixed discounts at the exchange rate (`lib/currencies.ts`).
+ * The browser only ever displays a quote; when an order is placed its token
+ * is verified and the items are re-priced, and the order is rejected if the
+ * totals moved since the customer saw them.
+ *
+ * Token format: `${payload}.${signature}` where payload is base64url JSON of
+ * the priced lines, currency, shipping zone and method, tax jurisdiction,
+ * discount code and applied promotions, totals (in cents) and expiry, and the
+ * signature is base64url HMAC-SHA256 of the payload keyed with
+ * CHECKOUT_QUOTE_SECRET.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { PRICING } from "@/lib/constants";
+import { getCurrency, resolveCurrency, SHOP_CURRENCY } from "@/lib/currencies";
+import { getProductById } from "@/lib/data/products";
+import { resolveDiscounts, type DiscountRequest } from "@/lib/discounts";
+import { env } from "@/lib/env-validation";
+import { PricingError } from "@/lib/errors";
+import {
+  DEFAULT_SHIPPING_DESTINATION,
+  type ShippingDestination,
+} from "@/lib/shipping";
+import type { ApiProduct } from "@/lib/types";
+import {
+  convertAmount,
+  convertPrice,
+  toShopAmount,
+} from "@/lib/utils/currency-utils";
+import { logger } from "@/lib/utils/logger";
+import {
+  calculateQuoteTotals,
+  fromCents,
+  mergePricingItems,
+  quoteTotalsEqual,
+  summarizeShipment,
+  toCents,
+  type PriceQuote,
+  type PricingItem,
+  type QuoteLine,
+  type QuoteTotals,
+} from "@/lib/utils/pricing-utils";
+import {
+  findShippingZone,
+  getShippingOptions,
+  type ShippingOption,
+} from "@/lib/utils/shipping-utils";
+import type { AppliedDiscount } from "@/lib/utils/promotion-utils";
+import {
+  calculateTaxes,
+  findTaxJurisdiction,
+  type TaxLine,
+} from "@/lib/utils/tax-utils";
+
+interface QuotePayload {
+  /** [productId, variantId, quantity, unitPriceCents] */
+  lines: [string, string, number, number][];
+  /** Presentment currency every amount is in */
+  cur: string;
+  /** Shipping zone id of the destination */
+  zone: string | null;
+  /** Shipping option id */
+  ship: string | null;
+  /** Tax jurisdiction id of the destination */
+  tax: string | null;
+  /** Discount code entered by the customer */
+  code: string | null;
+  /** Applied promotion ids */
+  promos: string[];
+  totals: Record<keyof QuoteTotals, number>;
+  /** Unix seconds */
+  exp: number;
+}
+
+export interface QuoteOptions {
+  /** Defaults to an estimate for DEFAULT_SHIPPING_DESTINATION */
+  destination?: ShippingDestination;
+  /** Shipping option id; the cheapest option when missing or unavailable */
+  shippingMethod?: string;
+  discountCode?: string;
+  /** Checks per-customer promotion limits; assumed met when missing */
+  email?: string;
+  /** Presentment currency; SHOP_CURRENCY when missing or unsupported */
+  currency?: string;
+}
+
+export interface ConfirmedPricing {
+  currency: string;
+  /** Units of `currency` per unit of SHOP_CURRENCY the order was priced at */
+  exchangeRate: number;
+  lines: QuoteLine[];
+  totals: QuoteTotals;
+  shippingMethod: ShippingOption | null;
+  discounts: AppliedDiscount[];
+  taxLines: TaxLine[];
+  taxesIncluded: boolean;
+}
+
+interface PricedOrder extends ConfirmedPricing {
+  shippingOptions: ShippingOption[];
+  discountCode: PriceQuote["discountCode"];
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", env.CHECKOUT_QUOTE_SECRET)
+    .update(payload)
+    .digest("base64url");
+}
+
+function itemKey(productId: string, variantId: string): string {
+  return `${productId}:${variantId}`;
+}
+
+/**
+ * Price items from the catalog, in `currency`
+ * Throws PricingError when a product or variant is gone or unavailable.
+ */
+export async function priceItems(
+  items: PricingItem[],
+  currency: string = SHOP_CURRENCY
+): Promise<QuoteLine[]> {
+  const merged = mergePricingItems(items);
+  const productIds = [...new Set(merged.map((item) => item.productId))];
+  const products = new Map<string, ApiProduct | null>(
+    await Promise.all(
+      productIds.map(
+        async (id) => [id, await getProductById(id, { context: "ssr" })] as const
+      )
+    )
+  );
+
+  return merged.map((item) => {
+    const product = products.get(item.productId);
+    const variant = product?.variants.find(
+      (v) => String(v.id) === item.variantId
+    );
+    if (!product || !variant || variant.available === false) {
+      throw new PricingError(
+        product
+          ? `"${product.title}" is no longer available in this option`
+          : "An item in your cart is no longer available",
+        "ITEM_UNAVAILABLE"
+      );
+    }
+
+    const unitPrice = convertPrice(Number(variant.price), currency);
+    const compareAtPrice = variant.compare_at_price
+      ? convertPrice(Number(variant.compare_at_price), currency)
+      : null;
+    return {
+      ...item,
+      title: product.title,
+      variantTitle:
+        variant.title && variant.title !== "Default Title" ? variant.title : null,
+      image: variant.featured_image ?? product.images[0]?.src ?? null,
+      unitPrice,
+      compareAtPrice:
+        compareAtPrice !== null && compareAtPrice > unitPrice ? compareAtPrice : null,
+      lineTotal: (toCents(unitPrice) * item.quantity) / 100,
+      grams: Number(variant.grams) || 0,
+      requiresShipping: variant.requires_shipping !== false,
+      taxable: variant.taxable !== false,
+      discount: 0,
+      tax: 0,
+    };
+  });
+}
+
+/**
+ * Price items, the chosen shipping method, promotions and tax for a destination
+ */
+async function priceOrder(
+  items: PricingItem[],
+  destination: ShippingDestination,
+  shippingMethod: string | undefined,
+  discount: DiscountRequest,
+  currency: string,
+  now: number
+): Promise<PricedOrder> {
+  const priced = await priceItems(items, currency);
+  const shipment = summarizeShipment(priced);
+
+  let shippingOptions: ShippingOption[] = [];
+  let selected: ShippingOption | null = null;
+  if (shipment) {
+    // Rate tables and free-shipping thresholds are in the shop currency
+    shippingOptions = getShippingOptions(
+      destination,
+      { ...shipment, subtotal: toShopAmount(shipment.subtotal, currency) },
+      new Date(now)
+    ).map((option) => ({ ...option, price: convertAmount(option.price, currency) }));
+    if (shippingOptions.length === 0) {
+      throw new PricingError(
+        "We don't ship to this destination yet",
+        "SHIPPING_UNAVAILABLE"
+      );
+    }
+    selected =
+      shippingOptions.find((option) => option.id === shippingMethod) ??
+      shippingOptions[0];
+  }
+
+  const shipping = selected?.price ?? 0;
+  const promotions = await resolveDiscounts(priced, selected, discount, now, currency);
+  const discounted = priced.map((line, index) => ({
+    ...line,
+    discount: fromCents(promotions.lineDiscounts[index]),
+  }));
+
+  const jurisdiction = findTaxJurisdiction(destination);
+  const taxes = calculateTaxes(
+    jurisdiction,
+    discounted.map((line) => ({
+      amount: fromCents(toCents(line.lineTotal) - toCents(line.discount)),
+      taxable: line.taxable,
+    })),
+    fromCents(toCents(shipping) - promotions.shippingDiscount)
+  );
+  const discountTotal =
+    promotions.lineDiscounts.reduce((sum, cents) => sum + cents, 0) +
+    promotions.shippingDiscount;
+
+  return {
+    currency,
+    exchangeRate: getCurrency(currency)?.rate ?? 1,
+    lines: discounted.map((line, index) => ({ ...line, tax: taxes.lineTaxes[index] })),
+    totals: calculateQuoteTotals(priced, {
+      shipping,
+      discount: fromCents(discountTotal),
+      tax: taxes.total,
+    }),
+    shippingOptions,
+    shippingMethod: selected,
+    discounts: promotions.applied,
+    discountCode: promotions.codeStatus,
+    taxLines: taxes.taxLines,
+    taxesIncluded: Boolean(jurisdiction?.taxesIncluded),
+  };
+}
+
+/**
+ * Price items and sign the result for checkout
+ */
+export async function createPriceQuote(
+  items: PricingItem[],
+  {
+    destination = DEFAULT_SHIPPING_DESTINATION,
+    shippingMethod,
+    discountCode,
+    email,
+    currency: requestedCurrency,
+  }: QuoteOptions = {},
+  now: number = Date.now()
+): Promise<PriceQuote> {
+  const {
+    currency,
+    lines,
+    totals,
+    shippingOptions,
+    shippingMethod: selected,
+    discounts,
+    discountCode: codeStatus,
+    taxLines,
+    taxesIncluded,
+  } = await priceOrder(
+    items,
+    destination,
+    shippingMethod,
+    { code: discountCode, email },
+    resolveCurrency(requestedCurrency),
+    now
+  );
+  const exp = Math.floor(now / 1000) + PRICING.QUOTE_TTL_SECONDS;
+
+  const payload: QuotePayload = {
+    lines: lines.map((line) => [
+      line.productId,
+      line.variantId,
+      line.quantity,
+      toCents(line.unitPrice),
+    ]),
+    cur: currency,
+    zone: findShippingZone(destination)?.id ?? null,
+    ship: selected?.id ?? null,
+    tax: findTaxJurisdiction(destination)?.id ?? null,
+    code: codeStatus?.applied ? codeStatus.code : null,
+    promos: discounts.map((discount) => discount.id),
+    totals: {
+      subtotal: toCents(totals.subtotal),
+      discount: toCents(totals.discount),
+      shipping: toCents(totals.shipping),
+      tax: toCents(totals.tax),
+      total: toCents(totals.total),
+    },
+    exp,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+  return {
+    currency,
+    lines,
+    totals,
+    destination,
+    shippingOptions,
+    shippingMethod: selected,
+    discounts,
+    discountCode: codeStatus,
+    taxLines,
+    taxesIncluded,
+    expiresAt: new Date(exp * 1000).toISOString(),
+    token: `${encoded}.${sign(encoded)}`,
+  };
+}
+
+function readQuoteToken(token: string, now: number): QuotePayload {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) {
+    throw new PricingError("Invalid checkout quote", "QUOTE_INVALID");
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new PricingError("Invalid checkout quote", "QUOTE_INVALID");
+  }
+
+  const payload = JSON.parse(
+    Buffer.from(encoded, "base64url").toString("utf8")
+  ) as QuotePayload;
+  if (payload.exp < now / 1000) {
+    throw new PricingError(
+      "Your checkout session expired. Please review your order total",
+      "QUOTE_EXPIRED"
+    );
+  }
+  return payload;
+}
+
+/**
+ * Verify the quote a customer accepted and re-price the order
+ * Resolves the server's pricing only when the items, shipping zone and tax
+ * jurisdiction match
+ * the quote and every price and total is unchanged; otherwise throws
+ * PricingError.
+ */
+export async function confirmPriceQuote(
+  items: PricingItem[],
+  token: string,
+  { destination, email }: { destination: ShippingDestination; email?: string },
+  now: number = Date.now()
+): Promise<ConfirmedPricing> {
+  const payload = readQuoteToken(token, now);
+  if (
+    (findShippingZone(destination)?.id ?? null) !== payload.zone ||
+    (findTaxJurisdiction(destination)?.id ?? null) !== payload.tax
+  ) {
+    throw new PricingError(
+      "Your shipping address changed. Please review your shipping and tax",
+      "QUOTE_INVALID"
+    );
+  }
+  const merged = mergePricingItems(items);
+
+  const quoted = new Map(
+    payload.lines.map(([productId, variantId, quantity, unitCents]) => [
+      itemKey(productId, variantId),
+      { quantity, unitCents },
+    ])
+  );
+  const sameItems =
+    quoted.size === merged.length &&
+    merged.every(
+      (item) =>
+        quoted.get(itemKey(item.productId, item.variantId))?.quantity ===
+        item.quantity
+    );
+  if (!sameItems) {
+    throw new PricingError(
+      "Your cart changed. Please review your order total",
+      "QUOTE_INVALID"
+    );
+  }
+
+  const {
+    currency,
+    exchangeRate,
+    lines,
+    totals,
+    shippingMethod,
+    discounts,
+    taxLines,
+    taxesIncluded,
+  } = await priceOrder(
+    merged,
+    destination,
+    payload.ship ?? undefined,
+    { code: payload.code ?? undefined, email },
+    resolveCurrency(payload.cur),
+    now
+  );
+
+  // A promotion the customer was quoted must still apply (limits, first order)
+  const applied = new Set(discounts.map((discount) => discount.id));
+  if (
+    applied.size !== payload.promos.length ||
+    !payload.promos.every((id) => applied.has(id))
+  ) {
+    throw new PricingError(
+      "A discount on your order is no longer available. Please review your order total",
+      "DISCOUNT_UNAVAILABLE"
+    );
+  }
+  const quotedTotals: QuoteTotals = {
+    subtotal: payload.totals.subtotal / 100,
+    discount: payload.totals.discount / 100,
+    shipping: payload.totals.shipping / 100,
+    tax: payload.totals.tax / 100,
+    total: payload.totals.total / 100,
+  };
+
+  const pricesMatch = lines.every(
+    (line) =>
+      quoted.get(itemKey(line.productId, line.variantId))?.unitCents ===
+      toCents(line.unitPrice)
+  );
+  const sameMethod = (shippingMethod?.id ?? null) === payload.ship;
+  if (!pricesMatch || !sameMethod || !quoteTotalsEqual(totals, quotedTotals)) {
+    logger.warn("Checkout quote no longer matches catalog prices", {
+      quoted: payload.totals.total,
+      current: toCents(totals.total),
+    });
+    throw new PricingError(
+      "Prices in your cart have changed. Please review your order total",
+      "PRICE_CHANGED"
+    );
+  }
+
+  return {
+    currency,
+    exchangeRate,
+    lines,
+    totals,
+    shippingMethod,
+    discounts,
+    taxLines,
+    taxesIncluded,
+  };
+}
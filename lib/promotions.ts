@@ -0,0 +1,125 @@
+/**
+ * Promotion Registry
+ * Discount codes and automatic promotions. Checkout pricing evaluates these
+ * server-side (`lib/discounts.ts`); redemptions are recorded per order so
+ * usage limits hold across instances.
+ *
+ * A promotion with a `code` applies only when the customer enters it; one
+ * without applies automatically whenever its conditions are met. When several
+ * qualify, the largest savings are applied first and the rest only if every
+ * promotion involved `combinesWith` the others' discount classes.
+ */
+
+import type { ShippingService } from "@/lib/shipping";
+
+/**
+ * What a promotion discounts:
+ * - `product`: scoped or buy X get Y discounts on specific items
+ * - `order`: discounts on the whole merchandise subtotal
+ * - `shipping`: the shipping charge
+ */
+export type DiscountClass = "product" | "order" | "shipping";
+
+export type PromotionReward =
+	/** `value` percent off each eligible item */
+	| { type: "percentage"; value: number }
+	/** `value` off the eligible items, split across them by price */
+	| { type: "fixed"; value: number }
+	/** The shipping charge, optionally only for some service levels */
+	| { type: "free_shipping"; services?: ShippingService[] }
+	/** For every `buy` eligible units, `get` more at `percentOff` (cheapest units first) */
+	| { type: "buy_x_get_y"; buy: number; get: number; percentOff: number };
+
+export type PromotionScope =
+	| { type: "all" }
+	/** Members of a collection in `lib/collections.ts` */
+	| { type: "collection"; handle: string }
+	/** Products with a tag containing `value` (case-insensitive) */
+	| { type: "tag"; value: string };
+
+export interface PromotionDefinition {
+	id: string;
+	/** Shown as the discount line, e.g. "10% off everything" */
+	title: string;
+	/** Entered at checkout (case-insensitive); omit for automatic promotions */
+	code?: string;
+	reward: PromotionReward;
+	/** Which items count toward the reward and the spend threshold */
+	scope: PromotionScope;
+	/** Eligible subtotal required, in dollars */
+	minSubtotal?: number;
+	/** Only for customers without a previous (non-cancelled) order */
+	firstOrderOnly?: boolean;
+	/** ISO timestamps; open-ended when omitted */
+	startsAt?: string;
+	endsAt?: string;
+	/** Redemptions across all customers */
+	usageLimit?: number;
+	/** Redemptions per customer email */
+	perCustomerLimit?: number;
+	/** Discount classes this promotion may be applied together with */
+	combinesWith?: DiscountClass[];
+}
+
+export const PROMOTIONS: PromotionDefinition[] = [
+	{
+		id: "welcome-10",
+		title: "Welcome - 10% off your first order",
+		code: "WELCOME10",
+		reward: { type: "percentage", value: 10 },
+		scope: { type: "all" },
+		firstOrderOnly: true,
+		perCustomerLimit: 1,
+		combinesWith: ["shipping"],
+	},
+	{
+		id: "save-15",
+		title: "$15 off orders over $100",
+		code: "SAVE15",
+		reward: { type: "fixed", value: 15 },
+		scope: { type: "all" },
+		minSubtotal: 100,
+		usageLimit: 500,
+		perCustomerLimit: 1,
+		combinesWith: ["shipping"],
+	},
+	{
+		id: "ship-free",
+		title: "Free standard shipping",
+		code: "SHIPFREE",
+		reward: { type: "free_shipping", services: ["standard"] },
+		scope: { type: "all" },
+		combinesWith: ["product", "order"],
+	},
+	{
+		id: "sale-extra-20",
+		title: "Extra 20% off sale items",
+		code: "EXTRA20",
+		reward: { type: "percentage", value: 20 },
+		scope: { type: "collection", handle: "sale" },
+		combinesWith: ["shipping"],
+	},
+	{
+		id: "accessories-bogo",
+		title: "Buy 2 accessories, get 1 free",
+		reward: { type: "buy_x_get_y", buy: 2, get: 1, percentOff: 100 },
+		scope: { type: "tag", value: "accessories" },
+		combinesWith: ["order", "shipping"],
+	},
+	{
+		id: "spend-150",
+		title: "$20 off when you spend $150",
+		reward: { type: "fixed", value: 20 },
+		scope: { type: "all" },
+		minSubtotal: 150,
+		combinesWith: ["product", "shipping"],
+	},
+];
+
+export function findPromotionByCode(
+	code: string,
+	promotions: PromotionDefinition[] = PROMOTIONS,
+): PromotionDefinition | undefined {
+	const normalized = code.trim().toUpperCase();
+	return promotions.find((promotion) => promotion.code?.toUpperCase() === normalized);
+}
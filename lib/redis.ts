@@ -6,7 +6,7 @@ let redis: Redis | null = null;
 try {
   const redisUrl = process.env.UPSTASH_REDIS_REST_URL;
   const redisToken = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
+
   if (redisUrl && redisToken) {
     redis = new Redis({
       url: redisUrl,
@@ -14,7 +14,7 @@ try {
     });
     console.log('✅ Redis client initialized successfully');
   } else {
-    console.warn('⚠️ Redis configuration missing. Caching will be disabled.');
+    console.warn('⚠️ Redis configuration missing. Using in-memory cache.');
     console.warn('Missing:', {
       url: !redisUrl,
       token: !redisToken
@@ -27,16 +27,217 @@ try {
 
 export { redis };
 
+/**
+ * Storage operations the cache layer needs
+ * Values are JSON-serialisable; TTLs are in seconds
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttl: number): Promise<void>;
+  /** Set only if the key does not exist; resolves true when the value was written */
+  setIfAbsent<T>(key: string, value: T, ttl: number): Promise<boolean>;
+  /** Increment a counter (by `amount`, default 1), starting its TTL when the key is created; resolves the new value */
+  increment(key: string, ttl: number, amount?: number): Promise<number>;
+  del(...keys: string[]): Promise<void>;
+  /** Delete the key only while it still holds `value` (e.g. a lock's owner token); resolves true when deleted */
+  deleteIfEquals(key: string, value: string): Promise<boolean>;
+  /** Add `member` to each set in one round trip; a set's TTL is only ever extended, never shortened */
+  addToSets(keys: string[], member: string, ttl: number): Promise<void>;
+  setMembers(key: string): Promise<string[]>;
+  keys(pattern: string): Promise<string[]>;
+  exists(key: string): Promise<boolean>;
+  ttl(key: string): Promise<number>;
+  flush(): Promise<void>;
+}
+
+export function createRedisBackend(client: Redis): CacheBackend {
+  return {
+    name: 'redis',
+    async get<T>(key: string) {
+      return (await client.get<T>(key)) ?? null;
+    },
+    async set<T>(key: string, value: T, ttl: number) {
+      await client.setex(key, ttl, value);
+    },
+    async setIfAbsent<T>(key: string, value: T, ttl: number) {
+      return (await client.set(key, value, { nx: true, ex: ttl })) === 'OK';
+    },
+    async increment(key: string, ttl: number, amount: number = 1) {
+      const count = await client.incrby(key, amount);
+      if (count === amount) await client.expire(key, ttl);
+      return count;
+    },
+    async del(...keys: string[]) {
+      if (keys.length > 0) await client.del(...keys);
+    },
+    async deleteIfEquals(key: string, value: string) {
+      const deleted = await client.eval<[string], number>(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        [key],
+        [value]
+      );
+      return deleted === 1;
+    },
+    async addToSets(keys: string[], member: string, ttl: number) {
+      if (keys.length === 0) return;
+      const pipeline = client.pipeline();
+      for (const key of keys) {
+        pipeline.sadd(key, member);
+        // NX gives a new set its TTL; GT only ever lengthens an existing one
+        pipeline.expire(key, ttl, 'NX');
+        pipeline.expire(key, ttl, 'GT');
+      }
+      await pipeline.exec();
+    },
+    async setMembers(key: string) {
+      return client.smembers(key);
+    },
+    async keys(pattern: string) {
+      return client.keys(pattern);
+    },
+    async exists(key: string) {
+      return (await client.exists(key)) === 1;
+    },
+    async ttl(key: string) {
+      return client.ttl(key);
+    },
+    async flush() {
+      await client.flushdb();
+    },
+  };
+}
+
+interface MemoryEntry {
+  value: string | Set<string>;
+  expiresAt: number;
+}
+
+/**
+ * Process-local backend used when Upstash is not configured
+ * Values round-trip through JSON so callers see the same shapes Redis returns
+ */
+export function createMemoryBackend(): CacheBackend {
+  const store = new Map<string, MemoryEntry>();
+
+  const read = (key: string): MemoryEntry | null => {
+    const entry = store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const globToRegExp = (pattern: string) =>
+    new RegExp(
+      `^${pattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`
+    );
+
+  return {
+    name: 'memory',
+    async get<T>(key: string) {
+      const entry = read(key);
+      if (!entry || typeof entry.value !== 'string') return null;
+      return JSON.parse(entry.value) as T;
+    },
+    async set<T>(key: string, value: T, ttl: number) {
+      store.set(key, {
+        value: JSON.stringify(value),
+        expiresAt: Date.now() + ttl * 1000,
+      });
+    },
+    async setIfAbsent<T>(key: string, value: T, ttl: number) {
+      if (read(key)) return false;
+      await this.set(key, value, ttl);
+      return true;
+    },
+    async increment(key: string, ttl: number, amount: number = 1) {
+      const entry = read(key);
+      const count =
+        entry && typeof entry.value === 'string'
+          ? Number(JSON.parse(entry.value)) + amount
+          : amount;
+      store.set(key, {
+        value: JSON.stringify(count),
+        expiresAt: entry?.expiresAt ?? Date.now() + ttl * 1000,
+      });
+      return count;
+    },
+    async del(...keys: string[]) {
+      for (const key of keys) store.delete(key);
+    },
+    async deleteIfEquals(key: string, value: string) {
+      const entry = read(key);
+      if (!entry || typeof entry.value !== 'string' || JSON.parse(entry.value) !== value) {
+        return false;
+      }
+      store.delete(key);
+      return true;
+    },
+    async addToSets(keys: string[], member: string, ttl: number) {
+      const expiresAt = Date.now() + ttl * 1000;
+      for (const key of keys) {
+        const entry = read(key);
+        const set = entry?.value instanceof Set ? entry.value : new Set<string>();
+        set.add(member);
+        store.set(key, {
+          value: set,
+          expiresAt: Math.max(entry?.expiresAt ?? 0, expiresAt),
+        });
+      }
+    },
+    async setMembers(key: string) {
+      const entry = read(key);
+      return entry?.value instanceof Set ? Array.from(entry.value) : [];
+    },
+    async keys(pattern: string) {
+      const matcher = globToRegExp(pattern);
+      return Array.from(store.keys()).filter(
+        (key) => read(key) !== null && matcher.test(key)
+      );
+    },
+    async exists(key: string) {
+      return read(key) !== null;
+    },
+    async ttl(key: string) {
+      const entry = read(key);
+      if (!entry) return -2;
+      return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+    },
+    async flush() {
+      store.clear();
+    },
+  };
+}
+
+let backend: CacheBackend = redis
+  ? createRedisBackend(redis)
+  : createMemoryBackend();
+
+/**
+ * Active cache backend
+ */
+export function getCacheBackend(): CacheBackend {
+  return backend;
+}
+
+/**
+ * Swap the cache backend (e.g. a fresh in-memory store per test)
+ */
+export function setCacheBackend(next: CacheBackend): void {
+  backend = next;
+}
+
 // Cache utilities with error handling
 export const cache = {
   async get<T>(key: string): Promise<T | null> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache get');
-      return null;
-    }
     try {
-      const data = await redis.get(key);
-      return data as T;
+      return await backend.get<T>(key);
     } catch (error) {
       console.error('Redis get error:', error);
       return null;
@@ -44,36 +245,24 @@ export const cache = {
   },
 
   async set<T>(key: string, value: T, ttl: number = 300): Promise<void> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache set');
-      return;
-    }
     try {
-      await redis.setex(key, ttl, value);
+      await backend.set(key, value, ttl);
     } catch (error) {
       console.error('Redis set error:', error);
     }
   },
 
   async del(key: string): Promise<void> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache del');
-      return;
-    }
     try {
-      await redis.del(key);
+      await backend.del(key);
     } catch (error) {
       console.error('Redis del error:', error);
     }
   },
 
   async keys(pattern: string): Promise<string[]> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache keys');
-      return [];
-    }
     try {
-      return await redis.keys(pattern);
+      return await backend.keys(pattern);
     } catch (error) {
       console.error('Redis keys error:', error);
       return [];
@@ -81,13 +270,8 @@ export const cache = {
   },
 
   async exists(key: string): Promise<boolean> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache exists');
-      return false;
-    }
     try {
-      const result = await redis.exists(key);
-      return result === 1;
+      return await backend.exists(key);
     } catch (error) {
       console.error('Redis exists error:', error);
       return false;
@@ -95,12 +279,8 @@ export const cache = {
   },
 
   async ttl(key: string): Promise<number> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache ttl');
-      return -1;
-    }
     try {
-      return await redis.ttl(key);
+      return await backend.ttl(key);
     } catch (error) {
       console.error('Redis ttl error:', error);
       return -1;
@@ -108,66 +288,208 @@ export const cache = {
   }
 };
 
-// Cache invalidation utilities
-export const invalidateCache = {
-  // Invalidate product-related caches
-  async products(): Promise<void> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache invalidation');
-      return;
-    }
+// Tag generators - each tag is a set of the cache keys that depend on it
+export const cacheTags = {
+  product: (id: string) => `tag:product:${id}`,
+
+  productHandle: (handle: string) => `tag:product-handle:${handle}`,
+
+  collection: (handle: string) => `tag:collection:${handle}`,
+
+  productLists: 'tag:product-lists',
+
+  collections: 'tag:collections',
+};
+
+/**
+ * Tags for every product in a cached payload
+ */
+export function productTags(
+  products: Array<{ id: string; handle?: string }>
+): string[] {
+  return products.flatMap((product) =>
+    product.handle
+      ? [cacheTags.product(product.id), cacheTags.productHandle(product.handle)]
+      : [cacheTags.product(product.id)]
+  );
+}
+
+export interface ReadThroughOptions<T> {
+  /** Seconds the value is served as fresh */
+  ttl: number;
+  /** Further seconds a stale value is served while it is refreshed (default: ttl) */
+  staleTtl?: number;
+  /** Tags to register the key under; may depend on the loaded value */
+  tags?: string[] | ((value: T) => string[]);
+}
+
+interface CachedEntry<T> {
+  value: T;
+  freshUntil: number;
+}
+
+// Loads in progress in this process, shared by concurrent callers of the same key
+const inflight = new Map<string, Promise<unknown>>();
+
+async function storeEntry<T>(
+  key: string,
+  value: T,
+  options: ReadThroughOptions<T>
+): Promise<void> {
+  const { ttl, staleTtl = ttl, tags } = options;
+  const expiry = ttl + staleTtl;
+  const entry: CachedEntry<T> = { value, freshUntil: Date.now() + ttl * 1000 };
+
+  await backend.set(key, entry, expiry);
+  const tagList = typeof tags === 'function' ? tags(value) : tags ?? [];
+  await backend.addToSets(Array.from(new Set(tagList)), key, expiry);
+}
+
+function load<T>(
+  key: string,
+  loader: () => Promise<T>,
+  options: ReadThroughOptions<T>
+): Promise<T> {
+  const existing = inflight.get(key) as Promise<T> | undefined;
+  if (existing) return existing;
+
+  const pending = (async () => {
     try {
-      const keys = await redis.keys('products:*');
-      if (keys.length > 0) {
-        await redis.del(...keys);
-        console.log(`🗑️ Invalidated ${keys.length} product cache entries`);
+      const value = await loader();
+      try {
+        await storeEntry(key, value, options);
+      } catch (error) {
+        console.error('Redis set error:', error);
       }
-    } catch (error) {
-      console.error('Cache invalidation error:', error);
+      return value;
+    } finally {
+      inflight.delete(key);
     }
-  },
+  })();
+
+  inflight.set(key, pending);
+  return pending;
+}
+
+/**
+ * Read-through cache with tags and stale-while-revalidate
+ *
+ * Fresh hits are returned directly. Stale hits are returned immediately while
+ * one caller (guarded by a short lock across instances) reloads in the
+ * background. Misses call `loader`; concurrent misses in the same process
+ * share one load. Loader errors are never cached and propagate to the caller.
+ */
+export async function readThrough<T>(
+  key: string,
+  loader: () => Promise<T>,
+  options: ReadThroughOptions<T>
+): Promise<T> {
+  let entry: CachedEntry<T> | null = null;
+  try {
+    entry = await backend.get<CachedEntry<T>>(key);
+  } catch (error) {
+    console.error('Redis get error:', error);
+  }
+
+  if (!entry) {
+    return load(key, loader, options);
+  }
 
-  // Invalidate specific product
-  async product(productId: string): Promise<void> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache invalidation');
-      return;
+  if (entry.freshUntil <= Date.now() && !inflight.has(key)) {
+    const lockTtl = Math.max(1, Math.min(options.ttl, 30));
+    backend
+      .setIfAbsent(`lock:${key}`, 1, lockTtl)
+      .then((acquired) => (acquired ? load(key, loader, options) : undefined))
+      .catch((error) =>
+        console.error('Background revalidation failed:', key, error)
+      );
+  }
+
+  return entry.value;
+}
+
+/**
+ * Delete every key registered under the given tags
+ * Returns the number of keys removed
+ */
+export async function invalidateTags(tags: string[]): Promise<number> {
+  try {
+    const keys = new Set<string>();
+    for (const tag of tags) {
+      for (const key of await backend.setMembers(tag)) keys.add(key);
     }
-    try {
-      const keys = await redis.keys(`products:*${productId}*`);
-      if (keys.length > 0) {
-        await redis.del(...keys);
-      }
-    } catch (error) {
-      console.error('Product cache invalidation error:', error);
+    await backend.del(...keys, ...tags);
+    return keys.size;
+  } catch (error) {
+    console.error('Tag invalidation error:', error);
+    return 0;
+  }
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the window resets */
+  retryAfter: number;
+}
+
+/**
+ * Fixed-window rate limit keyed by `bucket` (e.g. route + client IP)
+ * Fails open when the store is unreachable - availability wins over a
+ * limiter that would otherwise lock every shopper out.
+ */
+export async function rateLimit(
+  bucket: string,
+  { limit, windowSeconds }: { limit: number; windowSeconds: number }
+): Promise<RateLimitResult> {
+  const key = `ratelimit:${bucket}`;
+  try {
+    const count = await backend.increment(key, windowSeconds);
+    const retryAfter = count > limit ? Math.max(1, await backend.ttl(key)) : 0;
+    return { allowed: count <= limit, remaining: Math.max(0, limit - count), retryAfter };
+  } catch (error) {
+    console.error('Rate limit error:', error);
+    return { allowed: true, remaining: limit, retryAfter: 0 };
+  }
+}
+
+// Cache invalidation utilities
+export const invalidateCache = {
+  // Invalidate product listing caches
+  async products(): Promise<void> {
+    const count = await invalidateTags([cacheTags.productLists]);
+    if (count > 0) {
+      console.log(`🗑️ Invalidated ${count} product cache entries`);
     }
   },
 
-  // Invalidate collection caches
-  async collections(): Promise<void> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache invalidation');
-      return;
-    }
-    try {
-      const keys = await redis.keys('collections:*');
-      if (keys.length > 0) {
-        await redis.del(...keys);
-        console.log(`🗑️ Invalidated ${keys.length} collection cache entries`);
-      }
-    } catch (error) {
-      console.error('Collection cache invalidation error:', error);
+  // Invalidate every entry containing a specific product
+  async product(productId: string, handle?: string): Promise<void> {
+    await invalidateTags(
+      handle
+        ? [cacheTags.product(productId), cacheTags.productHandle(handle)]
+        : [cacheTags.product(productId)]
+    );
+  },
+
+  // Invalidate one collection, or every collection when no handle is given
+  async collections(handle?: string): Promise<void> {
+    const count = await invalidateTags([
+      handle ? cacheTags.collection(handle) : cacheTags.collections,
+    ]);
+    if (count > 0) {
+      console.log(`🗑️ Invalidated ${count} collection cache entries`);
     }
   },
 
+  async tags(tags: string[]): Promise<number> {
+    return invalidateTags(tags);
+  },
+
   // Clear all caches (admin function)
   async all(): Promise<void> {
-    if (!redis) {
-      console.warn('Redis not available, skipping cache clear');
-      return;
-    }
     try {
-      await redis.flushdb();
+      await backend.flush();
       console.log('🗑️ Cleared all cache entries');
     } catch (error) {
       console.error('Full cache clear error:', error);
@@ -177,51 +499,56 @@ export const invalidateCache = {
 
 // Cache key generators
 export const cacheKeys = {
-  products: (limit: number, page: number, search?: string) => 
+  products: (limit: number, page: number, search?: string) =>
     `products:${limit}:${page}:${search || 'all'}`,
-  
+
   product: (id: string) => `product:${id}`,
-  
+
   productByHandle: (handle: string) => `product:handle:${handle}`,
-  
-  collections: (limit: number, page: number) => 
+
+  collections: (limit: number, page: number) =>
     `collections:${limit}:${page}`,
-  
+
   collection: (slug: string) => `collection:${slug}`,
-  
-  search: (query: string, limit: number, page: number) => 
+
+  collectionProducts: (slug: string, limit: number, page: number, fields?: string) =>
+    `collections:${slug}:${limit}:${page}:${fields || 'all'}`,
+
+  search: (query: string, limit: number, page: number) =>
     `search:${query}:${limit}:${page}`,
+
+  inventoryHold: (holderId: string) => `inventory:hold:${holderId}`,
+
+  inventoryHolders: (productId: string, variantId: string) =>
+    `inventory:holders:${productId}:${variantId}`,
+
+  inventoryCommitted: (productId: string, variantId: string) =>
+    `inventory:committed:${productId}:${variantId}`,
 };
 
 // Cache statistics
 export const getCacheStats = async () => {
-  if (!redis) {
-    console.warn('Redis not available, returning empty cache stats');
-    return {
-      totalKeys: 0,
-      productKeys: 0,
-      collectionKeys: 0,
-      searchKeys: 0,
-    };
-  }
-  
   try {
-    const keys = await redis.keys('*');
+    const keys = await backend.keys('*');
     const stats = {
+      backend: backend.name,
       totalKeys: keys.length,
-      productKeys: keys.filter(k => k.startsWith('products:')).length,
+      productKeys: keys.filter(k => k.startsWith('products:') || k.startsWith('product:')).length,
       collectionKeys: keys.filter(k => k.startsWith('collections:')).length,
       searchKeys: keys.filter(k => k.startsWith('search:')).length,
+      tagKeys: keys.filter(k => k.startsWith('tag:')).length,
     };
-    
+
     return stats;
   } catch (error) {
     console.error('Cache stats error:', error);
     return {
+      backend: backend.name,
       totalKeys: 0,
       productKeys: 0,
       collectionKeys: 0,
       searchKeys: 0,
+      tagKeys: 0,
     };
   }
-};
\ No newline at end of file
+};
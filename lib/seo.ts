@@ -7,12 +7,15 @@ export function generateSEO({
 	description,
 	image = "/og.png",
 	path = "",
+	pagination,
 }: {
 	title?: string;
 	description?: string;
 	image?: string;
 	path?: string;
 	type?: OgType;
+	/** Paths of the neighbouring pages, emitted as rel=prev/next links */
+	pagination?: { previous?: string; next?: string };
 }): Metadata {
 	const seoTitle = title ? `${title} | ${SITE_CONFIG.name}` : SITE_CONFIG.name;
 	const seoDescription = description || SITE_CONFIG.description;
@@ -90,5 +93,11 @@ export function generateSEO({
 		alternates: {
 			canonical: seoUrl,
 		},
+		...(pagination && {
+			pagination: {
+				previous: pagination.previous && `${SITE_CONFIG.url}${pagination.previous}`,
+				next: pagination.next && `${SITE_CONFIG.url}${pagination.next}`,
+			},
+		}),
 	};
 }
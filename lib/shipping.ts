@@ -0,0 +1,208 @@
+/**
+ * Shipping Zone Registry
+ * Destinations are grouped into zones by country (and optionally province).
+ * Each zone offers service levels priced from a rate table on either the
+ * shipment weight or the order value, with an optional free-shipping
+ * threshold. Checkout pricing, the shipping method picker and draft order
+ * `shipping_lines` all read from this list.
+ *
+ * Zones are matched in order; the first zone listing the destination wins,
+ * so province-specific zones must come before their country's general zone.
+ */
+
+export type ShippingService = "standard" | "express";
+
+export interface ShippingRateTier {
+	/** Inclusive upper bound in grams or dollars; omit on the last tier */
+	upTo?: number;
+	price: number;
+}
+
+export interface ShippingServiceLevel {
+	service: ShippingService;
+	title: string;
+	/** What the rate tiers are measured against */
+	basis: "weight" | "order_value";
+	tiers: ShippingRateTier[];
+	/** Ships free when the shippable subtotal is above this amount */
+	freeAbove?: number;
+	/** Business days in transit after handling */
+	transitDays: [min: number, max: number];
+}
+
+export interface ShippingZone {
+	id: string;
+	name: string;
+	/** ISO 3166-1 alpha-2 codes, or "*" for everywhere else */
+	countries: string[];
+	/** Limit the zone to these provinces/states of its countries */
+	provinces?: string[];
+	services: ShippingServiceLevel[];
+}
+
+export interface ShippingDestination {
+	country: string;
+	province?: string;
+}
+
+/** Business days between the order and handing it to the carrier */
+export const SHIPPING_HANDLING_DAYS = 1;
+
+/** Used for estimates before the customer enters an address */
+export const DEFAULT_SHIPPING_DESTINATION: ShippingDestination = {
+	country: "US",
+};
+
+const EXPRESS_BY_WEIGHT: ShippingRateTier[] = [
+	{ upTo: 1000, price: 19.99 },
+	{ upTo: 5000, price: 29.99 },
+	{ price: 49.99 },
+];
+
+export const SHIPPING_ZONES: ShippingZone[] = [
+	{
+		id: "us-remote",
+		name: "Alaska, Hawaii & US Territories",
+		countries: ["US"],
+		provinces: ["AK", "HI", "PR", "GU", "VI", "AS", "MP"],
+		services: [
+			{
+				service: "standard",
+				title: "Standard Shipping",
+				basis: "weight",
+				tiers: [
+					{ upTo: 1000, price: 14.99 },
+					{ upTo: 5000, price: 24.99 },
+					{ price: 39.99 },
+				],
+				freeAbove: 150,
+				transitDays: [5, 10],
+			},
+			{
+				service: "express",
+				title: "Express Shipping",
+				basis: "weight",
+				tiers: [
+					{ upTo: 1000, price: 34.99 },
+					{ upTo: 5000, price: 54.99 },
+					{ price: 89.99 },
+				],
+				transitDays: [2, 4],
+			},
+		],
+	},
+	{
+		id: "us",
+		name: "United States",
+		countries: ["US"],
+		services: [
+			{
+				service: "standard",
+				title: "Standard Shipping",
+				basis: "order_value",
+				tiers: [{ price: 9.99 }],
+				freeAbove: 50,
+				transitDays: [3, 5],
+			},
+			{
+				service: "express",
+				title: "Express Shipping",
+				basis: "weight",
+				tiers: EXPRESS_BY_WEIGHT,
+				transitDays: [1, 2],
+			},
+		],
+	},
+	{
+		id: "canada",
+		name: "Canada",
+		countries: ["CA"],
+		services: [
+			{
+				service: "standard",
+				title: "Standard International",
+				basis: "weight",
+				tiers: [
+					{ upTo: 1000, price: 14.99 },
+					{ upTo: 5000, price: 24.99 },
+					{ price: 39.99 },
+				],
+				freeAbove: 100,
+				transitDays: [5, 8],
+			},
+			{
+				service: "express",
+				title: "Express International",
+				basis: "weight",
+				tiers: [
+					{ upTo: 1000, price: 29.99 },
+					{ upTo: 5000, price: 44.99 },
+					{ price: 69.99 },
+				],
+				transitDays: [2, 4],
+			},
+		],
+	},
+	{
+		id: "europe",
+		name: "Europe",
+		countries: [
+			"GB", "DE", "FR", "ES", "IT", "NL", "BE", "CH", "AT", "SE", "NO",
+			"DK", "FI", "PL", "IE", "PT",
+		],
+		services: [
+			{
+				service: "standard",
+				title: "Standard International",
+				basis: "weight",
+				tiers: [
+					{ upTo: 1000, price: 19.99 },
+					{ upTo: 5000, price: 34.99 },
+					{ price: 54.99 },
+				],
+				freeAbove: 150,
+				transitDays: [6, 12],
+			},
+			{
+				service: "express",
+				title: "Express International",
+				basis: "weight",
+				tiers: [
+					{ upTo: 1000, price: 39.99 },
+					{ upTo: 5000, price: 59.99 },
+					{ price: 89.99 },
+				],
+				transitDays: [3, 5],
+			},
+		],
+	},
+	{
+		id: "international",
+		name: "Rest of World",
+		countries: ["*"],
+		services: [
+			{
+				service: "standard",
+				title: "Standard International",
+				basis: "weight",
+				tiers: [
+					{ upTo: 1000, price: 24.99 },
+					{ upTo: 5000, price: 44.99 },
+					{ price: 69.99 },
+				],
+				transitDays: [8, 20],
+			},
+			{
+				service: "express",
+				title: "Express International",
+				basis: "weight",
+				tiers: [
+					{ upTo: 1000, price: 49.99 },
+					{ upTo: 5000, price: 79.99 },
+					{ price: 119.99 },
+				],
+				transitDays: [3, 7],
+			},
+		],
+	},
+];
@@ -0,0 +1,476 @@
+/**
+ * Shopify Draft Orders
+ * Creates Shopify draft orders through the Admin GraphQL API and sends their
+ * invoices. Checkout drafts take every money field from a verified price
+ * quote (`quotedDraftOrderFields`), never from the browser. Used by the
+ * checkout action and `/api/draft-orders`.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { env } from "@/lib/env-validation";
+import type { ConfirmedPricing } from "@/lib/pricing";
+import type { Address } from "@/lib/types";
+import { fromCents, toCents } from "@/lib/utils/pricing-utils";
+
+// SECURITY: Only use server-side environment variables - NEVER expose tokens to client
+export function getShopifyConfig() {
+	if (
+    !env.SHOPIFY_ACCESS_TOKEN ||
+    !env.SHOPIFY_SHOP ||
+    !env.SHOPIFY_SHOP_NAME
+  ) {
+    throw new Error(
+      "Shopify configuration is missing. Provide SHOPIFY_ACCESS_TOKEN, SHOPIFY_SHOP, and SHOPIFY_SHOP_NAME."
+    );
+  }
+	return {
+    shopDomain: env.SHOPIFY_SHOP,
+    shopName: env.SHOPIFY_SHOP_NAME,
+    accessToken: env.SHOPIFY_ACCESS_TOKEN,
+  };
+}
+
+type ShopifyUserError = {
+	field?: string[];
+	message: string;
+};
+
+// Transformer function to map canonical Address to Shopify's format
+function toShopifyAddress(address: Address): DraftOrderShippingAddress {
+	return {
+		address1: address.address1,
+		address2: address.address2,
+		city: address.city,
+		country: address.country,
+		zip: address.zip,
+		province: address.province || "",
+		first_name: address.firstName,
+		last_name: address.lastName,
+		phone: address.phone,
+		company: address.company,
+	};
+}
+
+export interface DraftOrderLineItem {
+	title?: string;
+	variant_id?: string | number;
+	product_id?: string | number;
+	quantity: number;
+	price?: string | number;
+	sku?: string;
+	grams?: number;
+	taxable?: boolean;
+	requires_shipping?: boolean;
+}
+
+export interface DraftOrderCustomer {
+	id?: string | number;
+	email?: string;
+	first_name?: string;
+	last_name?: string;
+	phone?: string;
+	accepts_marketing?: boolean;
+}
+
+export interface DraftOrderShippingAddress {
+	first_name?: string;
+	last_name?: string;
+	company?: string;
+	address1: string;
+	address2?: string;
+	city: string;
+	province?: string;
+	country: string;
+	zip?: string;
+	phone?: string;
+}
+
+export interface ShopifyDraftOrder {
+	id: string;
+	name: string;
+	invoiceUrl?: string;
+	order?: { id: string };
+	customer?: {
+		id?: string;
+		email?: string;
+		firstName?: string;
+		lastName?: string;
+	};
+	totalPrice: string;
+	subtotalPrice: string;
+	totalTax: string;
+	currencyCode: string;
+	note?: string;
+	tags?: string[];
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface DraftOrderInput {
+	line_items: DraftOrderLineItem[];
+	customer?: DraftOrderCustomer;
+	shipping_address?: DraftOrderShippingAddress;
+	billing_address?: DraftOrderShippingAddress;
+	tags?: string;
+	note?: string;
+	email?: string;
+	currency?: string;
+	use_customer_default_address?: boolean;
+	tax_lines?: Array<{
+		title: string;
+		rate: number;
+		price: string;
+	}>;
+	shipping_lines?: Array<{
+		title: string;
+		price: string;
+		code?: string;
+	}>;
+	applied_discount?: DraftOrderAppliedDiscount;
+}
+
+export interface DraftOrderAppliedDiscount {
+	title?: string;
+	description?: string;
+	value: string | number;
+	value_type: "fixed_amount" | "percentage";
+}
+
+// Helpers to format Shopify GraphQL IDs
+function toGid(
+	type: "Product" | "ProductVariant" | "DraftOrder",
+	id: string | number | undefined,
+) {
+	if (!id) return undefined;
+	const str = String(id);
+	return str.startsWith("gid://") ? str : `gid://shopify/${type}/${str}`;
+}
+
+// Map our REST-like input to Shopify GraphQL DraftOrderInput
+function toGraphqlDraftOrderInput(input: DraftOrderInput) {
+  const lineItems = (input.line_items || []).map((li) => {
+    const variantGid = li.variant_id
+      ? toGid("ProductVariant", li.variant_id)
+      : undefined;
+
+    // Log the conversion for debugging
+    if (li.variant_id) {
+      console.log("[toGraphqlDraftOrderInput] Converting variant ID:", {
+        original: li.variant_id,
+        converted: variantGid,
+      });
+    }
+
+    return {
+      ...(variantGid ? { variantId: variantGid } : {}),
+      quantity: li.quantity,
+      ...(li.title ? { title: li.title } : {}),
+      ...(li.price !== undefined
+        ? { originalUnitPrice: String(li.price) }
+        : {}),
+      ...(li.taxable !== undefined ? { taxable: li.taxable } : {}),
+    };
+  });
+
+  const customer = input.customer
+    ? {
+        ...(input.customer.email ? { email: input.customer.email } : {}),
+        ...(input.customer.first_name
+          ? { firstName: input.customer.first_name }
+          : {}),
+        ...(input.customer.last_name
+          ? { lastName: input.customer.last_name }
+          : {}),
+        ...(input.customer.phone ? { phone: input.customer.phone } : {}),
+      }
+    : undefined;
+
+  const shippingAddress = input.shipping_address
+    ? toShopifyAddress(input.shipping_address)
+    : undefined;
+
+  const billingAddress = input.billing_address
+    ? toShopifyAddress(input.billing_address)
+    : undefined;
+
+  const shippingLine = input.shipping_lines?.[0];
+
+  // GraphQL drafts calculate their own tax, so the checkout's itemised tax
+  // travels as attributes for reconciliation
+  const customAttributes = (input.tax_lines || []).map((taxLine) => ({
+    key: `Tax: ${taxLine.title} (${+(taxLine.rate * 100).toFixed(3)}%)`,
+    value: String(taxLine.price),
+  }));
+
+  return {
+    lineItems,
+    ...(customer ? { customer } : {}),
+    ...(shippingAddress ? { shippingAddress } : {}),
+    ...(billingAddress ? { billingAddress } : {}),
+    ...(input.email ? { email: input.email } : {}),
+    ...(input.currency ? { presentmentCurrencyCode: input.currency } : {}),
+    ...(input.note ? { note: input.note } : {}),
+    useCustomerDefaultAddress: Boolean(input.use_customer_default_address),
+    ...(input.tags
+      ? {
+          tags: input.tags
+            .split(",")
+            .map((t) => t.trim())
+            .filter(Boolean),
+        }
+      : {}),
+    ...(customAttributes.length > 0 ? { customAttributes } : {}),
+    ...(input.applied_discount
+      ? {
+          appliedDiscount: {
+            ...(input.applied_discount.title
+              ? { title: input.applied_discount.title }
+              : {}),
+            ...(input.applied_discount.description
+              ? { description: input.applied_discount.description }
+              : {}),
+            value: Number(input.applied_discount.value),
+            valueType:
+              input.applied_discount.value_type === "percentage"
+                ? "PERCENTAGE"
+                : "FIXED_AMOUNT",
+          },
+        }
+      : {}),
+    // GraphQL drafts carry a single shipping line
+    ...(shippingLine
+      ? {
+          shippingLine: {
+            title: shippingLine.title,
+            price: String(shippingLine.price),
+          },
+        }
+      : {}),
+  };
+}
+
+async function shopifyFetch(query: string, variables: Record<string, unknown>) {
+  const { shopDomain, accessToken } = getShopifyConfig();
+  const apiUrl = `https://${shopDomain}/admin/api/2024-01/graphql.json`;
+
+  const response = await fetch(apiUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(
+      `Shopify API request failed: ${response.status} ${response.statusText} - ${errorBody}`
+    );
+  }
+
+  return response.json();
+}
+
+// Draft order creation function using fetch
+export async function createDraftOrder(orderData: DraftOrderInput) {
+  try {
+    const query = `
+      mutation draftOrderCreate($input: DraftOrderInput!) {
+        draftOrderCreate(input: $input) {
+          draftOrder {
+            id
+            name
+            invoiceUrl
+            order { id }
+            customer { id email firstName lastName }
+            totalPrice
+            subtotalPrice
+            totalTax
+            currencyCode
+            tags
+            createdAt
+            updatedAt
+          }
+          userErrors { field message }
+        }
+      }
+    `;
+
+    const graphqlInput = toGraphqlDraftOrderInput(orderData);
+    const variables = { input: graphqlInput };
+
+    // Log the GraphQL input for debugging
+    console.log("[createDraftOrder] Sending to Shopify:", {
+      lineItems: graphqlInput.lineItems,
+      hasCustomer: !!graphqlInput.customer,
+      tags: graphqlInput.tags,
+    });
+
+    const response = await shopifyFetch(query, variables);
+
+    const draftOrderCreate = response.data?.draftOrderCreate;
+
+    if (!draftOrderCreate) {
+      const errors = response.errors || response.extensions;
+      console.error("[createDraftOrder] Shopify returned no data:", {
+        errors,
+        fullResponse: response,
+      });
+      throw new Error(
+        `Shopify draftOrderCreate returned no data: ${JSON.stringify(errors)}`
+      );
+    }
+
+    if (draftOrderCreate.userErrors && draftOrderCreate.userErrors.length > 0) {
+      console.error("[createDraftOrder] Shopify user errors:", {
+        userErrors: draftOrderCreate.userErrors,
+        sentInput: graphqlInput,
+      });
+      throw new Error(
+        `Shopify API errors: ${draftOrderCreate.userErrors
+          .map((e: ShopifyUserError) => e.message)
+          .join(", ")}`
+      );
+    }
+
+    console.log("[createDraftOrder] Draft order created successfully:", {
+      draftOrderId: draftOrderCreate.draftOrder?.id,
+      hasInvoiceUrl: !!draftOrderCreate.draftOrder?.invoiceUrl,
+    });
+
+    return draftOrderCreate.draftOrder;
+  } catch (error) {
+    console.error("Error creating draft order:", error);
+    throw new Error(
+      `Failed to create draft order: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+// Send invoice function using fetch
+export async function sendDraftOrderInvoice(
+	draftOrderId: string,
+	invoiceData?: {
+		to?: string;
+		from?: string;
+		subject?: string;
+		customMessage?: string;
+	},
+) {
+	try {
+		const mutation = `
+      mutation draftOrderInvoiceSend($id: ID!, $email: EmailInput) {
+        draftOrderInvoiceSend(id: $id, email: $email) {
+          draftOrder {
+            id
+            invoiceUrl
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+		const variables = {
+			id: toGid("DraftOrder", draftOrderId)!,
+			email: invoiceData
+				? {
+						to: invoiceData.to,
+						from: invoiceData.from,
+						subject: invoiceData.subject,
+						customMessage: invoiceData.customMessage,
+					}
+				: undefined,
+		};
+
+		const response = await shopifyFetch(mutation, variables);
+
+		const draftOrderInvoiceSend = response.data?.draftOrderInvoiceSend;
+
+		if (!draftOrderInvoiceSend) {
+			const errors = response.errors || response.extensions;
+			throw new Error(
+				`Shopify draftOrderInvoiceSend returned no data: ${JSON.stringify(errors)}`,
+			);
+		}
+
+		if (
+			draftOrderInvoiceSend.userErrors &&
+			draftOrderInvoiceSend.userErrors.length > 0
+		) {
+			throw new Error(
+				`Shopify API errors: ${draftOrderInvoiceSend.userErrors.map((e: ShopifyUserError) => e.message).join(", ")}`,
+			);
+		}
+
+		return draftOrderInvoiceSend.draftOrder;
+	} catch (error) {
+		console.error("Error sending draft order invoice:", error);
+		throw new Error(
+			`Failed to send draft order invoice: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+	}
+}
+
+/**
+ * The draft's money fields from a verified quote
+ * Shipping promotions lower the shipping line; the rest is one order-level
+ * discount on the draft.
+ */
+export function quotedDraftOrderFields(
+  pricing: ConfirmedPricing
+): Pick<
+  DraftOrderInput,
+  "line_items" | "shipping_lines" | "tax_lines" | "applied_discount" | "currency"
+> {
+  const merchandiseDiscounts = pricing.discounts.filter(
+    (discount) => discount.class !== "shipping"
+  );
+  const merchandiseDiscountTotal = fromCents(
+    merchandiseDiscounts.reduce((sum, d) => sum + toCents(d.amount), 0)
+  );
+  const shippingDiscount = fromCents(
+    toCents(pricing.totals.discount) - toCents(merchandiseDiscountTotal)
+  );
+
+  return {
+    line_items: pricing.lines.map((line) => ({
+      title: line.title,
+      variant_id: line.variantId,
+      product_id: line.productId,
+      quantity: line.quantity,
+      price: line.unitPrice.toFixed(2),
+      taxable: line.taxable,
+      requires_shipping: line.requiresShipping,
+    })),
+    shipping_lines: pricing.shippingMethod
+      ? [
+          {
+            title: pricing.shippingMethod.title,
+            price: (pricing.shippingMethod.price - shippingDiscount).toFixed(2),
+            code: pricing.shippingMethod.id,
+          },
+        ]
+      : [],
+    tax_lines: pricing.taxLines.map((taxLine) => ({
+      title: taxLine.title,
+      rate: taxLine.rate,
+      price: taxLine.price.toFixed(2),
+    })),
+    ...(merchandiseDiscounts.length > 0 && {
+      applied_discount: {
+        title: merchandiseDiscounts.map((d) => d.code ?? d.title).join(", "),
+        description: merchandiseDiscounts.map((d) => d.title).join(", "),
+        value: merchandiseDiscountTotal.toFixed(2),
+        value_type: "fixed_amount",
+      },
+    }),
+    currency: pricing.currency,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Shopify Webhook
+ * Signature verification and handling for Shopify webhooks posted to
+ * /api/webhooks/shopify. Subscribe the `orders/paid` topic: when the invoice
+ * of a checkout's draft order is paid, the storefront order named in the
+ * draft order's note (`Order #<id>`, carried over to the Shopify order) moves
+ * to `paid`, which also completes its purchase journey.
+ *
+ * Shopify signs the raw body with HMAC-SHA256 using the app's client secret
+ * (SHOPIFY_WEBHOOK_SECRET) and sends the base64 digest in
+ * `X-Shopify-Hmac-Sha256`. Deliveries carry no timestamp; a replayed one
+ * finds the order already paid and changes nothing.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { OrderStatusError } from "@/lib/errors";
+import { transitionOrderStatus } from "@/lib/order-status";
+import { logger } from "@/lib/utils/logger";
+import type { ShopifyPaidOrder } from "@/lib/validations";
+
+export const HMAC_HEADER = "x-shopify-hmac-sha256";
+export const TOPIC_HEADER = "x-shopify-topic";
+
+export const ORDERS_PAID_TOPIC = "orders/paid";
+
+const ORDER_NOTE_PATTERN =
+  /Order #([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
+
+/**
+ * Verify the HMAC signature of a webhook delivery
+ */
+export function verifyShopifySignature(
+  secret: string,
+  rawBody: string,
+  signature: string | null
+): boolean {
+  if (!signature) return false;
+
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(rawBody).digest("base64")
+  );
+  const received = Buffer.from(signature.trim());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export type PaidOrderResult =
+  | { status: "paid"; orderId: string }
+  | { status: "ignored"; orderId: string | null; reason: string };
+
+/**
+ * Mark the storefront order behind a paid Shopify order as paid
+ * Orders that aren't ours, are gone or are already past `pending` are
+ * ignored; other failures throw so Shopify retries the delivery.
+ */
+export async function markShopifyOrderPaid(
+  shopifyOrder: ShopifyPaidOrder
+): Promise<PaidOrderResult> {
+  const orderId = shopifyOrder.note?.match(ORDER_NOTE_PATTERN)?.[1]?.toLowerCase() ?? null;
+  if (!orderId) {
+    return { status: "ignored", orderId: null, reason: "No storefront order" };
+  }
+  if (shopifyOrder.financial_status && shopifyOrder.financial_status !== "paid") {
+    return { status: "ignored", orderId, reason: `Financial status ${shopifyOrder.financial_status}` };
+  }
+
+  try {
+    await transitionOrderStatus(orderId, "paid", {
+      actor: { type: "system", userId: null },
+      notes: `Paid in Shopify (${shopifyOrder.name ?? shopifyOrder.id})`,
+    });
+    return { status: "paid", orderId };
+  } catch (error) {
+    if (
+      error instanceof OrderStatusError &&
+      (error.code === "ORDER_NOT_FOUND" || error.code === "INVALID_TRANSITION")
+    ) {
+      logger.info("Ignoring Shopify payment", {
+        orderId,
+        shopifyOrderId: shopifyOrder.id,
+        reason: error.message,
+      });
+      return { status: "ignored", orderId, reason: error.message };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Tax Rate Registry
+ * Sales tax, GST and VAT rates by country and province/state, loaded from
+ * `lib/tax-rates.json` so checkout works without an external tax service.
+ * Edit that file to change rates; it is validated when the module loads.
+ *
+ * A region's taxes are charged on top of its country's (e.g. Canadian GST +
+ * PST) unless the region `replacesCountry` (HST). Countries marked
+ * `taxesIncluded` display prices with tax included; catalog prices are
+ * always net, so the amount charged is the same either way.
+ */
+
+import { taxRateTableSchema } from "@/lib/validations";
+import rates from "@/lib/tax-rates.json";
+
+export interface TaxComponent {
+	/** Shown on receipts and tax lines, e.g. "VAT" or "CA State Tax" */
+	title: string;
+	rate: number;
+}
+
+export interface TaxRegionRates {
+	name: string;
+	taxes: TaxComponent[];
+	/** Charge only the region's taxes, not the country's */
+	replacesCountry?: boolean;
+	/** Overrides the country's shipping rule */
+	shippingTaxable?: boolean;
+}
+
+export interface TaxCountryRates {
+	name: string;
+	taxes: TaxComponent[];
+	/** Display prices with tax included (VAT/GST countries) */
+	taxesIncluded?: boolean;
+	/** Whether shipping charges are taxed; defaults to false */
+	shippingTaxable?: boolean;
+	/** Keyed by province/state code */
+	regions?: Record<string, TaxRegionRates>;
+}
+
+/** Keyed by ISO 3166-1 alpha-2 country code; missing countries are untaxed */
+export const TAX_RATES: Record<string, TaxCountryRates> =
+	taxRateTableSchema.parse(rates);
@@ -11,6 +11,7 @@ export interface DraftOrder {
 	date: string;
 	status: string;
 	total: number;
+	currency?: string;
 	items: OrderItem[];
 }
 
@@ -43,6 +44,9 @@ export interface CartContextType extends ClientCartState {
 	toggleCart: () => void;
 	getTotalItems: () => number;
 	getTotalPrice: () => number;
+	/** Discount code to price the cart with; validated server-side by the quote */
+	discountCode: string | null;
+	setDiscountCode: (code: string | null) => void;
 }
 
 export interface ClientCartItem {
@@ -150,6 +154,8 @@ export interface ApiProductVariant {
 	price: number;
 	grams: number;
 	compare_at_price?: number;
+	/** Units in stock; absent when the catalog doesn't track this variant */
+	inventory_quantity?: number;
 	position: number;
 	created_at: string;
 	updated_at: string;
@@ -1,5 +1,6 @@
 import * as clsx from "clsx";
 import { twMerge } from "tailwind-merge";
+import { getCurrency, SHOP_CURRENCY } from "@/lib/currencies";
 
 export function cn(...inputs: clsx.ClassValue[]) {
 	return twMerge(clsx.clsx(inputs));
@@ -17,8 +18,12 @@ export function mergeUtmParams(utm?: UTMParams) {
   return { ...DEFAULT_UTM_PARAMS, ...utm };
 }
 
-export function formatPrice(price: number, currency = "USD") {
-	return new Intl.NumberFormat("en-US", {
+/**
+ * Format an amount already in `currency`, in that currency's locale
+ * Convert catalog prices first (`convertPrice` or `useCurrency().formatCatalogPrice`).
+ */
+export function formatPrice(price: number, currency: string = SHOP_CURRENCY) {
+	return new Intl.NumberFormat(getCurrency(currency)?.locale ?? "en-US", {
 		style: "currency",
 		currency,
 	}).format(price);
@@ -0,0 +1,30 @@
+/**
+ * Analytics Utility Functions
+ * The visit's analytics ids, which the SDK (`lib/analytics.ts`) mirrors into
+ * a session cookie so server actions (checkout, buy now) can record funnel
+ * steps for the same visitor. Only set with analytics consent.
+ */
+
+export const ANALYTICS_ID_COOKIE = "analytics_ids";
+
+export interface AnalyticsIds {
+  sessionId: string;
+  anonymousId: string;
+}
+
+const ID_PATTERN = /^[\w-]{8,128}$/;
+
+export function serializeAnalyticsIds({ sessionId, anonymousId }: AnalyticsIds): string {
+  return `${sessionId}:${anonymousId}`;
+}
+
+/**
+ * The ids in the cookie, or null when unset or malformed
+ */
+export function parseAnalyticsIds(value: string | undefined): AnalyticsIds | null {
+  const [sessionId, anonymousId, ...rest] = value?.split(":") ?? [];
+  if (rest.length > 0 || !ID_PATTERN.test(sessionId ?? "") || !ID_PATTERN.test(anonymousId ?? "")) {
+    return null;
+  }
+  return { sessionId, anonymousId };
+}
@@ -0,0 +1,68 @@
+/**
+ * Attribution Utility Functions
+ * The first-touch UTM parameters and external referrer of a visit, which
+ * `middleware.ts` keeps in a cookie, with marketing consent, until the guest
+ * cart records them.
+ */
+
+export const ATTRIBUTION_COOKIE = "cart_attribution";
+export const ATTRIBUTION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+const UTM_MAX_LENGTH = 255;
+const REFERRER_MAX_LENGTH = 2048;
+
+export interface Attribution {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  referrer?: string;
+}
+
+function param(url: URL, name: string): string | undefined {
+  return url.searchParams.get(name)?.trim().slice(0, UTM_MAX_LENGTH) || undefined;
+}
+
+/**
+ * Attribution of a landing request, or null when it has none
+ * A referrer from the site itself isn't a referral, so only other origins count.
+ */
+export function getRequestAttribution(url: URL, referer: string | null): Attribution | null {
+  let referrer: string | undefined;
+  try {
+    if (referer && new URL(referer).origin !== url.origin) {
+      referrer = referer.slice(0, REFERRER_MAX_LENGTH);
+    }
+  } catch {
+    // Not a URL
+  }
+
+  const attribution: Attribution = {
+    utm_source: param(url, "utm_source"),
+    utm_medium: param(url, "utm_medium"),
+    utm_campaign: param(url, "utm_campaign"),
+    referrer,
+  };
+  return Object.values(attribution).some(Boolean) ? attribution : null;
+}
+
+/**
+ * Read the attribution cookie; anything malformed reads as no attribution
+ */
+export function parseAttribution(value: string | undefined): Attribution {
+  if (!value) return {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!parsed || typeof parsed !== "object") return {};
+    const record = parsed as Record<string, unknown>;
+    const text = (key: keyof Attribution, max: number) =>
+      typeof record[key] === "string" ? (record[key] as string).slice(0, max) : undefined;
+    return {
+      utm_source: text("utm_source", UTM_MAX_LENGTH),
+      utm_medium: text("utm_medium", UTM_MAX_LENGTH),
+      utm_campaign: text("utm_campaign", UTM_MAX_LENGTH),
+      referrer: text("referrer", REFERRER_MAX_LENGTH),
+    };
+  } catch {
+    return {};
+  }
+}
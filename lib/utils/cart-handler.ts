@@ -0,0 +1,72 @@
+/**
+ * Cart Route Handler
+ * Shared plumbing for the /api/cart routes: resolves whose cart it is (the
+ * signed-in customer, or the guest cart session), validates the body with the
+ * route's zod schema from `lib/validations.ts` and answers with the resulting
+ * cart in the ApiResponse envelope.
+ *
+ * Reading starts no session: a guest without one has an empty cart. The
+ * first change starts the session and sets its cookie.
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import type { z } from "zod";
+import { type CartOwner, getCartOwner } from "@/lib/cart-session";
+import { type Cart, EMPTY_CART } from "@/lib/data/carts";
+import { CartError, createApiResponse, HTTP_STATUS } from "@/lib/errors";
+import { logger } from "@/lib/utils/logger";
+import { transformZodErrorsToArray } from "@/lib/utils/validation-utils";
+
+const ERROR_STATUS: Record<CartError["code"], number> = {
+  CART_ITEM_NOT_FOUND: HTTP_STATUS.NOT_FOUND,
+  INVALID_DISCOUNT_CODE: HTTP_STATUS.UNPROCESSABLE_ENTITY,
+};
+
+/**
+ * Run `handler` for the cart's owner with the validated body
+ * Pass `null` as the schema for routes without a body.
+ */
+export async function handleCartRequest<T>(
+  request: NextRequest,
+  schema: z.ZodType<T> | null,
+  handler: (owner: CartOwner, input: T) => Promise<Cart>
+): Promise<NextResponse> {
+  let input = undefined as T;
+  if (schema) {
+    const parsed = schema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      const [first] = transformZodErrorsToArray(parsed.error);
+      return NextResponse.json(
+        createApiResponse(undefined, {
+          message: first?.message ?? "Invalid request",
+          code: "INVALID_REQUEST",
+        }),
+        { status: HTTP_STATUS.BAD_REQUEST }
+      );
+    }
+    input = parsed.data;
+  }
+
+  try {
+    const owner = await getCartOwner({ create: request.method !== "GET" });
+    const cart = owner ? await handler(owner, input) : EMPTY_CART;
+    return NextResponse.json(createApiResponse(cart));
+  } catch (error) {
+    if (error instanceof CartError) {
+      return NextResponse.json(
+        createApiResponse(undefined, { message: error.message, code: error.code }),
+        { status: ERROR_STATUS[error.code] }
+      );
+    }
+    logger.error("Cart request failed", error, {
+      method: request.method,
+      path: request.nextUrl.pathname,
+    });
+    return NextResponse.json(
+      createApiResponse(undefined, {
+        message: request.method === "GET" ? "Failed to load cart" : "Failed to update cart",
+      }),
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Collection Utility Functions
+ * Smart collection rule evaluation, listing sort order and listing URLs.
+ *
+ * NOTE: Pure functions - product loading lives in `lib/data/collections.ts`.
+ */
+
+import type { CollectionRule } from "@/lib/collections";
+import type { ApiProduct } from "@/lib/types";
+import type { CollectionQuery, CollectionSort } from "@/lib/validations";
+import { normalizeProductTags } from "@/lib/utils";
+import {
+  buildSearchQuery,
+  parseSearchParams,
+  readParamValues,
+  type SearchParamsLike,
+} from "@/lib/utils/search-utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check a single rule against a product
+ * `now` is injectable so date rules are stable across one evaluation pass
+ */
+export function matchesCollectionRule(
+  product: ApiProduct,
+  rule: CollectionRule,
+  now: number = Date.now()
+): boolean {
+  switch (rule.type) {
+    case "tag": {
+      const needle = rule.value.toLowerCase();
+      return normalizeProductTags(product.tags).some((tag) =>
+        tag.toLowerCase().includes(needle)
+      );
+    }
+    case "product_type":
+      return product.product_type?.toLowerCase() === rule.value.toLowerCase();
+    case "vendor":
+      return product.vendor?.toLowerCase() === rule.value.toLowerCase();
+    case "on_sale":
+      return (
+        typeof product.compare_at_price === "number" &&
+        product.compare_at_price > product.price
+      );
+    case "created_within_days": {
+      const created = Date.parse(product.created_at);
+      return Number.isFinite(created) && now - created <= rule.days * DAY_MS;
+    }
+    case "min_rating":
+      return (product.rating ?? 0) >= rule.value;
+    case "min_reviews":
+      return (product.review_count ?? 0) >= rule.value;
+    case "price_range":
+      return (
+        (rule.min === undefined || product.price >= rule.min) &&
+        (rule.max === undefined || product.price <= rule.max)
+      );
+  }
+}
+
+/**
+ * Check a product against a rule set
+ * An empty rule set matches nothing, so a misconfigured collection stays empty
+ */
+export function matchesCollectionRules(
+  product: ApiProduct,
+  rules: CollectionRule[],
+  match: "all" | "any" = "all",
+  now: number = Date.now()
+): boolean {
+  if (rules.length === 0) return false;
+  return match === "all"
+    ? rules.every((rule) => matchesCollectionRule(product, rule, now))
+    : rules.some((rule) => matchesCollectionRule(product, rule, now));
+}
+
+/**
+ * Sort choices shown on collection pages
+ */
+export const COLLECTION_SORT_OPTIONS: Array<{ value: CollectionSort; label: string }> = [
+  { value: "featured", label: "Featured" },
+  { value: "price-asc", label: "Price: Low to High" },
+  { value: "price-desc", label: "Price: High to Low" },
+  { value: "newest", label: "Newest" },
+  { value: "best-rated", label: "Top Rated" },
+  { value: "best-selling", label: "Best Selling" },
+];
+
+/**
+ * Sort collection members without mutating the input
+ * "featured" keeps the source order. COSMOS has no sales figures, so
+ * best-selling ranks by review count, the closest proxy for units sold.
+ */
+export function sortCollectionProducts(
+  products: ApiProduct[],
+  sort: CollectionSort = "featured"
+): ApiProduct[] {
+  const keyOf = (product: ApiProduct): number => {
+    switch (sort) {
+      case "price-asc":
+        return product.price;
+      case "price-desc":
+        return -product.price;
+      case "newest":
+        return -(Date.parse(product.created_at) || 0);
+      case "best-rated":
+        return -((product.rating ?? 0) * 100_000 + (product.review_count ?? 0));
+      case "best-selling":
+        return -((product.review_count ?? 0) * 10 + (product.rating ?? 0));
+      default:
+        return 0;
+    }
+  };
+
+  return products
+    .map((product, index) => ({ product, index, key: keyOf(product) }))
+    .sort((a, b) => a.key - b.key || a.index - b.index)
+    .map(({ product }) => product);
+}
+
+/**
+ * Convert URL search params into raw input for `collectionQuerySchema`
+ * Filter parameters are shared with the search page (`vendor`, `type`, ...)
+ */
+export function parseCollectionParams(params: SearchParamsLike): Record<string, unknown> {
+  const { productTypes, vendors, tags, options, priceRanges, inStock, limit } =
+    parseSearchParams(params);
+
+  return {
+    productTypes,
+    vendors,
+    tags,
+    options,
+    priceRanges,
+    inStock,
+    limit,
+    sort: readParamValues(params, "sort")[0],
+    page: readParamValues(params, "page")[0],
+  };
+}
+
+/**
+ * Build a collection link, resetting to page one unless a page is given
+ */
+export function buildCollectionHref(
+  handle: string,
+  query: Partial<CollectionQuery>,
+  overrides: Partial<CollectionQuery> = {}
+): string {
+  const { sort, page, ...filters } = { ...query, page: undefined, ...overrides };
+  const params = new URLSearchParams(buildSearchQuery(filters));
+  if (sort && sort !== "featured") params.set("sort", sort);
+  if (page && page > 1) params.set("page", String(page));
+
+  const search = params.toString();
+  return `/collections/${handle}${search ? `?${search}` : ""}`;
+}
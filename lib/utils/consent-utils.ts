@@ -0,0 +1,47 @@
+/**
+ * Cookie Consent Utility Functions
+ * The visitor's choice from the cookie banner, per the categories on /cookie:
+ * essential cookies are always on; analytics, marketing and functional
+ * cookies only with consent. The choice is kept as JSON in the
+ * SITE_CONFIG.cookieConfig cookie, which the server reads too.
+ */
+
+import { SITE_CONFIG } from "@/lib/constants";
+
+export const CONSENT_COOKIE = SITE_CONFIG.cookieConfig.name;
+
+export interface CookieConsent {
+  analytics: boolean;
+  marketing: boolean;
+  functional: boolean;
+}
+
+export const ALL_COOKIES: CookieConsent = { analytics: true, marketing: true, functional: true };
+export const ESSENTIAL_COOKIES_ONLY: CookieConsent = {
+  analytics: false,
+  marketing: false,
+  functional: false,
+};
+
+/**
+ * Read the consent cookie; null until the visitor has chosen
+ */
+export function parseConsent(value: string | undefined): CookieConsent | null {
+  if (!value) return null;
+  try {
+    const parsed: unknown = JSON.parse(decodeURIComponent(value));
+    if (!parsed || typeof parsed !== "object") return null;
+    const record = parsed as Record<string, unknown>;
+    return {
+      analytics: record.analytics === true,
+      marketing: record.marketing === true,
+      functional: record.functional === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function serializeConsent(consent: CookieConsent): string {
+  return encodeURIComponent(JSON.stringify(consent));
+}
@@ -0,0 +1,106 @@
+/**
+ * Currency Utility Functions
+ * Conversion between the shop currency and presentment currencies, rounding
+ * rules and currency detection for `lib/currencies.ts`.
+ *
+ * NOTE: Pure functions - amounts are converted in integer cents. Catalog
+ * prices use `convertPrice` (rate plus the currency's rounding rule); shipping
+ * rates, fixed discounts and thresholds use `convertAmount` (rate only).
+ */
+
+import {
+  CURRENCIES,
+  getCurrency,
+  SHOP_CURRENCY,
+  type CurrencyRounding,
+} from "@/lib/currencies";
+import { fromCents, toCents } from "@/lib/utils/pricing-utils";
+
+/**
+ * Round cents up to the next price ending on the rule, e.g. 2734 -> 2799
+ */
+export function applyRounding(cents: number, { step, ending }: CurrencyRounding): number {
+  const stepCents = toCents(step);
+  const endingCents = toCents(ending);
+  return Math.ceil((cents - endingCents) / stepCents) * stepCents + endingCents;
+}
+
+/**
+ * A shop-currency amount in `currency`, to the cent
+ */
+export function convertAmount(amount: number, currency: string): number {
+  const rate = getCurrency(currency)?.rate ?? 1;
+  return fromCents(Math.round(toCents(amount) * rate));
+}
+
+/**
+ * A shop-currency catalog price in `currency`, with its rounding rule
+ */
+export function convertPrice(amount: number, currency: string): number {
+  const definition = getCurrency(currency);
+  const converted = toCents(convertAmount(amount, currency));
+  if (!definition?.rounding || converted === 0) return fromCents(converted);
+  return fromCents(applyRounding(converted, definition.rounding));
+}
+
+/**
+ * An amount in `currency` back in the shop currency, to the cent
+ */
+export function toShopAmount(amount: number, currency: string): number {
+  const rate = getCurrency(currency)?.rate ?? 1;
+  return fromCents(Math.round(toCents(amount) / rate));
+}
+
+/**
+ * The currency a country defaults to, if any supported currency lists it
+ */
+export function currencyForCountry(country: string | null | undefined): string | undefined {
+  if (!country) return undefined;
+  const code = country.toUpperCase();
+  return Object.keys(CURRENCIES).find((currency) =>
+    CURRENCIES[currency].countries.includes(code)
+  );
+}
+
+/**
+ * The currency for the first region in an Accept-Language header that has one
+ * Tags are tried by descending quality; language-only tags ("fr") are skipped.
+ */
+export function currencyFromAcceptLanguage(header: string | null | undefined): string | undefined {
+  if (!header) return undefined;
+
+  const regions = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const quality = params.find((param) => param.trim().startsWith("q="));
+      return {
+        region: tag.split("-").find((subtag, index) => index > 0 && /^[a-z]{2}$/i.test(subtag)),
+        q: quality ? Number(quality.trim().slice(2)) || 0 : 1,
+      };
+    })
+    .filter((entry) => entry.region && entry.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { region } of regions) {
+    const currency = currencyForCountry(region);
+    if (currency) return currency;
+  }
+  return undefined;
+}
+
+/**
+ * Default currency for a first visit: the visitor's country (from a geo
+ * header), then their browser languages, then the shop currency
+ */
+export function detectCurrency({
+  country,
+  acceptLanguage,
+}: {
+  country?: string | null;
+  acceptLanguage?: string | null;
+}): string {
+  return (
+    currencyForCountry(country) ?? currencyFromAcceptLanguage(acceptLanguage) ?? SHOP_CURRENCY
+  );
+}
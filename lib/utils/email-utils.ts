@@ -0,0 +1,157 @@
+/**
+ * Email Utility Functions
+ * Formats messages for the mailer (`lib/mailer.ts`) as RFC 5322 text, the
+ * form SMTP sends and `.eml` files store, and derives the plain text part
+ * of rendered templates (`lib/email-templates.ts`).
+ *
+ * NOTE: Pure functions - no side effects. Bodies are base64 encoded, so any
+ * text is safe to send and no line needs dot-stuffing.
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /** Extra headers by name, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+export interface EmailEnvelope extends EmailMessage {
+  from: string;
+  /** Unique per message, e.g. a UUID */
+  id: string;
+  date: Date;
+}
+
+const LINE_LENGTH = 76;
+
+function base64Lines(value: string): string {
+  const encoded = Buffer.from(value, "utf8").toString("base64");
+  return encoded.match(new RegExp(`.{1,${LINE_LENGTH}}`, "g"))?.join("\r\n") ?? "";
+}
+
+/**
+ * A header value, MIME-encoded when it isn't plain ASCII
+ */
+export function encodeHeader(value: string): string {
+  const flat = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(flat)
+    ? flat
+    : `=?UTF-8?B?${Buffer.from(flat, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * The address part of a mailbox such as `Store <hello@example.com>`
+ */
+export function emailAddress(mailbox: string): string {
+  return mailbox.match(/<([^<>]+)>\s*$/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * An address header value; only the display name is MIME-encoded
+ */
+export function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^(.*?)\s*<([^<>]+)>\s*$/);
+  if (!match || !match[1]) return emailAddress(mailbox);
+  const name = encodeHeader(match[1].replace(/^"|"$/g, ""));
+  // Plain names with specials such as "," must be quoted
+  const quoted = /[(),.:;<>@[\]"]/.test(name) && !name.startsWith("=?")
+    ? `"${name.replace(/["\\]/g, "\\$&")}"`
+    : name;
+  return `${quoted} <${match[2]}>`;
+}
+
+function part(contentType: string, body: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(body),
+  ].join("\r\n");
+}
+
+/**
+ * The full message, with CRLF line endings
+ * A message with HTML is multipart/alternative with the text part first.
+ */
+export function formatEmailMessage(message: EmailEnvelope): string {
+  const domain = emailAddress(message.from).split("@")[1] ?? "localhost";
+  const headers = [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${encodeMailbox(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${message.date.toUTCString()}`,
+    `Message-ID: <${message.id}@${domain}>`,
+    ...Object.entries(message.headers ?? {}).map(
+      ([name, value]) => `${name}: ${encodeHeader(value)}`
+    ),
+    "MIME-Version: 1.0",
+  ];
+
+  if (!message.html) {
+    return [...headers, part("text/plain", message.text), ""].join("\r\n");
+  }
+
+  const boundary = `=_${message.id}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", message.text),
+    `--${boundary}`,
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1] === "x" || name[1] === "X"
+      ? parseInt(name.slice(2), 16)
+      : parseInt(name.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+/**
+ * The plain text alternative of an HTML email
+ * Paragraphs are separated by a blank line, table rows become lines, cells
+ * are separated by spaces, and links keep their URL after the label unless
+ * the label is the URL.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(head|style|script)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const url = decodeEntities(href);
+      const content = label.replace(/<[^>]+>/g, "").trim();
+      return !content || decodeEntities(content) === url ? url : `${content} (${url})`;
+    })
+    .replace(/<img\s[^>]*alt="([^"]+)"[^>]*>/gi, "$1")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<(br|hr)[^>]*>/gi, "\n")
+    .replace(/<\/(p|h[1-6]|table|ul|ol|blockquote)>/gi, "\n\n")
+    .replace(/<\/(div|tr|li)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, " ")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,102 @@
+/**
+ * Funnel Utility Functions
+ * The conversion funnels recorded in `user_journeys` (see `lib/journeys.ts`)
+ * and which analytics events reach their steps.
+ *
+ * NOTE: Pure functions - no side effects. A journey is one pass through a
+ * funnel; each step's timeout is how long the visitor has to reach the next
+ * step before the journey counts as dropped off there.
+ */
+
+export interface FunnelStep {
+  name: string;
+  label: string;
+  /** Minutes to reach the next step; unset on the last step */
+  timeoutMinutes?: number;
+}
+
+export interface Funnel {
+  label: string;
+  steps: readonly FunnelStep[];
+}
+
+/** Keyed by journey_type */
+export const FUNNELS = {
+  purchase_funnel: {
+    label: "Purchase",
+    steps: [
+      { name: "browse", label: "Browse", timeoutMinutes: 30 },
+      { name: "product", label: "Product", timeoutMinutes: 30 },
+      { name: "add_to_cart", label: "Add to cart", timeoutMinutes: 1440 },
+      { name: "checkout", label: "Checkout", timeoutMinutes: 60 },
+      // Payment can come days later, e.g. when a Shopify invoice is paid
+      { name: "order", label: "Order placed", timeoutMinutes: 10080 },
+      { name: "paid", label: "Paid" },
+    ],
+  },
+  buy_now_funnel: {
+    label: "Buy now",
+    steps: [
+      { name: "buy_now", label: "Buy now", timeoutMinutes: 30 },
+      { name: "invoice", label: "Shopify invoice" },
+    ],
+  },
+} as const satisfies Record<string, Funnel>;
+
+export type FunnelName = keyof typeof FUNNELS;
+
+export type FunnelStepName<F extends FunnelName> = (typeof FUNNELS)[F]["steps"][number]["name"];
+
+export interface FunnelStepRef {
+  funnel: FunnelName;
+  step: string;
+}
+
+export function isFunnelName(value: string | undefined): value is FunnelName {
+  return value !== undefined && Object.hasOwn(FUNNELS, value);
+}
+
+/**
+ * 1-based position of a step in its funnel, or 0 for an unknown step
+ */
+export function funnelStepOrder(funnel: FunnelName, step: string): number {
+  return (FUNNELS[funnel].steps as readonly FunnelStep[]).findIndex((s) => s.name === step) + 1;
+}
+
+const BROWSE_PATH = /^\/(?:$|collections(?:\/|$)|search(?:\/|$))/;
+const PRODUCT_PATH = /^\/products\/[^/]+\/?$/;
+
+function pathOf(url: string): string | null {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The funnel step an analytics event reaches, if any
+ */
+export function funnelStepForEvent(event: {
+  type: string;
+  name: string;
+  url: string;
+}): FunnelStepRef | null {
+  switch (event.type) {
+    case "page_view": {
+      const path = pathOf(event.url);
+      if (path === null) return null;
+      if (PRODUCT_PATH.test(path)) return { funnel: "purchase_funnel", step: "product" };
+      if (BROWSE_PATH.test(path)) return { funnel: "purchase_funnel", step: "browse" };
+      return null;
+    }
+    case "add_to_cart":
+      return { funnel: "purchase_funnel", step: "add_to_cart" };
+    case "checkout_step":
+      return event.name === "begin_checkout" ? { funnel: "purchase_funnel", step: "checkout" } : null;
+    case "ecommerce":
+      return event.name === "buy_now" ? { funnel: "buy_now_funnel", step: "buy_now" } : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Inventory Utility Functions
+ * Stock levels, statuses and the messages shown for them in the cart and
+ * checkout, for `lib/inventory.ts`.
+ *
+ * NOTE: Pure functions - no side effects. Available stock is the catalog's
+ * quantity less committed orders and other shoppers' checkout holds; `null`
+ * means the catalog doesn't track the variant's stock.
+ */
+
+import { INVENTORY } from "@/lib/constants";
+import type { ApiProduct, ApiProductVariant } from "@/lib/types";
+
+export type StockStatus = "in_stock" | "low_stock" | "out_of_stock";
+
+export interface StockLevel {
+  productId: string;
+  variantId: string;
+  /** Units a new order can take, or null when stock isn't tracked */
+  available: number | null;
+  status: StockStatus;
+}
+
+/** A cart line asking for more than is available */
+export interface StockIssue {
+  productId: string;
+  variantId: string;
+  title: string;
+  requested: number;
+  available: number;
+  message: string;
+}
+
+/**
+ * The catalog's stock for a variant
+ * Single-variant products may only report the product's `quantity`.
+ * Unavailable variants have none; untracked ones return null.
+ */
+export function catalogStock(
+  product: ApiProduct,
+  variant: ApiProductVariant
+): number | null {
+  if (variant.available === false || product.in_stock === false) return 0;
+  const quantity =
+    variant.inventory_quantity ??
+    (product.variants.length === 1 ? product.quantity : undefined);
+  return typeof quantity === "number" && Number.isFinite(quantity)
+    ? Math.max(0, Math.floor(quantity))
+    : null;
+}
+
+export function stockStatus(available: number | null): StockStatus {
+  if (available === null) return "in_stock";
+  if (available <= 0) return "out_of_stock";
+  return available <= INVENTORY.LOW_STOCK_THRESHOLD ? "low_stock" : "in_stock";
+}
+
+/**
+ * Badge for a cart line: "Only 3 left", "Sold out", or null when there's
+ * nothing to say
+ */
+export function stockLabel(level: StockLevel | undefined): string | null {
+  if (!level || level.available === null) return null;
+  if (level.status === "out_of_stock") return "Sold out";
+  return level.status === "low_stock" ? `Only ${level.available} left` : null;
+}
+
+/**
+ * Why a line can't be ordered at its quantity
+ */
+export function stockIssueMessage(title: string, available: number): string {
+  return available <= 0
+    ? `"${title}" became unavailable`
+    : `Only ${available} of "${title}" left`;
+}
+
+/**
+ * Lines whose quantity exceeds their available stock
+ */
+export function findStockIssues(
+  lines: Array<{ productId: string; variantId: string; quantity: number; title: string }>,
+  levels: StockLevel[]
+): StockIssue[] {
+  return lines.flatMap((line) => {
+    const level = levels.find(
+      (l) => l.productId === line.productId && l.variantId === line.variantId
+    );
+    if (!level || level.available === null || line.quantity <= level.available) {
+      return [];
+    }
+    return [
+      {
+        productId: line.productId,
+        variantId: line.variantId,
+        title: line.title,
+        requested: line.quantity,
+        available: level.available,
+        message: stockIssueMessage(line.title, level.available),
+      },
+    ];
+  });
+}
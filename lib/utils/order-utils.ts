@@ -0,0 +1,274 @@
+/**
+ * Order Utility Functions
+ * Order lifecycle, cancellation/return guards and tracking timeline helpers
+ * shared by the order status service, tracking route and pages.
+ *
+ * NOTE: Pure functions - order lookups live in `lib/data/orders.ts` and
+ * status changes go through `lib/order-status.ts`.
+ */
+
+/** Every status an order can be in */
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "fulfilled",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+  "returned",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/** Fulfilment stages shown on the tracking timeline, in order */
+export const ORDER_STAGES = [
+  "pending",
+  "paid",
+  "fulfilled",
+  "shipped",
+  "delivered",
+] as const satisfies readonly OrderStatus[];
+
+export type OrderStage = (typeof ORDER_STAGES)[number];
+
+/** Allowed next statuses; refunded is final */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["fulfilled", "cancelled", "refunded"],
+  fulfilled: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: ["returned"],
+  cancelled: ["refunded"],
+  returned: ["refunded"],
+  refunded: [],
+};
+
+/**
+ * Windows from the /order-cancellation and /refund-policy pages
+ */
+export const ORDER_POLICY = {
+  /** Customers may cancel on their own within this window after placing */
+  CUSTOMER_CANCEL_WINDOW_MINUTES: 60,
+  /** Returns are accepted up to this many days after purchase */
+  RETURN_WINDOW_DAYS: 30,
+} as const;
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Order Placed",
+  paid: "Payment Confirmed",
+  fulfilled: "Preparing Shipment",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+  returned: "Returned",
+};
+
+// Statuses written before the lifecycle existed
+const LEGACY_STATUSES: Record<string, OrderStatus> = {
+  processing: "fulfilled",
+  canceled: "cancelled",
+};
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Lowercase a stored status; older rows use "Pending" and "pending" alike
+ */
+export function normalizeOrderStatus(status: string | null | undefined): string {
+  const normalized = (status ?? "pending").trim().toLowerCase();
+  return LEGACY_STATUSES[normalized] ?? normalized;
+}
+
+export function orderStatusLabel(status: string): string {
+  const normalized = normalizeOrderStatus(status);
+  return isOrderStatus(normalized)
+    ? STATUS_LABELS[normalized]
+    : normalized.charAt(0).toUpperCase() + normalized.slice(1);
+}
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Who is changing an order
+ * `customer` is the shopper who placed it; `staff` and `system` (payment and
+ * carrier integrations) are trusted server-side callers.
+ */
+export interface OrderActor {
+  type: "customer" | "staff" | "system";
+  /** Recorded as `changed_by`; null for system changes */
+  userId: string | null;
+}
+
+export type OrderTransitionCheck =
+  | { allowed: true }
+  | {
+      allowed: false;
+      code: "INVALID_TRANSITION" | "POLICY_VIOLATION" | "FORBIDDEN";
+      reason: string;
+    };
+
+export interface OrderTransitionContext {
+  status: OrderStatus;
+  /** When the order was placed */
+  placedAt: string;
+  actor: OrderActor;
+  now?: number;
+}
+
+/**
+ * Check a status change against the lifecycle and store policies
+ * - Nothing can be cancelled once shipped (shipped orders are returned instead)
+ * - Customers may only cancel within the cancellation window, before the
+ *   order is being prepared, and never move an order forward themselves
+ * - Returns are accepted within the return window of the purchase
+ */
+export function checkOrderTransition(
+  to: OrderStatus,
+  { status, placedAt, actor, now = Date.now() }: OrderTransitionContext
+): OrderTransitionCheck {
+  if (!canTransitionOrder(status, to)) {
+    return {
+      allowed: false,
+      code: "INVALID_TRANSITION",
+      reason: `A ${status} order cannot be marked ${to}`,
+    };
+  }
+
+  const ageMinutes = (now - new Date(placedAt).getTime()) / 60_000;
+
+  if (actor.type === "customer") {
+    if (to !== "cancelled") {
+      return {
+        allowed: false,
+        code: "FORBIDDEN",
+        reason: "Please contact customer service to update this order",
+      };
+    }
+    if (status === "fulfilled") {
+      return {
+        allowed: false,
+        code: "POLICY_VIOLATION",
+        reason:
+          "Your order is already being prepared. Please contact customer service to request a cancellation",
+      };
+    }
+    if (ageMinutes > ORDER_POLICY.CUSTOMER_CANCEL_WINDOW_MINUTES) {
+      return {
+        allowed: false,
+        code: "POLICY_VIOLATION",
+        reason: `Orders can only be cancelled online within ${ORDER_POLICY.CUSTOMER_CANCEL_WINDOW_MINUTES} minutes of being placed`,
+      };
+    }
+  }
+
+  if (to === "returned" && ageMinutes > ORDER_POLICY.RETURN_WINDOW_DAYS * 24 * 60) {
+    return {
+      allowed: false,
+      code: "POLICY_VIOLATION",
+      reason: `Returns are accepted within ${ORDER_POLICY.RETURN_WINDOW_DAYS} days of purchase`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+export interface OrderStatusChange {
+  oldStatus: string | null;
+  newStatus: string;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface OrderTimelineEntry {
+  status: string;
+  label: string;
+  /** When the order reached this stage; null for stages still ahead */
+  date: string | null;
+  completed: boolean;
+  notes: string | null;
+}
+
+/**
+ * Merge the status history into the fulfilment stages
+ * Every stage up to the current one counts as completed, even if the order
+ * skipped it. Statuses outside the stages (cancelled, returned, refunded) are
+ * appended after the last stage reached, in the order they happened.
+ */
+export function buildOrderTimeline(
+  currentStatus: string,
+  placedAt: string,
+  history: OrderStatusChange[]
+): OrderTimelineEntry[] {
+  const current = normalizeOrderStatus(currentStatus);
+  const reachedAt = new Map<string, OrderStatusChange>();
+  for (const change of [...history].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    const status = normalizeOrderStatus(change.newStatus);
+    if (!reachedAt.has(status)) reachedAt.set(status, change);
+  }
+
+  const stageIndex = ORDER_STAGES.indexOf(current as OrderStage);
+  const terminal = stageIndex === -1;
+  // A cancelled or returned order keeps the stages it actually reached
+  const lastReached = terminal
+    ? Math.max(...ORDER_STAGES.map((stage, i) => (reachedAt.has(stage) ? i : 0)))
+    : stageIndex;
+
+  const timeline: OrderTimelineEntry[] = ORDER_STAGES.filter(
+    (_, i) => !terminal || i <= lastReached
+  ).map((stage, i) => {
+    const change = reachedAt.get(stage);
+    return {
+      status: stage,
+      label: orderStatusLabel(stage),
+      date: change?.createdAt ?? (i === 0 ? placedAt : null),
+      completed: i <= lastReached,
+      notes: change?.notes ?? null,
+    };
+  });
+
+  if (terminal) {
+    const outcomes = [...reachedAt.keys()].filter(
+      (status) => !ORDER_STAGES.includes(status as OrderStage)
+    );
+    if (!outcomes.includes(current)) outcomes.push(current);
+
+    for (const status of outcomes) {
+      const change = reachedAt.get(status);
+      timeline.push({
+        status,
+        label: orderStatusLabel(status),
+        date: change?.createdAt ?? null,
+        completed: true,
+        notes: change?.notes ?? null,
+      });
+    }
+  }
+
+  return timeline;
+}
+
+const CARRIER_TRACKING_URLS: Record<string, (trackingNumber: string) => string> = {
+  ups: (n) => `https://www.ups.com/track?tracknum=${n}`,
+  usps: (n) => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}`,
+  fedex: (n) => `https://www.fedex.com/fedextrack/?trknbr=${n}`,
+  dhl: (n) => `https://www.dhl.com/en/express/tracking.html?AWB=${n}`,
+};
+
+/**
+ * Tracking URL for a shipment, derived from the carrier when none was stored
+ */
+export function carrierTrackingUrl(
+  carrier: string,
+  trackingNumber: string,
+  storedUrl?: string | null
+): string | null {
+  if (storedUrl) return storedUrl;
+  const build = CARRIER_TRACKING_URLS[carrier.trim().toLowerCase()];
+  return build ? build(encodeURIComponent(trackingNumber)) : null;
+}
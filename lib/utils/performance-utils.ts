@@ -0,0 +1,98 @@
+/**
+ * Performance Utility Functions
+ * Route templates and Core Web Vitals ratings for the `performance_metrics`
+ * reporter (`lib/web-vitals.ts`) and its report page.
+ *
+ * NOTE: Pure functions - no side effects. Thresholds are web.dev's: a value up
+ * to the first is good, above the second is poor.
+ */
+
+export const WEB_VITALS = ["lcp", "inp", "cls", "fcp", "ttfb", "fid"] as const;
+
+export type WebVital = (typeof WEB_VITALS)[number];
+
+export type VitalRating = "good" | "needs-improvement" | "poor";
+
+export const VITAL_THRESHOLDS: Record<WebVital, readonly [number, number]> = {
+  lcp: [2500, 4000],
+  inp: [200, 500],
+  cls: [0.1, 0.25],
+  fcp: [1800, 3000],
+  ttfb: [800, 1800],
+  fid: [100, 300],
+};
+
+export function isWebVital(name: string): name is WebVital {
+  return (WEB_VITALS as readonly string[]).includes(name);
+}
+
+export function rateVital(vital: WebVital, value: number): VitalRating {
+  const [good, poor] = VITAL_THRESHOLDS[vital];
+  if (value <= good) return "good";
+  return value <= poor ? "needs-improvement" : "poor";
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * The route a path was served by, e.g. `/products/[handle]` for
+ * `/products/linen-shirt`, so metrics group per page type rather than per page
+ * `params` are the route's dynamic params (`useParams()`); catch-all params
+ * become `[...name]`.
+ */
+export function getRouteTemplate(
+  pathname: string,
+  params: Record<string, string | string[] | undefined>
+): string {
+  const segments = pathname.split("/");
+  let from = 1;
+
+  // Params come in route order, so each is looked for after the previous one
+  for (const [name, value] of Object.entries(params)) {
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    if (values.length === 0) continue;
+
+    let start = -1;
+    for (let i = from; i + values.length <= segments.length; i++) {
+      if (values.every((v, j) => safeDecode(segments[i + j]) === safeDecode(v))) {
+        start = i;
+        break;
+      }
+    }
+    if (start === -1) continue;
+
+    segments.splice(start, values.length, Array.isArray(value) ? `[...${name}]` : `[${name}]`);
+    from = start + 1;
+  }
+
+  const route = segments.join("/").replace(/\/+$/, "");
+  return route || "/";
+}
+
+// A route's p75 has to worsen by this much, over enough page loads, to count;
+// the absolute floor (a share of the "good" threshold) keeps CLS 0 -> 0.001 out
+const REGRESSION_RATIO = 1.1;
+const REGRESSION_FLOOR = 0.05;
+const REGRESSION_MIN_SAMPLES = 20;
+
+/**
+ * Whether a vital's p75 got meaningfully worse than the baseline's
+ */
+export function isRegression(
+  vital: WebVital,
+  current: { p75: number; samples: number },
+  baseline: { p75: number; samples: number } | undefined
+): boolean {
+  if (!baseline) return false;
+  if (Math.min(current.samples, baseline.samples) < REGRESSION_MIN_SAMPLES) return false;
+  return (
+    current.p75 > baseline.p75 * REGRESSION_RATIO &&
+    current.p75 - baseline.p75 > VITAL_THRESHOLDS[vital][0] * REGRESSION_FLOOR
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * Pricing Utility Functions
+ * Quote types and total calculation shared by the pricing service and the
+ * cart and checkout summaries that render its quotes.
+ *
+ * NOTE: Pure functions - prices come from `lib/pricing.ts`, never from the
+ * browser. Money is summed in integer cents to avoid float drift.
+ */
+
+import type { ShippingDestination } from "@/lib/shipping";
+import type { AppliedDiscount, DiscountCodeStatus } from "@/lib/utils/promotion-utils";
+import type { ShipmentSummary, ShippingOption } from "@/lib/utils/shipping-utils";
+import type { TaxLine } from "@/lib/utils/tax-utils";
+
+export interface PricingItem {
+  productId: string;
+  variantId: string;
+  quantity: number;
+}
+
+export interface QuoteLine extends PricingItem {
+  title: string;
+  variantTitle: string | null;
+  image: string | null;
+  unitPrice: number;
+  compareAtPrice: number | null;
+  lineTotal: number;
+  /** Weight of one unit */
+  grams: number;
+  requiresShipping: boolean;
+  taxable: boolean;
+  /** Promotions' share of `lineTotal` */
+  discount: number;
+  /** Tax on `lineTotal` less `discount` at the quote's destination */
+  tax: number;
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+export interface PriceQuote {
+  currency: string;
+  lines: QuoteLine[];
+  totals: QuoteTotals;
+  destination: ShippingDestination;
+  /** Methods available for the destination, cheapest first */
+  shippingOptions: ShippingOption[];
+  /** The method charged in `totals.shipping`; null when nothing ships */
+  shippingMethod: ShippingOption | null;
+  /** Itemised `totals.discount`, one line per promotion */
+  discounts: AppliedDiscount[];
+  /** The code sent with the request; null when none was entered */
+  discountCode: DiscountCodeStatus | null;
+  /** Itemised `totals.tax`, one line per tax component */
+  taxLines: TaxLine[];
+  /** Display prices with tax included; the amounts charged don't change */
+  taxesIncluded: boolean;
+  expiresAt: string;
+  /** Signed summary of the quote; send it back when placing the order */
+  token: string;
+}
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Combine repeated product/variant pairs so each is priced once
+ */
+export function mergePricingItems(items: PricingItem[]): PricingItem[] {
+  const merged = new Map<string, PricingItem>();
+  for (const item of items) {
+    const key = `${item.productId}:${item.variantId}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      merged.set(key, { ...item });
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Weight and value of the lines that need shipping
+ * Null when nothing in the order ships (e.g. gift cards only).
+ */
+export function summarizeShipment(
+  lines: Pick<QuoteLine, "unitPrice" | "quantity" | "grams" | "requiresShipping">[]
+): ShipmentSummary | null {
+  const shippable = lines.filter((line) => line.requiresShipping);
+  if (shippable.length === 0) return null;
+
+  return {
+    weightGrams: shippable.reduce((sum, line) => sum + line.grams * line.quantity, 0),
+    subtotal: fromCents(
+      shippable.reduce((sum, line) => sum + toCents(line.unitPrice) * line.quantity, 0)
+    ),
+  };
+}
+
+/**
+ * Subtotal, shipping, tax and total for priced lines
+ * Shipping is the price of the chosen method, discount covers every applied
+ * promotion (shipping discounts included) and tax comes from the
+ * destination's jurisdiction (`calculateTaxes`); all amounts are net.
+ */
+export function calculateQuoteTotals(
+  lines: Pick<QuoteLine, "unitPrice" | "quantity">[],
+  {
+    shipping: shippingPrice = 0,
+    discount: discountAmount = 0,
+    tax: taxAmount = 0,
+  }: { shipping?: number; discount?: number; tax?: number } = {}
+): QuoteTotals {
+  const subtotal = lines.reduce(
+    (sum, line) => sum + toCents(line.unitPrice) * line.quantity,
+    0
+  );
+  const discount = toCents(discountAmount);
+  const shipping = toCents(shippingPrice);
+  const tax = toCents(taxAmount);
+
+  return {
+    subtotal: fromCents(subtotal),
+    discount: fromCents(discount),
+    shipping: fromCents(shipping),
+    tax: fromCents(tax),
+    total: fromCents(subtotal - discount + shipping + tax),
+  };
+}
+
+export interface DisplayTotals {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  /** `quote.discounts` with display amounts */
+  discounts: AppliedDiscount[];
+}
+
+/**
+ * Gross up a net amount at the tax rate another amount was charged
+ */
+function grossUp(cents: number, taxCents: number, baseCents: number): number {
+  return baseCents > 0 ? Math.round(cents * (1 + taxCents / baseCents)) : cents;
+}
+
+/**
+ * Subtotal, discounts and shipping as displayed
+ * Tax-inclusive quotes fold each part's tax into it, discounts at the rate of
+ * what they discount; subtotal less discount plus shipping is still the total.
+ */
+export function displayQuoteTotals(
+  quote: Pick<PriceQuote, "lines" | "totals" | "discounts" | "taxesIncluded">
+): DisplayTotals {
+  const { totals, discounts } = quote;
+  if (!quote.taxesIncluded) {
+    return {
+      subtotal: totals.subtotal,
+      discount: totals.discount,
+      shipping: totals.shipping,
+      discounts,
+    };
+  }
+
+  const goodsTax = quote.lines.reduce((sum, line) => sum + toCents(line.tax), 0);
+  const goodsDiscount = quote.lines.reduce((sum, line) => sum + toCents(line.discount), 0);
+  const goodsNet = toCents(totals.subtotal) - goodsDiscount;
+  const shippingTax = toCents(totals.tax) - goodsTax;
+  const shippingNet = toCents(totals.shipping) - (toCents(totals.discount) - goodsDiscount);
+
+  const grossDiscounts = discounts.map((discount) => ({
+    ...discount,
+    amount: fromCents(
+      discount.class === "shipping"
+        ? grossUp(toCents(discount.amount), shippingTax, shippingNet)
+        : grossUp(toCents(discount.amount), goodsTax, goodsNet)
+    ),
+  }));
+  const sumOf = (shipping: boolean) =>
+    grossDiscounts
+      .filter((discount) => (discount.class === "shipping") === shipping)
+      .reduce((sum, discount) => sum + toCents(discount.amount), 0);
+
+  return {
+    subtotal: fromCents(goodsNet + goodsTax + sumOf(false)),
+    discount: fromCents(sumOf(false) + sumOf(true)),
+    shipping: fromCents(shippingNet + shippingTax + sumOf(true)),
+    discounts: grossDiscounts,
+  };
+}
+
+/**
+ * The priced line for a cart item, if the quote covers it
+ */
+export function findQuoteLine(
+  quote: PriceQuote | null,
+  productId: string,
+  variantId: string
+): QuoteLine | undefined {
+  return quote?.lines.find(
+    (line) => line.productId === String(productId) && line.variantId === String(variantId)
+  );
+}
+
+/**
+ * A cart item's line total as displayed, if the quote covers it
+ * Includes the line's tax when the quote is tax-inclusive.
+ */
+export function displayLineTotal(
+  quote: PriceQuote | null,
+  productId: string,
+  variantId: string
+): number | undefined {
+  const line = findQuoteLine(quote, productId, variantId);
+  if (!quote || !line) return undefined;
+  if (!quote.taxesIncluded) return line.lineTotal;
+  // Tax was charged on the discounted line; gross up the full price at its rate
+  const lineCents = toCents(line.lineTotal);
+  return fromCents(grossUp(lineCents, toCents(line.tax), lineCents - toCents(line.discount)));
+}
+
+export function quoteTotalsEqual(a: QuoteTotals, b: QuoteTotals): boolean {
+  return (Object.keys(a) as (keyof QuoteTotals)[]).every(
+    (key) => toCents(a[key]) === toCents(b[key])
+  );
+}
@@ -12,18 +12,44 @@
  */
 
 import type { ApiProduct } from "@/lib/types";
-import { fetchAllProducts as cosmosClientFetchAll } from "@/lib/api/cosmos-client";
+import {
+  MAX_PAGE_SIZE,
+  iterateCatalogPages,
+  type CatalogIteratorOptions,
+} from "@/lib/api/cosmos-client";
+
+/**
+ * Iterate every product in the catalog
+ * 
+ * ⚠️ SERVER-SIDE ONLY - Do not use in client components!
+ * 
+ * Yields products as pages arrive instead of buffering the catalog.
+ * 
+ * @example
+ * ```typescript
+ * for await (const product of iterateAllProducts()) {
+ *   await index(product);
+ * }
+ * ```
+ */
+export async function* iterateAllProducts(
+  options: CatalogIteratorOptions = {}
+): AsyncGenerator<ApiProduct, void, undefined> {
+  for await (const { products } of iterateCatalogPages(options)) {
+    yield* products;
+  }
+}
 
 /**
  * Fetch all products with pagination
  * 
  * ⚠️ SERVER-SIDE ONLY - Do not use in client components!
  * 
- * Fetches all products from the COSMOS API with automatic pagination.
- * This function is used by merchant feeds and bulk operations that run
- * on the server.
+ * Buffers the whole catalog in memory. Feeds and sitemaps should stream
+ * with `iterateAllProducts` instead; this remains for callers that really
+ * need the full array.
  * 
- * @param pageSize - Number of products to fetch per page (default: 250)
+ * @param pageSize - Number of products to fetch per page (max: 100)
  * @returns Promise resolving to array of all products
  * 
  * @example
@@ -35,8 +61,11 @@ import { fetchAllProducts as cosmosClientFetchAll } from "@/lib/api/cosmos-clien
  * ```
  */
 export async function fetchAllProducts(
-  pageSize: number = 250
+  pageSize: number = MAX_PAGE_SIZE
 ): Promise<ApiProduct[]> {
-  return cosmosClientFetchAll(pageSize);
+  const allProducts: ApiProduct[] = [];
+  for await (const product of iterateAllProducts({ pageSize })) {
+    allProducts.push(product);
+  }
+  return allProducts;
 }
-
@@ -0,0 +1,269 @@
+/**
+ * Promotion Utility Functions
+ * Reward calculation and stacking for the promotions in `lib/promotions.ts`.
+ *
+ * NOTE: Pure functions - which items a promotion covers and whether the
+ * customer may use it are resolved by `lib/discounts.ts`. Amounts are
+ * integer cents; every line and shipping discount is capped at what is left
+ * to discount, so stacked promotions never push an amount below zero.
+ */
+
+import type { DiscountClass, PromotionDefinition } from "@/lib/promotions";
+import type { ShippingService } from "@/lib/shipping";
+import { convertAmount } from "@/lib/utils/currency-utils";
+
+export interface DiscountableLine {
+  unitCents: number;
+  quantity: number;
+}
+
+export interface DiscountableShipping {
+  cents: number;
+  service: ShippingService;
+}
+
+export interface PromotionCandidate {
+  promotion: PromotionDefinition;
+  /** Whether each line is in the promotion's scope, in line order */
+  eligible: boolean[];
+}
+
+/** A promotion applied to a quote */
+export interface AppliedDiscount {
+  id: string;
+  title: string;
+  code: string | null;
+  class: DiscountClass;
+  amount: number;
+}
+
+/** Whether the code the customer entered was applied, and why not */
+export interface DiscountCodeStatus {
+  code: string;
+  applied: boolean;
+  message?: string;
+}
+
+export interface PromotionResult {
+  applied: AppliedDiscount[];
+  /** Discount on each line in cents, in line order */
+  lineDiscounts: number[];
+  shippingDiscount: number;
+  /** Qualifying promotions left out because they don't combine with `blockedBy` */
+  excluded: { id: string; blockedBy: string }[];
+}
+
+interface Allocation {
+  lines: number[];
+  shipping: number;
+}
+
+const CLASS_ORDER: DiscountClass[] = ["product", "order", "shipping"];
+
+export function isPromotionActive(promotion: PromotionDefinition, now: number): boolean {
+  const starts = promotion.startsAt ? Date.parse(promotion.startsAt) : -Infinity;
+  const ends = promotion.endsAt ? Date.parse(promotion.endsAt) : Infinity;
+  return now >= starts && now < ends;
+}
+
+/**
+ * A promotion with its fixed amounts (`fixed` rewards, `minSubtotal`) in `currency`
+ */
+export function localizePromotion(
+  promotion: PromotionDefinition,
+  currency: string
+): PromotionDefinition {
+  const { reward, minSubtotal } = promotion;
+  return {
+    ...promotion,
+    reward:
+      reward.type === "fixed"
+        ? { ...reward, value: convertAmount(reward.value, currency) }
+        : reward,
+    ...(minSubtotal !== undefined && {
+      minSubtotal: convertAmount(minSubtotal, currency),
+    }),
+  };
+}
+
+export function discountClassOf(promotion: PromotionDefinition): DiscountClass {
+  if (promotion.reward.type === "free_shipping") return "shipping";
+  if (promotion.reward.type === "buy_x_get_y" || promotion.scope.type !== "all") {
+    return "product";
+  }
+  return "order";
+}
+
+export function promotionsCombine(a: PromotionDefinition, b: PromotionDefinition): boolean {
+  return (
+    (a.combinesWith ?? []).includes(discountClassOf(b)) &&
+    (b.combinesWith ?? []).includes(discountClassOf(a))
+  );
+}
+
+/**
+ * Eligible subtotal in cents, the base for `minSubtotal`
+ */
+export function eligibleSubtotal(lines: DiscountableLine[], eligible: boolean[]): number {
+  return lines.reduce(
+    (sum, line, index) => sum + (eligible[index] ? line.unitCents * line.quantity : 0),
+    0
+  );
+}
+
+/**
+ * Split `amount` across weights in proportion, largest remainders first
+ */
+function allocate(amount: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return weights.map(() => 0);
+
+  const exact = weights.map((weight) => (amount * weight) / total);
+  const shares = exact.map(Math.floor);
+  let remainder = amount - shares.reduce((sum, share) => sum + share, 0);
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    shares[index]++;
+    remainder--;
+  }
+  return shares;
+}
+
+/**
+ * A promotion's discount against what is left of each line and shipping
+ */
+function calculateReward(
+  { promotion, eligible }: PromotionCandidate,
+  lines: DiscountableLine[],
+  remaining: Allocation,
+  shipping: DiscountableShipping | null
+): Allocation {
+  const reward = promotion.reward;
+  const none = lines.map(() => 0);
+
+  switch (reward.type) {
+    case "percentage":
+      return {
+        lines: remaining.lines.map((cents, index) =>
+          eligible[index] ? Math.round((cents * reward.value) / 100) : 0
+        ),
+        shipping: 0,
+      };
+
+    case "fixed": {
+      const weights = remaining.lines.map((cents, index) => (eligible[index] ? cents : 0));
+      const base = weights.reduce((sum, cents) => sum + cents, 0);
+      return {
+        lines: allocate(Math.min(Math.round(reward.value * 100), base), weights),
+        shipping: 0,
+      };
+    }
+
+    case "free_shipping": {
+      const covered =
+        shipping !== null && (!reward.services || reward.services.includes(shipping.service));
+      return { lines: none, shipping: covered ? remaining.shipping : 0 };
+    }
+
+    case "buy_x_get_y": {
+      const units = lines
+        .flatMap((line, index) =>
+          eligible[index]
+            ? Array.from({ length: line.quantity }, () => ({ index, cents: line.unitCents }))
+            : []
+        )
+        .sort((a, b) => b.cents - a.cents);
+      const groupSize = reward.buy + reward.get;
+      const discounts = [...none];
+      for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+        for (const unit of units.slice(start + reward.buy, start + groupSize)) {
+          discounts[unit.index] += Math.round((unit.cents * reward.percentOff) / 100);
+        }
+      }
+      return {
+        lines: discounts.map((cents, index) => Math.min(cents, remaining.lines[index])),
+        shipping: 0,
+      };
+    }
+  }
+}
+
+function totalOf(allocation: Allocation): number {
+  return allocation.lines.reduce((sum, cents) => sum + cents, 0) + allocation.shipping;
+}
+
+/**
+ * Pick and apply the best combination of qualifying promotions
+ * Candidates must already pass their dates, spend threshold and customer
+ * limits. Promotions are chosen greedily by standalone savings, then applied
+ * product discounts first, order discounts next and shipping last.
+ */
+export function applyPromotions(
+  candidates: PromotionCandidate[],
+  lines: DiscountableLine[],
+  shipping: DiscountableShipping | null
+): PromotionResult {
+  const full: Allocation = {
+    lines: lines.map((line) => line.unitCents * line.quantity),
+    shipping: shipping?.cents ?? 0,
+  };
+
+  const ranked = candidates
+    .map((candidate) => ({
+      candidate,
+      savings: totalOf(calculateReward(candidate, lines, full, shipping)),
+    }))
+    .filter(({ savings }) => savings > 0)
+    .sort((a, b) => b.savings - a.savings);
+
+  const chosen: PromotionCandidate[] = [];
+  const excluded: PromotionResult["excluded"] = [];
+  for (const { candidate } of ranked) {
+    const conflict = chosen.find(
+      (other) => !promotionsCombine(candidate.promotion, other.promotion)
+    );
+    if (conflict) {
+      excluded.push({ id: candidate.promotion.id, blockedBy: conflict.promotion.id });
+    } else {
+      chosen.push(candidate);
+    }
+  }
+
+  chosen.sort(
+    (a, b) =>
+      CLASS_ORDER.indexOf(discountClassOf(a.promotion)) -
+      CLASS_ORDER.indexOf(discountClassOf(b.promotion))
+  );
+
+  const remaining: Allocation = { lines: [...full.lines], shipping: full.shipping };
+  const applied: AppliedDiscount[] = [];
+  for (const candidate of chosen) {
+    const reward = calculateReward(candidate, lines, remaining, shipping);
+    reward.lines.forEach((cents, index) => {
+      remaining.lines[index] -= cents;
+    });
+    remaining.shipping -= reward.shipping;
+
+    const amount = totalOf(reward);
+    if (amount > 0) {
+      const { promotion } = candidate;
+      applied.push({
+        id: promotion.id,
+        title: promotion.title,
+        code: promotion.code ?? null,
+        class: discountClassOf(promotion),
+        amount: amount / 100,
+      });
+    }
+  }
+
+  return {
+    applied,
+    lineDiscounts: full.lines.map((cents, index) => cents - remaining.lines[index]),
+    shippingDiscount: full.shipping - remaining.shipping,
+    excluded,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Request Utility Functions
+ * Helpers for reading client details from incoming request headers.
+ */
+
+/**
+ * Best-effort client IP for rate limiting
+ * Uses the first x-forwarded-for hop set by the proxy, then x-real-ip.
+ */
+export function getClientIp(headers: Headers): string {
+  const forwarded = headers.get("x-forwarded-for");
+  const first = forwarded?.split(",")[0]?.trim();
+  return first || headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+export interface UserAgentDetails {
+  deviceType: "mobile" | "tablet" | "desktop" | "bot";
+  browserName: string | null;
+  browserVersion: string | null;
+  osName: string | null;
+  osVersion: string | null;
+}
+
+// Order matters: Edge and Opera also claim Chrome, and Chrome claims Safari
+const BROWSERS: [name: string, pattern: RegExp][] = [
+  ["Edge", /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ["Opera", /(?:OPR|Opera)\/([\d.]+)/],
+  ["Samsung Internet", /SamsungBrowser\/([\d.]+)/],
+  ["Firefox", /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ["Chrome", /(?:Chrome|CriOS)\/([\d.]+)/],
+  ["Safari", /Version\/([\d.]+).*Safari/],
+];
+
+const OPERATING_SYSTEMS: [name: string, pattern: RegExp][] = [
+  ["iOS", /(?:iPhone|iPad|iPod).*? OS ([\d_]+)/],
+  ["Android", /Android ([\d.]+)/],
+  ["Windows", /Windows NT ([\d.]+)/],
+  ["macOS", /Mac OS X ([\d_.]+)/],
+  ["Chrome OS", /CrOS \S+ ([\d.]+)/],
+  ["Linux", /Linux()/],
+];
+
+function match(
+  userAgent: string,
+  candidates: [name: string, pattern: RegExp][]
+): [name: string | null, version: string | null] {
+  for (const [name, pattern] of candidates) {
+    const found = userAgent.match(pattern);
+    if (found) return [name, found[1]?.replace(/_/g, ".") || null];
+  }
+  return [null, null];
+}
+
+/**
+ * Device, browser and OS from a User-Agent header
+ * Best effort: good enough for analytics segments, not for feature detection.
+ */
+export function parseUserAgent(userAgent: string): UserAgentDetails {
+  const [browserName, browserVersion] = match(userAgent, BROWSERS);
+  const [osName, osVersion] = match(userAgent, OPERATING_SYSTEMS);
+  const deviceType = /bot|crawler|spider|crawling/i.test(userAgent)
+    ? "bot"
+    : /iPad|Tablet|Android(?!.*Mobile)/.test(userAgent)
+      ? "tablet"
+      : /Mobi|iPhone|iPod|Android/.test(userAgent)
+        ? "mobile"
+        : "desktop";
+  return { deviceType, browserName, browserVersion, osName, osVersion };
+}
+
+// Header values are client-influenced; a malformed escape must not throw
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Country, city and timezone from the hosting platform's geo headers
+ * (Vercel, or the country from Cloudflare)
+ */
+export function getClientGeo(headers: Headers): {
+  countryCode: string | null;
+  city: string | null;
+  timezone: string | null;
+} {
+  const city = headers.get("x-vercel-ip-city");
+  return {
+    countryCode: headers.get("x-vercel-ip-country") ?? headers.get("cf-ipcountry"),
+    city: city ? safeDecode(city) : null,
+    timezone: headers.get("x-vercel-ip-timezone"),
+  };
+}
@@ -0,0 +1,400 @@
+/**
+ * In-process Search Index
+ *
+ * A small inverted index with prefix and typo-tolerant matching, used for
+ * autocomplete and as a fallback when COSMOS finds no exact matches.
+ *
+ * - Fields are weighted (title > tags > vendor/type > description)
+ * - The last query token matches by prefix, so partial words autocomplete
+ * - Other tokens may be misspelt: candidates come from a trigram index and
+ *   are confirmed with an edit distance bound scaled to the token length
+ *
+ * Pure data structure - building it from the catalog lives in
+ * `lib/utils/search-server-utils.ts`.
+ *
+ * @module lib/utils/search-index
+ */
+
+import { stripHtml } from "./xml-utils";
+
+export interface SearchDocument {
+  id: string;
+  handle: string;
+  title: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  /** Plain-text description */
+  body: string;
+  price: number;
+  image?: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface IndexHit {
+  document: SearchDocument;
+  score: number;
+  /** Title split into matched and unmatched segments */
+  highlight: HighlightSegment[];
+}
+
+export interface ProductSuggestion {
+  id: string;
+  handle: string;
+  title: string;
+  price: number;
+  image?: string;
+  highlight: HighlightSegment[];
+}
+
+export interface CollectionSuggestion {
+  handle: string;
+  title: string;
+  highlight: HighlightSegment[];
+}
+
+/** Autocomplete payload returned by /api/search/suggest */
+export interface SearchSuggestions {
+  query: string;
+  products: ProductSuggestion[];
+  collections: CollectionSuggestion[];
+  queries: string[];
+}
+
+type Field = "title" | "tags" | "vendor" | "productType" | "body";
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  title: 5,
+  tags: 3,
+  vendor: 2,
+  productType: 2,
+  body: 1,
+};
+
+// How much each kind of term match is worth relative to an exact hit
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.6;
+
+/** Cap on vocabulary terms expanded for one prefix */
+const MAX_PREFIX_EXPANSIONS = 50;
+
+/**
+ * Lowercase, strip accents and split into word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 || /\d/.test(token));
+}
+
+function trigrams(term: string): string[] {
+  const padded = `  ${term} `;
+  const grams: string[] = [];
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.push(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+/**
+ * Maximum edits tolerated for a token of this length
+ */
+function allowedEdits(length: number): number {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus transpositions),
+ * giving up early once `max` is exceeded
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+/**
+ * Split `text` into segments, marking words that match any of `terms`
+ */
+export function highlightText(text: string, terms: Set<string>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const pattern = /[\p{L}\p{N}]+/gu;
+  let last = 0;
+
+  for (const found of text.matchAll(pattern)) {
+    const [word] = tokenize(found[0]);
+    const matched =
+      word !== undefined &&
+      Array.from(terms).some((term) => word === term || word.startsWith(term));
+    if (!matched) continue;
+
+    const start = found.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: found[0], match: true });
+    last = start + found[0].length;
+  }
+
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+export class SearchIndex {
+  private documents: SearchDocument[] = [];
+  /** term -> document index -> weighted frequency */
+  private postings = new Map<string, Map<number, number>>();
+  /** trigram -> terms containing it */
+  private gramIndex = new Map<string, Set<string>>();
+  /** Sorted vocabulary for prefix lookups */
+  private vocabulary: string[] = [];
+
+  constructor(documents: SearchDocument[] = []) {
+    for (const document of documents) this.add(document);
+    this.finalize();
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Build a document from catalog fields, stripping HTML from the description
+   */
+  static toDocument(product: {
+    id: string;
+    handle: string;
+    title: string;
+    vendor: string;
+    product_type: string;
+    tags: string[] | null;
+    body_html: string;
+    price: number;
+    images?: Array<{ src: string }>;
+  }): SearchDocument {
+    return {
+      id: product.id,
+      handle: product.handle,
+      title: product.title,
+      vendor: product.vendor,
+      productType: product.product_type,
+      tags: product.tags ?? [],
+      body: stripHtml(product.body_html ?? "").replace(/\s+/g, " ").trim(),
+      price: product.price,
+      image: product.images?.[0]?.src,
+    };
+  }
+
+  private add(document: SearchDocument): void {
+    const index = this.documents.push(document) - 1;
+    const fields: Array<[Field, string]> = [
+      ["title", document.title],
+      ["tags", document.tags.join(" ")],
+      ["vendor", document.vendor],
+      ["productType", document.productType],
+      ["body", document.body],
+    ];
+
+    for (const [field, text] of fields) {
+      for (const term of tokenize(text)) {
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(term, docs);
+        }
+        docs.set(index, (docs.get(index) ?? 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+  }
+
+  private finalize(): void {
+    this.vocabulary = Array.from(this.postings.keys()).sort();
+    for (const term of this.vocabulary) {
+      for (const gram of trigrams(term)) {
+        let terms = this.gramIndex.get(gram);
+        if (!terms) {
+          terms = new Set();
+          this.gramIndex.set(gram, terms);
+        }
+        terms.add(term);
+      }
+    }
+  }
+
+  /**
+   * Vocabulary terms starting with `prefix`, most common first
+   */
+  completions(prefix: string, limit = MAX_PREFIX_EXPANSIONS): string[] {
+    let low = 0;
+    let high = this.vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.vocabulary[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < this.vocabulary.length; i++) {
+      if (!this.vocabulary[i].startsWith(prefix)) break;
+      matches.push(this.vocabulary[i]);
+    }
+
+    return matches
+      .sort((a, b) => (this.postings.get(b)?.size ?? 0) - (this.postings.get(a)?.size ?? 0))
+      .slice(0, limit);
+  }
+
+  /**
+   * Terms within the allowed edit distance of `token`
+   */
+  private fuzzyTerms(token: string): string[] {
+    const max = allowedEdits(token.length);
+    if (max === 0) return [];
+
+    const shared = new Map<string, number>();
+    for (const gram of trigrams(token)) {
+      for (const term of this.gramIndex.get(gram) ?? []) {
+        shared.set(term, (shared.get(term) ?? 0) + 1);
+      }
+    }
+
+    // A term within `max` edits shares at least this many trigrams
+    const minShared = Math.max(1, token.length - 2 - 3 * max);
+    return Array.from(shared)
+      .filter(([term, count]) => count >= minShared && term !== token)
+      .map(([term]) => ({ term, distance: editDistance(token, term, max) }))
+      .filter(({ distance }) => distance <= max)
+      .sort(
+        (a, b) =>
+          a.distance - b.distance ||
+          (this.postings.get(b.term)?.size ?? 0) - (this.postings.get(a.term)?.size ?? 0)
+      )
+      .map(({ term }) => term);
+  }
+
+  /**
+   * Expand one query token into matching terms with a quality factor
+   */
+  private expand(token: string, isLast: boolean): Map<string, number> {
+    const terms = new Map<string, number>();
+    if (this.postings.has(token)) terms.set(token, EXACT_MATCH);
+
+    if (isLast) {
+      for (const term of this.completions(token)) {
+        if (!terms.has(term)) terms.set(term, PREFIX_MATCH);
+      }
+    }
+
+    if (terms.size === 0) {
+      for (const term of this.fuzzyTerms(token)) terms.set(term, FUZZY_MATCH);
+    }
+
+    return terms;
+  }
+
+  /**
+   * Rank documents for a free-text query
+   * Every token must match; if that leaves nothing, any token may match
+   */
+  search(query: string, limit = 10): IndexHit[] {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return [];
+
+    const expansions = tokens.map((token, i) => this.expand(token, i === tokens.length - 1));
+    const scores = new Map<number, number>();
+    const matchedTokens = new Map<number, number>();
+
+    for (const terms of expansions) {
+      const best = new Map<number, number>();
+      for (const [term, quality] of terms) {
+        for (const [doc, weight] of this.postings.get(term) ?? []) {
+          best.set(doc, Math.max(best.get(doc) ?? 0, weight * quality));
+        }
+      }
+      for (const [doc, score] of best) {
+        scores.set(doc, (scores.get(doc) ?? 0) + score);
+        matchedTokens.set(doc, (matchedTokens.get(doc) ?? 0) + 1);
+      }
+    }
+
+    let ranked = Array.from(scores).filter(
+      ([doc]) => matchedTokens.get(doc) === tokens.length
+    );
+    if (ranked.length === 0) ranked = Array.from(scores);
+
+    const highlightTerms = new Set(
+      expansions.flatMap((terms) => Array.from(terms.keys()))
+    );
+
+    return ranked
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, limit)
+      .map(([doc, score]) => ({
+        document: this.documents[doc],
+        score,
+        highlight: highlightText(this.documents[doc].title, highlightTerms),
+      }));
+  }
+
+  private correctToken(token: string): string {
+    if (this.postings.has(token)) return token;
+    return this.fuzzyTerms(token)[0] ?? token;
+  }
+
+  /**
+   * Replace unknown tokens with their closest known term
+   * Returns null when nothing needed correcting
+   */
+  correctQuery(query: string): string | null {
+    const tokens = tokenize(query);
+    const corrected = tokens.map((token) => this.correctToken(token));
+    return corrected.some((token, i) => token !== tokens[i])
+      ? corrected.join(" ")
+      : null;
+  }
+
+  /**
+   * Complete the last token of a query into whole-query suggestions
+   * Earlier tokens are spell-corrected to their closest known term
+   */
+  suggestQueries(query: string, limit = 5): string[] {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return [];
+
+    const head = tokens.slice(0, -1).map((token) => this.correctToken(token));
+    const last = tokens[tokens.length - 1];
+
+    const tails = this.completions(last, limit);
+    if (tails.length === 0) tails.push(...this.fuzzyTerms(last).slice(0, limit));
+
+    return tails.map((tail) => [...head, tail].join(" "));
+  }
+}
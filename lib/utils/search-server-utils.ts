@@ -0,0 +1,134 @@
+/**
+ * Search Server-Side Utility Functions
+ *
+ * Keeps the in-process search index built from the COSMOS catalog and
+ * answers autocomplete queries from it.
+ *
+ * ⚠️ WARNING: Do NOT import this file in client components!
+ * Use the /api/search/suggest route instead.
+ *
+ * @module lib/utils/search-server-utils
+ */
+
+import { iterateCatalogProducts } from "@/lib/api/cosmos-client";
+import { COLLECTIONS } from "@/lib/collections";
+import { logger } from "@/lib/utils/logger";
+import {
+  SearchIndex,
+  highlightText,
+  tokenize,
+  type CollectionSuggestion,
+  type IndexHit,
+  type ProductSuggestion,
+  type SearchDocument,
+  type SearchSuggestions,
+} from "@/lib/utils/search-index";
+
+/** Rebuild the index in the background once it is this old */
+const INDEX_MAX_AGE_MS = 15 * 60 * 1000;
+
+let current: { index: SearchIndex; builtAt: number } | null = null;
+let building: Promise<SearchIndex> | null = null;
+
+async function buildIndex(): Promise<SearchIndex> {
+  const started = Date.now();
+  const documents: SearchDocument[] = [];
+
+  for await (const product of iterateCatalogProducts()) {
+    documents.push(SearchIndex.toDocument(product));
+  }
+
+  const index = new SearchIndex(documents);
+  current = { index, builtAt: Date.now() };
+  logger.perf(`Search index build (${index.size} documents)`, Date.now() - started);
+  return index;
+}
+
+function rebuild(): Promise<SearchIndex> {
+  if (!building) {
+    building = buildIndex().finally(() => {
+      building = null;
+    });
+  }
+  return building;
+}
+
+/**
+ * Get the search index, building it on first use
+ * A stale index keeps serving while a fresh one is built in the background
+ */
+export async function getSearchIndex(): Promise<SearchIndex> {
+  if (!current) return rebuild();
+
+  if (Date.now() - current.builtAt > INDEX_MAX_AGE_MS) {
+    rebuild().catch((error) => logger.error("Search index rebuild failed", error));
+  }
+  return current.index;
+}
+
+/**
+ * Mark the index stale so the next lookup triggers a rebuild
+ * Called when catalog webhooks report changes
+ */
+export function invalidateSearchIndex(): void {
+  if (current) current.builtAt = 0;
+}
+
+function toProductSuggestion({ document, highlight }: IndexHit): ProductSuggestion {
+  return {
+    id: document.id,
+    handle: document.handle,
+    title: document.title,
+    price: document.price,
+    image: document.image,
+    highlight,
+  };
+}
+
+function matchCollections(query: string, limit: number): CollectionSuggestion[] {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+  const terms = new Set(tokens);
+
+  return COLLECTIONS.filter(({ handle, title }) => {
+    const words = tokenize(`${title} ${handle}`);
+    return tokens.every((token) => words.some((word) => word.startsWith(token)));
+  })
+    .slice(0, limit)
+    .map(({ handle, title }) => ({
+      handle,
+      title,
+      highlight: highlightText(title, terms),
+    }));
+}
+
+/**
+ * Autocomplete suggestions for the header search bar
+ */
+export async function getSearchSuggestions(
+  query: string,
+  limit = 6
+): Promise<SearchSuggestions> {
+  const index = await getSearchIndex();
+
+  return {
+    query,
+    products: index.search(query, limit).map(toProductSuggestion),
+    collections: matchCollections(query, 3),
+    queries: index.suggestQueries(query, 5),
+  };
+}
+
+/**
+ * Spell-correct a query against the catalog vocabulary
+ * Returns null when the query is already made of known terms, or when the
+ * index is still being built - a search request never waits for a full build.
+ */
+export async function correctSearchQuery(query: string): Promise<string | null> {
+  if (!current) {
+    rebuild().catch((error) => logger.error("Search index build failed", error));
+    return null;
+  }
+  const index = await getSearchIndex();
+  return index.correctQuery(query);
+}
@@ -0,0 +1,467 @@
+/**
+ * Search Utility Functions
+ *
+ * Pure helpers for faceted search: URL <-> input mapping, filtering, facet
+ * counting, sorting and cursor encoding. Shared by `/api/search`, the search
+ * page and its facet links, so they are safe to import anywhere.
+ *
+ * @module lib/utils/search-utils
+ */
+
+import type { ApiProduct } from "@/lib/types";
+import type { SearchInput } from "@/lib/validations";
+import { normalizeProductTags } from "@/lib/utils";
+
+/** Facet filters, shared with collection listings */
+export type SearchFilters = Pick<
+  SearchInput,
+  "productTypes" | "vendors" | "tags" | "options" | "priceRanges" | "inStock"
+>;
+
+export type SearchSortBy = NonNullable<SearchInput["sortBy"]>;
+export type SearchSortOrder = NonNullable<SearchInput["sortOrder"]>;
+
+/**
+ * Price buckets offered as facets; ids are `min-max` (max omitted for the last)
+ */
+export const PRICE_BUCKETS = [
+  { id: "0-25", label: "Under $25", min: 0, max: 25 },
+  { id: "25-50", label: "$25 - $50", min: 25, max: 50 },
+  { id: "50-100", label: "$50 - $100", min: 50, max: 100 },
+  { id: "100-200", label: "$100 - $200", min: 100, max: 200 },
+  { id: "200-", label: "$200 & above", min: 200, max: Infinity },
+] as const;
+
+/**
+ * Sort choices shown to shoppers, mapped onto `sortBy`/`sortOrder`
+ */
+export const SEARCH_SORT_OPTIONS: Array<{
+  label: string;
+  sortBy: SearchSortBy;
+  sortOrder?: SearchSortOrder;
+}> = [
+  { label: "Relevance", sortBy: "relevance" },
+  { label: "Price: Low to High", sortBy: "price", sortOrder: "asc" },
+  { label: "Price: High to Low", sortBy: "price", sortOrder: "desc" },
+  { label: "Top Rated", sortBy: "rating", sortOrder: "desc" },
+  { label: "Newest", sortBy: "created_at", sortOrder: "desc" },
+];
+
+export interface FacetValue {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface SearchFacets {
+  productTypes: FacetValue[];
+  vendors: FacetValue[];
+  tags: FacetValue[];
+  /** Keyed by option name, e.g. "Size" or "Color" */
+  options: Record<string, FacetValue[]>;
+  priceRanges: Array<FacetValue & { label: string }>;
+  inStock: { count: number; selected: boolean };
+}
+
+/** Facets whose own selection is ignored when counting (multi-select) */
+type FacetKey = "productTypes" | "vendors" | "tags" | "options" | "priceRanges" | "inStock";
+
+/** Maximum tag values returned; tags are long-tailed */
+const MAX_TAG_FACETS = 30;
+
+// URL parameter names for each input field
+const PARAM_NAMES = {
+  query: "q",
+  sortBy: "sort",
+  sortOrder: "order",
+  cursor: "cursor",
+  limit: "limit",
+  productTypes: "type",
+  vendors: "vendor",
+  tags: "tag",
+  options: "option",
+  priceRanges: "price",
+  inStock: "in_stock",
+} as const;
+
+export type SearchParamsLike =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+/**
+ * Every value of a query parameter, from URLSearchParams or Next.js `searchParams`
+ */
+export function readParamValues(params: SearchParamsLike, name: string): string[] {
+  if (params instanceof URLSearchParams) return params.getAll(name);
+  const value = params[name];
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Convert URL search params into raw input for `searchSchema`
+ */
+export function parseSearchParams(params: SearchParamsLike): Record<string, unknown> {
+  const first = (name: string) => readParamValues(params, name)[0];
+  const list = (name: string) => {
+    const values = readParamValues(params, name).filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  };
+
+  return {
+    query: first(PARAM_NAMES.query) ?? "",
+    sortBy: first(PARAM_NAMES.sortBy),
+    sortOrder: first(PARAM_NAMES.sortOrder),
+    cursor: first(PARAM_NAMES.cursor),
+    limit: first(PARAM_NAMES.limit),
+    productTypes: list(PARAM_NAMES.productTypes),
+    vendors: list(PARAM_NAMES.vendors),
+    tags: list(PARAM_NAMES.tags),
+    options: list(PARAM_NAMES.options),
+    priceRanges: list(PARAM_NAMES.priceRanges),
+    inStock: first(PARAM_NAMES.inStock) === "1" ? true : undefined,
+  };
+}
+
+/**
+ * Serialise search input into a query string (without the leading `?`)
+ * Values are sorted so equivalent searches share one canonical URL
+ */
+export function buildSearchQuery(input: Partial<SearchInput>): string {
+  const params = new URLSearchParams();
+  if (input.query) params.set(PARAM_NAMES.query, input.query);
+
+  const lists: Array<[string, string[] | undefined]> = [
+    [PARAM_NAMES.productTypes, input.productTypes],
+    [PARAM_NAMES.vendors, input.vendors],
+    [PARAM_NAMES.tags, input.tags],
+    [PARAM_NAMES.options, input.options],
+    [PARAM_NAMES.priceRanges, input.priceRanges],
+  ];
+  for (const [name, values] of lists) {
+    for (const value of [...(values ?? [])].sort()) params.append(name, value);
+  }
+
+  if (input.inStock) params.set(PARAM_NAMES.inStock, "1");
+  if (input.sortBy && input.sortBy !== "relevance") {
+    params.set(PARAM_NAMES.sortBy, input.sortBy);
+  }
+  if (input.sortOrder && input.sortBy && input.sortBy !== "relevance") {
+    params.set(PARAM_NAMES.sortOrder, input.sortOrder);
+  }
+  if (input.limit) params.set(PARAM_NAMES.limit, String(input.limit));
+  if (input.cursor) params.set(PARAM_NAMES.cursor, input.cursor);
+
+  return params.toString();
+}
+
+/**
+ * Build a `/search` link, resetting the cursor unless one is given
+ */
+export function buildSearchHref(
+  input: Partial<SearchInput>,
+  overrides: Partial<SearchInput> = {}
+): string {
+  const query = buildSearchQuery({ ...input, cursor: undefined, ...overrides });
+  return query ? `/search?${query}` : "/search";
+}
+
+type ListFacetKey = "productTypes" | "vendors" | "tags" | "options" | "priceRanges";
+
+/**
+ * Return input with `value` toggled in a multi-select facet
+ */
+export function toggleFacetValue<T extends SearchFilters>(
+  input: T,
+  key: ListFacetKey,
+  value: string
+): T {
+  const current = input[key] ?? [];
+  const next = current.includes(value)
+    ? current.filter((item) => item !== value)
+    : [...current, value];
+  return { ...input, [key]: next.length > 0 ? next : undefined };
+}
+
+/**
+ * Whether any facet filter is selected
+ */
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return Boolean(
+    filters.productTypes?.length ||
+      filters.vendors?.length ||
+      filters.tags?.length ||
+      filters.options?.length ||
+      filters.priceRanges?.length ||
+      filters.inStock
+  );
+}
+
+/**
+ * Whether any variant can be bought
+ * COSMOS `in_stock` is not reliable on its own, so variants decide when present
+ */
+export function isProductAvailable(product: ApiProduct): boolean {
+  if (product.variants.length === 0) return product.in_stock;
+  return product.variants.some((variant) => variant.available);
+}
+
+function optionPairs(product: ApiProduct): string[] {
+  return product.options.flatMap((option) =>
+    option.values.map((value) => `${option.name}:${value}`)
+  );
+}
+
+function priceBucketOf(price: number): string | undefined {
+  return PRICE_BUCKETS.find((bucket) => price >= bucket.min && price < bucket.max)?.id;
+}
+
+function matchesAny(selected: string[] | undefined, values: string[]): boolean {
+  if (!selected || selected.length === 0) return true;
+  const lookup = new Set(values.map((value) => value.toLowerCase()));
+  return selected.some((value) => lookup.has(value.toLowerCase()));
+}
+
+/**
+ * Apply facet filters to a product, optionally ignoring one facet
+ * Values within a facet are OR-ed; facets are AND-ed. Option values are
+ * OR-ed within the same option name and AND-ed across names.
+ */
+export function matchesSearchFilters(
+  product: ApiProduct,
+  input: SearchFilters,
+  ignore?: FacetKey
+): boolean {
+  if (ignore !== "productTypes" && !matchesAny(input.productTypes, [product.product_type])) {
+    return false;
+  }
+  if (ignore !== "vendors" && !matchesAny(input.vendors, [product.vendor])) {
+    return false;
+  }
+  if (ignore !== "tags" && !matchesAny(input.tags, normalizeProductTags(product.tags))) {
+    return false;
+  }
+  if (ignore !== "priceRanges" && input.priceRanges?.length) {
+    const bucket = priceBucketOf(product.price);
+    if (!bucket || !input.priceRanges.includes(bucket)) return false;
+  }
+  if (ignore !== "inStock" && input.inStock && !isProductAvailable(product)) {
+    return false;
+  }
+  if (ignore !== "options" && input.options?.length) {
+    const byName = new Map<string, string[]>();
+    for (const pair of input.options) {
+      const [name] = pair.split(":");
+      byName.set(name.toLowerCase(), [...(byName.get(name.toLowerCase()) ?? []), pair]);
+    }
+    const pairs = optionPairs(product);
+    for (const selected of byName.values()) {
+      if (!matchesAny(selected, pairs)) return false;
+    }
+  }
+  return true;
+}
+
+function countValues(
+  products: ApiProduct[],
+  valuesOf: (product: ApiProduct) => string[],
+  selected: string[] = []
+): FacetValue[] {
+  const counts = new Map<string, number>();
+  for (const product of products) {
+    for (const value of new Set(valuesOf(product).filter(Boolean))) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  // Keep selected values visible even when nothing matches them any more
+  for (const value of selected) {
+    if (!counts.has(value)) counts.set(value, 0);
+  }
+
+  const lowered = new Set(selected.map((value) => value.toLowerCase()));
+  return Array.from(counts, ([value, count]) => ({
+    value,
+    count,
+    selected: lowered.has(value.toLowerCase()),
+  })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Count facet values over the candidate set
+ * Each facet is counted with every other filter applied but not its own, so
+ * shoppers can see what selecting another value of the same facet would add.
+ */
+export function computeSearchFacets(
+  products: ApiProduct[],
+  input: SearchFilters
+): SearchFacets {
+  const without = (key: FacetKey) =>
+    products.filter((product) => matchesSearchFilters(product, input, key));
+
+  const optionProducts = without("options");
+  const optionNames = new Set(
+    optionProducts.flatMap((product) =>
+      product.options
+        .filter((option) => option.name && option.name !== "Title")
+        .map((option) => option.name)
+    )
+  );
+  const options: Record<string, FacetValue[]> = {};
+  for (const name of optionNames) {
+    const values = countValues(
+      optionProducts,
+      (product) => optionPairs(product).filter((pair) => pair.startsWith(`${name}:`)),
+      input.options?.filter((pair) => pair.startsWith(`${name}:`))
+    );
+    if (values.length > 1 || values.some((value) => value.selected)) {
+      options[name] = values;
+    }
+  }
+
+  const priceCounts = countValues(
+    without("priceRanges"),
+    (product) => [priceBucketOf(product.price) ?? ""],
+    input.priceRanges
+  );
+
+  return {
+    productTypes: countValues(
+      without("productTypes"),
+      (product) => [product.product_type],
+      input.productTypes
+    ),
+    vendors: countValues(without("vendors"), (product) => [product.vendor], input.vendors),
+    tags: countValues(
+      without("tags"),
+      (product) => normalizeProductTags(product.tags),
+      input.tags
+    ).slice(0, MAX_TAG_FACETS),
+    options,
+    priceRanges: PRICE_BUCKETS.map((bucket) => {
+      const found = priceCounts.find((value) => value.value === bucket.id);
+      return {
+        value: bucket.id,
+        label: bucket.label,
+        count: found?.count ?? 0,
+        selected: found?.selected ?? false,
+      };
+    }),
+    inStock: {
+      count: without("inStock").filter(isProductAvailable).length,
+      selected: Boolean(input.inStock),
+    },
+  };
+}
+
+/**
+ * Score how well a product matches the query text
+ */
+export function relevanceScore(product: ApiProduct, query: string): number {
+  const phrase = query.trim().toLowerCase();
+  if (!phrase) return 0;
+  const terms = phrase.split(/\s+/);
+  const title = product.title.toLowerCase();
+  const tags = normalizeProductTags(product.tags).map((tag) => tag.toLowerCase());
+  const meta = `${product.product_type} ${product.vendor}`.toLowerCase();
+  const body = product.body_html.toLowerCase();
+
+  let score = title.includes(phrase) ? 10 : 0;
+  if (title.startsWith(phrase)) score += 5;
+  for (const term of terms) {
+    if (title.includes(term)) score += 3;
+    if (tags.some((tag) => tag.includes(term))) score += 2;
+    if (meta.includes(term)) score += 1;
+    if (body.includes(term)) score += 0.5;
+  }
+  return score;
+}
+
+/**
+ * Sort products without mutating the input
+ * Ties keep the upstream order, which is COSMOS's own ranking
+ */
+export function sortSearchResults(
+  products: ApiProduct[],
+  input: Pick<SearchInput, "query" | "sortBy" | "sortOrder">
+): ApiProduct[] {
+  const sortBy = input.sortBy ?? "relevance";
+  const direction = input.sortOrder === "asc" ? 1 : -1;
+
+  const keyed = products.map((product, index) => {
+    let key: number | string;
+    switch (sortBy) {
+      case "price":
+        key = product.price;
+        break;
+      case "rating":
+        // Rating first, then volume of reviews
+        key = product.rating * 100_000 + product.review_count;
+        break;
+      case "created_at":
+        key = Date.parse(product.created_at) || 0;
+        break;
+      case "name":
+        key = product.title.toLowerCase();
+        break;
+      default:
+        key = relevanceScore(product, input.query);
+    }
+    return { product, index, key };
+  });
+
+  // Relevance is always best-first; name defaults to A-Z
+  const order =
+    sortBy === "relevance" ? -1 : sortBy === "name" && !input.sortOrder ? 1 : direction;
+
+  keyed.sort((a, b) => {
+    if (a.key < b.key) return -order;
+    if (a.key > b.key) return order;
+    return a.index - b.index;
+  });
+
+  return keyed.map(({ product }) => product);
+}
+
+function fingerprint(input: SearchInput): string {
+  const canonical = buildSearchQuery({ ...input, cursor: undefined, limit: undefined });
+  let hash = 5381;
+  for (let i = 0; i < canonical.length; i++) {
+    hash = ((hash << 5) + hash + canonical.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function toBase64Url(value: string): string {
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/");
+  return atob(padded + "=".repeat((4 - (padded.length % 4)) % 4));
+}
+
+/**
+ * Encode the position after a page of results
+ * The cursor is bound to the search it came from
+ */
+export function encodeSearchCursor(input: SearchInput, offset: number): string {
+  return toBase64Url(JSON.stringify({ o: offset, f: fingerprint(input) }));
+}
+
+/**
+ * Decode a cursor into an offset
+ * Returns 0 for missing, malformed or foreign cursors (e.g. after changing a filter)
+ */
+export function decodeSearchCursor(input: SearchInput): number {
+  if (!input.cursor) return 0;
+  try {
+    const parsed = JSON.parse(fromBase64Url(input.cursor)) as { o?: unknown; f?: unknown };
+    if (parsed.f !== fingerprint(input)) return 0;
+    return typeof parsed.o === "number" && Number.isInteger(parsed.o) && parsed.o > 0
+      ? parsed.o
+      : 0;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Shipping Utility Functions
+ * Zone matching, rate lookup and delivery estimates for the zones in
+ * `lib/shipping.ts`.
+ *
+ * NOTE: Pure functions - checkout pricing in `lib/pricing.ts` decides which
+ * option is charged.
+ */
+
+import {
+  SHIPPING_HANDLING_DAYS,
+  SHIPPING_ZONES,
+  type ShippingDestination,
+  type ShippingRateTier,
+  type ShippingService,
+  type ShippingServiceLevel,
+  type ShippingZone,
+} from "@/lib/shipping";
+
+export interface ShippingOption {
+  /** `${zoneId}:${service}`, stable across quotes */
+  id: string;
+  zoneId: string;
+  service: ShippingService;
+  title: string;
+  price: number;
+  /** ISO dates (YYYY-MM-DD) */
+  estimatedDelivery: { earliest: string; latest: string };
+}
+
+/** What the rate tables need to know about the shippable part of an order */
+export interface ShipmentSummary {
+  weightGrams: number;
+  /** Value of the items that require shipping */
+  subtotal: number;
+}
+
+export function findShippingZone(
+  destination: ShippingDestination,
+  zones: ShippingZone[] = SHIPPING_ZONES
+): ShippingZone | undefined {
+  const country = destination.country.trim().toUpperCase();
+  const province = destination.province?.trim().toUpperCase();
+
+  return zones.find((zone) => {
+    const countryMatches = zone.countries.includes(country) || zone.countries.includes("*");
+    if (!countryMatches) return false;
+    if (!zone.provinces) return true;
+    return province !== undefined && zone.provinces.includes(province);
+  });
+}
+
+function tierPrice(tiers: ShippingRateTier[], measure: number): number {
+  const tier = tiers.find((t) => t.upTo === undefined || measure <= t.upTo);
+  return (tier ?? tiers[tiers.length - 1]).price;
+}
+
+export function shippingRate(level: ShippingServiceLevel, shipment: ShipmentSummary): number {
+  if (level.freeAbove !== undefined && shipment.subtotal > level.freeAbove) {
+    return 0;
+  }
+  const measure = level.basis === "weight" ? shipment.weightGrams : shipment.subtotal;
+  return tierPrice(level.tiers, measure);
+}
+
+/**
+ * Add business days (Mon-Fri) to a date, in UTC
+ */
+export function addBusinessDays(from: Date, days: number): Date {
+  const date = new Date(from);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    const day = date.getUTCDay();
+    if (day !== 0 && day !== 6) remaining--;
+  }
+  return date;
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Shipping options for a destination, cheapest first
+ * Empty when no zone covers the destination.
+ */
+export function getShippingOptions(
+  destination: ShippingDestination,
+  shipment: ShipmentSummary,
+  now: Date = new Date()
+): ShippingOption[] {
+  const zone = findShippingZone(destination);
+  if (!zone) return [];
+
+  return zone.services
+    .map((level) => {
+      const [minDays, maxDays] = level.transitDays;
+      return {
+        id: `${zone.id}:${level.service}`,
+        zoneId: zone.id,
+        service: level.service,
+        title: level.title,
+        price: shippingRate(level, shipment),
+        estimatedDelivery: {
+          earliest: toIsoDate(addBusinessDays(now, SHIPPING_HANDLING_DAYS + minDays)),
+          latest: toIsoDate(addBusinessDays(now, SHIPPING_HANDLING_DAYS + maxDays)),
+        },
+      };
+    })
+    .sort((a, b) => a.price - b.price);
+}
+
+/**
+ * "Jan 5 - Jan 9" style delivery window for display
+ */
+export function formatDeliveryEstimate(option: ShippingOption): string {
+  const format = (iso: string) =>
+    new Date(`${iso}T00:00:00Z`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+  const { earliest, latest } = option.estimatedDelivery;
+  return earliest === latest ? format(earliest) : `${format(earliest)} - ${format(latest)}`;
+}
+
+/** Shipping method stored on an order (`orders.shipping_line`) */
+export interface OrderShippingLine {
+  code: string;
+  title: string;
+  price: number;
+  estimatedDelivery: ShippingOption["estimatedDelivery"];
+}
+
+export function toShippingLine(option: ShippingOption | null): OrderShippingLine | null {
+  return option
+    ? {
+        code: option.id,
+        title: option.title,
+        price: option.price,
+        estimatedDelivery: option.estimatedDelivery,
+      }
+    : null;
+}
@@ -0,0 +1,117 @@
+/**
+ * Tax Utility Functions
+ * Jurisdiction lookup and itemised tax calculation for the rates in
+ * `lib/tax.ts`.
+ *
+ * NOTE: Pure functions - amounts are net of tax and tax is rounded per line
+ * and component in integer cents, so line taxes always add up to the tax lines.
+ */
+
+import type { ShippingDestination } from "@/lib/shipping";
+import { TAX_RATES, type TaxComponent, type TaxCountryRates } from "@/lib/tax";
+
+export interface TaxJurisdiction {
+  /** Country code, or `${country}-${region}` when a region's rates apply */
+  id: string;
+  name: string;
+  taxes: TaxComponent[];
+  taxesIncluded: boolean;
+  shippingTaxable: boolean;
+}
+
+/** Same shape as a Shopify draft order tax line */
+export interface TaxLine {
+  title: string;
+  rate: number;
+  price: number;
+}
+
+export interface TaxableAmount {
+  /** Net amount */
+  amount: number;
+  taxable: boolean;
+}
+
+export interface TaxBreakdown {
+  /** Tax on each input line, in input order */
+  lineTaxes: number[];
+  shippingTax: number;
+  taxLines: TaxLine[];
+  total: number;
+}
+
+export function findTaxJurisdiction(
+  destination: ShippingDestination,
+  table: Record<string, TaxCountryRates> = TAX_RATES
+): TaxJurisdiction | null {
+  const country = destination.country.trim().toUpperCase();
+  const rates = table[country];
+  if (!rates) return null;
+
+  // Addresses may carry the province name rather than its code
+  const province = destination.province?.trim().toUpperCase();
+  const [regionCode, region] = province
+    ? (Object.entries(rates.regions ?? {}).find(
+        ([code, r]) => code === province || r.name.toUpperCase() === province
+      ) ?? [])
+    : [];
+  if (!regionCode || !region) {
+    return {
+      id: country,
+      name: rates.name,
+      taxes: rates.taxes,
+      taxesIncluded: Boolean(rates.taxesIncluded),
+      shippingTaxable: Boolean(rates.shippingTaxable),
+    };
+  }
+
+  return {
+    id: `${country}-${regionCode}`,
+    name: `${region.name}, ${rates.name}`,
+    taxes: region.replacesCountry ? region.taxes : [...rates.taxes, ...region.taxes],
+    taxesIncluded: Boolean(rates.taxesIncluded),
+    shippingTaxable: region.shippingTaxable ?? Boolean(rates.shippingTaxable),
+  };
+}
+
+/**
+ * Tax on lines and shipping, itemised by tax component
+ * No jurisdiction means nothing is taxed.
+ */
+export function calculateTaxes(
+  jurisdiction: TaxJurisdiction | null,
+  lines: TaxableAmount[],
+  shipping: number
+): TaxBreakdown {
+  const taxes = jurisdiction?.taxes ?? [];
+  const lineCents = lines.map((line) => (line.taxable ? Math.round(line.amount * 100) : 0));
+  const shippingCents = jurisdiction?.shippingTaxable ? Math.round(shipping * 100) : 0;
+
+  const lineTaxes = lineCents.map(() => 0);
+  let shippingTax = 0;
+  const taxLines: TaxLine[] = [];
+
+  for (const { title, rate } of taxes) {
+    let componentTotal = 0;
+    lineCents.forEach((cents, index) => {
+      const tax = Math.round(cents * rate);
+      lineTaxes[index] += tax;
+      componentTotal += tax;
+    });
+    const onShipping = Math.round(shippingCents * rate);
+    shippingTax += onShipping;
+    componentTotal += onShipping;
+
+    if (componentTotal > 0) {
+      taxLines.push({ title, rate, price: componentTotal / 100 });
+    }
+  }
+
+  const total = lineTaxes.reduce((sum, tax) => sum + tax, 0) + shippingTax;
+  return {
+    lineTaxes: lineTaxes.map((tax) => tax / 100),
+    shippingTax: shippingTax / 100,
+    taxLines,
+    total: total / 100,
+  };
+}
@@ -1,4 +1,6 @@
+import { getCurrency, SHOP_CURRENCY } from "@/lib/currencies";
 import { ApiProductVariant, ApiProductOption, ApiProduct } from "@/lib/types";
+import { convertAmount, convertPrice } from "../currency-utils";
 import {
   formatPriceForMerchant,
   normalizeProductType,
@@ -23,6 +25,15 @@ import {
   VariantPricing,
 } from "./types";
 
+/** Flat shipping advertised in feeds, in the shop currency */
+const FEED_SHIPPING_PRICE = 9.99;
+
+export interface FeedShippingConfig {
+  country: string;
+  service: string;
+  price: string;
+}
+
 export function getXmlNamespace(_feedType: MerchantFeedType): string {
   // Both Google and Bing use the same 'g' namespace
   return 'xmlns:g="http://base.google.com/ns/1.0"';
@@ -99,6 +110,7 @@ export function getVariantOptionValue(
  * the sale price (indicating a discount).
  *
  * @param variant - The product variant with pricing information
+ * @param currency - Presentment currency; prices are converted with its rounding rule
  * @returns Object containing formatted base price and sale price
  *
  * @example
@@ -109,26 +121,44 @@ export function getVariantOptionValue(
  * ```
  */
 export function calculateVariantPricing(
-  variant: ApiProductVariant
+  variant: ApiProductVariant,
+  currency: string = SHOP_CURRENCY
 ): VariantPricing {
-  const priceNum = variant.price;
-  const compareNum = variant.compare_at_price;
+  const priceNum = convertPrice(variant.price, currency);
+  const compareNum =
+    typeof variant.compare_at_price === "number"
+      ? convertPrice(variant.compare_at_price, currency)
+      : null;
 
   let baseAmount: number = priceNum;
   let salePrice: string | null = null;
 
   // If there's a compare_at_price that's higher, it's on sale
-  if (typeof compareNum === "number" && compareNum > priceNum) {
+  if (compareNum !== null && compareNum > priceNum) {
     baseAmount = compareNum;
-    salePrice = formatPriceForMerchant(priceNum);
+    salePrice = formatPriceForMerchant(priceNum, currency);
   }
 
   return {
-    basePrice: formatPriceForMerchant(baseAmount),
+    basePrice: formatPriceForMerchant(baseAmount, currency),
     salePrice,
   };
 }
 
+/**
+ * Shipping advertised in a feed for `currency`
+ * Non-shop currencies target the first country listed for the currency.
+ */
+export function getFeedShippingConfig(
+  currency: string = SHOP_CURRENCY
+): FeedShippingConfig {
+  return {
+    country: getCurrency(currency)?.countries[0] ?? "US",
+    service: "Standard",
+    price: formatPriceForMerchant(convertAmount(FEED_SHIPPING_PRICE, currency), currency),
+  };
+}
+
 /**
  * Get the best image URL for a variant
  *
@@ -177,9 +207,10 @@ export function buildMerchantFeedItemData(
   variant: ApiProductVariant,
   options: ApiProductOption[],
   siteUrl: string,
-  siteName: string
+  siteName: string,
+  currency: string = SHOP_CURRENCY
 ): MerchantFeedItemData {
-  const pricing = calculateVariantPricing(variant);
+  const pricing = calculateVariantPricing(variant, currency);
   const color = getVariantOptionValue(variant, options, "color");
   const size = getVariantOptionValue(variant, options, "size");
   const productType = normalizeProductType(product.product_type);
@@ -190,7 +221,10 @@ export function buildMerchantFeedItemData(
     id: String(variant.id),
     title: `${product.title} - ${variant.title}`,
     description: stripHtml(product.body_html) || product.title,
-    link: `${siteUrl}/products/${product.handle}?variant=${variant.id}`,
+    // Landing pages must show the feed's currency; the query sets it
+    link: `${siteUrl}/products/${product.handle}?variant=${variant.id}${
+      currency === SHOP_CURRENCY ? "" : `&currency=${currency}`
+    }`,
     imageLink: getVariantImageUrl(
       variant,
       product,
@@ -212,10 +246,9 @@ export function buildMerchantFeedItemData(
 }
 
 /**
- * Generate complete merchant feed XML
+ * Generate the opening of a merchant feed, up to where items begin
  */
-export function generateMerchantFeedXml(
-  items: string[],
+export function generateMerchantFeedXmlHeader(
   siteName: string,
   siteUrl: string,
   feedDescription: string,
@@ -228,28 +261,44 @@ export function generateMerchantFeedXml(
     <title>${escapeXml(siteName)} - Product Feed</title>
     <link>${escapeXml(siteUrl)}</link>
     <description>${escapeXml(feedDescription)}</description>
-    ${items.join("")}
+    `;
+}
+
+/**
+ * Generate the closing of a merchant feed
+ */
+export function generateMerchantFeedXmlFooter(): string {
+  return `
   </channel>
 </rss>`;
 }
 
+/**
+ * Generate complete merchant feed XML
+ */
+export function generateMerchantFeedXml(
+  items: string[],
+  siteName: string,
+  siteUrl: string,
+  feedDescription: string,
+  feedType: MerchantFeedType
+): string {
+  return (
+    generateMerchantFeedXmlHeader(siteName, siteUrl, feedDescription, feedType) +
+    items.join("") +
+    generateMerchantFeedXmlFooter()
+  );
+}
+
 /**
  * Generate XML item for Google/Bing Merchant feed
  */
 export function generateMerchantFeedXmlItem(
   data: MerchantFeedItemData,
   ns: string,
-  shippingConfig?: {
-    country: string;
-    service: string;
-    price: string;
-  }
+  shippingConfig?: FeedShippingConfig
 ): string {
-  const defaultShipping = shippingConfig || {
-    country: "US",
-    service: "Standard",
-    price: "9.99 USD",
-  };
+  const defaultShipping = shippingConfig || getFeedShippingConfig();
 
   const itemParts = [
     buildRssTag("title", data.title, true),
@@ -304,14 +353,9 @@ export function processProductVariants(
   product: ApiProduct | ApiProductWithRaw,
   siteUrl: string,
   siteName: string,
-  shippingConfig:
-    | {
-        country: string;
-        service: string;
-        price: string;
-      }
-    | undefined,
-  generateItemXml: (data: MerchantFeedItemData) => string
+  shippingConfig: FeedShippingConfig | undefined,
+  generateItemXml: (data: MerchantFeedItemData) => string,
+  currency: string = SHOP_CURRENCY
 ): ProcessProductVariantsResult {
   const items: string[] = [];
   const errors: FeedGenerationError[] = [];
@@ -332,7 +376,8 @@ export function processProductVariants(
           variant,
           options,
           siteUrl,
-          siteName
+          siteName,
+          currency
         );
 
         const xmlItem = generateItemXml(itemData);
@@ -367,18 +412,21 @@ export function processProductVariants(
  * @param siteUrl - The base URL of the site.
  * @param feedPath - The base path for the feed files (e.g., "api/feed/google-merchant").
  * @param totalPages - The total number of paginated feed files.
+ * @param currency - Presentment currency of the pages; the shop currency's pages take no query.
  * @returns The XML content for the feed index file.
  */
 export function generateFeedIndexXml(
   siteUrl: string,
   feedPath: string,
-  totalPages: number
+  totalPages: number,
+  currency: string = SHOP_CURRENCY
 ): string {
+  const query = currency === SHOP_CURRENCY ? "" : `?currency=${currency}`;
   const sitemaps = Array.from({ length: totalPages }, (_, i) => {
     const page = i + 1;
     return `
   <sitemap>
-    <loc>${escapeXml(`${siteUrl}/${feedPath}/pages/${page}`)}</loc>
+    <loc>${escapeXml(`${siteUrl}/${feedPath}/pages/${page}${query}`)}</loc>
     <lastmod>${new Date().toISOString()}</lastmod>
   </sitemap>`;
   }).join("");
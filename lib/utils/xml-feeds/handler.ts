@@ -1,18 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
 import { SITE_CONFIG } from "@/lib/constants";
-import { getProducts } from "@/lib/data/products";
+import { getCurrency, SHOP_CURRENCY } from "@/lib/currencies";
+import { CATALOG_PAGE_SIZE, iterateProducts } from "@/lib/data/products";
 import {
   processProductVariants,
-  generateMerchantFeedXml,
+  generateMerchantFeedXmlHeader,
+  generateMerchantFeedXmlFooter,
   generateMerchantFeedXmlItem,
+  getFeedShippingConfig,
   getNamespacePrefix,
   MerchantFeedItemData,
   MerchantFeedType,
 } from "@/lib/utils/xml-feeds";
+import { createXmlStream } from "@/lib/utils/xml-utils";
 import { logger } from "@/lib/utils/logger";
 
 const PRODUCTS_PER_PAGE = 5000;
 
+// Each feed page spans this many COSMOS pages
+const CATALOG_PAGES_PER_FEED_PAGE = Math.ceil(PRODUCTS_PER_PAGE / CATALOG_PAGE_SIZE);
+
+/**
+ * The feed's currency from `?currency=`, defaulting to the shop currency
+ * Returns null for a currency the storefront doesn't support.
+ */
+export function getFeedCurrency(req: NextRequest): string | null {
+  const requested = req.nextUrl.searchParams.get("currency");
+  if (!requested) return SHOP_CURRENCY;
+  return getCurrency(requested) ? requested.toUpperCase() : null;
+}
+
 export async function generatePaginatedFeed(
   req: NextRequest,
   params: { page: string },
@@ -24,56 +41,54 @@ export async function generatePaginatedFeed(
     return new NextResponse("Invalid page number", { status: 400 });
   }
 
+  const currency = getFeedCurrency(req);
+  if (!currency) {
+    return new NextResponse("Unsupported currency", { status: 400 });
+  }
+
   try {
-    logger.info(`Generating ${feedType} Merchant feed page ${page}`);
+    logger.info(`Generating ${feedType} Merchant feed page ${page} in ${currency}`);
 
-    const products = await getProducts({
-      limit: PRODUCTS_PER_PAGE,
-      page: page,
-      context: "ssr",
+    const ns = getNamespacePrefix(feedType);
+    const shippingConfig = getFeedShippingConfig(currency);
+    const products = iterateProducts({
+      pageSize: CATALOG_PAGE_SIZE,
+      startPage: (page - 1) * CATALOG_PAGES_PER_FEED_PAGE + 1,
+      maxPages: CATALOG_PAGES_PER_FEED_PAGE,
+      signal: req.signal,
     });
 
-    if (!products || products.length === 0) {
-      logger.warn(`No products found for ${feedType} Merchant feed page ${page}`);
-      const emptyXml = generateMerchantFeedXml(
-        [],
+    const stream = await createXmlStream({
+      header: generateMerchantFeedXmlHeader(
         SITE_CONFIG.name,
         SITE_CONFIG.url,
         `Product feed for ${feedType} Merchant Center - Page ${page}`,
         feedType
-      );
-      return new NextResponse(emptyXml, {
-        headers: {
-          "Content-Type": "application/xml; charset=utf-8",
-          "Cache-Control": "public, max-age=3600, s-maxage=3600",
-        },
-      });
-    }
-
-    const allItems: string[] = [];
-    const ns = getNamespacePrefix(feedType);
-
-    for (const product of products) {
-      const { items } = processProductVariants(
-        product,
-        SITE_CONFIG.url,
-        SITE_CONFIG.name,
-        undefined,
-        (itemData: MerchantFeedItemData) =>
-          generateMerchantFeedXmlItem(itemData, ns)
-      );
-      allItems.push(...items);
-    }
-
-    const xml = generateMerchantFeedXml(
-      allItems,
-      SITE_CONFIG.name,
-      SITE_CONFIG.url,
-      `Product feed for ${feedType} Merchant Center - Page ${page}`,
-      feedType
-    );
+      ),
+      footer: generateMerchantFeedXmlFooter(),
+      source: products,
+      render: (product) =>
+        processProductVariants(
+          product,
+          SITE_CONFIG.url,
+          SITE_CONFIG.name,
+          shippingConfig,
+          (itemData: MerchantFeedItemData) =>
+            generateMerchantFeedXmlItem(itemData, ns),
+          currency
+        ).items.join(""),
+      onComplete: (count) => {
+        if (count === 0) {
+          logger.warn(`No products found for ${feedType} Merchant feed page ${page}`);
+        } else {
+          logger.info(`Streamed ${count} products to ${feedType} Merchant feed page ${page}`);
+        }
+      },
+      onError: (error) =>
+        logger.error(`${feedType} Merchant feed page ${page} failed mid-stream`, error),
+    });
 
-    return new NextResponse(xml, {
+    return new NextResponse(stream, {
       headers: {
         "Content-Type": "application/xml; charset=utf-8",
         "Cache-Control": "public, max-age=3600, s-maxage=3600",
@@ -98,3 +98,70 @@ export function buildRssTag(
   return `<${tagName}>${content}</${tagName}>`;
 }
 
+
+/**
+ * Options for streaming an XML document
+ */
+export interface XmlStreamOptions<T> {
+  /** Everything before the first item (XML declaration, root element) */
+  header: string;
+  /** Everything after the last item */
+  footer: string;
+  source: AsyncIterator<T, void, undefined>;
+  /** Render one source item; an empty string emits nothing */
+  render: (item: T) => string;
+  /** Called once the footer has been written */
+  onComplete?: (count: number) => void;
+  /** Called when the source fails after the response has started */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Stream an XML document item by item
+ *
+ * The first item is awaited before the stream is returned, so a source that
+ * fails outright rejects here and the caller can still answer with an error
+ * status. Later failures error the stream, truncating the response instead of
+ * closing it with a footer that would make a partial document look complete.
+ */
+export async function createXmlStream<T>({
+  header,
+  footer,
+  source,
+  render,
+  onComplete,
+  onError,
+}: XmlStreamOptions<T>): Promise<ReadableStream<Uint8Array>> {
+  const encoder = new TextEncoder();
+  let pending: IteratorResult<T, void> | null = await source.next();
+  let count = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(header));
+    },
+    async pull(controller) {
+      try {
+        const result = pending ?? (await source.next());
+        pending = null;
+
+        if (result.done) {
+          controller.enqueue(encoder.encode(footer));
+          controller.close();
+          onComplete?.(count);
+          return;
+        }
+
+        count++;
+        const chunk = render(result.value);
+        if (chunk) controller.enqueue(encoder.encode(chunk));
+      } catch (error) {
+        onError?.(error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await source.return?.();
+    },
+  });
+}
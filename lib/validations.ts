@@ -1,6 +1,7 @@
 import { z, ZodError, type ZodTypeAny } from "zod";
-import { LIMITS, ERROR_MESSAGES } from "@/lib/constants";
+import { ANALYTICS, LIMITS, ERROR_MESSAGES } from "@/lib/constants";
 import type { IValidationError } from "@/lib/errors";
+import { emailAddress } from "@/lib/utils/email-utils";
 
 // Enhanced validation result interface
 export interface ValidationResult<T> {
@@ -280,8 +281,406 @@ export const searchSchema = z.object({
 			`Search must be less than ${LIMITS.SEARCH_MAX_LENGTH} characters`,
 		)
 		.trim(),
-	page: z.number().int().min(1).optional(),
-	limit: z.number().int().min(1).max(100).optional(),
-	sortBy: z.enum(["relevance", "name", "price", "created_at"]).optional(),
+	page: z.coerce.number().int().min(1).optional(),
+	limit: z.coerce.number().int().min(1).max(100).optional(),
+	sortBy: z
+		.enum(["relevance", "name", "price", "created_at", "rating"])
+		.optional(),
 	sortOrder: z.enum(["asc", "desc"]).optional(),
-});
\ No newline at end of file
+	cursor: z.string().max(200).optional(),
+	productTypes: z.array(z.string().min(1).max(100)).max(20).optional(),
+	vendors: z.array(z.string().min(1).max(100)).max(20).optional(),
+	tags: z.array(z.string().min(1).max(100)).max(20).optional(),
+	// "<option name>:<value>", e.g. "Size:M"
+	options: z
+		.array(z.string().regex(/^[^:]+:.+$/, "Options must be Name:Value"))
+		.max(20)
+		.optional(),
+	// Price bucket ids, e.g. "50-100" or "200-"
+	priceRanges: z
+		.array(z.string().regex(/^\d+-(\d+)?$/, "Invalid price range"))
+		.max(10)
+		.optional(),
+	inStock: z.boolean().optional(),
+});
+
+export type SearchInput = z.infer<typeof searchSchema>;
+
+// Collection listing schema - the search facet filters plus sort and page
+export const COLLECTION_SORTS = [
+	"featured",
+	"price-asc",
+	"price-desc",
+	"newest",
+	"best-rated",
+	"best-selling",
+] as const;
+
+export const collectionQuerySchema = searchSchema
+	.pick({
+		page: true,
+		limit: true,
+		productTypes: true,
+		vendors: true,
+		tags: true,
+		options: true,
+		priceRanges: true,
+		inStock: true,
+	})
+	.extend({
+		sort: z.enum(COLLECTION_SORTS).optional(),
+	});
+
+export type CollectionQuery = z.infer<typeof collectionQuerySchema>;
+export type CollectionSort = (typeof COLLECTION_SORTS)[number];
+
+// Autocomplete schema - partial words are expected, so no minimum beyond one character
+export const searchSuggestSchema = z.object({
+	q: z.string().trim().min(1).max(LIMITS.SEARCH_MAX_LENGTH),
+	limit: z.coerce.number().int().min(1).max(10).optional(),
+});
+// Catalog webhook schema
+export const catalogWebhookEventSchema = z.discriminatedUnion("type", [
+	z.object({
+		id: z.string().min(1).max(200),
+		type: z.enum(["product.created", "product.updated", "product.deleted"]),
+		occurred_at: z.iso.datetime().optional(),
+		data: z.object({
+			id: z.coerce.string().min(1),
+			handle: z.string().min(1),
+			previous_handle: z.string().min(1).optional(),
+			collections: z.array(z.string().min(1)).default([]),
+			// New stock levels, sent when orders were applied to the catalog's stock
+			inventory: z
+				.array(
+					z.object({
+						variant_id: z.coerce.string().min(1),
+						inventory_quantity: z.number().int(),
+					})
+				)
+				.max(250)
+				.default([]),
+		}),
+	}),
+	z.object({
+		id: z.string().min(1).max(200),
+		type: z.enum([
+			"collection.created",
+			"collection.updated",
+			"collection.deleted",
+		]),
+		occurred_at: z.iso.datetime().optional(),
+		data: z.object({
+			handle: z.string().min(1),
+			previous_handle: z.string().min(1).optional(),
+		}),
+	}),
+]);
+
+export type CatalogWebhookEvent = z.infer<typeof catalogWebhookEventSchema>;
+
+// Shopify orders/paid webhook schema - only the fields that link the order to ours
+export const shopifyPaidOrderSchema = z.object({
+	id: z.coerce.string().min(1),
+	name: z.string().optional(),
+	// Copied from the draft order: "Order #<our order id>"
+	note: z.string().nullish(),
+	financial_status: z.string().optional(),
+});
+
+export type ShopifyPaidOrder = z.infer<typeof shopifyPaidOrderSchema>;
+
+// Order tracking schema - order number + email, or a signed link token from an email
+export const trackOrderSchema = z.union([
+	z.object({
+		orderNumber: z
+			.string()
+			.trim()
+			.min(1, "Order number is required")
+			.max(32, "Order number is too long")
+			.toUpperCase(),
+		email: z
+			.string()
+			.email(ERROR_MESSAGES.INVALID_EMAIL)
+			.max(LIMITS.EMAIL_MAX_LENGTH)
+			.trim()
+			.toLowerCase(),
+	}),
+	z.object({
+		token: z.string().min(1).max(256),
+	}),
+]);
+
+export type TrackOrderInput = z.infer<typeof trackOrderSchema>;
+
+// Customer order cancellation schema
+export const cancelOrderSchema = z.object({
+	reason: z.string().trim().max(500, "Reason is too long").optional(),
+});
+
+// Checkout pricing schemas - only ids and quantities; prices come from the catalog
+export const pricingItemSchema = z.object({
+	productId: z.coerce.string().min(1),
+	variantId: z.coerce.string().min(1),
+	quantity: z
+		.number()
+		.int()
+		.min(LIMITS.MIN_QUANTITY_PER_ITEM)
+		.max(LIMITS.MAX_QUANTITY_PER_ITEM),
+});
+
+export const shippingDestinationSchema = z.object({
+	country: z.string().length(2, "Country is required").toUpperCase(),
+	province: z.string().max(100).trim().optional(),
+});
+
+// Tax rate table (lib/tax-rates.json), checked when the table is loaded
+const taxComponentSchema = z.object({
+	title: z.string().min(1),
+	rate: z.number().min(0).max(1),
+});
+
+export const taxRateTableSchema = z.record(
+	z.string().length(2),
+	z.object({
+		name: z.string().min(1),
+		taxes: z.array(taxComponentSchema),
+		taxesIncluded: z.boolean().optional(),
+		shippingTaxable: z.boolean().optional(),
+		regions: z
+			.record(
+				z.string().min(1),
+				z.object({
+					name: z.string().min(1),
+					taxes: z.array(taxComponentSchema),
+					replacesCountry: z.boolean().optional(),
+					shippingTaxable: z.boolean().optional(),
+				}),
+			)
+			.optional(),
+	}),
+);
+
+// Exchange rate table (lib/currency-rates.json), keyed by ISO 4217 code
+export const currencyTableSchema = z.record(
+	z.string().length(3).toUpperCase(),
+	z.object({
+		name: z.string().min(1),
+		rate: z.number().positive(),
+		locale: z.string().min(2),
+		countries: z.array(z.string().length(2)),
+		rounding: z
+			.object({
+				step: z.number().positive(),
+				ending: z.number().min(0),
+			})
+			.refine((rounding) => rounding.ending < rounding.step, {
+				message: "Rounding ending must be less than its step",
+			})
+			.optional(),
+	}),
+);
+
+export const priceQuoteRequestSchema = z.object({
+	items: z
+		.array(pricingItemSchema)
+		.min(1, "Your cart is empty")
+		.max(LIMITS.MAX_CART_ITEMS, "Too many items in cart"),
+	destination: shippingDestinationSchema.optional(),
+	shippingMethod: z.string().max(100).optional(),
+	discountCode: z.string().trim().max(50).optional(),
+	// Presentment currency; unsupported codes price in the shop currency
+	currency: z.string().length(3).toUpperCase().optional(),
+	email: z
+		.string()
+		.email(ERROR_MESSAGES.INVALID_EMAIL)
+		.max(LIMITS.EMAIL_MAX_LENGTH)
+		.trim()
+		.toLowerCase()
+		.optional(),
+});
+
+// Stock levels for cart lines, and the quantities a checkout holds
+export const stockLevelsRequestSchema = priceQuoteRequestSchema.pick({ items: true });
+
+// Generated once per checkout attempt; retries with the same key return the same order
+export const idempotencyKeySchema = z
+	.string()
+	.trim()
+	.min(16, "Invalid idempotency key")
+	.max(255, "Invalid idempotency key");
+
+export const createOrderSchema = priceQuoteRequestSchema
+	.pick({ items: true })
+	.extend({
+		destination: shippingDestinationSchema,
+		quoteToken: z.string().min(1, "A checkout quote is required"),
+		idempotencyKey: idempotencyKeySchema,
+	});
+
+// Cart API - lines are addressed by product and variant (numeric catalog ids)
+const cartLineIdSchema = z.coerce.string().regex(/^\d+$/, "Invalid cart item");
+
+export const cartLineSchema = z.object({
+	productId: cartLineIdSchema,
+	variantId: cartLineIdSchema,
+});
+
+export const cartItemSchema = cartLineSchema.extend({
+	quantity: z
+		.number()
+		.int()
+		.min(LIMITS.MIN_QUANTITY_PER_ITEM)
+		.max(LIMITS.MAX_QUANTITY_PER_ITEM, ERROR_MESSAGES.QUANTITY_EXCEEDED),
+});
+
+// Quantity 0 removes the line
+export const cartItemUpdateSchema = cartLineSchema.extend({
+	quantity: z
+		.number()
+		.int()
+		.min(0)
+		.max(LIMITS.MAX_QUANTITY_PER_ITEM, ERROR_MESSAGES.QUANTITY_EXCEEDED),
+});
+
+export const cartReplaceSchema = z.object({
+	items: z.array(cartItemSchema).max(LIMITS.MAX_CART_ITEMS, "Too many items in cart"),
+});
+
+export const cartDiscountCodeSchema = z.object({
+	code: z.string().trim().min(1, "Enter a discount code").max(50),
+});
+
+// An empty note or email clears it
+export const cartNoteSchema = z.object({
+	note: z
+		.string()
+		.trim()
+		.max(1000, "Note must be 1000 characters or less")
+		.nullable()
+		.transform((note) => note || null),
+});
+
+export const cartEmailSchema = z.object({
+	email: z
+		.union([
+			z
+				.string()
+				.trim()
+				.toLowerCase()
+				.email(ERROR_MESSAGES.INVALID_EMAIL)
+				.max(LIMITS.EMAIL_MAX_LENGTH),
+			z.literal(""),
+			z.null(),
+		])
+		.transform((email) => email || null),
+});
+
+export type CartItemInput = z.infer<typeof cartItemSchema>;
+
+// Analytics: events batched by lib/analytics.ts for experience_tracks
+const analyticsSizeSchema = z.object({
+	width: z.number().int().nonnegative(),
+	height: z.number().int().nonnegative(),
+});
+
+export const analyticsEventSchema = z.object({
+	type: z.enum(ANALYTICS.EVENT_TYPES),
+	name: z.string().trim().min(1).max(100),
+	url: z.string().url().max(2048),
+	title: z.string().max(300).optional(),
+	previousUrl: z.string().max(2048).optional(),
+	referrer: z.string().max(2048).optional(),
+	// Client clock, in milliseconds; must be a real date near the server's clock
+	timestamp: z
+		.number()
+		.int()
+		.refine(
+			(timestamp) => Math.abs(Date.now() - timestamp) <= ANALYTICS.MAX_CLOCK_SKEW_MS,
+			"Timestamp is too far from the current time",
+		),
+	element: z
+		.object({
+			selector: z.string().max(500),
+			text: z.string().max(200).optional(),
+			position: analyticsSizeSchema
+				.extend({ x: z.number().int(), y: z.number().int() })
+				.optional(),
+			buttonType: z.string().max(50).optional(),
+		})
+		.optional(),
+	click: z.object({ x: z.number().int(), y: z.number().int() }).optional(),
+	productId: z.string().max(64).optional(),
+	orderId: z.string().max(64).optional(),
+	searchQuery: z.string().max(200).optional(),
+	scrollDepth: z.number().int().min(0).max(100).optional(),
+	properties: z
+		.record(
+			z.string().max(50),
+			z.union([z.string().max(500), z.number(), z.boolean(), z.null()]),
+		)
+		.refine((properties) => Object.keys(properties).length <= 20, "Too many properties")
+		.optional(),
+	viewport: analyticsSizeSchema.optional(),
+	screen: analyticsSizeSchema.optional(),
+	timezone: z.string().max(64).optional(),
+});
+
+export const analyticsBatchSchema = z.object({
+	sessionId: z.string().trim().min(8).max(128),
+	anonymousId: z.string().trim().min(8).max(128).optional(),
+	events: z.array(analyticsEventSchema).min(1).max(ANALYTICS.MAX_BATCH_EVENTS),
+});
+
+export type AnalyticsEventInput = z.infer<typeof analyticsEventSchema>;
+export type AnalyticsBatch = z.infer<typeof analyticsBatchSchema>;
+
+// Web vitals: one page load's report from lib/web-vitals.ts for performance_metrics
+const vitalMsSchema = z.number().nonnegative().max(600000);
+const timingMsSchema = z.number().int().nonnegative().max(600000).optional();
+
+export const webVitalsReportSchema = z
+	.object({
+		sessionId: z.string().trim().min(8).max(128),
+		// Route template, e.g. /products/[handle]
+		route: z.string().max(200).regex(/^\/[^?#]*$/, "Invalid route"),
+		url: z.string().url().max(2048),
+		vitals: z.object({
+			lcp: vitalMsSchema.optional(),
+			inp: vitalMsSchema.optional(),
+			cls: z.number().nonnegative().max(99).optional(),
+			fcp: vitalMsSchema.optional(),
+			ttfb: vitalMsSchema.optional(),
+			fid: vitalMsSchema.optional(),
+		}),
+		navigation: z
+			.object({
+				type: z.string().max(32),
+				dns: timingMsSchema,
+				tcp: timingMsSchema,
+				tls: timingMsSchema,
+				request: timingMsSchema,
+				response: timingMsSchema,
+				domProcessing: timingMsSchema,
+				loadEvent: timingMsSchema,
+			})
+			.optional(),
+	})
+	.refine(
+		(report) => report.navigation || Object.keys(report.vitals).length > 0,
+		"Empty report",
+	);
+
+export type WebVitalsReport = z.infer<typeof webVitalsReportSchema>;
+
+// Email envelope schemas - addresses end up in SMTP commands and headers as-is
+export const emailAddressSchema = z.email().max(LIMITS.EMAIL_MAX_LENGTH);
+
+// A sender such as `Store <hello@example.com>`; no control characters, so
+// the display name can't start a new header line
+export const emailSenderSchema = z
+	.string()
+	.max(200)
+	// eslint-disable-next-line no-control-regex
+	.regex(/^[^\x00-\x1f\x7f]+$/)
+	.refine((mailbox) => emailAddressSchema.safeParse(emailAddress(mailbox)).success);
@@ -0,0 +1,106 @@
+/**
+ * Web Vitals Reporter
+ * Collects a page load's Core Web Vitals (from Next's `useReportWebVitals`)
+ * and its Navigation Timing breakdown, and sends them in one beacon to
+ * /api/analytics/vitals for `performance_metrics` when the page is first
+ * hidden. CLS and INP are final by then.
+ *
+ * Vitals describe the document load, so the report belongs to the route the
+ * page was loaded on; client-side navigations don't start a new one. Only
+ * PERFORMANCE.SAMPLE_RATE of sessions report, and only with analytics
+ * consent (see `lib/cookie-consent.ts`).
+ */
+
+import { getSessionId } from "@/lib/analytics";
+import { PERFORMANCE } from "@/lib/constants";
+import { readConsent } from "@/lib/cookie-consent";
+import { isWebVital, type WebVital } from "@/lib/utils/performance-utils";
+import type { WebVitalsReport } from "@/lib/validations";
+
+const ENDPOINT = "/api/analytics/vitals";
+// Whether this session was sampled, decided on its first report
+const SAMPLED_STORAGE_KEY = "vitals-sampled";
+
+let page: { route: string; url: string } | null = null;
+let vitals: Partial<Record<WebVital, number>> = {};
+let sent = false;
+
+function sampled(): boolean {
+  let value = sessionStorage.getItem(SAMPLED_STORAGE_KEY);
+  if (value === null) {
+    value = Math.random() < PERFORMANCE.SAMPLE_RATE ? "1" : "0";
+    sessionStorage.setItem(SAMPLED_STORAGE_KEY, value);
+  }
+  return value === "1";
+}
+
+function navigationTiming(): WebVitalsReport["navigation"] {
+  const [entry] = performance.getEntriesByType("navigation") as PerformanceNavigationTiming[];
+  if (!entry) return undefined;
+
+  // Phases the page was hidden before reaching stay unset
+  const ms = (start: number, end: number) =>
+    end > 0 ? Math.max(0, Math.round(end - start)) : undefined;
+
+  return {
+    type: entry.type,
+    dns: ms(entry.domainLookupStart, entry.domainLookupEnd),
+    tcp: ms(entry.connectStart, entry.connectEnd),
+    tls: entry.secureConnectionStart > 0 ? ms(entry.secureConnectionStart, entry.connectEnd) : 0,
+    request: ms(entry.requestStart, entry.responseStart),
+    response: ms(entry.responseStart, entry.responseEnd),
+    domProcessing: ms(entry.responseEnd, entry.domComplete),
+    loadEvent: ms(entry.loadEventStart, entry.loadEventEnd),
+  };
+}
+
+function send(): void {
+  if (!page || sent) return;
+  sent = true;
+  if (readConsent()?.analytics !== true || !sampled()) return;
+
+  const report: WebVitalsReport = {
+    sessionId: getSessionId(),
+    ...page,
+    vitals,
+    navigation: navigationTiming(),
+  };
+  navigator.sendBeacon?.(
+    ENDPOINT,
+    new Blob([JSON.stringify(report)], { type: "application/json" })
+  );
+}
+
+function handleVisibilityChange(): void {
+  // After web-vitals' own listeners have reported the final CLS and INP
+  if (document.visibilityState === "hidden") setTimeout(send, 0);
+}
+
+/**
+ * Record a metric from `useReportWebVitals`
+ */
+export function reportWebVital(metric: { name: string; value: number }): void {
+  const name = metric.name.toLowerCase();
+  if (!sent && isWebVital(name)) {
+    vitals[name] = metric.value;
+  }
+}
+
+/**
+ * Start the report for the page that just loaded, keyed to its route
+ * template (see `getRouteTemplate`); later calls do nothing
+ */
+export function startWebVitals(route: string): () => void {
+  if (page) return () => {};
+  page = { route, url: window.location.href };
+  vitals = {};
+
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+  window.addEventListener("pagehide", send);
+
+  return () => {
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+    window.removeEventListener("pagehide", send);
+    page = null;
+  };
+}
@@ -1,4 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  CURRENCY_COOKIE,
+  CURRENCY_COOKIE_MAX_AGE,
+  getCurrency,
+} from "@/lib/currencies";
+import {
+  ATTRIBUTION_COOKIE,
+  ATTRIBUTION_COOKIE_MAX_AGE,
+  getRequestAttribution,
+} from "@/lib/utils/attribution-utils";
+import { CONSENT_COOKIE, parseConsent } from "@/lib/utils/consent-utils";
+import { detectCurrency } from "@/lib/utils/currency-utils";
 
 export function middleware(request: NextRequest) {
   // const nonce = Buffer.from(crypto.randomUUID()).toString("base64");
@@ -26,6 +38,38 @@ export function middleware(request: NextRequest) {
   //   child-src 'self' blob:;
   // `;
 
+  // A ?currency= link (e.g. from a merchant feed) picks the currency;
+  // otherwise a first visit defaults it from geo (Vercel or Cloudflare) or
+  // the browser language. Either way this request's render sees it too.
+  const linkedCurrency = request.nextUrl.searchParams.get("currency")?.toUpperCase();
+  const detectedCurrency = getCurrency(linkedCurrency)
+    ? linkedCurrency
+    : getCurrency(request.cookies.get(CURRENCY_COOKIE)?.value)
+      ? null
+      : detectCurrency({
+          country:
+            request.headers.get("x-vercel-ip-country") ??
+            request.headers.get("cf-ipcountry"),
+          acceptLanguage: request.headers.get("accept-language"),
+        });
+  if (detectedCurrency) {
+    request.cookies.set(CURRENCY_COOKIE, detectedCurrency);
+  }
+
+  // First touch wins: the landing page's UTM and referrer stay until the
+  // guest cart records them. Attribution is a marketing cookie, so it is only
+  // kept with marketing consent and dropped when that is withdrawn.
+  const marketingConsent =
+    parseConsent(request.cookies.get(CONSENT_COOKIE)?.value)?.marketing === true;
+  const hasAttribution = request.cookies.has(ATTRIBUTION_COOKIE);
+  const attribution =
+    !marketingConsent || hasAttribution
+      ? null
+      : getRequestAttribution(request.nextUrl, request.headers.get("referer"));
+  if (hasAttribution && !marketingConsent) {
+    request.cookies.delete(ATTRIBUTION_COOKIE);
+  }
+
   const requestHeaders = new Headers(request.headers);
   // requestHeaders.set("x-nonce", nonce);
   // requestHeaders.set(
@@ -33,9 +77,29 @@ export function middleware(request: NextRequest) {
   //   cspHeader.replace(/\s{2,}/g, " ").trim()
   // );
 
-  return NextResponse.next({
+  const response = NextResponse.next({
     headers: requestHeaders,
+    request: { headers: requestHeaders },
   });
+  if (detectedCurrency) {
+    response.cookies.set(CURRENCY_COOKIE, detectedCurrency, {
+      path: "/",
+      maxAge: CURRENCY_COOKIE_MAX_AGE,
+      sameSite: "lax",
+    });
+  }
+  if (attribution) {
+    response.cookies.set(ATTRIBUTION_COOKIE, JSON.stringify(attribution), {
+      path: "/",
+      maxAge: ATTRIBUTION_COOKIE_MAX_AGE,
+      sameSite: "lax",
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+    });
+  } else if (hasAttribution && !marketingConsent) {
+    response.cookies.delete(ATTRIBUTION_COOKIE);
+  }
+  return response;
 }
 
 export const config = {
@@ -0,0 +1,39 @@
+-- Customer-facing order numbers, contact email and carrier shipments for order tracking
+
+CREATE SEQUENCE IF NOT EXISTS public.order_number_seq START WITH 100001;
+
+ALTER TABLE public.orders
+ADD COLUMN order_number text NOT NULL DEFAULT ('OG' || nextval('public.order_number_seq')::text),
+ADD COLUMN email text;
+
+CREATE UNIQUE INDEX orders_order_number_key ON public.orders USING btree (order_number);
+
+CREATE TABLE public.order_shipments (
+    id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    carrier text NOT NULL,
+    tracking_number text NOT NULL,
+    tracking_url text,
+    shipped_at timestamp with time zone NOT NULL DEFAULT now(),
+    delivered_at timestamp with time zone,
+    created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_shipments_order_id ON public.order_shipments USING btree (order_id);
+
+ALTER TABLE public.order_shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order shipments are viewable by order owner"
+ON public.order_shipments
+FOR SELECT
+TO public
+USING (EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_shipments.order_id AND o.user_id = auth.uid()
+));
+
+CREATE POLICY "Service role can manage order shipments"
+ON public.order_shipments
+FOR ALL
+TO public
+USING (auth.role() = 'service_role'::text);
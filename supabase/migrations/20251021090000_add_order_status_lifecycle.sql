@@ -0,0 +1,69 @@
+-- Order lifecycle: constrained statuses, atomic transitions with an audit trail
+
+-- Normalise statuses written before the lifecycle ("Pending", "processing", ...)
+UPDATE public.orders
+SET status = CASE
+    WHEN lower(status) = 'processing' THEN 'fulfilled'
+    WHEN lower(status) = 'canceled' THEN 'cancelled'
+    WHEN lower(status) IN ('pending', 'paid', 'fulfilled', 'shipped', 'delivered', 'cancelled', 'refunded', 'returned') THEN lower(status)
+    ELSE 'pending'
+END;
+
+ALTER TABLE public.orders ALTER COLUMN status SET DEFAULT 'pending';
+
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_status_check CHECK (status = ANY (ARRAY['pending'::text, 'paid'::text, 'fulfilled'::text, 'shipped'::text, 'delivered'::text, 'cancelled'::text, 'refunded'::text, 'returned'::text]));
+
+-- Referenced by create_anonymous_order but never created
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_created ON public.order_status_history USING btree (order_id, created_at);
+
+-- Status changes go through transition_order_status; customers may no longer update orders directly
+DROP POLICY IF EXISTS "Users can update their own orders" ON public.orders;
+
+-- Converting an anonymous cart says nothing about payment, so it no longer moves the order
+DROP TRIGGER IF EXISTS trg_sync_order_cart_status ON public.anonymous_carts;
+DROP FUNCTION IF EXISTS public.sync_order_cart_status();
+
+-- Every order starts its history with the status it was created in
+CREATE OR REPLACE FUNCTION public.record_order_created()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$ BEGIN
+    INSERT INTO public.order_status_history (order_id, old_status, new_status, changed_by, notes, created_at)
+    VALUES (NEW.id, NULL, NEW.status, NEW.user_id, 'Order placed', NEW.created_at);
+    RETURN NEW;
+END;
+ $function$
+;
+
+CREATE TRIGGER trg_record_order_created AFTER INSERT ON public.orders FOR EACH ROW EXECUTE FUNCTION record_order_created();
+
+-- Compare-and-set status change plus its history row, in one transaction.
+-- Returns false when the order is no longer in p_from_status (a concurrent change won).
+CREATE OR REPLACE FUNCTION public.transition_order_status(p_order_id uuid, p_from_status text, p_to_status text, p_changed_by uuid DEFAULT NULL, p_notes text DEFAULT NULL)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$ BEGIN
+    UPDATE public.orders
+    SET status = p_to_status, updated_at = NOW()
+    WHERE id = p_order_id AND status = p_from_status;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO public.order_status_history (order_id, old_status, new_status, changed_by, notes)
+    VALUES (p_order_id, p_from_status, p_to_status, p_changed_by, p_notes);
+
+    RETURN true;
+END;
+ $function$
+;
+
+REVOKE ALL ON FUNCTION public.transition_order_status(uuid, text, text, uuid, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.transition_order_status(uuid, text, text, uuid, text) TO service_role;
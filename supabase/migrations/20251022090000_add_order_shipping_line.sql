@@ -0,0 +1,2 @@
+-- Shipping method chosen at checkout: { code, title, price, estimatedDelivery }
+ALTER TABLE public.orders ADD COLUMN shipping_line jsonb;
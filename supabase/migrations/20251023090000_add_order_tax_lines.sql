@@ -0,0 +1,4 @@
+-- Itemised tax charged at checkout: [{ title, rate, price }]
+ALTER TABLE public.orders ADD COLUMN tax_lines jsonb NOT NULL DEFAULT '[]'::jsonb;
+-- Whether the customer saw tax-inclusive prices (VAT/GST destinations)
+ALTER TABLE public.orders ADD COLUMN taxes_included boolean NOT NULL DEFAULT false;
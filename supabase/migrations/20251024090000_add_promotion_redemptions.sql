@@ -0,0 +1,83 @@
+-- Promotions: discounts applied to orders and per-order redemptions for usage limits
+
+ALTER TABLE public.orders ADD COLUMN discount_total numeric(10,2) NOT NULL DEFAULT 0;
+-- Applied promotions: [{ id, title, code, class, amount }]
+ALTER TABLE public.orders ADD COLUMN discounts jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE public.promotion_redemptions (
+    "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+    "promotion_id" text NOT NULL,
+    "order_id" uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    "user_id" uuid,
+    "email" text,
+    "created_at" timestamp with time zone NOT NULL DEFAULT now(),
+    PRIMARY KEY ("id"),
+    UNIQUE ("promotion_id", "order_id")
+);
+
+CREATE INDEX idx_promotion_redemptions_promotion_email ON public.promotion_redemptions USING btree (promotion_id, email);
+
+-- No policies: only the service role reads or writes redemptions
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Redemptions per promotion, overall and for one customer. Cancelled orders give their uses back.
+CREATE OR REPLACE FUNCTION public.promotion_usage(p_promotion_ids text[], p_email text DEFAULT NULL)
+ RETURNS TABLE(promotion_id text, total_uses bigint, customer_uses bigint)
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $function$
+    SELECT r.promotion_id,
+           count(*),
+           count(*) FILTER (WHERE r.email = lower(p_email))
+    FROM public.promotion_redemptions r
+    JOIN public.orders o ON o.id = r.order_id
+    WHERE r.promotion_id = ANY (p_promotion_ids) AND o.status <> 'cancelled'
+    GROUP BY r.promotion_id;
+ $function$
+;
+
+-- Record an order's promotions if every limit still has room, in one transaction.
+-- p_promotions: [{ id, usage_limit?, per_customer_limit? }]. Returns false (recording nothing)
+-- when a limit is reached; redemptions of the same promotion are serialised by an advisory lock.
+CREATE OR REPLACE FUNCTION public.redeem_promotions(p_order_id uuid, p_email text, p_user_id uuid, p_promotions jsonb)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+DECLARE
+    promo jsonb;
+    v_total bigint;
+    v_customer bigint;
+BEGIN
+    FOR promo IN SELECT value FROM jsonb_array_elements(p_promotions) ORDER BY value->>'id' LOOP
+        PERFORM pg_advisory_xact_lock(hashtext('promotion:' || (promo->>'id')));
+
+        SELECT count(*), count(*) FILTER (WHERE r.email = lower(p_email))
+        INTO v_total, v_customer
+        FROM public.promotion_redemptions r
+        JOIN public.orders o ON o.id = r.order_id
+        WHERE r.promotion_id = promo->>'id' AND o.status <> 'cancelled';
+
+        IF (promo->>'usage_limit') IS NOT NULL AND v_total >= (promo->>'usage_limit')::int THEN
+            RETURN false;
+        END IF;
+        IF (promo->>'per_customer_limit') IS NOT NULL AND v_customer >= (promo->>'per_customer_limit')::int THEN
+            RETURN false;
+        END IF;
+    END LOOP;
+
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, email)
+    SELECT value->>'id', p_order_id, p_user_id, lower(p_email)
+    FROM jsonb_array_elements(p_promotions)
+    ON CONFLICT (promotion_id, order_id) DO NOTHING;
+
+    RETURN true;
+END;
+ $function$
+;
+
+REVOKE ALL ON FUNCTION public.promotion_usage(text[], text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.promotion_usage(text[], text) TO service_role;
+REVOKE ALL ON FUNCTION public.redeem_promotions(uuid, text, uuid, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_promotions(uuid, text, uuid, jsonb) TO service_role;
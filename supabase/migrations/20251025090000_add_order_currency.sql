@@ -0,0 +1,8 @@
+-- Multi-currency: orders are charged in the customer's presentment currency
+
+-- Currency of total, discount_total, tax_lines, shipping_line and order_items.price
+ALTER TABLE public.orders ADD COLUMN currency text NOT NULL DEFAULT 'USD';
+-- Currency the catalog is priced in
+ALTER TABLE public.orders ADD COLUMN shop_currency text NOT NULL DEFAULT 'USD';
+-- Units of currency per unit of shop_currency when the order was priced
+ALTER TABLE public.orders ADD COLUMN exchange_rate numeric(12,6) NOT NULL DEFAULT 1;
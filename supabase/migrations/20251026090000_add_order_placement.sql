@@ -0,0 +1,80 @@
+-- Order placement: the order, its items, promotion redemptions and the emptied cart in one
+-- transaction, keyed by a client-supplied idempotency key so retries return the same order
+
+ALTER TABLE public.orders ADD COLUMN idempotency_key text;
+
+CREATE UNIQUE INDEX orders_idempotency_key_key ON public.orders USING btree (idempotency_key);
+
+-- Place an order, or return the order already placed with p_idempotency_key (created = false).
+-- p_order: { email, total, currency, shop_currency, exchange_rate, discount_total, discounts,
+--   shipping_line, tax_lines, taxes_included, shipping_address, billing_address }
+-- p_items: [{ product_id, variant_id, quantity, price }]
+-- p_promotions: [{ id, usage_limit?, per_customer_limit? }], as for redeem_promotions
+-- The initial order_status_history row is written by trg_record_order_created in the same
+-- transaction. Raises OG409 when the key belongs to another customer's order and OG410 when a
+-- promotion limit was reached; either way nothing is written.
+CREATE OR REPLACE FUNCTION public.place_order(p_idempotency_key text, p_user_id uuid, p_anonymous_cart_id uuid, p_order jsonb, p_items jsonb, p_promotions jsonb DEFAULT '[]'::jsonb)
+ RETURNS TABLE(order_id uuid, order_number text, created boolean)
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+DECLARE
+    v_existing public.orders%ROWTYPE;
+    v_order_id uuid;
+    v_order_number text;
+BEGIN
+    IF p_idempotency_key IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'An idempotency key and at least one item are required';
+    END IF;
+
+    -- Double submits wait for the first to commit, then find its order
+    PERFORM pg_advisory_xact_lock(hashtext('order:' || p_idempotency_key));
+
+    SELECT * INTO v_existing FROM public.orders WHERE idempotency_key = p_idempotency_key;
+    IF FOUND THEN
+        IF v_existing.user_id IS DISTINCT FROM p_user_id THEN
+            RAISE EXCEPTION 'Idempotency key belongs to another order' USING ERRCODE = 'OG409';
+        END IF;
+        RETURN QUERY SELECT v_existing.id, v_existing.order_number, false;
+        RETURN;
+    END IF;
+
+    -- Reserve the carts being checked out so concurrent checkouts of them run one at a time
+    PERFORM 1 FROM public.carts WHERE user_id = p_user_id FOR UPDATE;
+    PERFORM 1 FROM public.anonymous_carts WHERE id = p_anonymous_cart_id FOR UPDATE;
+
+    INSERT INTO public.orders (
+        user_id, anonymous_cart_id, idempotency_key, email, status, total,
+        currency, shop_currency, exchange_rate, discount_total, discounts,
+        shipping_line, tax_lines, taxes_included, shipping_address, billing_address
+    )
+    VALUES (
+        p_user_id, p_anonymous_cart_id, p_idempotency_key, lower(p_order->>'email'), 'pending', (p_order->>'total')::numeric,
+        COALESCE(p_order->>'currency', 'USD'), COALESCE(p_order->>'shop_currency', 'USD'),
+        COALESCE((p_order->>'exchange_rate')::numeric, 1), COALESCE((p_order->>'discount_total')::numeric, 0),
+        COALESCE(p_order->'discounts', '[]'::jsonb), NULLIF(p_order->'shipping_line', 'null'::jsonb),
+        COALESCE(p_order->'tax_lines', '[]'::jsonb), COALESCE((p_order->>'taxes_included')::boolean, false),
+        NULLIF(p_order->'shipping_address', 'null'::jsonb), NULLIF(p_order->'billing_address', 'null'::jsonb)
+    )
+    RETURNING id, orders.order_number INTO v_order_id, v_order_number;
+
+    INSERT INTO public.order_items (order_id, product_id, variant_id, quantity, price)
+    SELECT v_order_id, i.product_id, i.variant_id, i.quantity, i.price
+    FROM jsonb_to_recordset(p_items) AS i(product_id integer, variant_id integer, quantity integer, price numeric);
+
+    IF jsonb_array_length(p_promotions) > 0
+       AND NOT public.redeem_promotions(v_order_id, p_order->>'email', p_user_id, p_promotions) THEN
+        RAISE EXCEPTION 'Promotion usage limit reached' USING ERRCODE = 'OG410';
+    END IF;
+
+    DELETE FROM public.cart_items
+    WHERE cart_id IN (SELECT id FROM public.carts WHERE user_id = p_user_id);
+    DELETE FROM public.anonymous_cart_items WHERE cart_id = p_anonymous_cart_id;
+
+    RETURN QUERY SELECT v_order_id, v_order_number, true;
+END;
+ $function$
+;
+
+REVOKE ALL ON FUNCTION public.place_order(text, uuid, uuid, jsonb, jsonb, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.place_order(text, uuid, uuid, jsonb, jsonb, jsonb) TO service_role;
@@ -0,0 +1,104 @@
+-- Cart merge: when a guest signs in, their cart's lines join the customer's cart, the anonymous
+-- cart is marked converted and its remarketing attribution is kept on the customer's cart
+
+ALTER TABLE public.carts
+    ADD COLUMN anonymous_cart_id uuid,
+    ADD COLUMN utm_source text,
+    ADD COLUMN utm_medium text,
+    ADD COLUMN utm_campaign text,
+    ADD COLUMN referrer text;
+
+ALTER TABLE public.carts ADD CONSTRAINT carts_anonymous_cart_id_fkey FOREIGN KEY (anonymous_cart_id) REFERENCES anonymous_carts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.anonymous_carts
+    ADD COLUMN converted_user_id uuid,
+    ADD COLUMN converted_at timestamp with time zone;
+
+ALTER TABLE public.anonymous_carts ADD CONSTRAINT anonymous_carts_converted_user_id_fkey FOREIGN KEY (converted_user_id) REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Merge the guest session p_session_id into p_user_id's cart (created if missing).
+-- p_items: the browser's copy of the guest cart, [{ product_id, variant_id, quantity }]
+-- p_attribution: { utm_source, utm_medium, utm_campaign, referrer }, used where the anonymous
+--   cart has none (or the guest never had one)
+-- Lines combine by product and variant, capped at p_max_quantity. The anonymous cart is marked
+-- converted, so merging the same session again (another tab, a retry) changes nothing and
+-- returns merged = false.
+CREATE OR REPLACE FUNCTION public.merge_anonymous_cart(p_user_id uuid, p_session_id text, p_items jsonb DEFAULT '[]'::jsonb, p_attribution jsonb DEFAULT '{}'::jsonb, p_max_quantity integer DEFAULT 99)
+ RETURNS TABLE(cart_id uuid, merged boolean)
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+#variable_conflict use_column
+-- (cart_id in ON CONFLICT is the cart_items column, not the output column)
+DECLARE
+    v_cart_id uuid;
+    v_anonymous public.anonymous_carts%ROWTYPE;
+BEGIN
+    IF p_user_id IS NULL OR p_session_id IS NULL THEN
+        RAISE EXCEPTION 'A user and a guest session are required';
+    END IF;
+
+    INSERT INTO public.carts (user_id) VALUES (p_user_id) ON CONFLICT (user_id) DO NOTHING;
+    SELECT id INTO v_cart_id FROM public.carts WHERE user_id = p_user_id FOR UPDATE;
+
+    -- A guest who never reached checkout has no anonymous cart yet; one records the conversion
+    INSERT INTO public.anonymous_carts (session_id, utm_source, utm_medium, utm_campaign, referrer)
+    VALUES (
+        p_session_id, p_attribution->>'utm_source', p_attribution->>'utm_medium',
+        p_attribution->>'utm_campaign', p_attribution->>'referrer'
+    )
+    ON CONFLICT (session_id) DO NOTHING;
+    SELECT * INTO v_anonymous FROM public.anonymous_carts WHERE session_id = p_session_id FOR UPDATE;
+
+    IF v_anonymous.status = 'converted' THEN
+        RETURN QUERY SELECT v_cart_id, false;
+        RETURN;
+    END IF;
+
+    -- The stored anonymous cart and the browser's copy describe the same cart, so a line in both
+    -- counts once, at its larger quantity
+    INSERT INTO public.cart_items AS ci (cart_id, product_id, variant_id, quantity)
+    SELECT v_cart_id, g.product_id, g.variant_id, LEAST(MAX(g.quantity), p_max_quantity)
+    FROM (
+        SELECT aci.product_id, aci.variant_id, aci.quantity
+        FROM public.anonymous_cart_items aci
+        WHERE aci.cart_id = v_anonymous.id
+        UNION ALL
+        SELECT i.product_id, i.variant_id, i.quantity
+        FROM jsonb_to_recordset(p_items) AS i(product_id integer, variant_id integer, quantity integer)
+    ) g
+    WHERE g.quantity > 0
+    GROUP BY g.product_id, g.variant_id
+    ON CONFLICT (cart_id, product_id, (COALESCE(variant_id, 0)))
+    DO UPDATE SET quantity = LEAST(ci.quantity + EXCLUDED.quantity, p_max_quantity), updated_at = now();
+
+    UPDATE public.anonymous_carts
+    SET status = 'converted',
+        converted_user_id = p_user_id,
+        converted_at = now(),
+        utm_source = COALESCE(utm_source, p_attribution->>'utm_source'),
+        utm_medium = COALESCE(utm_medium, p_attribution->>'utm_medium'),
+        utm_campaign = COALESCE(utm_campaign, p_attribution->>'utm_campaign'),
+        referrer = COALESCE(referrer, p_attribution->>'referrer'),
+        updated_at = now()
+    WHERE id = v_anonymous.id
+    RETURNING * INTO v_anonymous;
+
+    -- First touch wins: a cart keeps the attribution of the first guest session merged into it
+    UPDATE public.carts
+    SET anonymous_cart_id = v_anonymous.id,
+        utm_source = v_anonymous.utm_source,
+        utm_medium = v_anonymous.utm_medium,
+        utm_campaign = v_anonymous.utm_campaign,
+        referrer = v_anonymous.referrer
+    WHERE id = v_cart_id AND anonymous_cart_id IS NULL;
+
+    UPDATE public.carts SET updated_at = now() WHERE id = v_cart_id;
+
+    RETURN QUERY SELECT v_cart_id, true;
+END;
+ $function$
+;
+
+REVOKE ALL ON FUNCTION public.merge_anonymous_cart(uuid, text, jsonb, jsonb, integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_anonymous_cart(uuid, text, jsonb, jsonb, integer) TO service_role;
@@ -0,0 +1,55 @@
+-- Cart API: the customer's discount code, order note and buyer email on the cart, and atomic
+-- line writes for adding to a line and replacing every line
+
+ALTER TABLE public.carts
+    ADD COLUMN discount_code text,
+    ADD COLUMN note text,
+    ADD COLUMN email text;
+
+ALTER TABLE public.carts ADD CONSTRAINT carts_email_valid CHECK (((email IS NULL) OR (email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$'::text)));
+
+ALTER TABLE public.carts ADD CONSTRAINT carts_note_length CHECK (((note IS NULL) OR (char_length(note) <= 1000)));
+
+-- Add p_quantity of a product variant to a cart, capped at p_max_quantity per line
+CREATE OR REPLACE FUNCTION public.add_cart_item(p_cart_id uuid, p_product_id integer, p_variant_id integer, p_quantity integer, p_max_quantity integer DEFAULT 99)
+ RETURNS void
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+    INSERT INTO public.cart_items AS ci (cart_id, product_id, variant_id, quantity)
+    VALUES (p_cart_id, p_product_id, p_variant_id, LEAST(p_quantity, p_max_quantity))
+    ON CONFLICT (cart_id, product_id, (COALESCE(variant_id, 0)))
+    DO UPDATE SET quantity = LEAST(ci.quantity + EXCLUDED.quantity, p_max_quantity), updated_at = now();
+
+    UPDATE public.carts SET updated_at = now() WHERE id = p_cart_id;
+END;
+ $function$
+;
+
+-- Replace every line of a cart with p_items: [{ product_id, variant_id, quantity }]
+-- (one line per product variant)
+CREATE OR REPLACE FUNCTION public.replace_cart_items(p_cart_id uuid, p_items jsonb)
+ RETURNS void
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+    PERFORM 1 FROM public.carts WHERE id = p_cart_id FOR UPDATE;
+
+    DELETE FROM public.cart_items WHERE cart_id = p_cart_id;
+
+    INSERT INTO public.cart_items (cart_id, product_id, variant_id, quantity)
+    SELECT p_cart_id, i.product_id, i.variant_id, i.quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id integer, variant_id integer, quantity integer);
+
+    UPDATE public.carts SET updated_at = now() WHERE id = p_cart_id;
+END;
+ $function$
+;
+
+REVOKE ALL ON FUNCTION public.add_cart_item(uuid, integer, integer, integer, integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_cart_item(uuid, integer, integer, integer, integer) TO service_role;
+
+REVOKE ALL ON FUNCTION public.replace_cart_items(uuid, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_cart_items(uuid, jsonb) TO service_role;
@@ -0,0 +1,118 @@
+-- Guest carts behind the cart API: the server keeps each guest's cart under the session in their
+-- signed HttpOnly cookie and reads and writes it with the service role, so browsers lose their
+-- direct access to anonymous carts. Guest carts get the customer cart's discount code and note,
+-- one line per product variant, and atomic line writes.
+
+ALTER TABLE public.anonymous_carts
+    ADD COLUMN discount_code text,
+    ADD COLUMN note text;
+
+ALTER TABLE public.anonymous_carts ADD CONSTRAINT anonymous_carts_note_length CHECK (((note IS NULL) OR (char_length(note) <= 1000)));
+
+-- Combine repeated lines into the earliest one before making lines unique
+WITH ranked AS (
+    SELECT id,
+           SUM(quantity) OVER w AS total_quantity,
+           row_number() OVER (w ORDER BY added_at, id) AS position
+    FROM public.anonymous_cart_items
+    WINDOW w AS (PARTITION BY cart_id, product_id, COALESCE(variant_id, 0))
+)
+UPDATE public.anonymous_cart_items aci
+SET quantity = ranked.total_quantity
+FROM ranked
+WHERE aci.id = ranked.id AND ranked.position = 1 AND aci.quantity <> ranked.total_quantity;
+
+WITH ranked AS (
+    SELECT id,
+           row_number() OVER (PARTITION BY cart_id, product_id, COALESCE(variant_id, 0) ORDER BY added_at, id) AS position
+    FROM public.anonymous_cart_items
+)
+DELETE FROM public.anonymous_cart_items aci
+USING ranked
+WHERE aci.id = ranked.id AND ranked.position > 1;
+
+CREATE UNIQUE INDEX anonymous_cart_items_line_key ON public.anonymous_cart_items USING btree (cart_id, product_id, (COALESCE(variant_id, 0)));
+
+-- Add a line to a guest cart, or add to the line, capped at p_max_quantity.
+-- p_item: { product_id, variant_id, quantity, product_title, product_image, price }, the catalog's
+--   current title, image and price, which the line keeps for remarketing
+-- Any change keeps the cart from expiring for another 7 days and revives an abandoned cart.
+CREATE OR REPLACE FUNCTION public.add_anonymous_cart_item(p_cart_id uuid, p_item jsonb, p_max_quantity integer DEFAULT 99)
+ RETURNS void
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+    INSERT INTO public.anonymous_cart_items AS aci (cart_id, product_id, variant_id, product_title, product_image, price, quantity)
+    SELECT p_cart_id, i.product_id, i.variant_id, i.product_title, i.product_image, i.price, LEAST(i.quantity, p_max_quantity)
+    FROM jsonb_to_record(p_item) AS i(product_id integer, variant_id integer, product_title text, product_image text, price numeric, quantity integer)
+    ON CONFLICT (cart_id, product_id, (COALESCE(variant_id, 0)))
+    DO UPDATE SET quantity = LEAST(aci.quantity + EXCLUDED.quantity, p_max_quantity),
+                  product_title = EXCLUDED.product_title,
+                  product_image = EXCLUDED.product_image,
+                  price = EXCLUDED.price,
+                  updated_at = now();
+
+    UPDATE public.anonymous_carts
+    SET updated_at = now(),
+        expires_at = now() + '7 days'::interval,
+        status = CASE WHEN status = 'abandoned' THEN 'active' ELSE status END
+    WHERE id = p_cart_id;
+END;
+ $function$
+;
+
+-- Replace every line of a guest cart with p_items, each shaped like add_anonymous_cart_item's
+-- p_item (one line per product variant)
+CREATE OR REPLACE FUNCTION public.replace_anonymous_cart_items(p_cart_id uuid, p_items jsonb)
+ RETURNS void
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+    PERFORM 1 FROM public.anonymous_carts WHERE id = p_cart_id FOR UPDATE;
+
+    DELETE FROM public.anonymous_cart_items WHERE cart_id = p_cart_id;
+
+    INSERT INTO public.anonymous_cart_items (cart_id, product_id, variant_id, product_title, product_image, price, quantity)
+    SELECT p_cart_id, i.product_id, i.variant_id, i.product_title, i.product_image, i.price, i.quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id integer, variant_id integer, product_title text, product_image text, price numeric, quantity integer);
+
+    UPDATE public.anonymous_carts
+    SET updated_at = now(),
+        expires_at = now() + '7 days'::interval,
+        status = CASE WHEN status = 'abandoned' THEN 'active' ELSE status END
+    WHERE id = p_cart_id;
+END;
+ $function$
+;
+
+REVOKE ALL ON FUNCTION public.add_anonymous_cart_item(uuid, jsonb, integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_anonymous_cart_item(uuid, jsonb, integer) TO service_role;
+
+REVOKE ALL ON FUNCTION public.replace_anonymous_cart_items(uuid, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_anonymous_cart_items(uuid, jsonb) TO service_role;
+
+-- Anyone could read or change any session's cart through these; only the service role remains
+DROP POLICY "Allow access to cart items by session" ON public.anonymous_cart_items;
+DROP POLICY "Allow anonymous access to own cart" ON public.anonymous_carts;
+DROP POLICY "Allow public access with session check" ON public.anonymous_carts;
+
+REVOKE ALL ON TABLE public.anonymous_carts FROM anon, authenticated;
+REVOKE ALL ON TABLE public.anonymous_cart_items FROM anon, authenticated;
+
+-- The session-keyed functions trusted whatever session id the caller passed
+REVOKE ALL ON FUNCTION public.get_cart_by_session(text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_cart_by_session(text) TO service_role;
+
+REVOKE ALL ON FUNCTION public.recover_abandoned_cart(text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recover_abandoned_cart(text) TO service_role;
+
+REVOKE ALL ON FUNCTION public.migrate_anonymous_to_user_cart(text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.migrate_anonymous_to_user_cart(text, uuid) TO service_role;
+
+REVOKE ALL ON FUNCTION public.create_anonymous_order(uuid, jsonb, jsonb, text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_anonymous_order(uuid, jsonb, jsonb, text, text) TO service_role;
+
+REVOKE ALL ON FUNCTION public.mark_abandoned_carts(integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_abandoned_carts(integer) TO service_role;
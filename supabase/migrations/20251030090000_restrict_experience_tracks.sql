@@ -0,0 +1,8 @@
+-- Analytics events are written only by /api/analytics/events with the service
+-- role, which checks consent, rate-limits and adds the server-side context.
+-- Browsers could insert anything directly, and every signed-in user could read
+-- and change every visitor's events.
+DROP POLICY "Allow anonymous access to experience_tracks" ON public.experience_tracks;
+DROP POLICY "Allow authenticated access to experience_tracks" ON public.experience_tracks;
+
+REVOKE ALL ON TABLE public.experience_tracks FROM anon, authenticated;
@@ -0,0 +1,69 @@
+-- Web vitals reports from lib/web-vitals.ts, one row per sampled page load.
+-- Rows are grouped by route template (/products/[handle]) and by release (the
+-- deployed commit) so a deploy can be compared with the one before it.
+ALTER TABLE public.performance_metrics
+    ADD COLUMN route text,
+    ADD COLUMN release text,
+    ADD COLUMN inp numeric(8,2),
+    ADD COLUMN device_type text,
+    ADD COLUMN navigation_type text;
+
+CREATE INDEX idx_performance_metrics_release_route ON public.performance_metrics USING btree (release, route);
+
+-- Releases with reports, newest deploy first
+CREATE OR REPLACE FUNCTION public.performance_releases(p_limit integer DEFAULT 10)
+ RETURNS TABLE(release text, first_seen timestamp with time zone, last_seen timestamp with time zone, samples bigint)
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $function$
+    SELECT m.release, min(m.created_at), max(m.created_at), count(*)
+    FROM performance_metrics m
+    WHERE m.route IS NOT NULL
+    GROUP BY m.release
+    ORDER BY min(m.created_at) DESC
+    LIMIT p_limit;
+$function$
+;
+
+-- p50/p75/p95 of each vital per route for one release (NULL: reports without one)
+CREATE OR REPLACE FUNCTION public.performance_route_percentiles(p_release text)
+ RETURNS TABLE(route text, page_loads bigint, metric text, samples bigint, p50 numeric, p75 numeric, p95 numeric)
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $function$
+    WITH loads AS (
+        SELECT m.*, count(*) OVER (PARTITION BY m.route) AS page_loads
+        FROM performance_metrics m
+        WHERE m.route IS NOT NULL
+          AND m.release IS NOT DISTINCT FROM p_release
+    )
+    SELECT l.route,
+           l.page_loads,
+           v.metric,
+           count(*),
+           round(percentile_cont(0.5) WITHIN GROUP (ORDER BY v.value)::numeric, 4),
+           round(percentile_cont(0.75) WITHIN GROUP (ORDER BY v.value)::numeric, 4),
+           round(percentile_cont(0.95) WITHIN GROUP (ORDER BY v.value)::numeric, 4)
+    FROM loads l
+    CROSS JOIN LATERAL (
+        VALUES ('lcp', l.lcp), ('inp', l.inp), ('cls', l.cls),
+               ('fcp', l.fcp), ('ttfb', l.ttfb), ('fid', l.fid)
+    ) AS v(metric, value)
+    WHERE v.value IS NOT NULL
+    GROUP BY l.route, l.page_loads, v.metric;
+$function$
+;
+
+REVOKE ALL ON FUNCTION public.performance_releases(integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.performance_releases(integer) TO service_role;
+
+REVOKE ALL ON FUNCTION public.performance_route_percentiles(text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.performance_route_percentiles(text) TO service_role;
+
+-- Reports are written only by /api/analytics/vitals; every signed-in user
+-- could read and change every visitor's rows
+DROP POLICY "Allow authenticated access to performance_metrics" ON public.performance_metrics;
+
+REVOKE ALL ON TABLE public.performance_metrics FROM anon, authenticated;
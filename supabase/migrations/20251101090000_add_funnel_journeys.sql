@@ -0,0 +1,201 @@
+-- Conversion funnels (lib/utils/funnel-utils.ts) recorded by lib/journeys.ts.
+-- Each row is a step a journey reached; journey_id groups one pass through a
+-- funnel. A step that isn't followed by the next one before step_expires_at
+-- is marked dropped_off, and the last step of a funnel marks it completed.
+ALTER TABLE public.user_journeys
+    ADD COLUMN journey_id uuid,
+    ADD COLUMN step_expires_at timestamp with time zone,
+    ADD COLUMN cart_session_id text,
+    ADD COLUMN utm_source text,
+    ADD COLUMN utm_campaign text;
+
+ALTER TABLE public.user_journeys DROP CONSTRAINT user_journeys_journey_type_check;
+ALTER TABLE public.user_journeys
+ADD CONSTRAINT user_journeys_journey_type_check CHECK ((journey_type = ANY (ARRAY['product_discovery'::text, 'purchase_funnel'::text, 'buy_now_funnel'::text, 'onboarding'::text, 'support'::text, 'content_engagement'::text])));
+
+CREATE INDEX idx_user_journeys_journey_id ON public.user_journeys USING btree (journey_id, step_order);
+CREATE INDEX idx_user_journeys_order_id ON public.user_journeys USING btree ((properties->>'order_id')) WHERE (properties ? 'order_id');
+CREATE INDEX idx_user_journeys_open ON public.user_journeys USING btree (step_expires_at) WHERE (NOT completed AND NOT dropped_off);
+
+-- Record a step for a visitor, matched by session, anonymous id or user.
+-- Continues the visitor's open journey when this step is further along, and
+-- starts a new journey otherwise; steps the journey already passed are
+-- ignored. Returns the journey id.
+CREATE OR REPLACE FUNCTION public.record_journey_step(
+    p_journey_type text,
+    p_step text,
+    p_step_order integer,
+    p_final boolean,
+    p_expires_at timestamp with time zone,
+    p_session_id text,
+    p_anonymous_id text,
+    p_user_id uuid,
+    p_cart_session_id text,
+    p_utm_source text,
+    p_utm_campaign text,
+    p_page_url text,
+    p_conversion_value numeric,
+    p_properties jsonb
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+DECLARE
+    v_last public.user_journeys%ROWTYPE;
+    v_journey_id uuid;
+BEGIN
+    -- One step at a time per visitor, so concurrent batches can't fork a journey
+    PERFORM pg_advisory_xact_lock(hashtext(p_journey_type || ':' || coalesce(p_anonymous_id, p_session_id, p_user_id::text, '')));
+
+    SELECT * INTO v_last
+    FROM public.user_journeys j
+    WHERE j.journey_type = p_journey_type
+      AND j.journey_id IS NOT NULL
+      AND ((p_session_id IS NOT NULL AND j.session_id = p_session_id)
+        OR (p_anonymous_id IS NOT NULL AND j.anonymous_id = p_anonymous_id)
+        OR (p_user_id IS NOT NULL AND j.user_id = p_user_id))
+    ORDER BY j.created_at DESC
+    LIMIT 1;
+
+    IF FOUND AND NOT v_last.completed AND NOT v_last.dropped_off AND v_last.step_expires_at > now() THEN
+        IF p_step_order <= v_last.step_order THEN
+            RETURN v_last.journey_id;
+        END IF;
+        v_journey_id := v_last.journey_id;
+    ELSE
+        IF FOUND AND NOT v_last.completed AND NOT v_last.dropped_off THEN
+            UPDATE public.user_journeys SET dropped_off = true WHERE id = v_last.id;
+        END IF;
+        v_last := NULL;
+        v_journey_id := gen_random_uuid();
+    END IF;
+
+    INSERT INTO public.user_journeys (
+        journey_id, journey_type, journey_step, step_order, session_id, anonymous_id,
+        user_id, cart_session_id, utm_source, utm_campaign, page_url, time_spent,
+        completed, step_expires_at, conversion_value, properties
+    ) VALUES (
+        v_journey_id, p_journey_type, p_step, p_step_order,
+        coalesce(p_session_id, v_last.session_id),
+        coalesce(p_anonymous_id, v_last.anonymous_id),
+        coalesce(p_user_id, v_last.user_id),
+        coalesce(p_cart_session_id, v_last.cart_session_id),
+        coalesce(v_last.utm_source, p_utm_source),
+        coalesce(v_last.utm_campaign, p_utm_campaign),
+        p_page_url,
+        extract(epoch FROM now() - v_last.created_at)::integer,
+        p_final,
+        CASE WHEN p_final THEN NULL ELSE p_expires_at END,
+        p_conversion_value,
+        coalesce(p_properties, '{}'::jsonb)
+    );
+
+    RETURN v_journey_id;
+END;
+ $function$
+;
+
+-- Mark journeys whose last step timed out as dropped off there
+CREATE OR REPLACE FUNCTION public.mark_dropped_journeys()
+ RETURNS integer
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+DECLARE
+    v_count integer;
+BEGIN
+    UPDATE public.user_journeys j
+    SET dropped_off = true
+    WHERE NOT j.completed
+      AND NOT j.dropped_off
+      AND j.step_expires_at < now()
+      AND NOT EXISTS (
+          SELECT 1 FROM public.user_journeys n
+          WHERE n.journey_id = j.journey_id AND n.step_order > j.step_order
+      );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+ $function$
+;
+
+-- Journeys started in the window that reached each step, per first-touch
+-- source and campaign. A guest's cart (anonymous_carts) supplies the UTM
+-- values when the journey has one; the journey's own attribution otherwise.
+CREATE OR REPLACE FUNCTION public.funnel_conversion_by_source(
+    p_journey_type text,
+    p_steps integer,
+    p_since timestamp with time zone,
+    p_until timestamp with time zone DEFAULT now()
+)
+ RETURNS TABLE(utm_source text, utm_campaign text, step_order integer, journeys bigint, dropped_off bigint, conversion_value numeric)
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $function$
+    WITH journeys AS (
+        SELECT
+            j.journey_id,
+            max(j.step_order) AS reached,
+            bool_or(j.dropped_off) AS dropped,
+            max(j.conversion_value) AS value,
+            (array_agg(j.cart_session_id ORDER BY j.created_at) FILTER (WHERE j.cart_session_id IS NOT NULL))[1] AS cart_session_id,
+            (array_agg(j.utm_source ORDER BY j.created_at) FILTER (WHERE j.utm_source IS NOT NULL))[1] AS utm_source,
+            (array_agg(j.utm_campaign ORDER BY j.created_at) FILTER (WHERE j.utm_campaign IS NOT NULL))[1] AS utm_campaign
+        FROM user_journeys j
+        WHERE j.journey_type = p_journey_type
+          AND j.journey_id IS NOT NULL
+        GROUP BY j.journey_id
+        HAVING min(j.created_at) >= p_since AND min(j.created_at) < p_until
+    ),
+    sourced AS (
+        SELECT
+            jr.*,
+            coalesce(c.utm_source, jr.utm_source) AS source,
+            coalesce(c.utm_campaign, jr.utm_campaign) AS campaign
+        FROM journeys jr
+        LEFT JOIN LATERAL (
+            SELECT ac.utm_source, ac.utm_campaign
+            FROM anonymous_carts ac
+            WHERE ac.session_id = jr.cart_session_id
+            ORDER BY ac.created_at
+            LIMIT 1
+        ) c ON true
+    )
+    SELECT
+        s.source,
+        s.campaign,
+        step.n,
+        count(*) FILTER (WHERE s.reached >= step.n),
+        count(*) FILTER (WHERE s.reached = step.n AND s.dropped),
+        coalesce(sum(s.value) FILTER (WHERE s.reached >= step.n), 0)
+    FROM sourced s
+    CROSS JOIN generate_series(1, p_steps) AS step(n)
+    GROUP BY s.source, s.campaign, step.n;
+$function$
+;
+
+REVOKE ALL ON FUNCTION public.record_journey_step(text, text, integer, boolean, timestamp with time zone, text, text, uuid, text, text, text, text, numeric, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_journey_step(text, text, integer, boolean, timestamp with time zone, text, text, uuid, text, text, text, text, numeric, jsonb) TO service_role;
+
+REVOKE ALL ON FUNCTION public.mark_dropped_journeys() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_dropped_journeys() TO service_role;
+
+REVOKE ALL ON FUNCTION public.funnel_conversion_by_source(text, integer, timestamp with time zone, timestamp with time zone) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.funnel_conversion_by_source(text, integer, timestamp with time zone, timestamp with time zone) TO service_role;
+
+-- Journeys are written only by the server; every signed-in user could read
+-- and change every visitor's rows
+DROP POLICY "Allow authenticated access to user_journeys" ON public.user_journeys;
+
+REVOKE ALL ON TABLE public.user_journeys FROM anon, authenticated;
+
+-- Sweep drop-offs every 15 minutes where pg_cron is available
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('mark-dropped-journeys', '*/15 * * * *', 'SELECT public.mark_dropped_journeys()');
+    END IF;
+END;
+$$;
@@ -0,0 +1,188 @@
+-- Abandoned guest cart recovery (lib/cart-recovery.ts): a scheduled job marks carts idle past a
+-- threshold abandoned, emails guests who gave an email a sequence of restore-cart links, and
+-- expires carts past expires_at. The sequence stops once the cart converts: merged into a
+-- customer's cart on sign-in (status 'converted'), or checked out through a Shopify invoice
+-- (converted_at) and its lines not changed since.
+--
+-- updated_at moves with every write to the row (trigger_update_anonymous_carts_updated_at),
+-- including this job's own, so the guest's last change to the lines is kept in
+-- items_changed_at, written only by the trigger on anonymous_cart_items below.
+ALTER TABLE public.anonymous_carts
+    ADD COLUMN abandoned_at timestamp with time zone,
+    ADD COLUMN recovery_emails_sent integer NOT NULL DEFAULT 0,
+    ADD COLUMN last_recovery_email_at timestamp with time zone,
+    ADD COLUMN items_changed_at timestamp with time zone;
+
+UPDATE public.anonymous_carts SET items_changed_at = updated_at;
+
+ALTER TABLE public.anonymous_carts
+    ALTER COLUMN items_changed_at SET DEFAULT now(),
+    ALTER COLUMN items_changed_at SET NOT NULL;
+
+CREATE INDEX idx_anonymous_carts_idle ON public.anonymous_carts USING btree (items_changed_at) WHERE (status = 'active'::text);
+CREATE INDEX idx_anonymous_carts_recovery ON public.anonymous_carts USING btree (abandoned_at) WHERE ((status = 'abandoned'::text) AND (email IS NOT NULL));
+CREATE INDEX idx_anonymous_carts_expires_at ON public.anonymous_carts USING btree (expires_at) WHERE (status = ANY (ARRAY['active'::text, 'abandoned'::text]));
+
+-- Record a change to a cart's lines, and make an abandoned cart active again so its email
+-- sequence stops (and starts over if it is left again)
+CREATE OR REPLACE FUNCTION public.track_anonymous_cart_items_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+    UPDATE public.anonymous_carts
+    SET items_changed_at = now(),
+        status = CASE WHEN status = 'abandoned' THEN 'active' ELSE status END
+    WHERE id = COALESCE(NEW.cart_id, OLD.cart_id);
+
+    RETURN NULL;
+END;
+ $function$
+;
+
+CREATE TRIGGER trigger_track_anonymous_cart_items_change AFTER INSERT OR DELETE OR UPDATE OF quantity, product_id, variant_id ON public.anonymous_cart_items FOR EACH ROW EXECUTE FUNCTION track_anonymous_cart_items_change();
+
+-- Mark active carts with lines that haven't changed for abandonment_minutes abandoned
+CREATE OR REPLACE FUNCTION public.mark_abandoned_carts(abandonment_minutes integer DEFAULT 30)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+DECLARE
+    v_count integer;
+BEGIN
+    UPDATE public.anonymous_carts c
+    SET status = 'abandoned',
+        abandoned_at = now(),
+        recovery_emails_sent = 0
+    WHERE c.status = 'active'
+      AND c.items_changed_at < now() - (abandonment_minutes * interval '1 minute')
+      AND (c.converted_at IS NULL OR c.items_changed_at > c.converted_at)
+      AND EXISTS (SELECT 1 FROM public.anonymous_cart_items i WHERE i.cart_id = c.id);
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+ $function$
+;
+
+-- Expire active and abandoned carts past expires_at and drop their lines. The row stays, with
+-- its attribution, and comes back to life if the guest adds to it again.
+CREATE OR REPLACE FUNCTION public.expire_anonymous_carts()
+ RETURNS integer
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+DECLARE
+    v_count integer;
+BEGIN
+    WITH expired AS (
+        UPDATE public.anonymous_carts
+        SET status = 'expired'
+        WHERE status IN ('active', 'abandoned')
+          AND expires_at < now()
+        RETURNING id
+    ),
+    dropped AS (
+        DELETE FROM public.anonymous_cart_items
+        WHERE cart_id IN (SELECT id FROM expired)
+    )
+    SELECT count(*) INTO v_count FROM expired;
+
+    RETURN v_count;
+END;
+ $function$
+;
+
+-- Abandoned carts with an email and lines whose next recovery email is due, longest overdue
+-- first. p_delays_hours: hours after abandonment each email of the sequence goes out
+CREATE OR REPLACE FUNCTION public.cart_recovery_candidates(p_delays_hours integer[], p_limit integer DEFAULT 50)
+ RETURNS TABLE(id uuid, email text, discount_code text, recovery_emails_sent integer)
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $function$
+    SELECT c.id, c.email, c.discount_code, c.recovery_emails_sent
+    FROM anonymous_carts c
+    WHERE c.status = 'abandoned'
+      AND c.email IS NOT NULL
+      AND c.abandoned_at + p_delays_hours[c.recovery_emails_sent + 1] * interval '1 hour' <= now()
+      AND (c.converted_at IS NULL OR c.items_changed_at > c.converted_at)
+      AND EXISTS (SELECT 1 FROM anonymous_cart_items i WHERE i.cart_id = c.id)
+    ORDER BY c.abandoned_at + p_delays_hours[c.recovery_emails_sent + 1] * interval '1 hour'
+    LIMIT p_limit;
+$function$
+;
+
+-- As in 20251029090000_add_guest_cart_sessions.sql, but a change also revives an expired cart
+CREATE OR REPLACE FUNCTION public.add_anonymous_cart_item(p_cart_id uuid, p_item jsonb, p_max_quantity integer DEFAULT 99)
+ RETURNS void
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+    INSERT INTO public.anonymous_cart_items AS aci (cart_id, product_id, variant_id, product_title, product_image, price, quantity)
+    SELECT p_cart_id, i.product_id, i.variant_id, i.product_title, i.product_image, i.price, LEAST(i.quantity, p_max_quantity)
+    FROM jsonb_to_record(p_item) AS i(product_id integer, variant_id integer, product_title text, product_image text, price numeric, quantity integer)
+    ON CONFLICT (cart_id, product_id, (COALESCE(variant_id, 0)))
+    DO UPDATE SET quantity = LEAST(aci.quantity + EXCLUDED.quantity, p_max_quantity),
+                  product_title = EXCLUDED.product_title,
+                  product_image = EXCLUDED.product_image,
+                  price = EXCLUDED.price,
+                  updated_at = now();
+
+    UPDATE public.anonymous_carts
+    SET updated_at = now(),
+        expires_at = now() + '7 days'::interval,
+        status = CASE WHEN status IN ('abandoned', 'expired') THEN 'active' ELSE status END
+    WHERE id = p_cart_id;
+END;
+ $function$
+;
+
+CREATE OR REPLACE FUNCTION public.replace_anonymous_cart_items(p_cart_id uuid, p_items jsonb)
+ RETURNS void
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+    PERFORM 1 FROM public.anonymous_carts WHERE id = p_cart_id FOR UPDATE;
+
+    DELETE FROM public.anonymous_cart_items WHERE cart_id = p_cart_id;
+
+    INSERT INTO public.anonymous_cart_items (cart_id, product_id, variant_id, product_title, product_image, price, quantity)
+    SELECT p_cart_id, i.product_id, i.variant_id, i.product_title, i.product_image, i.price, i.quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id integer, variant_id integer, product_title text, product_image text, price numeric, quantity integer);
+
+    UPDATE public.anonymous_carts
+    SET updated_at = now(),
+        expires_at = now() + '7 days'::interval,
+        status = CASE WHEN status IN ('abandoned', 'expired') THEN 'active' ELSE status END
+    WHERE id = p_cart_id;
+END;
+ $function$
+;
+
+REVOKE ALL ON FUNCTION public.track_anonymous_cart_items_change() FROM public, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.mark_abandoned_carts(integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_abandoned_carts(integer) TO service_role;
+
+REVOKE ALL ON FUNCTION public.expire_anonymous_carts() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_anonymous_carts() TO service_role;
+
+REVOKE ALL ON FUNCTION public.cart_recovery_candidates(integer[], integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cart_recovery_candidates(integer[], integer) TO service_role;
+
+-- cleanup_expired_carts deletes carts outright, and /api/cron/cart-recovery now marks and
+-- expires them; drop the pg_cron jobs schedule_cart_cleanup_jobs may have created
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.unschedule(jobid)
+        FROM cron.job
+        WHERE jobname IN ('mark-abandoned-carts', 'cleanup-expired-carts');
+    END IF;
+END;
+$$;
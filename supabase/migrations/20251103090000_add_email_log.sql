@@ -0,0 +1,61 @@
+-- Transactional email queue and log (lib/email-queue.ts). Every email is rendered and written here
+-- before it is sent; a failed send stays queued and is retried with backoff by /api/cron/emails
+-- until it goes out or runs out of attempts ('failed'). Rows are kept for
+-- EMAIL_QUEUE.RETENTION_DAYS so support can see what a customer was sent.
+CREATE TABLE public.email_log (
+    id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    template text NOT NULL,
+    recipient text NOT NULL,
+    subject text NOT NULL,
+    html text NOT NULL,
+    text text NOT NULL,
+    status text NOT NULL DEFAULT 'queued',
+    attempts integer NOT NULL DEFAULT 0,
+    next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+    last_error text,
+    transport text,
+    idempotency_key text,
+    sent_at timestamp with time zone,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+    CONSTRAINT email_log_status_check CHECK (status = ANY (ARRAY['queued'::text, 'sending'::text, 'sent'::text, 'failed'::text]))
+);
+
+-- One email per key, e.g. order_confirmation:<order id>; emails without a key never collide
+CREATE UNIQUE INDEX email_log_idempotency_key_key ON public.email_log USING btree (idempotency_key);
+CREATE INDEX idx_email_log_due ON public.email_log USING btree (next_attempt_at) WHERE (status = ANY (ARRAY['queued'::text, 'sending'::text]));
+CREATE INDEX idx_email_log_recipient ON public.email_log USING btree (recipient, created_at DESC);
+CREATE INDEX idx_email_log_created_at ON public.email_log USING btree (created_at);
+
+-- No policies: only the service role reads or writes the log
+ALTER TABLE public.email_log ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE public.email_log FROM anon, authenticated;
+
+-- Claim up to p_limit due emails (or just p_id) for sending: each is moved to 'sending' with its
+-- attempt counted. SKIP LOCKED keeps overlapping runs from claiming the same email. An email left
+-- 'sending' for p_sending_timeout_minutes, by a run that died mid-send, is claimed again.
+CREATE OR REPLACE FUNCTION public.claim_emails(p_limit integer DEFAULT 50, p_id uuid DEFAULT NULL, p_sending_timeout_minutes integer DEFAULT 15)
+ RETURNS SETOF public.email_log
+ LANGUAGE sql
+ SET search_path = public
+AS $function$
+    UPDATE email_log e
+    SET status = 'sending',
+        attempts = e.attempts + 1,
+        updated_at = now()
+    WHERE e.id IN (
+        SELECT d.id
+        FROM email_log d
+        WHERE (p_id IS NULL OR d.id = p_id)
+          AND ((d.status = 'queued' AND d.next_attempt_at <= now())
+            OR (d.status = 'sending' AND d.updated_at < now() - (p_sending_timeout_minutes * interval '1 minute')))
+        ORDER BY d.next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING e.*;
+$function$
+;
+
+REVOKE ALL ON FUNCTION public.claim_emails(integer, uuid, integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_emails(integer, uuid, integer) TO service_role;
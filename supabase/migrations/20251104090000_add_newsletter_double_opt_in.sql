@@ -0,0 +1,16 @@
+-- Newsletter double opt-in (lib/newsletter.ts): a signup is stored unconfirmed with the hash of a
+-- token emailed to the address, and confirmed when the emailed link is opened. Signups from before
+-- double opt-in count as confirmed.
+ALTER TABLE public.newsletter_subscriptions
+    ADD COLUMN confirmed_at timestamp with time zone,
+    ADD COLUMN confirmation_token_hash text,
+    ADD COLUMN confirmation_sent_at timestamp with time zone;
+
+UPDATE public.newsletter_subscriptions
+SET confirmed_at = COALESCE(subscribed_at, now());
+
+CREATE UNIQUE INDEX newsletter_subscriptions_confirmation_token_hash_key ON public.newsletter_subscriptions USING btree (confirmation_token_hash);
+
+-- Signups go through the server, which sends the confirmation email
+DROP POLICY IF EXISTS "Public can subscribe to newsletter" ON public.newsletter_subscriptions;
+REVOKE INSERT, UPDATE, DELETE ON TABLE public.newsletter_subscriptions FROM anon, authenticated;
@@ -0,0 +1,37 @@
+-- Abandoned cart emails are marketing, so they only go to guests who had accepted marketing
+-- cookies when they gave the cart its email (recovery_consent), and never again to an address
+-- that unsubscribed through one (recovery_opted_out_at, set on every cart with the address).
+-- email_log keeps extra headers, such as List-Unsubscribe, so retries send them too.
+ALTER TABLE public.anonymous_carts
+    ADD COLUMN recovery_consent boolean NOT NULL DEFAULT false,
+    ADD COLUMN recovery_opted_out_at timestamp with time zone;
+
+CREATE INDEX idx_anonymous_carts_recovery_opt_out ON public.anonymous_carts USING btree (email) WHERE (recovery_opted_out_at IS NOT NULL);
+
+ALTER TABLE public.email_log
+    ADD COLUMN headers jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- As in 20251102090000_add_cart_recovery.sql, but only consenting carts whose address hasn't
+-- unsubscribed
+CREATE OR REPLACE FUNCTION public.cart_recovery_candidates(p_delays_hours integer[], p_limit integer DEFAULT 50)
+ RETURNS TABLE(id uuid, email text, discount_code text, recovery_emails_sent integer)
+ LANGUAGE sql
+ STABLE
+ SET search_path = public
+AS $function$
+    SELECT c.id, c.email, c.discount_code, c.recovery_emails_sent
+    FROM anonymous_carts c
+    WHERE c.status = 'abandoned'
+      AND c.email IS NOT NULL
+      AND c.recovery_consent
+      AND c.abandoned_at + p_delays_hours[c.recovery_emails_sent + 1] * interval '1 hour' <= now()
+      AND (c.converted_at IS NULL OR c.items_changed_at > c.converted_at)
+      AND EXISTS (SELECT 1 FROM anonymous_cart_items i WHERE i.cart_id = c.id)
+      AND NOT EXISTS (
+          SELECT 1 FROM anonymous_carts o
+          WHERE o.email = c.email AND o.recovery_opted_out_at IS NOT NULL
+      )
+    ORDER BY c.abandoned_at + p_delays_hours[c.recovery_emails_sent + 1] * interval '1 hour'
+    LIMIT p_limit;
+$function$
+;
@@ -0,0 +1,19 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client that bypasses row level security
+ * Server-side only: use it for lookups that are authorised in application
+ * code (e.g. guest order tracking), never with user-supplied filters alone.
+ */
+export function createAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing Supabase service role environment variables");
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}